@@ -0,0 +1,38 @@
+// Headless SSC balancing simulator.
+//
+//   npm run simulate -- --bot best --runs 200 --levels 15 --seed 1
+//
+// Loads src/sim through Vite's SSR loader so the game code (and its "@/"
+// imports) runs in Node unchanged.
+import { createServer } from 'vite';
+
+function parseArgs(argv) {
+  const args = { bot: 'best', runs: 100, levels: 12, seed: 1 };
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = argv[i].replace(/^--/, '');
+    if (!(key in args)) throw new Error(`Unknown option --${key}`);
+    args[key] = key === 'bot' ? argv[i + 1] : Number(argv[i + 1]);
+  }
+  return args;
+}
+
+const args = parseArgs(process.argv.slice(2));
+const server = await createServer({
+  mode: 'production',
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+});
+
+try {
+  const { BOTS } = await server.ssrLoadModule('/src/sim/bots.ts');
+  const { runSimulation, formatReport } = await server.ssrLoadModule('/src/sim/simulator.ts');
+
+  const bot = BOTS[args.bot];
+  if (!bot) throw new Error(`Unknown bot "${args.bot}" - choose one of: ${Object.keys(BOTS).join(', ')}`);
+
+  const result = runSimulation({ bot, runs: args.runs, seed: args.seed, maxLevel: args.levels });
+  console.log(formatReport(result));
+} finally {
+  await server.close();
+}
@@ -0,0 +1,31 @@
+// Headless test runner.
+//
+//   npm test
+//
+// Loads every src/**/*.test.ts through Vite's SSR loader (so "@/" imports and
+// TypeScript work as in the app) and lets node:test run what they register.
+import { readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { createServer } from 'vite';
+
+const testFiles = readdirSync('src', { recursive: true })
+  .filter(file => file.endsWith('.test.ts'))
+  .map(file => '/' + join('src', file).split('\\').join('/'))
+  .sort();
+
+const server = await createServer({
+  mode: 'test',
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false },
+});
+
+try {
+  for (const file of testFiles) {
+    await server.ssrLoadModule(file);
+  }
+} finally {
+  // Modules are fully loaded at this point - node:test runs the registered
+  // tests once this script's top level finishes
+  await server.close();
+}
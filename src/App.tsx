@@ -12,6 +12,8 @@ import GameOverScreen from "./pages/GameOverScreen";
 import AuthScreen from "./pages/AuthScreen";
 import AccountScreen from "./pages/AccountScreen";
 import LeaderboardScreen from "./pages/LeaderboardScreen";
+import LevelRecordsScreen from "./pages/LevelRecordsScreen";
+import ReplayScreen from "./pages/ReplayScreen";
 import PrivacyPolicy from "./pages/PrivacyPolicy";
 import NotFound from "./pages/NotFound";
 import TestOrbitPage from "./pages/TestOrbitPage";
@@ -39,6 +41,8 @@ const App = () => (
                   <Route path="/auth" element={<AuthScreen />} />
                   <Route path="/account" element={<AccountScreen />} />
                   <Route path="/leaderboard" element={<LeaderboardScreen />} />
+                  <Route path="/levels" element={<LevelRecordsScreen />} />
+                  <Route path="/replay/:id" element={<ReplayScreen />} />
                   <Route path="/privacy" element={<PrivacyPolicy />} />
                   <Route path="/test-orbit" element={<TestOrbitPage />} />
                   <Route path="/dev-sandbox" element={<DevSandbox />} />
@@ -1,9 +1,9 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
+import { useState, useCallback, useEffect, useRef, useMemo } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Card, HandResult } from '@/types/game';
 import { FlippableCard } from './FlippableCard';
 import { Button } from '@/components/ui/button';
-import { evaluateHand } from '@/lib/pokerEngine';
+import { evaluateHand, findBestHand } from '@/lib/pokerEngine';
 import { ScorePanel } from './ScoreDisplay';
 import { StarIcon } from '@heroicons/react/24/outline';
 import { cn } from '@/lib/utils';
@@ -14,7 +14,7 @@ type IntroPhase = 'instructions' | 'ready' | 'begin' | 'playing';
 
 interface BonusRoundProps {
   deck: Card[];
-  onSubmitHand: (cards: Card[], result: HandResult, timeRemaining: number) => void;
+  onSubmitHand: (cards: Card[], result: HandResult, timeRemaining: number, bestAvailable: HandResult | null) => void;
   onSkip: () => void;
   timeRemaining: number;
   score?: number;
@@ -73,6 +73,7 @@ export function BonusRound({
   const gridCols = isMobile ? 4 : 6;
   // Card size: sdm on mobile (matches SD), sd on desktop
   const cardSize = isMobile ? 'sdm' : 'sd';
+  const dealtCards = useMemo(() => deck.slice(0, cardCount), [deck, cardCount]);
 
   // Intro sequence timing
   useEffect(() => {
@@ -119,7 +120,8 @@ export function BonusRound({
 
   const handleSubmit = () => {
     if (keptCards.length === 5 && handResult) {
-      onSubmitHand(keptCards, handResult, timeRemaining);
+      // Best hand on the table grades the pick (see gradeBonusHand)
+      onSubmitHand(keptCards, handResult, timeRemaining, findBestHand(dealtCards));
     }
   };
 
@@ -246,7 +248,7 @@ export function BonusRound({
             gap: isMobile ? '0.525rem' : '0.75rem',
           }}
         >
-          {deck.slice(0, cardCount).map((card) => (
+          {dealtCards.map((card) => (
             <div key={card.id} className="flex items-center justify-center">
               <FlippableCard
                 card={card}
@@ -19,6 +19,7 @@ interface ConveyorBeltProps {
   rows?: number;
   isRecycling?: boolean;
   reshuffleTrigger?: number;
+  timeScale?: number; // Slow Motion: scales how far cards move each frame
 }
 
 // Default rows (desktop)
@@ -37,6 +38,7 @@ export function ConveyorBelt({
   rows = DESKTOP_ROWS,
   isRecycling = false,
   reshuffleTrigger = 0,
+  timeScale = 1,
 }: ConveyorBeltProps) {
   const isMobile = useIsMobile();
   // 4 rows on mobile, 3 on desktop
@@ -50,6 +52,10 @@ export function ConveyorBelt({
   const animationRef = useRef<number>();
   const initializedRef = useRef(false);
   const returnDelayMs = 3000;
+
+  // Read by the animation loop, so the belt isn't rebuilt when it changes
+  const timeScaleRef = useRef(timeScale);
+  timeScaleRef.current = timeScale;
   const { playSound } = useAudio();
 
   // Atomic lock to prevent multi-touch / ghost taps (no time-based gating)
@@ -248,7 +254,7 @@ export function ConveyorBelt({
       const updatedCards: ConveyorCard[] = [];
       
       for (const card of cardsRef.current) {
-        card.x += card.speed;
+        card.x += card.speed * timeScaleRef.current;
         
         // Update DOM element directly
         const element = cardElementsRef.current.get(card.id);
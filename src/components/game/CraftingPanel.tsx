@@ -0,0 +1,129 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { WrenchScrewdriverIcon } from '@heroicons/react/24/solid';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { getAllPowerUps, getPowerUp, getCraftResultTier, CRAFT_COST, MAX_TIER } from '@/lib/powerUps';
+import { cn } from '@/lib/utils';
+
+interface CraftingPanelProps {
+  earnedPowerUps: string[];
+  powerUpLevels: Record<string, number>;
+  onCraft: (powerUpIds: string[]) => void;
+  onOpenChange?: (open: boolean) => void; // e.g. pause the game while crafting
+}
+
+const TIER_NAMES: Record<number, string> = { 1: 'Common', 2: 'Uncommon', 3: 'Rare' };
+
+export function CraftingPanel({ earnedPowerUps, powerUpLevels, onCraft, onOpenChange }: CraftingPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  // Indexes into earnedPowerUps, so duplicate copies can each be picked
+  const [picked, setPicked] = useState<number[]>([]);
+
+  const pickedIds = picked.map(i => earnedPowerUps[i]);
+  const pickedTier = pickedIds.length > 0 ? getPowerUp(pickedIds[0])?.tier : undefined;
+  const resultTier = getCraftResultTier(pickedIds);
+  const upgradable = getAllPowerUps().filter(p => (p.maxLevel ?? 1) > 1);
+
+  const setOpen = (open: boolean) => {
+    setIsOpen(open);
+    setPicked([]);
+    onOpenChange?.(open);
+  };
+
+  const togglePick = (index: number) => {
+    setPicked(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+  };
+
+  const handleCraft = () => {
+    if (resultTier === null) return;
+    onCraft(pickedIds);
+    setPicked([]);
+  };
+
+  return (
+    <>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <motion.button
+            whileHover={{ scale: 1.1 }}
+            whileTap={{ scale: 0.9 }}
+            onClick={() => setOpen(true)}
+            className="w-9 h-9 sm:w-12 sm:h-12 rounded-full flex items-center justify-center border-2 border-accent hover:bg-accent/10 transition-all"
+          >
+            <WrenchScrewdriverIcon className="w-5 h-5 sm:w-6 sm:h-6 text-accent" />
+          </motion.button>
+        </TooltipTrigger>
+        <TooltipContent side="left">
+          <p className="font-bold">Crafting</p>
+          <p className="text-xs text-muted-foreground">Combine {CRAFT_COST} power-ups into a better one</p>
+        </TooltipContent>
+      </Tooltip>
+
+      <Dialog open={isOpen} onOpenChange={setOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle className="font-display text-xl">Crafting</DialogTitle>
+            <DialogDescription>The game is paused while you craft.</DialogDescription>
+          </DialogHeader>
+
+          {/* Rules */}
+          <ul className="text-sm space-y-1 bg-secondary/30 rounded-lg p-3">
+            <li>🔨 Combine <strong>{CRAFT_COST} power-ups of the same tier</strong> into a random power-up of the next tier.</li>
+            <li>🥉 Common → 🥈 Uncommon → 🥇 Rare. Rare power-ups can't be crafted.</li>
+            <li>
+              ⬆️ Won a power-up you already hold? You can <strong>upgrade</strong> it instead of taking a second copy
+              {upgradable.length > 0 && <> ({upgradable.map(p => p.name).join(', ')})</>}.
+              Upgrades last until the last copy is used.
+            </li>
+          </ul>
+
+          {/* Inventory */}
+          <div className="grid grid-cols-4 gap-2">
+            {earnedPowerUps.map((id, index) => {
+              const powerUp = getPowerUp(id);
+              if (!powerUp) return null;
+
+              const isPicked = picked.includes(index);
+              const canPick = isPicked || (
+                powerUp.tier < MAX_TIER &&
+                picked.length < CRAFT_COST &&
+                (pickedTier === undefined || powerUp.tier === pickedTier)
+              );
+              const level = powerUpLevels[id] ?? 1;
+
+              return (
+                <button
+                  key={`${id}-${index}`}
+                  onClick={() => togglePick(index)}
+                  disabled={!canPick}
+                  className={cn(
+                    'relative flex flex-col items-center gap-1 p-2 rounded-lg border-2 transition-all',
+                    isPicked ? 'border-accent bg-accent/10' : 'border-border hover:border-primary/50',
+                    !canPick && 'opacity-40 cursor-not-allowed',
+                  )}
+                >
+                  <span className="text-2xl">{powerUp.emoji}</span>
+                  <span className="text-[10px] leading-tight text-center">{powerUp.name}</span>
+                  <span className="text-[10px] text-muted-foreground">{TIER_NAMES[powerUp.tier]}</span>
+                  {level > 1 && (
+                    <span className="absolute -top-1 -right-1 px-1 bg-accent text-accent-foreground text-[10px] font-bold rounded">
+                      Lv{level}
+                    </span>
+                  )}
+                </button>
+              );
+            })}
+          </div>
+
+          <Button onClick={handleCraft} disabled={resultTier === null} className="w-full font-display">
+            {resultTier === null
+              ? `Pick ${CRAFT_COST - picked.length} more of one tier`
+              : `Craft a random ${TIER_NAMES[resultTier]} power-up`}
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -58,6 +58,7 @@ interface FallingCardsProps {
   isRecycling?: boolean;
   reshuffleTrigger?: number;
   gameMode?: 'ssc' | 'classic' | 'blitz';
+  timeScale?: number; // Slow Motion: scales how far cards move each frame
 }
 
 type LocalFallingCard = FallingCard & { instanceKey: string; isTouched?: boolean; isPicked?: boolean };
@@ -95,9 +96,14 @@ export function FallingCards({
   isRecycling = false,
   reshuffleTrigger = 0,
   gameMode = 'classic',
+  timeScale = 1,
 }: FallingCardsProps) {
   const effectiveSpeed = gameMode === 'ssc' ? speed * 0.8 : speed;
 
+  // Read by the animation loop, so changing it doesn't restart the simulation
+  const timeScaleRef = useRef(timeScale);
+  timeScaleRef.current = timeScale;
+
   // Keep latest deck in a ref so internal callbacks don't change identity on every deck update
   const deckRef = useRef<Card[]>(deck);
   useEffect(() => {
@@ -183,6 +189,11 @@ export function FallingCards({
           continue;
         }
 
+        // Skip if no longer on show (a hand has moved the window past it)
+        if (!deckRef.current.some((c) => c.id === candidate.id)) {
+          continue;
+        }
+
         picked = candidate;
         break;
       }
@@ -258,8 +269,8 @@ export function FallingCards({
 
       for (const card of cardsRef.current) {
         // Update position directly
-        card.y += card.speed;
-        card.rotation += card.rotationSpeed;
+        card.y += card.speed * timeScaleRef.current;
+        card.rotation += card.rotationSpeed * timeScaleRef.current;
         card.x += Math.sin((t / 1000) * card.swaySpeed) * 0.35;
 
         // Update DOM element directly if it exists
@@ -1,6 +1,6 @@
 import { useState, useEffect, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Card, Suit } from '@/types/game';
+import { Card, CardSuit } from '@/types/game';
 import { cn } from '@/lib/utils';
 import { Check } from 'lucide-react';
 import { useAudio } from '@/contexts/AudioContext';
@@ -24,14 +24,15 @@ const SIZE_CLASSES = {
   sd: { card: 'w-[calc(17vh*0.714)] h-[17vh]', rank: 'text-2xl font-black', corner: 'text-lg' },
 };
 
-const SUIT_SYMBOLS: Record<Suit, string> = {
+const SUIT_SYMBOLS: Record<CardSuit, string> = {
   hearts: '♥',
   diamonds: '♦',
   clubs: '♣',
   spades: '♠',
+  joker: '★',
 };
 
-const isRedSuit = (suit: Suit) => suit === 'hearts' || suit === 'diamonds';
+const isRedSuit = (suit: CardSuit) => suit === 'hearts' || suit === 'diamonds';
 
 // Time in ms before card flips back if not kept
 const AUTO_UNFLIP_DELAY = 2500;
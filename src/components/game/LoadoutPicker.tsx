@@ -0,0 +1,84 @@
+import { Lock } from 'lucide-react';
+import { getAllPowerUps, getPowerUp } from '@/lib/powerUps';
+import { canAffordLoadout, MAX_LOADOUT_SLOTS } from '@/lib/loadout';
+import { cn } from '@/lib/utils';
+
+interface LoadoutPickerProps {
+  inventory: Record<string, number>;
+  slots: number;
+  selected: string[];
+  onChange: (powerUpIds: string[]) => void;
+}
+
+// Pick power-ups from the account inventory to start an SSC run with
+export function LoadoutPicker({ inventory, slots, selected, onChange }: LoadoutPickerProps) {
+  const owned = getAllPowerUps().filter(p => (inventory[p.id] ?? 0) > 0);
+
+  const add = (id: string) => {
+    const next = [...selected, id];
+    if (next.length > slots || !canAffordLoadout(next, inventory)) return;
+    onChange(next);
+  };
+
+  const removeAt = (index: number) => {
+    onChange(selected.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border bg-secondary/30 p-3">
+      <div className="flex items-center justify-between text-sm">
+        <span className="font-display">Loadout</span>
+        <span className="text-xs text-muted-foreground">{selected.length}/{slots} slots</span>
+      </div>
+
+      {/* Slots: picked, empty, and locked until an achievement unlocks them */}
+      <div className="flex gap-2">
+        {Array.from({ length: MAX_LOADOUT_SLOTS }, (_, i) => {
+          const id = selected[i];
+          const powerUp = id ? getPowerUp(id) : undefined;
+          const isLocked = i >= slots;
+
+          return (
+            <button
+              key={i}
+              onClick={() => id && removeAt(i)}
+              disabled={!id}
+              title={isLocked ? 'Unlock more slots through achievements' : powerUp?.name}
+              className={cn(
+                'w-12 h-12 rounded-lg border-2 flex items-center justify-center text-xl',
+                powerUp ? 'border-primary bg-primary/10' : 'border-dashed border-border',
+                isLocked && 'opacity-40',
+              )}
+            >
+              {isLocked ? <Lock className="w-4 h-4 text-muted-foreground" /> : powerUp?.emoji}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Inventory */}
+      <div className="flex flex-wrap gap-2">
+        {owned.map(powerUp => {
+          const left = (inventory[powerUp.id] ?? 0) - selected.filter(id => id === powerUp.id).length;
+          return (
+            <button
+              key={powerUp.id}
+              onClick={() => add(powerUp.id)}
+              disabled={left <= 0 || selected.length >= slots}
+              title={powerUp.description}
+              className="relative w-10 h-10 rounded-full border-2 border-border hover:border-primary flex items-center justify-center text-lg disabled:opacity-40"
+            >
+              {powerUp.emoji}
+              <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 bg-primary text-primary-foreground text-[10px] font-bold rounded-full flex items-center justify-center">
+                {left}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+      <p className="text-[11px] text-muted-foreground">
+        Picked power-ups are spent when the run starts. Any you still hold when your score is submitted go back to your inventory.
+      </p>
+    </div>
+  );
+}
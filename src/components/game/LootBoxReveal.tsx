@@ -1,7 +1,8 @@
 import { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { Button } from '@/components/ui/button';
-import { POWER_UPS, RewardTier } from '@/types/game';
+import { RewardTier } from '@/types/game';
+import { getPowerUp } from '@/lib/powerUps';
 import { getTierDisplayInfo } from '@/hooks/useGameState';
 import { cn } from '@/lib/utils';
 
@@ -12,6 +13,9 @@ interface LootBoxRevealProps {
   inventoryFull?: boolean; // Kept for backwards compatibility, but unused
   currentPowerUps?: string[]; // Kept for backwards compatibility, but unused
   onClaim: () => void;
+  // Set when the reward is already held and can be upgraded instead of claimed again
+  upgradeToLevel?: number | null;
+  onUpgrade?: () => void;
   onSwap?: (discardId: string) => void; // Kept for backwards compatibility, but unused
   onDiscard?: () => void; // Kept for backwards compatibility, but unused
 }
@@ -23,10 +27,12 @@ export function LootBoxReveal({
   powerUpId,
   tier,
   onClaim,
+  upgradeToLevel = null,
+  onUpgrade,
 }: LootBoxRevealProps) {
   const [phase, setPhase] = useState<RevealPhase>('closed');
 
-  const powerUp = powerUpId ? POWER_UPS.find(p => p.id === powerUpId) : null;
+  const powerUp = powerUpId ? getPowerUp(powerUpId) : null;
   const tierInfo = tier ? getTierDisplayInfo(tier) : null;
 
   // Animation sequence
@@ -180,12 +186,12 @@ export function LootBoxReveal({
                 </div>
               </motion.div>
 
-              {/* Action Button - Always show Claim since inventory is unlimited */}
+              {/* Action Buttons - Claim always works since inventory is unlimited */}
               <motion.div
                 initial={{ opacity: 0, y: 20 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ delay: 0.3 }}
-                className="mt-6"
+                className="mt-6 flex flex-col gap-2"
               >
                 <Button
                   onClick={onClaim}
@@ -194,6 +200,16 @@ export function LootBoxReveal({
                 >
                   Claim Power-up!
                 </Button>
+                {upgradeToLevel !== null && onUpgrade && (
+                  <Button
+                    onClick={onUpgrade}
+                    size="lg"
+                    variant="outline"
+                    className="w-full font-display text-lg"
+                  >
+                    ⬆️ Upgrade yours to Lv{upgradeToLevel}
+                  </Button>
+                )}
               </motion.div>
             </motion.div>
           )}
@@ -24,6 +24,7 @@ interface OrbitCardsProps {
   breathingSpeed?: number;
   showRingGuides?: boolean;
   baseRotationSpeed?: number;
+  timeScale?: number; // Slow Motion: scales how fast the rings turn
 }
 
 export function OrbitCards({
@@ -38,6 +39,7 @@ export function OrbitCards({
   breathingSpeed = 0.5,
   showRingGuides = true,
   baseRotationSpeed = 0.6,
+  timeScale = 1,
 }: OrbitCardsProps) {
   const [slots, setSlots] = useState<OrbitSlot[]>([]);
   const [hiddenDeckCount, setHiddenDeckCount] = useState(0);
@@ -176,6 +178,9 @@ export function OrbitCards({
     calculatePositionRef.current = calculatePosition;
   }, [calculatePosition]);
 
+  const timeScaleRef = useRef(timeScale);
+  timeScaleRef.current = timeScale;
+
   // Global rAF loop - direct DOM updates, stable effect
   useEffect(() => {
     if (isPaused) return;
@@ -184,7 +189,7 @@ export function OrbitCards({
       if (lastTimeRef.current === 0) lastTimeRef.current = ts;
       const dt = (ts - lastTimeRef.current) / 1000;
       lastTimeRef.current = ts;
-      globalTimeRef.current += dt;
+      globalTimeRef.current += dt * timeScaleRef.current;
       
       const time = globalTimeRef.current;
       const currentSlots = slotsRef.current;
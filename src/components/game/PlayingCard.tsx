@@ -1,6 +1,6 @@
 import { memo, forwardRef } from 'react';
 import { motion } from 'framer-motion';
-import { Card, Suit } from '@/types/game';
+import { Card, CardSuit } from '@/types/game';
 import { cn } from '@/lib/utils';
 
 interface PlayingCardProps {
@@ -14,14 +14,15 @@ interface PlayingCardProps {
   simplified?: boolean; // Centered layout with no corner pips
 }
 
-const SUIT_SYMBOLS: Record<Suit, string> = {
+const SUIT_SYMBOLS: Record<CardSuit, string> = {
   hearts: '♥',
   diamonds: '♦',
   clubs: '♣',
   spades: '♠',
+  joker: '★',
 };
 
-const isRedSuit = (suit: Suit) => suit === 'hearts' || suit === 'diamonds';
+const isRedSuit = (suit: CardSuit) => suit === 'hearts' || suit === 'diamonds';
 
 // Jumbo-style sizing with larger ranks and pips like Bicycle cards
 const SIZE_CONFIG = {
@@ -50,7 +51,7 @@ const PIP_LAYOUTS: Record<string, number> = {
   'A': 1, '2': 2, '3': 3, '4': 4, '5': 5, '6': 6, '7': 7, '8': 8, '9': 9, '10': 10,
 };
 
-const CenterPips = memo(function CenterPips({ rank, suit, size }: { rank: string; suit: Suit; size: keyof typeof SIZE_CONFIG }) {
+const CenterPips = memo(function CenterPips({ rank, suit, size }: { rank: string; suit: CardSuit; size: keyof typeof SIZE_CONFIG }) {
   const symbol = SUIT_SYMBOLS[suit];
   const count = PIP_LAYOUTS[rank];
   const config = SIZE_CONFIG[size];
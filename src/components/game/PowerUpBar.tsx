@@ -1,5 +1,6 @@
 import { motion } from 'framer-motion';
-import { POWER_UPS } from '@/types/game';
+import { SSCPhase } from '@/types/game';
+import { getAllPowerUps, getPowerUp, isPowerUpAvailable } from '@/lib/powerUps';
 import { cn } from '@/lib/utils';
 import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { useIsMobile } from '@/hooks/use-mobile';
@@ -14,18 +15,26 @@ import {
   HomeModernIcon,
   Squares2X2Icon,
   FireIcon,
+  PauseCircleIcon,
+  BackwardIcon,
+  EyeIcon,
+  ArrowsRightLeftIcon,
 } from '@heroicons/react/24/solid';
 import { Crown } from 'lucide-react';
 
-// Map power-up IDs to Heroicon components
+// Heroicons for the built-in power-ups; anything else shows its emoji
 const POWER_UP_ICONS: Record<string, React.ComponentType<{ className?: string }>> = {
   reshuffle: ArrowPathIcon,
   two_pair: Square2StackIcon,
   three_kind: CubeIcon,
   add_time: ClockIcon,
+  slow_motion: BackwardIcon,
+  suit_swap: ArrowsRightLeftIcon,
   straight: ArrowRightIcon,
   flush: SparklesIcon,
   full_house: HomeModernIcon,
+  freeze_time: PauseCircleIcon,
+  x_ray: EyeIcon,
   four_kind: Squares2X2Icon,
   straight_flush: FireIcon,
   royal_flush: Crown,
@@ -35,7 +44,8 @@ interface PowerUpBarProps {
   earnedPowerUps: string[];
   activePowerUps: string[];
   onUsePowerUp: (id: string) => void;
-  currentPhase?: 'sitting_duck' | 'conveyor' | 'falling' | 'orbit';
+  currentPhase?: SSCPhase;
+  powerUpLevels?: Record<string, number>;
 }
 
 export function PowerUpBar({ 
@@ -43,16 +53,14 @@ export function PowerUpBar({
   activePowerUps, 
   onUsePowerUp,
   currentPhase,
+  powerUpLevels = {},
 }: PowerUpBarProps) {
   const isMobile = useIsMobile();
   
-  // Filter power-ups: Reshuffle only visible during Static mode
-  const earnedPowerUpData = POWER_UPS.filter(p => {
-    if (!earnedPowerUps.includes(p.id)) return false;
-    // Hide Reshuffle during non-Sitting Duck modes
-    if (p.id === 'reshuffle' && currentPhase && currentPhase !== 'sitting_duck') return false;
-    return true;
-  });
+  // Hide power-ups that can't be used in this phase (e.g. Reshuffle outside Sitting Duck)
+  const earnedPowerUpData = getAllPowerUps().filter(p =>
+    earnedPowerUps.includes(p.id) && isPowerUpAvailable(p, currentPhase)
+  );
   
   // Count how many of each power-up type the player has
   const powerUpCounts = earnedPowerUps.reduce((acc, id) => {
@@ -74,10 +82,11 @@ export function PowerUpBar({
     <ScrollArea className="max-h-48 sm:max-h-64">
       <div className="flex flex-col gap-1 sm:gap-2 pr-2">
         {uniquePowerUpIds.map(powerUpId => {
-          const powerUp = POWER_UPS.find(p => p.id === powerUpId);
+          const powerUp = getPowerUp(powerUpId);
           if (!powerUp) return null;
           
           const count = powerUpCounts[powerUpId] || 0;
+          const level = powerUpLevels[powerUpId] ?? 1;
           const isActive = activePowerUps.includes(powerUp.id);
           const wasUsed = !isActive;
           const IconComponent = POWER_UP_ICONS[powerUp.id];
@@ -119,7 +128,7 @@ export function PowerUpBar({
                 </motion.button>
               </TooltipTrigger>
               <TooltipContent side="left">
-                <p className="font-bold">{powerUp.name} {count > 1 && `(×${count})`}</p>
+                <p className="font-bold">{powerUp.name} {level > 1 && `Lv${level}`} {count > 1 && `(×${count})`}</p>
                 <p className="text-xs text-muted-foreground">{powerUp.description}</p>
                 {wasUsed && !powerUp.isReusable && (
                   <p className="text-xs text-muted-foreground mt-1">Already used this level</p>
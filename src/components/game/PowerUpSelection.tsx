@@ -1,5 +1,5 @@
 import { motion } from 'framer-motion';
-import { POWER_UPS } from '@/types/game';
+import { getPowerUp } from '@/lib/powerUps';
 import { Button } from '@/components/ui/button';
 import { StarIcon } from '@heroicons/react/24/outline';
 
@@ -10,7 +10,7 @@ interface PowerUpSelectionProps {
 }
 
 export function PowerUpSelection({ choices, onSelect, onDismiss }: PowerUpSelectionProps) {
-  const powerUpOptions = choices.map(id => POWER_UPS.find(p => p.id === id)).filter(Boolean);
+  const powerUpOptions = choices.map(id => getPowerUp(id)).filter(Boolean);
   
   if (powerUpOptions.length === 0) {
     return null;
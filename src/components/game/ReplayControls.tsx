@@ -0,0 +1,75 @@
+import { PlayIcon, PauseIcon, XMarkIcon, FilmIcon } from '@heroicons/react/24/outline';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { REPLAY_SPEEDS } from '@/hooks/useReplayPlayer';
+import { cn } from '@/lib/utils';
+
+interface ReplayControlsProps {
+  progress: number;
+  isPlaying: boolean;
+  isFinished: boolean;
+  speed: number;
+  finalScore: number;
+  onTogglePlaying: () => void;
+  onSpeedChange: (speed: number) => void;
+  onExit: () => void;
+}
+
+export function ReplayControls({
+  progress,
+  isPlaying,
+  isFinished,
+  speed,
+  finalScore,
+  onTogglePlaying,
+  onSpeedChange,
+  onExit,
+}: ReplayControlsProps) {
+  return (
+    <>
+      <div className="fixed top-2 left-1/2 -translate-x-1/2 z-[110] w-[min(92vw,420px)] bg-card/90 backdrop-blur-sm border border-border rounded-xl px-3 py-2 shadow-lg">
+        <div className="flex items-center gap-2">
+          <FilmIcon className="w-4 h-4 text-accent flex-shrink-0" />
+          <span className="text-xs font-display text-accent">REPLAY</span>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={onTogglePlaying}
+            disabled={isFinished}
+          >
+            {isPlaying ? <PauseIcon className="w-4 h-4" /> : <PlayIcon className="w-4 h-4" />}
+          </Button>
+          <div className="flex items-center gap-1 ml-auto">
+            {REPLAY_SPEEDS.map(option => (
+              <button
+                key={option}
+                onClick={() => onSpeedChange(option)}
+                className={cn(
+                  'text-xs px-1.5 py-0.5 rounded',
+                  option === speed ? 'bg-primary text-primary-foreground' : 'text-muted-foreground hover:text-foreground'
+                )}
+              >
+                {option}x
+              </button>
+            ))}
+          </div>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={onExit}>
+            <XMarkIcon className="w-4 h-4" />
+          </Button>
+        </div>
+        <Progress value={progress * 100} className="h-1.5 mt-2" />
+      </div>
+
+      {isFinished && (
+        <div className="fixed inset-0 z-[105] flex items-center justify-center bg-background/70 backdrop-blur-sm">
+          <div className="bg-card border-2 border-accent rounded-2xl p-6 text-center shadow-2xl">
+            <h2 className="text-2xl font-display text-foreground mb-1">Replay Finished</h2>
+            <p className="text-muted-foreground mb-4">Final score: {finalScore.toLocaleString()}</p>
+            <Button onClick={onExit}>Back</Button>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
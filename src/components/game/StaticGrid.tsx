@@ -8,6 +8,7 @@ interface StaticGridProps {
   deck: Card[];
   selectedCardIds: string[];
   onSelectCard: (card: Card) => void;
+  highlightedCardIds?: string[]; // X-Ray
 }
 
 // Max visible cards and columns are dynamic based on device
@@ -17,11 +18,12 @@ const MAX_VISIBLE_CARDS = 25; // Works for both 5x5 and 6x4+
 interface CardSlotProps {
   card: Card;
   cardSize: 'sdm' | 'sdm-lg' | 'sd';
+  isHighlighted: boolean;
   onPointerDown: (card: Card, e: React.PointerEvent) => void;
 }
 
 const CardSlot = memo(
-  function CardSlot({ card, cardSize, onPointerDown }: CardSlotProps) {
+  function CardSlot({ card, cardSize, isHighlighted, onPointerDown }: CardSlotProps) {
     return (
       <div
         onPointerDown={(e) => onPointerDown(card, e)}
@@ -33,16 +35,16 @@ const CardSlot = memo(
           isDisabled={false}
           size={cardSize}
           animate={false}
-          className="pointer-events-none"
+          className={`pointer-events-none ${isHighlighted ? 'ring-4 ring-accent shadow-[0_0_16px_hsl(var(--accent))]' : ''}`}
         />
       </div>
     );
   },
-  // Only re-render if the card in this slot changes
-  (prev, next) => prev.card.id === next.card.id && prev.cardSize === next.cardSize
+  // Only re-render if the card in this slot (or its highlight) changes
+  (prev, next) => prev.card.id === next.card.id && prev.cardSize === next.cardSize && prev.isHighlighted === next.isHighlighted
 );
 
-export function StaticGrid({ deck, selectedCardIds, onSelectCard }: StaticGridProps) {
+export function StaticGrid({ deck, selectedCardIds, onSelectCard, highlightedCardIds = [] }: StaticGridProps) {
   const isMobile = useIsMobile();
   const { playSound } = useAudio();
 
@@ -79,6 +81,7 @@ export function StaticGrid({ deck, selectedCardIds, onSelectCard }: StaticGridPr
             key={`slot-${index}`}
             card={card}
             cardSize={cardSize}
+            isHighlighted={highlightedCardIds.includes(card.id)}
             onPointerDown={handleCardPointerDown}
           />
         ))}
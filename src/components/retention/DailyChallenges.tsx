@@ -1,11 +1,14 @@
+import { useState } from 'react';
 import { motion } from 'framer-motion';
-import { CheckCircle, Circle, Target, Zap, Trophy, Sparkles } from 'lucide-react';
+import { CheckCircle, Circle, Target, Zap, Trophy, Sparkles, TrendingUp, CalendarDays, Link2 } from 'lucide-react';
 import { Progress } from '@/components/ui/progress';
-import type { DailyChallenge } from '@/hooks/useRetention';
+import { Button } from '@/components/ui/button';
+import { getRewardLabel, type DailyChallenge } from '@/hooks/useRetention';
 
 interface DailyChallengesProps {
   challenges: DailyChallenge[];
-  getChallengeInfo: (type: string) => { name: string; description: string };
+  getChallengeInfo: (challenge: DailyChallenge) => { name: string; description: string };
+  onClaimReward?: (challengeId: string) => Promise<boolean>;
 }
 
 const challengeIcons: Record<string, React.ReactNode> = {
@@ -14,11 +17,92 @@ const challengeIcons: Record<string, React.ReactNode> = {
   make_straight: <Zap className="w-5 h-5" />,
   score_target: <Trophy className="w-5 h-5" />,
   make_full_house: <Sparkles className="w-5 h-5" />,
+  score_total: <Trophy className="w-5 h-5" />,
+  reach_ssc_level: <TrendingUp className="w-5 h-5" />,
 };
 
-export function DailyChallenges({ challenges, getChallengeInfo }: DailyChallengesProps) {
-  const completedCount = challenges.filter(c => c.completed).length;
-  const allCompleted = completedCount === challenges.length && challenges.length > 0;
+export function DailyChallenges({ challenges, getChallengeInfo, onClaimReward }: DailyChallengesProps) {
+  const [claimingId, setClaimingId] = useState<string | null>(null);
+  const daily = challenges.filter(c => c.period === 'daily');
+  const weekly = challenges.filter(c => c.period === 'weekly');
+  const chain = challenges.filter(c => c.period === 'chain');
+  const completedCount = daily.filter(c => c.completed).length;
+  const allCompleted = completedCount === daily.length && daily.length > 0;
+
+  const handleClaim = async (challengeId: string) => {
+    if (!onClaimReward || claimingId) return;
+    setClaimingId(challengeId);
+    await onClaimReward(challengeId);
+    setClaimingId(null);
+  };
+
+  const renderChallenge = (challenge: DailyChallenge, index: number) => {
+    const info = getChallengeInfo(challenge);
+    const progress = Math.min((challenge.current_value / challenge.target_value) * 100, 100);
+    const canClaim = challenge.completed && !challenge.reward_claimed && !!challenge.reward_type;
+
+    return (
+      <motion.div
+        key={challenge.id}
+        initial={{ x: -20, opacity: 0 }}
+        animate={{ x: 0, opacity: 1 }}
+        transition={{ delay: index * 0.1 }}
+        className={`p-3 rounded-lg border transition-colors ${
+          challenge.completed 
+            ? 'bg-primary/10 border-primary/30' 
+            : 'bg-secondary/50 border-border'
+        }`}
+      >
+        <div className="flex items-start gap-3">
+          <div className={`p-2 rounded-lg ${
+            challenge.completed ? 'bg-primary/20 text-primary' : 'bg-muted text-muted-foreground'
+          }`}>
+            {challengeIcons[challenge.challenge_type] || <Target className="w-5 h-5" />}
+          </div>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center gap-2">
+              <span className="font-medium text-sm">{info.name}</span>
+              {challenge.completed ? (
+                <CheckCircle className="w-4 h-4 text-primary" />
+              ) : (
+                <Circle className="w-4 h-4 text-muted-foreground" />
+              )}
+            </div>
+            <p className="text-xs text-muted-foreground mt-0.5">{info.description}</p>
+            
+            <div className="mt-2">
+              <Progress value={progress} className="h-1.5" />
+              <div className="flex justify-between mt-1">
+                <span className="text-xs text-muted-foreground">
+                  {challenge.current_value.toLocaleString()} / {challenge.target_value.toLocaleString()}
+                </span>
+                {challenge.reward_type && challenge.reward_value ? (
+                  <span className={`text-xs ${challenge.reward_claimed ? 'text-muted-foreground line-through' : 'text-primary'}`}>
+                    {getRewardLabel(challenge.reward_type, challenge.reward_value)}
+                  </span>
+                ) : !challenge.completed && (
+                  <span className="text-xs text-primary">
+                    +100 pts
+                  </span>
+                )}
+              </div>
+            </div>
+
+            {canClaim && onClaimReward && (
+              <Button
+                size="sm"
+                className="w-full mt-2 h-7 text-xs"
+                disabled={claimingId !== null}
+                onClick={() => handleClaim(challenge.id)}
+              >
+                {claimingId === challenge.id ? 'Claiming...' : 'Claim Reward'}
+              </Button>
+            )}
+          </div>
+        </div>
+      </motion.div>
+    );
+  };
 
   return (
     <div className="bg-card border border-border rounded-xl p-4">
@@ -28,7 +112,7 @@ export function DailyChallenges({ challenges, getChallengeInfo }: DailyChallenge
           <h3 className="font-semibold">Daily Challenges</h3>
         </div>
         <div className="text-sm text-muted-foreground">
-          {completedCount}/{challenges.length}
+          {completedCount}/{daily.length}
         </div>
       </div>
 
@@ -43,58 +127,32 @@ export function DailyChallenges({ challenges, getChallengeInfo }: DailyChallenge
       )}
 
       <div className="space-y-3">
-        {challenges.map((challenge, index) => {
-          const info = getChallengeInfo(challenge.challenge_type);
-          const progress = Math.min((challenge.current_value / challenge.target_value) * 100, 100);
-
-          return (
-            <motion.div
-              key={challenge.id}
-              initial={{ x: -20, opacity: 0 }}
-              animate={{ x: 0, opacity: 1 }}
-              transition={{ delay: index * 0.1 }}
-              className={`p-3 rounded-lg border transition-colors ${
-                challenge.completed 
-                  ? 'bg-primary/10 border-primary/30' 
-                  : 'bg-secondary/50 border-border'
-              }`}
-            >
-              <div className="flex items-start gap-3">
-                <div className={`p-2 rounded-lg ${
-                  challenge.completed ? 'bg-primary/20 text-primary' : 'bg-muted text-muted-foreground'
-                }`}>
-                  {challengeIcons[challenge.challenge_type] || <Target className="w-5 h-5" />}
-                </div>
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center gap-2">
-                    <span className="font-medium text-sm">{info.name}</span>
-                    {challenge.completed ? (
-                      <CheckCircle className="w-4 h-4 text-primary" />
-                    ) : (
-                      <Circle className="w-4 h-4 text-muted-foreground" />
-                    )}
-                  </div>
-                  <p className="text-xs text-muted-foreground mt-0.5">{info.description}</p>
-                  
-                  <div className="mt-2">
-                    <Progress value={progress} className="h-1.5" />
-                    <div className="flex justify-between mt-1">
-                      <span className="text-xs text-muted-foreground">
-                        {challenge.current_value} / {challenge.target_value}
-                      </span>
-                      {!challenge.completed && (
-                        <span className="text-xs text-primary">
-                          +100 pts
-                        </span>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              </div>
-            </motion.div>
-          );
-        })}
+        {daily.map(renderChallenge)}
       </div>
+
+      {weekly.length > 0 && (
+        <>
+          <div className="flex items-center gap-2 mt-5 mb-3">
+            <CalendarDays className="w-5 h-5 text-primary" />
+            <h3 className="font-semibold">Weekly Challenges</h3>
+          </div>
+          <div className="space-y-3">
+            {weekly.map(renderChallenge)}
+          </div>
+        </>
+      )}
+
+      {chain.length > 0 && (
+        <>
+          <div className="flex items-center gap-2 mt-5 mb-3">
+            <Link2 className="w-5 h-5 text-primary" />
+            <h3 className="font-semibold">Challenge Chain</h3>
+          </div>
+          <div className="space-y-3">
+            {chain.map(renderChallenge)}
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -3,7 +3,7 @@ import { motion, AnimatePresence } from 'framer-motion';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Gift, Sparkles } from 'lucide-react';
-import { REWARD_OPTIONS, type DailyReward } from '@/hooks/useRetention';
+import { REWARD_OPTIONS, getRewardLabel, type DailyReward } from '@/hooks/useRetention';
 
 interface DailyRewardWheelProps {
   isOpen: boolean;
@@ -52,8 +52,8 @@ export const DailyRewardWheel = forwardRef<HTMLDivElement, DailyRewardWheelProps
 
   const getRewardDisplay = (reward: DailyReward | null) => {
     if (!reward) return null;
-    const option = REWARD_OPTIONS.find(o => o.type === reward.reward_type && o.value === reward.reward_value);
-    return option?.label || reward.reward_value;
+    const label = getRewardLabel(reward.reward_type, reward.reward_value);
+    return reward.mystery ? `Mystery: ${label}` : label;
   };
 
   return (
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Progress } from '@/components/ui/progress';
+import { Button } from '@/components/ui/button';
+import { Lock, CheckCircle2, Crown, Clock } from 'lucide-react';
+import { getRewardLabel } from '@/hooks/useRetention';
+import type { Season } from '@/hooks/useSeasonPass';
+import { SeasonTier, SeasonTrack, canClaimSeasonTier, getSeasonTierKey } from '@/lib/seasonPass';
+
+interface SeasonPassPanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  season: Season | null;
+  tiers: SeasonTier[];
+  xp: number;
+  claimed: Set<string>;
+  unlockableNames: Record<string, string>;
+  isPremium: boolean;
+  onClaim: (tier: SeasonTier) => Promise<boolean>;
+  onUpgrade?: () => void;  // Omitted where checkout is unavailable (CrazyGames)
+}
+
+function getSeasonTimeLeft(endsAt: string): string {
+  const remaining = new Date(endsAt).getTime() - Date.now();
+  if (remaining <= 0) return 'Season ended';
+
+  const days = Math.floor(remaining / (1000 * 60 * 60 * 24));
+  const hours = Math.floor((remaining % (1000 * 60 * 60 * 24)) / (1000 * 60 * 60));
+  return days > 0 ? `${days}d ${hours}h left` : `${hours}h left`;
+}
+
+export function SeasonPassPanel({
+  isOpen,
+  onClose,
+  season,
+  tiers,
+  xp,
+  claimed,
+  unlockableNames,
+  isPremium,
+  onClaim,
+  onUpgrade,
+}: SeasonPassPanelProps) {
+  const [claimingKey, setClaimingKey] = useState<string | null>(null);
+  const tierNumbers = [...new Set(tiers.map(t => t.tier))].sort((a, b) => a - b);
+  const maxXp = Math.max(0, ...tiers.map(t => t.xpRequired));
+  const nextTier = tiers.find(t => t.track === 'free' && t.xpRequired > xp);
+
+  const getLabel = (tier: SeasonTier) => {
+    if (tier.rewardType === 'card_back') return `🃏 ${unlockableNames[tier.rewardValue] ?? 'Card Back'}`;
+    if (tier.rewardType === 'theme') return `🎨 ${unlockableNames[tier.rewardValue] ?? 'Theme'}`;
+    return getRewardLabel(tier.rewardType, tier.rewardValue);
+  };
+
+  const handleClaim = async (tier: SeasonTier) => {
+    if (claimingKey) return;
+    setClaimingKey(getSeasonTierKey(tier.tier, tier.track));
+    await onClaim(tier);
+    setClaimingKey(null);
+  };
+
+  const renderReward = (tierNumber: number, track: SeasonTrack) => {
+    const tier = tiers.find(t => t.tier === tierNumber && t.track === track);
+    if (!tier) return <div />;
+
+    const key = getSeasonTierKey(tier.tier, tier.track);
+    const isClaimed = claimed.has(key);
+    const reached = xp >= tier.xpRequired;
+    const locked = track === 'premium' && !isPremium;
+
+    return (
+      <div
+        className={`p-2 rounded-lg border text-xs flex flex-col gap-1.5 ${
+          isClaimed
+            ? 'bg-primary/10 border-primary/30'
+            : reached && !locked
+              ? 'bg-secondary/50 border-primary'
+              : 'bg-secondary/30 border-border opacity-60'
+        }`}
+      >
+        <span className="font-medium truncate">{getLabel(tier)}</span>
+        {isClaimed ? (
+          <span className="flex items-center gap-1 text-primary">
+            <CheckCircle2 className="w-3.5 h-3.5" /> Claimed
+          </span>
+        ) : locked ? (
+          <span className="flex items-center gap-1 text-muted-foreground">
+            <Lock className="w-3.5 h-3.5" /> Premium
+          </span>
+        ) : canClaimSeasonTier(tier, xp, isPremium, claimed) ? (
+          <Button
+            size="sm"
+            className="h-6 text-xs"
+            disabled={claimingKey !== null}
+            onClick={() => handleClaim(tier)}
+          >
+            {claimingKey === key ? 'Claiming...' : 'Claim'}
+          </Button>
+        ) : (
+          <span className="text-muted-foreground">{tier.xpRequired.toLocaleString()} XP</span>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center justify-between">
+            <span className="font-display text-xl">{season?.name ?? 'Season Pass'}</span>
+            {season && (
+              <span className="flex items-center gap-1 text-sm text-muted-foreground font-normal">
+                <Clock className="w-4 h-4" />
+                {getSeasonTimeLeft(season.ends_at)}
+              </span>
+            )}
+          </DialogTitle>
+        </DialogHeader>
+
+        {!season ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No season is running right now. Check back soon!
+          </p>
+        ) : (
+          <>
+            <div>
+              <div className="flex justify-between text-sm mb-1">
+                <span className="font-medium">{xp.toLocaleString()} XP</span>
+                <span className="text-muted-foreground">
+                  {nextTier ? `Tier ${nextTier.tier} at ${nextTier.xpRequired.toLocaleString()} XP` : 'All tiers reached!'}
+                </span>
+              </div>
+              <Progress value={maxXp > 0 ? Math.min((xp / maxXp) * 100, 100) : 0} className="h-2" />
+              <p className="text-xs text-muted-foreground mt-1">
+                Earn XP by playing games and completing challenges.
+              </p>
+            </div>
+
+            {!isPremium && onUpgrade && (
+              <Button variant="outline" className="gap-2 border-primary" onClick={onUpgrade}>
+                <Crown className="w-4 h-4 text-primary" />
+                Go Premium to unlock the premium track
+              </Button>
+            )}
+
+            <div className="grid grid-cols-[2.5rem_1fr_1fr] gap-2 text-xs text-muted-foreground font-medium">
+              <span>Tier</span>
+              <span>Free</span>
+              <span className="flex items-center gap-1"><Crown className="w-3.5 h-3.5" /> Premium</span>
+            </div>
+
+            <div className="flex-1 overflow-y-auto space-y-2 pb-4">
+              {tierNumbers.map((tierNumber, index) => (
+                <motion.div
+                  key={tierNumber}
+                  initial={{ y: 20, opacity: 0 }}
+                  animate={{ y: 0, opacity: 1 }}
+                  transition={{ delay: index * 0.05 }}
+                  className="grid grid-cols-[2.5rem_1fr_1fr] gap-2 items-center"
+                >
+                  <span className="font-display text-lg text-center">{tierNumber}</span>
+                  {renderReward(tierNumber, 'free')}
+                  {renderReward(tierNumber, 'premium')}
+                </motion.div>
+              ))}
+            </div>
+          </>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,15 @@
 import { motion } from 'framer-motion';
-import { Flame } from 'lucide-react';
+import { Flame, Shield } from 'lucide-react';
 
 interface StreakDisplayProps {
   currentStreak: number;
   longestStreak: number;
+  streakShields?: number;
+  doublePointsGames?: number;
   compact?: boolean;
 }
 
-export function StreakDisplay({ currentStreak, longestStreak, compact = false }: StreakDisplayProps) {
+export function StreakDisplay({ currentStreak, longestStreak, streakShields = 0, doublePointsGames = 0, compact = false }: StreakDisplayProps) {
   if (compact) {
     return (
       <motion.div
@@ -67,6 +69,22 @@ export function StreakDisplay({ currentStreak, longestStreak, compact = false }:
         </p>
       )}
 
+      {/* Reward wheel items waiting to be used */}
+      {(streakShields > 0 || doublePointsGames > 0) && (
+        <div className="flex gap-2 mt-2 text-xs">
+          {streakShields > 0 && (
+            <span className="flex items-center gap-1 text-primary" title="Each shield covers one missed day">
+              <Shield className="w-3.5 h-3.5" /> {streakShields}
+            </span>
+          )}
+          {doublePointsGames > 0 && (
+            <span className="text-gold font-semibold" title="Your next leaderboard score is doubled (not Daily Seed)">
+              2x Points × {doublePointsGames}
+            </span>
+          )}
+        </div>
+      )}
+
       {/* Streak milestone indicators */}
       <div className="flex gap-1 mt-3">
         {[3, 7, 14, 30].map((milestone) => (
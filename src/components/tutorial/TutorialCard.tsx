@@ -1,19 +1,21 @@
 import { memo } from "react";
-import type { Card, Suit } from "@/types/game";
+import type { Card, CardSuit } from "@/types/game";
 import { cn } from "@/lib/utils";
 
-const SUIT_SYMBOLS: Record<Suit, string> = {
+const SUIT_SYMBOLS: Record<CardSuit, string> = {
   hearts: "♥",
   diamonds: "♦",
   clubs: "♣",
   spades: "♠",
+  joker: "★",
 };
 
-const SUIT_COLOR_CLASS: Record<Suit, string> = {
+const SUIT_COLOR_CLASS: Record<CardSuit, string> = {
   hearts: "text-[hsl(var(--suit-hearts))]",
   diamonds: "text-[hsl(var(--suit-diamonds))]",
   clubs: "text-[hsl(var(--suit-clubs))]",
   spades: "text-[hsl(var(--suit-spades))]",
+  joker: "text-primary",
 };
 
 const SIZE_CONFIG = {
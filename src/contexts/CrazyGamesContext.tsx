@@ -88,6 +88,7 @@ interface CrazyGamesContextValue {
   // Progress sync helpers
   saveProgress: (progress: Record<string, unknown>) => Promise<void>;
   loadProgress: () => Promise<Record<string, unknown> | null>;
+  clearProgress: () => Promise<void>;
 }
 
 const CrazyGamesContext = createContext<CrazyGamesContextValue | null>(null);
@@ -460,6 +461,18 @@ export function CrazyGamesProvider({ children }: { children: ReactNode }) {
     return null;
   }, [isAvailable, isUserLoggedIn]);
 
+  const clearProgress = useCallback(async () => {
+    if (isUserLoggedIn && isAvailable && window.CrazyGames?.SDK) {
+      try {
+        await window.CrazyGames.SDK.data.deleteValue('game_progress');
+        console.log('CrazyGames: Cleared progress from cloud');
+      } catch (err) {
+        console.log('CrazyGames cloud progress clear failed:', err);
+      }
+    }
+    localStorage.removeItem(GUEST_PROGRESS_KEY);
+  }, [isAvailable, isUserLoggedIn]);
+
   // Check sitelock on mount
   const [isSitelocked, setIsSitelocked] = useState(false);
 
@@ -546,6 +559,7 @@ export function CrazyGamesProvider({ children }: { children: ReactNode }) {
         deleteData,
         saveProgress,
         loadProgress,
+        clearProgress,
       }}
     >
       {children}
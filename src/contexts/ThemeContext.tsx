@@ -1,11 +1,13 @@
-import { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { createContext, useContext, useEffect, useState, useCallback, ReactNode } from 'react';
+import { supabase } from '@/integrations/supabase/client';
 
-export type ThemeName = 'emerald' | 'pink' | 'blue' | 'purple';
+export type ThemeName = 'emerald' | 'pink' | 'blue' | 'purple' | 'crimson';
 
 interface Theme {
   id: ThemeName;
   name: string;
   logo: string;
+  unlockableId?: string;  // Locked until the player owns this unlockable
 }
 
 import logoGreen from '@/assets/logo-green.png';
@@ -18,6 +20,7 @@ export const THEMES: Theme[] = [
   { id: 'pink', name: 'Pink', logo: logoPink },
   { id: 'blue', name: 'Blue', logo: logoBlue },
   { id: 'purple', name: 'Purple', logo: logoPurple },
+  { id: 'crimson', name: 'Crimson', logo: logoPink, unlockableId: 'theme_crimson' },
 ];
 
 interface ThemeContextValue {
@@ -25,6 +28,7 @@ interface ThemeContextValue {
   setTheme: (theme: ThemeName) => void;
   themes: Theme[];
   currentLogo: string;
+  refreshUnlocks: () => Promise<void>;
 }
 
 const ThemeContext = createContext<ThemeContextValue | undefined>(undefined);
@@ -40,12 +44,49 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
     }
     return (stored as ThemeName) || 'emerald';
   });
+  const [unlockIds, setUnlockIds] = useState<string[] | null>(null);
+
+  // Unlockable themes come from user_unlocks. Reads the session directly
+  // rather than through useAuth, which also syncs guest scores.
+  const refreshUnlocks = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session?.user) {
+      setUnlockIds([]);
+      return;
+    }
+
+    const { data } = await supabase
+      .from('user_unlocks')
+      .select('unlockable_id')
+      .eq('user_id', session.user.id);
+    setUnlockIds((data || []).map(u => u.unlockable_id));
+  }, []);
+
+  useEffect(() => {
+    refreshUnlocks();
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(() => {
+      // Defer so the query doesn't run inside the auth callback
+      setTimeout(refreshUnlocks, 0);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [refreshUnlocks]);
+
+  const themes = THEMES.filter(t => !t.unlockableId || unlockIds?.includes(t.unlockableId));
+
+  // Fall back to the default theme once we know a locked theme isn't owned
+  useEffect(() => {
+    if (unlockIds && !themes.some(t => t.id === theme)) {
+      setThemeState('emerald');
+    }
+  }, [unlockIds, themes, theme]);
 
   useEffect(() => {
     const root = document.documentElement;
     
     // Remove all theme classes
-    root.classList.remove('theme-pink', 'theme-blue', 'theme-purple');
+    root.classList.remove('theme-pink', 'theme-blue', 'theme-purple', 'theme-crimson');
     
     // Apply the selected theme class (emerald is default, no class needed)
     if (theme !== 'emerald') {
@@ -62,7 +103,7 @@ export function ThemeProvider({ children }: { children: ReactNode }) {
   const currentLogo = THEMES.find(t => t.id === theme)?.logo || logoGreen;
 
   return (
-    <ThemeContext.Provider value={{ theme, setTheme, themes: THEMES, currentLogo }}>
+    <ThemeContext.Provider value={{ theme, setTheme, themes, currentLogo, refreshUnlocks }}>
       {children}
     </ThemeContext.Provider>
   );
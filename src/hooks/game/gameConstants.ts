@@ -38,7 +38,7 @@ export const INITIAL_GAME_STATE: GameState = {
   levelScore: 0,
   cumulativeScore: 0,
   reshuffleTrigger: 0,
-  previousHandRank: null,
+  previousHand: null,
   betterHandStreak: 0,
   currentMultiplier: 1,
   starRating: 0,
@@ -50,4 +50,13 @@ export const INITIAL_GAME_STATE: GameState = {
   inventoryFull: false,
   // Phase override for Classic/Blitz modes
   phaseOverride: undefined,
+  // Deterministic RNG (set per run in startGame)
+  seed: 0,
+  rngState: 0,
+  dailyDate: null,
+  wildRanks: [],
+  timeFrozenSeconds: 0,
+  slowMotionSeconds: 0,
+  xRayCardIds: [],
+  powerUpLevels: {},
 };
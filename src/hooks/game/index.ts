@@ -1,6 +1,6 @@
 export { useGameTimer, useTimerDisplay } from './useGameTimer';
 export { useCardSelection } from './useCardSelection';
-export { usePowerUps, getRewardTier, getTierDisplayInfo, selectRewardPowerUp, type RewardTier } from './usePowerUps';
+export { usePowerUps, getRewardTier, gradeBonusHand, getTierDisplayInfo, selectRewardPowerUp, type RewardTier } from './usePowerUps';
 export { useHandSubmission } from './useHandSubmission';
 export { useGameControls } from './useGameControls';
 export { useLevelProgression } from './useLevelProgression';
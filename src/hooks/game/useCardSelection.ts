@@ -1,5 +1,6 @@
 import { useCallback } from 'react';
 import { Card, GameState } from '@/types/game';
+import { applySelectCard } from '@/lib/gameTransitions';
 
 // ============= DEBUG INSTRUMENTATION =============
 const isDebugInput = typeof window !== 'undefined' && new URLSearchParams(window.location.search).has('debugInput');
@@ -87,28 +88,7 @@ export function useCardSelection(
           selectedCount,
         });
 
-        setState((prev) => {
-          // Hard cap
-          if (prev.selectedCards.length >= 5) return prev;
-
-          // Game state check
-          if (!prev.isPlaying || prev.isPaused) return prev;
-
-          // Duplicate card check
-          if (prev.selectedCards.some((c) => c.id === card.id)) return prev;
-
-          const isBlitz = prev.mode === 'blitz_fc' || prev.mode === 'blitz_cb';
-          const isSSC = prev.mode === 'ssc';
-          const shouldRecycle = isBlitz || isSSC;
-
-          return {
-            ...prev,
-            selectedCards: [...prev.selectedCards, card],
-            usedCards: shouldRecycle ? prev.usedCards : [...prev.usedCards, card],
-            deck: prev.deck.filter((c) => c.id !== card.id),
-            cardsSelected: prev.cardsSelected + 1,
-          };
-        });
+        setState((prev) => applySelectCard(prev, card));
       } finally {
         // Release lock in next microtask
         queueMicrotask(() => {
@@ -1,14 +1,16 @@
-import { useCallback, useRef } from 'react';
+import { useCallback } from 'react';
 import { GameMode, GameState } from '@/types/game';
-import { 
-  createDeck, 
-  shuffleDeck, 
-  calculateTimeBonus, 
-  calculateLeftoverPenalty,
-  calculateLevelGoal,
-  getSSCLevelInfo,
-  createBonusFriendlyDeck,
-} from '@/lib/pokerEngine';
+import {
+  createGameState,
+  restoreGameState,
+  applySetPaused,
+  applyTogglePause,
+  applyEndGame,
+  applyReshuffle,
+  applyExplainerSeen,
+} from '@/lib/gameTransitions';
+import { SavedRun } from '@/lib/savedRun';
+import { Loadout } from '@/lib/loadout';
 import { INITIAL_GAME_STATE } from './gameConstants';
 
 export function useGameControls(
@@ -16,74 +18,30 @@ export function useGameControls(
   timerRef: React.MutableRefObject<NodeJS.Timeout | null>,
   resetHandResults: () => void
 ) {
-  const startGame = useCallback((mode: GameMode, forceBonus: boolean = false, startLevel: number = 1, phaseOverride?: string) => {
-    const isBlitz = mode === 'blitz_fc' || mode === 'blitz_cb';
-    const isSSC = mode === 'ssc';
-    
-    const level = isSSC ? startLevel : 1;
-    const levelInfo = isSSC ? getSSCLevelInfo(level) : null;
-    const isBonusLevel = forceBonus;
-    const initialBonusCount = isBonusLevel ? 1 : 0;
-    
-    const deck = isBonusLevel ? createBonusFriendlyDeck(initialBonusCount) : shuffleDeck(createDeck());
+  // Returns the run's seed (generated here unless the caller pinned one)
+  const startGame = useCallback((mode: GameMode, forceBonus: boolean = false, startLevel: number = 1, phaseOverride?: string, seed?: number, loadout?: Loadout): number => {
+    const state = createGameState(mode, forceBonus, startLevel, phaseOverride, seed, loadout?.powerUpIds);
+    setState(state);
+    resetHandResults();
+    return state.seed;
+  }, [setState, resetHandResults]);
 
-    setState({
-      ...INITIAL_GAME_STATE,
-      mode,
-      deck,
-      isPlaying: true,
-      timeRemaining: isBlitz ? 60 : (isSSC ? 60 : 9999),
-      sscLevel: level,
-      sscPhase: levelInfo?.phase || 'sitting_duck',
-      sscRound: levelInfo?.round || 1,
-      isBonusLevel,
-      levelGoal: isSSC ? calculateLevelGoal(level) : 0,
-      earnedPowerUps: [],
-      activePowerUps: [],
-      powerUpChoices: [],
-      showPowerUpSelection: false,
-      bonusRoundCount: initialBonusCount,
-      pendingBonusRound: false,
-      phaseOverride,
-    });
+  // Resume a saved SSC run. Starts paused so the intro can play before the clock runs.
+  const restoreRun = useCallback((saved: SavedRun) => {
+    setState(restoreGameState(saved));
     resetHandResults();
   }, [setState, resetHandResults]);
 
   const pauseGame = useCallback(() => {
-    setState(prev => ({ ...prev, isPaused: !prev.isPaused }));
+    setState(applyTogglePause);
   }, [setState]);
 
   const setPaused = useCallback((paused: boolean) => {
-    setState(prev => ({ ...prev, isPaused: paused }));
+    setState(prev => applySetPaused(prev, paused));
   }, [setState]);
 
   const endGame = useCallback(() => {
-    setState(prev => {
-      const isBlitz = prev.mode === 'blitz_fc' || prev.mode === 'blitz_cb';
-      const isClassic = prev.mode === 'classic_fc' || prev.mode === 'classic_cb';
-      
-      let finalScore = prev.score;
-      let timeBonus = 0;
-      let leftoverPenalty = 0;
-
-      if (isBlitz) {
-        // Blitz: rawScore × handsPlayed
-        finalScore = prev.rawScore * prev.handsPlayed;
-      } else if (isClassic) {
-        timeBonus = calculateTimeBonus(prev.timeElapsed);
-        leftoverPenalty = calculateLeftoverPenalty(prev.deck);
-        finalScore = prev.rawScore + timeBonus - leftoverPenalty;
-      }
-
-      return {
-        ...prev,
-        score: finalScore,
-        timeBonus,
-        leftoverPenalty,
-        isPlaying: false,
-        isGameOver: true,
-      };
-    });
+    setState(applyEndGame);
   }, [setState]);
 
   const resetGame = useCallback(() => {
@@ -95,24 +53,16 @@ export function useGameControls(
   }, [setState, timerRef, resetHandResults]);
 
   const reshuffleUnselected = useCallback(() => {
-    setState(prev => {
-      const shuffledDeck = shuffleDeck([...prev.deck]);
-      return {
-        ...prev,
-        deck: shuffledDeck,
-      };
-    });
+    setState(applyReshuffle);
   }, [setState]);
 
   const markExplainerSeen = useCallback(() => {
-    setState(prev => ({
-      ...prev,
-      hasSeenSSCExplainer: true,
-    }));
+    setState(applyExplainerSeen);
   }, [setState]);
 
   return {
     startGame,
+    restoreRun,
     pauseGame,
     setPaused,
     endGame,
@@ -1,17 +1,22 @@
 import { useEffect, useRef, useCallback, useSyncExternalStore } from 'react';
 import { GameState } from '@/types/game';
-import { calculateTimeBonus, calculateLeftoverPenalty, calculateStarRating, shouldTriggerBonusRound } from '@/lib/pokerEngine';
+import { isSSCMode } from '@/lib/pokerEngine';
+import { applyTick } from '@/lib/gameTransitions';
 
 // Ref-based timer that doesn't cause re-renders on every tick
 export function useGameTimer(
   state: GameState,
-  setState: React.Dispatch<React.SetStateAction<GameState>>
+  setState: React.Dispatch<React.SetStateAction<GameState>>,
+  options: { isDriven?: boolean; onTick?: () => void } = {}
 ) {
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  const onTickRef = useRef(options.onTick);
+  onTickRef.current = options.onTick;
   
   // Store time values in refs to avoid re-renders
   const timeRemainingRef = useRef(state.timeRemaining);
   const timeElapsedRef = useRef(state.timeElapsed);
+  const timeFrozenSecondsRef = useRef(state.timeFrozenSeconds);
   
   // Subscribers for UI components that need time updates
   const subscribersRef = useRef<Set<() => void>>(new Set());
@@ -22,120 +27,45 @@ export function useGameTimer(
     timeElapsedRef.current = state.timeElapsed;
   }, [state.timeRemaining, state.timeElapsed]);
 
-  // Keep stable references to avoid timer reset on state changes
+  useEffect(() => {
+    timeFrozenSecondsRef.current = state.timeFrozenSeconds;
+  }, [state.timeFrozenSeconds]);
+
+  // Keep a stable reference to avoid timer reset on state changes
   const modeRef = useRef(state.mode);
-  const isBonusLevelRef = useRef(state.isBonusLevel);
-  const scoreRef = useRef(state.score);
-  const levelGoalRef = useRef(state.levelGoal);
-  const sscLevelRef = useRef(state.sscLevel);
-  const deckRef = useRef(state.deck);
-  const rawScoreRef = useRef(state.rawScore);
 
-  // Sync refs when state changes
   useEffect(() => {
     modeRef.current = state.mode;
-    isBonusLevelRef.current = state.isBonusLevel;
-    scoreRef.current = state.score;
-    levelGoalRef.current = state.levelGoal;
-    sscLevelRef.current = state.sscLevel;
-    deckRef.current = state.deck;
-    rawScoreRef.current = state.rawScore;
-  }, [state.mode, state.isBonusLevel, state.score, state.levelGoal, state.sscLevel, state.deck, state.rawScore]);
+  }, [state.mode]);
+
+  // One second of game clock. Normally driven by the interval below; replays
+  // drive it from their recorded ticks instead (options.isDriven).
+  const tick = useCallback(() => {
+    onTickRef.current?.();
+    const mode = modeRef.current;
+    const isTimed = mode === 'blitz_fc' || mode === 'blitz_cb' || isSSCMode(mode);
+
+    // Freeze Time holds the clock (applyTick does the same to state)
+    if (timeFrozenSecondsRef.current > 0) {
+      timeFrozenSecondsRef.current -= 1;
+    } else {
+      if (isTimed) timeRemainingRef.current -= 1;
+      timeElapsedRef.current += 1;
+    }
+
+    // Notify subscribers (UI components)
+    subscribersRef.current.forEach(cb => cb());
+
+    // Sync to state every second for precise timer display; level / game
+    // end at timeout is part of the same transition
+    setState(applyTick);
+  }, [setState]);
 
   useEffect(() => {
-    if (state.isPlaying && !state.isPaused && !state.isGameOver) {
-      timerRef.current = setInterval(() => {
-        const mode = modeRef.current;
-        const isBlitz = mode === 'blitz_fc' || mode === 'blitz_cb';
-        const isSSC = mode === 'ssc';
-        
-        if (isBlitz || isSSC) {
-          timeRemainingRef.current -= 1;
-          timeElapsedRef.current += 1;
-          
-          // Notify subscribers (UI components)
-          subscribersRef.current.forEach(cb => cb());
-          
-          if (timeRemainingRef.current <= 0) {
-            // Game state changes - these DO need React updates
-            if (isSSC && isBonusLevelRef.current) {
-              setState(prev => ({ 
-                ...prev, 
-                timeRemaining: 0, 
-                timeElapsed: timeElapsedRef.current,
-                isLevelComplete: true, 
-                isBonusFailed: true 
-              }));
-            } else if (isSSC && scoreRef.current >= levelGoalRef.current) {
-              const starRating = calculateStarRating(scoreRef.current, levelGoalRef.current);
-              const shouldBonus = shouldTriggerBonusRound(sscLevelRef.current);
-              setState(prev => ({
-                ...prev,
-                timeRemaining: 0,
-                timeElapsed: timeElapsedRef.current,
-                isLevelComplete: true,
-                pendingBonusRound: shouldBonus,
-                starRating,
-              }));
-            } else if (isBlitz) {
-              // Blitz final score: rawScore × handsPlayed
-              setState(prev => {
-                const finalScore = prev.rawScore * prev.handsPlayed;
-                return { 
-                  ...prev, 
-                  timeRemaining: 0, 
-                  timeElapsed: timeElapsedRef.current,
-                  score: finalScore,
-                  isGameOver: true, 
-                  isPlaying: false 
-                };
-              });
-            } else {
-              setState(prev => ({ 
-                ...prev, 
-                timeRemaining: 0, 
-                timeElapsed: timeElapsedRef.current,
-                isGameOver: true, 
-                isPlaying: false 
-              }));
-            }
-          } else {
-            // Sync to state every second for precise timer display
-            setState(prev => ({ 
-              ...prev, 
-              timeRemaining: timeRemainingRef.current,
-              timeElapsed: timeElapsedRef.current 
-            }));
-          }
-        } else {
-          // Classic mode
-          timeElapsedRef.current += 1;
-          
-          // Notify subscribers
-          subscribersRef.current.forEach(cb => cb());
-          
-          const isClassic = mode === 'classic_fc' || mode === 'classic_cb';
-          
-          if (isClassic && timeElapsedRef.current >= 600) {
-            const leftoverPenalty = calculateLeftoverPenalty(deckRef.current);
-            const timeBonus = calculateTimeBonus(600);
-            const finalScore = rawScoreRef.current + timeBonus - leftoverPenalty;
-            
-            setState(prev => ({ 
-              ...prev, 
-              timeElapsed: 600,
-              isGameOver: true, 
-              isPlaying: false,
-              score: finalScore,
-              timeBonus,
-              leftoverPenalty,
-            }));
-          } else {
-            // Sync to state every second for precise timer display
-            setState(prev => ({ ...prev, timeElapsed: timeElapsedRef.current }));
-          }
-        }
-      }, 1000);
+    if (options.isDriven) return;
+    // The clock stops once the level is complete (applyTick ignores ticks then too)
+    if (state.isPlaying && !state.isPaused && !state.isGameOver && !state.isLevelComplete) {
+      timerRef.current = setInterval(tick, 1000);
     }
 
     return () => {
@@ -143,7 +73,7 @@ export function useGameTimer(
         clearInterval(timerRef.current);
       }
     };
-  }, [state.isPlaying, state.isPaused, state.isGameOver, setState]);
+  }, [state.isPlaying, state.isPaused, state.isGameOver, state.isLevelComplete, options.isDriven, tick]);
 
   // Subscribe function for UI components
   const subscribe = useCallback((callback: () => void) => {
@@ -159,6 +89,7 @@ export function useGameTimer(
 
   return {
     timerRef,
+    tick,
     subscribe,
     getTimeRemaining,
     getTimeElapsed,
@@ -1,12 +1,6 @@
 import { useCallback } from 'react';
 import { GameState } from '@/types/game';
-import { 
-  createDeck, 
-  shuffleDeck, 
-  calculateLevelGoal,
-  getSSCLevelInfo,
-  createBonusFriendlyDeck,
-} from '@/lib/pokerEngine';
+import { applyStartBonusRound, applyNextLevel, applySkipBonusRound } from '@/lib/gameTransitions';
 
 export function useLevelProgression(
   setState: React.Dispatch<React.SetStateAction<GameState>>,
@@ -15,40 +9,9 @@ export function useLevelProgression(
   // Start a bonus round (called when pendingBonusRound is true)
   const startBonusRound = useCallback(() => {
     setState(prev => {
-      const newBonusRoundCount = prev.bonusRoundCount + 1;
-      const deck = createBonusFriendlyDeck(newBonusRoundCount);
-
-      resetHandResults();
-      
-      return {
-        ...prev,
-        isBonusLevel: true,
-        isBonusFailed: false,
-        pendingBonusRound: false,
-        bonusRoundCount: newBonusRoundCount,
-        isPlaying: true,
-        isPaused: false,
-        isGameOver: false,
-        score: 0,
-        rawScore: 0,
-        levelScore: 0,
-        handsPlayed: 0,
-        cardsSelected: 0,
-        timeRemaining: 60,
-        timeElapsed: 0,
-        bonusTimePoints: 0,
-        selectedCards: [],
-        deck,
-        usedCards: [],
-        currentHand: null,
-        isLevelComplete: false,
-        powerUpChoices: [],
-        showPowerUpSelection: false,
-        previousHandRank: null,
-        betterHandStreak: 0,
-        currentMultiplier: 1,
-        starRating: 0,
-      };
+      const next = applyStartBonusRound(prev);
+      if (next !== prev) resetHandResults();
+      return next;
     });
   }, [setState, resetHandResults]);
 
@@ -56,59 +19,15 @@ export function useLevelProgression(
   const nextLevel = useCallback(() => {
     console.log('[nextLevel] Called');
     setState(prev => {
-      console.log('[nextLevel] Current earnedPowerUps:', prev.earnedPowerUps, 'activePowerUps:', prev.activePowerUps);
-      const newLevel = prev.sscLevel + 1;
-      const levelInfo = getSSCLevelInfo(newLevel);
-      const deck = shuffleDeck(createDeck());
-
-      resetHandResults();
-      
       console.log('[nextLevel] Setting activePowerUps to earnedPowerUps:', prev.earnedPowerUps);
-
-      return {
-        ...prev,
-        sscLevel: newLevel,
-        sscPhase: levelInfo.phase,
-        sscRound: levelInfo.round,
-        isBonusLevel: false,
-        isBonusFailed: false,
-        pendingBonusRound: false,
-        levelGoal: calculateLevelGoal(newLevel),
-        isPlaying: true,
-        isPaused: false,
-        isGameOver: false,
-        score: 0,
-        rawScore: 0,
-        levelScore: 0,
-        handsPlayed: 0,
-        cardsSelected: 0,
-        timeRemaining: 60,
-        timeElapsed: 0,
-        timeBonus: 0,
-        leftoverPenalty: 0,
-        bonusTimePoints: 0,
-        selectedCards: [],
-        deck,
-        usedCards: [],
-        currentHand: null,
-        isLevelComplete: false,
-        powerUpChoices: [],
-        showPowerUpSelection: false,
-        activePowerUps: [...prev.earnedPowerUps],
-        previousHandRank: null,
-        betterHandStreak: 0,
-        currentMultiplier: 1,
-        starRating: 0,
-      };
+      const next = applyNextLevel(prev);
+      if (next !== prev) resetHandResults();
+      return next;
     });
   }, [setState, resetHandResults]);
 
   const skipBonusRound = useCallback(() => {
-    setState(prev => ({
-      ...prev,
-      isLevelComplete: true,
-      isBonusFailed: true,
-    }));
+    setState(applySkipBonusRound);
   }, [setState]);
 
   return {
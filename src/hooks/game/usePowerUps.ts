@@ -1,14 +1,19 @@
 import { useCallback } from 'react';
-import { GameState, POWER_UPS } from '@/types/game';
-import { shuffleDeck, generateSpecificHand } from '@/lib/pokerEngine';
-
-export type RewardTier = 'bronze' | 'silver' | 'gold';
-
-export function getRewardTier(score: number): RewardTier {
-  if (score > 1200) return 'gold';
-  if (score >= 500) return 'silver';
-  return 'bronze';
-}
+import { GameState } from '@/types/game';
+import {
+  RewardTier,
+  applyPowerUp,
+  applyClaimReward,
+  applyUpgradeReward,
+  applySwapPowerUp,
+  applyCraftPowerUps,
+  applyDiscardReward,
+  applySelectPowerUp,
+  applyDismissPowerUpSelection,
+} from '@/lib/gameTransitions';
+
+// Reward rules live with the other game transitions; re-exported for existing imports
+export { getRewardTier, gradeBonusHand, selectRewardPowerUp, type RewardTier } from '@/lib/gameTransitions';
 
 export function getTierDisplayInfo(tier: RewardTier): { name: string; color: string; emoji: string } {
   switch (tier) {
@@ -21,208 +26,59 @@ export function getTierDisplayInfo(tier: RewardTier): { name: string; color: str
   }
 }
 
-// Get power-ups available for a specific tier
-function getPowerUpsForTier(tier: RewardTier): string[] {
-  const tierNumber = tier === 'gold' ? 3 : tier === 'silver' ? 2 : 1;
-  return POWER_UPS.filter(p => p.tier === tierNumber).map(p => p.id);
-}
-
-// Select a random power-up based on bonus round score
-export function selectRewardPowerUp(score: number): string | null {
-  const tier = getRewardTier(score);
-  const availablePowerUps = getPowerUpsForTier(tier);
-  
-  if (availablePowerUps.length === 0) return null;
-  
-  const randomIndex = Math.floor(Math.random() * availablePowerUps.length);
-  return availablePowerUps[randomIndex];
-}
-
-// Helper to remove only ONE instance of a power-up ID from an array
-function removeOnePowerUp(arr: string[], id: string): string[] {
-  const idx = arr.indexOf(id);
-  if (idx === -1) return arr;
-  return [...arr.slice(0, idx), ...arr.slice(idx + 1)];
-}
-
 export function usePowerUps(
   setState: React.Dispatch<React.SetStateAction<GameState>>
 ) {
   const usePowerUp = useCallback((powerUpId: string) => {
     console.log('[usePowerUp] Called with powerUpId:', powerUpId);
     setState(prev => {
-      console.log('[usePowerUp] Current state - earnedPowerUps:', JSON.stringify(prev.earnedPowerUps), 'activePowerUps:', JSON.stringify(prev.activePowerUps));
-      
-      // Find the index of the power-up to remove (only remove ONE instance)
-      const activeIndex = prev.activePowerUps.indexOf(powerUpId);
-      if (activeIndex === -1) {
-        console.log('[PowerUp] Not in activePowerUps:', powerUpId, 'available:', prev.activePowerUps);
-        return prev;
-      }
-
-      const powerUp = POWER_UPS.find(p => p.id === powerUpId);
-      if (!powerUp) {
-        console.log('[PowerUp] Power-up not found:', powerUpId);
-        return prev;
-      }
-
-      console.log('[PowerUp] Using power-up:', powerUp.name, 'handType:', powerUp.handType);
-
-
-      // Handle reshuffle power-up
-      if (powerUp.id === 'reshuffle') {
-        const shuffledDeck = shuffleDeck([...prev.deck]);
-        // Remove ONE instance from both earned and active lists (consumed until won again)
-        const newEarnedPowerUps = removeOnePowerUp(prev.earnedPowerUps, powerUpId);
-        const newActivePowerUps = removeOnePowerUp(prev.activePowerUps, powerUpId);
-        console.log('[PowerUp] Reshuffle used. New earnedPowerUps:', newEarnedPowerUps, 'newActivePowerUps:', newActivePowerUps);
-        return {
-          ...prev,
-          deck: shuffledDeck,
-          reshuffleTrigger: prev.reshuffleTrigger + 1,
-          earnedPowerUps: newEarnedPowerUps,
-          activePowerUps: newActivePowerUps,
-        };
-      }
-
-      if (powerUp.id === 'add_time') {
-        // Remove ONE instance from both earned and active lists (consumed until won again)
-        const newEarnedPowerUps = removeOnePowerUp(prev.earnedPowerUps, powerUpId);
-        const newActivePowerUps = removeOnePowerUp(prev.activePowerUps, powerUpId);
-        console.log('[PowerUp] Add Time used. New earnedPowerUps:', newEarnedPowerUps, 'newActivePowerUps:', newActivePowerUps);
-        return {
-          ...prev,
-          timeRemaining: prev.timeRemaining + 15,
-          earnedPowerUps: newEarnedPowerUps,
-          activePowerUps: newActivePowerUps,
-        };
-      }
-
-      // For hand-type power-ups, we need to find cards in the deck
-      // Combine deck with any unselected cards for maximum options
-      const availableCards = [...prev.deck];
-      console.log('[PowerUp] Available cards for hand generation:', availableCards.length);
-
-      // Generate the specific hand
-      const hand = generateSpecificHand(powerUp.handType, availableCards);
-      if (!hand) {
-        console.log('[PowerUp] Could not generate hand:', powerUp.handType, '- deck may not have required cards');
-        // Don't consume the power-up if we can't generate the hand
-        return prev;
-      }
-
-      console.log('[PowerUp] Generated hand:', hand.map(c => `${c.rank}${c.suit[0]}`).join(', '));
-
-      // Remove the used cards from the deck
-      const newDeck = prev.deck.filter(c => !hand.some(h => h.id === c.id));
-      
-      // Remove ONE instance from both earned and active lists (consumed)
-      const newEarnedPowerUps = removeOnePowerUp(prev.earnedPowerUps, powerUpId);
-      const newActivePowerUps = removeOnePowerUp(prev.activePowerUps, powerUpId);
-      console.log('[PowerUp] Hand power-up used. New earnedPowerUps:', newEarnedPowerUps, 'newActivePowerUps:', newActivePowerUps);
-
-      return {
-        ...prev,
-        selectedCards: hand,
-        deck: newDeck,
-        usedCards: [...prev.usedCards, ...hand],
-        earnedPowerUps: newEarnedPowerUps,
-        activePowerUps: newActivePowerUps,
-      };
+      const next = applyPowerUp(prev, powerUpId);
+      if (next === prev) console.log('[PowerUp] Not used:', powerUpId, 'available:', prev.activePowerUps);
+      return next;
     });
   }, [setState]);
 
   // Claim the pending reward (add to inventory - no limit)
   const claimReward = useCallback(() => {
     console.log('[claimReward] Called');
-    setState(prev => {
-      console.log('[claimReward] pendingReward:', prev.pendingReward, 'earnedPowerUps:', prev.earnedPowerUps, 'activePowerUps:', prev.activePowerUps);
-      if (!prev.pendingReward) return prev;
-      
-      const newEarnedPowerUps = [...prev.earnedPowerUps, prev.pendingReward];
-      const newActivePowerUps = [...prev.activePowerUps, prev.pendingReward];
-      
-      return {
-        ...prev,
-        earnedPowerUps: newEarnedPowerUps,
-        activePowerUps: newActivePowerUps,
-        pendingReward: null,
-        rewardTier: null,
-        showLootBox: false,
-        inventoryFull: false,
-      };
-    });
+    setState(applyClaimReward);
+  }, [setState]);
+
+  // Upgrade the held copy of the pending reward instead of claiming another
+  const upgradeReward = useCallback(() => {
+    setState(applyUpgradeReward);
+  }, [setState]);
+
+  // Combine three same-tier power-ups into one of the next tier
+  const craftPowerUps = useCallback((powerUpIds: string[]) => {
+    setState(prev => applyCraftPowerUps(prev, powerUpIds));
   }, [setState]);
 
   // Swap: discard ONE instance of an existing power-up to make room for the new one
   const swapPowerUp = useCallback((discardPowerUpId: string) => {
-    setState(prev => {
-      if (!prev.pendingReward) return prev;
-      
-      // Remove only ONE instance of the discarded power-up
-      const newEarnedPowerUps = removeOnePowerUp(prev.earnedPowerUps, discardPowerUpId);
-      const newActivePowerUps = removeOnePowerUp(prev.activePowerUps, discardPowerUpId);
-      
-      newEarnedPowerUps.push(prev.pendingReward);
-      newActivePowerUps.push(prev.pendingReward);
-      
-      return {
-        ...prev,
-        earnedPowerUps: newEarnedPowerUps,
-        activePowerUps: newActivePowerUps,
-        pendingReward: null,
-        rewardTier: null,
-        showLootBox: false,
-        inventoryFull: false,
-      };
-    });
+    setState(prev => applySwapPowerUp(prev, discardPowerUpId));
   }, [setState]);
 
   // Discard the new reward (keep current inventory)
   const discardReward = useCallback(() => {
-    setState(prev => ({
-      ...prev,
-      pendingReward: null,
-      rewardTier: null,
-      showLootBox: false,
-      inventoryFull: false,
-    }));
+    setState(applyDiscardReward);
   }, [setState]);
 
   // Legacy: kept for backward compatibility
   const selectPowerUp = useCallback((powerUpId: string) => {
-    setState(prev => {
-      if (!prev.powerUpChoices.includes(powerUpId)) return prev;
-      
-      const newEarnedPowerUps = [...prev.earnedPowerUps, powerUpId];
-      const newActivePowerUps = [...prev.activePowerUps, powerUpId];
-      
-      return {
-        ...prev,
-        earnedPowerUps: newEarnedPowerUps,
-        activePowerUps: newActivePowerUps,
-        powerUpChoices: [],
-        showPowerUpSelection: false,
-      };
-    });
+    setState(prev => applySelectPowerUp(prev, powerUpId));
   }, [setState]);
 
   const dismissPowerUpSelection = useCallback(() => {
-    setState(prev => ({
-      ...prev,
-      powerUpChoices: [],
-      showPowerUpSelection: false,
-      showLootBox: false,
-      pendingReward: null,
-      rewardTier: null,
-      inventoryFull: false,
-    }));
+    setState(applyDismissPowerUpSelection);
   }, [setState]);
 
   return {
     usePowerUp,
     claimReward,
+    upgradeReward,
     swapPowerUp,
+    craftPowerUps,
     discardReward,
     selectPowerUp,
     dismissPowerUpSelection,
@@ -1,9 +1,10 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { submitScore } from '@/lib/scoreSubmission';
 
 // Guest scores sync function (inline to avoid circular deps)
-const syncGuestScoresOnLogin = async (userId: string) => {
+const syncGuestScoresOnLogin = async () => {
   const GUEST_SCORES_KEY = 'poker_shootout_guest_scores';
   
   try {
@@ -13,39 +14,14 @@ const syncGuestScoresOnLogin = async (userId: string) => {
     const guestScores = JSON.parse(stored);
     if (!guestScores || guestScores.length === 0) return;
     
-    // Get user's profile id
-    const { data: profile, error: profileError } = await supabase
-      .from('profiles')
-      .select('id')
-      .eq('user_id', userId)
-      .maybeSingle();
-    
-    if (profileError || !profile) {
-      console.error('Error fetching profile for sync:', profileError);
-      return;
+    // Each run is re-verified server-side; scores saved without a replay can't be
+    let synced = 0;
+    for (const score of guestScores) {
+      if (score.replay && await submitScore(score.replay)) synced++;
     }
     
-    // Insert all guest scores
-    const scoresToInsert = guestScores.map((score: any) => ({
-      user_id: userId,
-      profile_id: profile.id,
-      game_mode: score.game_mode,
-      score: score.score,
-      hands_played: score.hands_played,
-      ssc_level: score.ssc_level,
-      time_seconds: score.time_seconds,
-      best_hand: score.best_hand,
-      created_at: score.created_at,
-    }));
-    
-    const { error: insertError } = await supabase
-      .from('leaderboard_entries')
-      .insert(scoresToInsert);
-    
-    if (!insertError) {
-      localStorage.removeItem(GUEST_SCORES_KEY);
-      console.log(`Synced ${guestScores.length} guest scores to database`);
-    }
+    localStorage.removeItem(GUEST_SCORES_KEY);
+    console.log(`Synced ${synced} of ${guestScores.length} guest scores to database`);
   } catch (error) {
     console.error('Error syncing guest scores:', error);
   }
@@ -73,7 +49,7 @@ export function useAuth() {
             // Sync guest scores on login (only once per session)
             if ((event === 'SIGNED_IN' || event === 'INITIAL_SESSION') && !syncedRef.current) {
               syncedRef.current = true;
-              syncGuestScoresOnLogin(session.user.id);
+              syncGuestScoresOnLogin();
             }
           }, 0);
         } else {
@@ -0,0 +1,68 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { getDailyDateKey, getDailySeed } from '@/lib/dailySeed';
+import { useAuth } from './useAuth';
+
+// Postgres unique_violation - the attempt for this day was already claimed
+const UNIQUE_VIOLATION = '23505';
+
+export function useDailySeed() {
+  const { user, loading: authLoading } = useAuth();
+  const dateKey = getDailyDateKey();
+  const seed = getDailySeed(dateKey);
+  // null while loading (or for guests, who can only play practice runs)
+  const [hasAttemptedToday, setHasAttemptedToday] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setHasAttemptedToday(null);
+      return;
+    }
+
+    const checkAttempt = async () => {
+      const { data, error } = await supabase
+        .from('daily_attempts')
+        .select('id')
+        .eq('user_id', user.id)
+        .eq('attempt_date', dateKey)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error checking daily attempt:', error);
+        return;
+      }
+      setHasAttemptedToday(!!data);
+    };
+
+    checkAttempt();
+  }, [user, dateKey]);
+
+  // Claim today's ranked attempt. Returns the run nonce submit-score expects in
+  // the replay, or null if this run is practice only.
+  const claimAttempt = useCallback(async (): Promise<string | null> => {
+    if (!user) return null;
+
+    const { data, error } = await supabase.rpc('claim_daily_attempt');
+
+    // Only a claimed attempt uses up the day - a failed request leaves it open
+    if (error) {
+      if (error.code === UNIQUE_VIOLATION) {
+        setHasAttemptedToday(true);
+      } else {
+        console.error('Error claiming daily attempt:', error);
+      }
+      return null;
+    }
+
+    setHasAttemptedToday(true);
+    return data;
+  }, [user]);
+
+  return {
+    dateKey,
+    seed,
+    isReady: !authLoading,
+    hasAttemptedToday,
+    claimAttempt,
+  };
+}
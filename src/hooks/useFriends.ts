@@ -0,0 +1,104 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from './useAuth';
+
+export interface Friend {
+  friendshipId: string;
+  username: string | null;
+  avatarUrl: string | null;
+  since: string;
+}
+
+// The signed-in player's friends and pending requests (get_friends).
+// Requests are looked up by username and checked server-side.
+export function useFriends() {
+  const { user } = useAuth();
+  const [friends, setFriends] = useState<Friend[]>([]);
+  const [incoming, setIncoming] = useState<Friend[]>([]);
+  const [outgoing, setOutgoing] = useState<Friend[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const loadFriends = useCallback(async () => {
+    if (!user) {
+      setFriends([]);
+      setIncoming([]);
+      setOutgoing([]);
+      setLoading(false);
+      return;
+    }
+
+    const { data, error } = await supabase.rpc('get_friends');
+    setLoading(false);
+    if (error) {
+      console.error('Error loading friends:', error);
+      return;
+    }
+
+    const toFriend = (row: NonNullable<typeof data>[number]): Friend => ({
+      friendshipId: row.friendship_id,
+      username: row.username,
+      avatarUrl: row.avatar_url,
+      since: row.created_at,
+    });
+    const rows = data || [];
+    setFriends(rows.filter(r => r.status === 'accepted').map(toFriend));
+    setIncoming(rows.filter(r => r.status === 'pending' && r.incoming).map(toFriend));
+    setOutgoing(rows.filter(r => r.status === 'pending' && !r.incoming).map(toFriend));
+  }, [user]);
+
+  useEffect(() => {
+    loadFriends();
+  }, [loadFriends]);
+
+  // Resolves to the new status ('pending', or 'accepted' when they had already
+  // asked us), or an error message to show
+  const sendRequest = useCallback(async (username: string): Promise<{ status?: string; error?: string }> => {
+    if (!user) return { error: 'Sign in to add friends' };
+
+    const { data, error } = await supabase.rpc('send_friend_request', { p_username: username });
+    if (error) {
+      console.error('Error sending friend request:', error);
+      return { error: error.message };
+    }
+
+    await loadFriends();
+    return { status: data };
+  }, [user, loadFriends]);
+
+  const respondToRequest = useCallback(async (friendshipId: string, accept: boolean): Promise<boolean> => {
+    const { error } = await supabase.rpc('respond_friend_request', {
+      p_friendship_id: friendshipId,
+      p_accept: accept,
+    });
+    if (error) {
+      console.error('Error responding to friend request:', error);
+      return false;
+    }
+
+    await loadFriends();
+    return true;
+  }, [loadFriends]);
+
+  // Unfriends, or cancels a request we sent
+  const removeFriend = useCallback(async (friendshipId: string): Promise<boolean> => {
+    const { error } = await supabase.from('friendships').delete().eq('id', friendshipId);
+    if (error) {
+      console.error('Error removing friend:', error);
+      return false;
+    }
+
+    await loadFriends();
+    return true;
+  }, [loadFriends]);
+
+  return {
+    friends,
+    incoming,
+    outgoing,
+    loading,
+    sendRequest,
+    respondToRequest,
+    removeFriend,
+    reload: loadFriends,
+  };
+}
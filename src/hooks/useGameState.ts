@@ -1,5 +1,9 @@
-import { useState, useEffect, useRef } from 'react';
-import { GameState } from '@/types/game';
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { Card, GameMode, GameState, HandResult } from '@/types/game';
+import { SavedRun } from '@/lib/savedRun';
+import { Loadout } from '@/lib/loadout';
+import { createReplayRecorder, ReplayAction, ReplayArg } from '@/lib/replay';
+import { applyNextLevel, applyStartBonusRound, applySkipBonusRound } from '@/lib/gameTransitions';
 import { 
   useGameTimer,
   useCardSelection,
@@ -16,21 +20,37 @@ import {
 // Re-export for backward compatibility
 export { getRewardTier, getTierDisplayInfo, type RewardTier };
 
-export function useGameState() {
+const skipRecording = (_action: ReplayAction, _arg?: ReplayArg) => {};
+
+interface GameStateOptions {
+  // Replays drive the game from a recorded log: nothing is recorded, the
+  // clock only moves on recorded ticks and hands aren't auto-submitted.
+  isReplay?: boolean;
+}
+
+export function useGameState(options: GameStateOptions = {}) {
+  const { isReplay = false } = options;
   const [state, setState] = useState<GameState>(INITIAL_GAME_STATE);
   const stateRef = useRef(state);
+  const recorderRef = useRef(createReplayRecorder());
+  const record = isReplay ? skipRecording : recorderRef.current.record;
 
   useEffect(() => {
     stateRef.current = state;
   }, [state]);
 
   // Compose smaller focused hooks
-  const { timerRef, subscribe, getTimeRemaining, getTimeElapsed } = useGameTimer(state, setState);
+  const { timerRef, tick, subscribe, getTimeRemaining, getTimeElapsed } = useGameTimer(state, setState, {
+    isDriven: isReplay,
+    onTick: () => record('tick'),
+  });
   const { selectCard } = useCardSelection(setState, () => stateRef.current);
   const {
-    usePowerUp, 
+    usePowerUp: activatePowerUp, 
     claimReward, 
+    upgradeReward,
     swapPowerUp, 
+    craftPowerUps,
     discardReward, 
     selectPowerUp, 
     dismissPowerUpSelection 
@@ -43,6 +63,7 @@ export function useGameState() {
   } = useHandSubmission(setState);
   const { 
     startGame, 
+    restoreRun,
     pauseGame, 
     setPaused, 
     endGame, 
@@ -56,42 +77,141 @@ export function useGameState() {
     skipBonusRound 
   } = useLevelProgression(setState, resetHandResults);
 
-  // Auto-submit hand when 5 cards selected
+  // ============================================================================
+  // RECORDED ACTIONS
+  // ============================================================================
+  // Everything that can change the run goes through these wrappers, so the
+  // action log in recorderRef is enough to replay it (see lib/replay.ts).
+
+  const recordedStartGame = useCallback((mode: GameMode, forceBonus: boolean = false, startLevel: number = 1, phaseOverride?: string, seed?: number, loadout?: Loadout) => {
+    const runSeed = startGame(mode, forceBonus, startLevel, phaseOverride, seed, loadout);
+    if (!isReplay) recorderRef.current.start({ mode, seed: runSeed, startLevel, forceBonus, phaseOverride, loadout });
+    return runSeed;
+  }, [isReplay, startGame]);
+
+  const recordedRestoreRun = useCallback((saved: SavedRun) => {
+    if (!isReplay) {
+      recorderRef.current.resume(saved.replay ?? null);
+      recorderRef.current.record('resume');
+    }
+    restoreRun(saved);
+  }, [isReplay, restoreRun]);
+
+  const recordedSelectCard = useCallback((card: Card) => {
+    record('select', card.id);
+    selectCard(card);
+  }, [record, selectCard]);
+
+  const recordedSubmitHand = useCallback(() => {
+    record('submit');
+    submitHand();
+  }, [record, submitHand]);
+
+  const recordedSubmitBonusHand = useCallback((cards: Card[], result: HandResult, timeRemaining: number, bestAvailable: HandResult | null = null) => {
+    record('bonus', [cards.map(c => c.id), timeRemaining, bestAvailable ? bestAvailable.cards.map(c => c.id) : null]);
+    submitBonusHand(cards, result, timeRemaining, bestAvailable);
+  }, [record, submitBonusHand]);
+
+  const recordedUsePowerUp = useCallback((powerUpId: string) => {
+    record('power', powerUpId);
+    activatePowerUp(powerUpId);
+  }, [record, activatePowerUp]);
+
+  const recordedSelectPowerUp = useCallback((powerUpId: string) => {
+    record('pick_power', powerUpId);
+    selectPowerUp(powerUpId);
+  }, [record, selectPowerUp]);
+
+  const recordedSwapPowerUp = useCallback((discardPowerUpId: string) => {
+    record('swap', discardPowerUpId);
+    swapPowerUp(discardPowerUpId);
+  }, [record, swapPowerUp]);
+
+  const recordedCraftPowerUps = useCallback((powerUpIds: string[]) => {
+    record('craft', powerUpIds);
+    craftPowerUps(powerUpIds);
+  }, [record, craftPowerUps]);
+
+  const recordedSetPaused = useCallback((paused: boolean) => {
+    record('pause', paused);
+    setPaused(paused);
+  }, [record, setPaused]);
+
+  // Auto-submit hand when 5 cards selected (replays log the submit itself)
   useEffect(() => {
+    if (isReplay) return;
     if (state.selectedCards.length === 5 && state.isPlaying && !state.isGameOver) {
       const timer = setTimeout(() => {
-        submitHand();
+        recordedSubmitHand();
       }, 300);
       return () => clearTimeout(timer);
     }
-  }, [state.selectedCards.length, state.isPlaying, state.isGameOver, submitHand]);
+  }, [isReplay, state.selectedCards.length, state.isPlaying, state.isGameOver, recordedSubmitHand]);
+
+  // Argument-less actions
+  const simpleActions = useMemo(() => {
+    const withRecord = (action: ReplayAction, fn: () => void) => () => {
+      record(action);
+      fn();
+    };
+    // Level changes are only logged (and made) when they apply - the verifier
+    // rejects one out of turn, e.g. a double-tapped Next Level
+    const whenItApplies = (action: ReplayAction, transition: (state: GameState) => GameState, fn: () => void) => () => {
+      if (transition(stateRef.current) === stateRef.current) return;
+      record(action);
+      fn();
+    };
+    return {
+      skipBonusRound: whenItApplies('bonus_skip', applySkipBonusRound, skipBonusRound),
+      dismissPowerUpSelection: withRecord('dismiss_power', dismissPowerUpSelection),
+      nextLevel: whenItApplies('next', applyNextLevel, nextLevel),
+      startBonusRound: whenItApplies('bonus_start', applyStartBonusRound, startBonusRound),
+      reshuffleUnselected: withRecord('shuffle', reshuffleUnselected),
+      pauseGame: withRecord('toggle', pauseGame),
+      endGame: withRecord('end', endGame),
+      resetGame: withRecord('reset', resetGame),
+      markExplainerSeen: withRecord('explainer', markExplainerSeen),
+      claimReward: withRecord('claim', claimReward),
+      upgradeReward: withRecord('upgrade', upgradeReward),
+      discardReward: withRecord('discard', discardReward),
+    };
+  }, [record, skipBonusRound, dismissPowerUpSelection, nextLevel, startBonusRound, reshuffleUnselected,
+    pauseGame, endGame, resetGame, markExplainerSeen, claimReward, upgradeReward, discardReward]);
 
   return {
     state,
-    startGame,
-    selectCard,
-    submitHand,
-    submitBonusHand,
-    skipBonusRound,
-    selectPowerUp,
-    dismissPowerUpSelection,
-    usePowerUp,
-    nextLevel,
-    startBonusRound,
-    reshuffleUnselected,
-    pauseGame,
-    setPaused,
-    endGame,
-    resetGame,
+    startGame: recordedStartGame,
+    restoreRun: recordedRestoreRun,
+    selectCard: recordedSelectCard,
+    submitHand: recordedSubmitHand,
+    submitBonusHand: recordedSubmitBonusHand,
+    skipBonusRound: simpleActions.skipBonusRound,
+    selectPowerUp: recordedSelectPowerUp,
+    dismissPowerUpSelection: simpleActions.dismissPowerUpSelection,
+    usePowerUp: recordedUsePowerUp,
+    nextLevel: simpleActions.nextLevel,
+    startBonusRound: simpleActions.startBonusRound,
+    reshuffleUnselected: simpleActions.reshuffleUnselected,
+    pauseGame: simpleActions.pauseGame,
+    setPaused: recordedSetPaused,
+    endGame: simpleActions.endGame,
+    resetGame: simpleActions.resetGame,
     getHandResults,
-    markExplainerSeen,
+    markExplainerSeen: simpleActions.markExplainerSeen,
     // Reward system
-    claimReward,
-    swapPowerUp,
-    discardReward,
+    claimReward: simpleActions.claimReward,
+    upgradeReward: simpleActions.upgradeReward,
+    swapPowerUp: recordedSwapPowerUp,
+    craftPowerUps: recordedCraftPowerUps,
+    discardReward: simpleActions.discardReward,
     // Timer subscription for UI components
     timerSubscribe: subscribe,
     getTimeRemaining,
     getTimeElapsed,
+    // Replays
+    tick,
+    getReplay: recorderRef.current.getReplay,
+    bindDailyRun: recorderRef.current.bindDailyRun,
+    bindRunToken: recorderRef.current.bindRunToken,
   };
 }
@@ -1,6 +1,7 @@
 import { useEffect, useRef, useCallback } from 'react';
 import { useGameStore, useGameActions, useScore, useSelectedCards, useDeck, useGameProgress, usePowerUps } from '@/stores/gameStore';
-import { evaluateHand } from '@/lib/pokerEngine';
+import { evaluateHand, isSSCMode } from '@/lib/pokerEngine';
+import { getScoringRuleset } from '@/lib/scoringRulesets';
 
 /**
  * Drop-in replacement for useGameState that uses Zustand store internally.
@@ -31,7 +32,7 @@ export function useGameStateZustand() {
     if (progress.isPlaying && !progress.isPaused && !progress.isGameOver) {
       timerRef.current = setInterval(() => {
         const isBlitz = progress.mode === 'blitz_fc' || progress.mode === 'blitz_cb';
-        const isSSC = progress.mode === 'ssc';
+        const isSSC = isSSCMode(progress.mode);
         
         if (isBlitz || isSSC) {
           timeRemainingRef.current -= 1;
@@ -126,9 +127,8 @@ export function useGameStateZustand() {
     // Additional compatibility methods
     submitBonusHand: (cards: any, result: any, timeRemaining: number) => {
       // Handle bonus hand submission
-      const points = result.totalPoints;
-      const timeBonusPoints = timeRemaining * 10;
-      const totalPoints = points + timeBonusPoints;
+      const ruleset = getScoringRuleset(useGameStore.getState().mode);
+      const { points: totalPoints, timeBonusPoints } = ruleset.scoreBonusHand(result, timeRemaining);
       
       handResultsRef.current.push(result);
       
@@ -1,7 +1,9 @@
 import { useCallback } from 'react';
-import { supabase } from '@/integrations/supabase/client';
-import { GameState, GameMode } from '@/types/game';
+import { GameState, GameMode, HandResult } from '@/types/game';
 import { useToast } from '@/hooks/use-toast';
+import { isSSCMode } from '@/lib/pokerEngine';
+import { Replay } from '@/lib/replay';
+import { submitScore } from '@/lib/scoreSubmission';
 
 interface GuestScore {
   game_mode: GameMode;
@@ -11,6 +13,7 @@ interface GuestScore {
   time_seconds: number;
   best_hand: string | null;
   created_at: string;
+  replay: Replay | null;    // what the server verifies on sync
 }
 
 const GUEST_SCORES_KEY = 'poker_shootout_guest_scores';
@@ -18,20 +21,21 @@ const GUEST_SCORES_KEY = 'poker_shootout_guest_scores';
 export function useGuestScores() {
   const { toast } = useToast();
   // Save a guest score to localStorage
-  const saveGuestScore = useCallback((gameState: GameState) => {
+  const saveGuestScore = useCallback((gameState: GameState, bestHand: HandResult | null = gameState.currentHand, replay: Replay | null = null) => {
     const existingScores = getGuestScores();
     
     // Use cumulative score for SSC mode, regular score for other modes
-    const scoreToSave = gameState.mode === 'ssc' ? gameState.cumulativeScore : gameState.score;
+    const scoreToSave = isSSCMode(gameState.mode) ? gameState.cumulativeScore : gameState.score;
     
     const newScore: GuestScore = {
       game_mode: gameState.mode,
       score: scoreToSave,
       hands_played: gameState.handsPlayed,
-      ssc_level: gameState.mode === 'ssc' ? gameState.sscLevel : null,
+      ssc_level: isSSCMode(gameState.mode) ? gameState.sscLevel : null,
       time_seconds: gameState.timeElapsed,
-      best_hand: gameState.currentHand?.hand.name || null,
+      best_hand: bestHand?.hand.name || null,
       created_at: new Date().toISOString(),
+      replay,
     };
     
     existingScores.push(newScore);
@@ -55,50 +59,25 @@ export function useGuestScores() {
   }, []);
 
   // Sync guest scores to the database
-  const syncGuestScores = useCallback(async (userId: string) => {
+  const syncGuestScores = useCallback(async () => {
     const guestScores = getGuestScores();
     
     if (guestScores.length === 0) return;
     
     try {
-      // Get user's profile id
-      const { data: profile, error: profileError } = await supabase
-        .from('profiles')
-        .select('id')
-        .eq('user_id', userId)
-        .maybeSingle();
-      
-      if (profileError || !profile) {
-        console.error('Error fetching profile for sync:', profileError);
-        return;
-      }
-      
-      // Insert all guest scores
-      const scoresToInsert = guestScores.map(score => ({
-        user_id: userId,
-        profile_id: profile.id,
-        game_mode: score.game_mode,
-        score: score.score,
-        hands_played: score.hands_played,
-        ssc_level: score.ssc_level,
-        time_seconds: score.time_seconds,
-        best_hand: score.best_hand,
-        created_at: score.created_at,
-      }));
-      
-      const { error: insertError } = await supabase
-        .from('leaderboard_entries')
-        .insert(scoresToInsert);
-      
-      if (insertError) {
-        console.error('Error syncing guest scores:', insertError);
-        return;
+      // Each run is re-verified server-side; scores saved without a replay can't be
+      const verifiable = guestScores.filter(score => score.replay);
+      let synced = 0;
+      for (const score of verifiable) {
+        if (await submitScore(score.replay!)) synced++;
       }
       
-      // Clear local storage after successful sync
+      // Rejected runs are dropped too - resubmitting them would fail the same way
       clearGuestScores();
-      toast({ title: `Synced ${guestScores.length} score${guestScores.length > 1 ? 's' : ''} to your account!` });
-      console.log(`Synced ${guestScores.length} guest scores to database`);
+      if (synced > 0) {
+        toast({ title: `Synced ${synced} score${synced > 1 ? 's' : ''} to your account!` });
+      }
+      console.log(`Synced ${synced} of ${guestScores.length} guest scores to database`);
     } catch (error) {
       console.error('Error syncing guest scores:', error);
     }
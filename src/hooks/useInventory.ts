@@ -0,0 +1,74 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Loadout, LOADOUT_SLOT_UNLOCK_TYPE, getLoadoutSlots } from '@/lib/loadout';
+import { useAuth } from './useAuth';
+
+// Persistent power-up inventory for account holders, and the number of
+// loadout slots their achievements have unlocked. Guests have neither.
+export function useInventory() {
+  const { user } = useAuth();
+  const [inventory, setInventory] = useState<Record<string, number>>({});
+  const [slots, setSlots] = useState(getLoadoutSlots(0));
+  const [loading, setLoading] = useState(true);
+
+  const loadInventory = useCallback(async () => {
+    if (!user) {
+      setInventory({});
+      setSlots(getLoadoutSlots(0));
+      setLoading(false);
+      return;
+    }
+
+    const [inventoryRes, slotUnlockablesRes, userUnlocksRes] = await Promise.all([
+      supabase.from('power_up_inventory').select('power_up_id, quantity').eq('user_id', user.id).gt('quantity', 0),
+      supabase.from('unlockables').select('id').eq('type', LOADOUT_SLOT_UNLOCK_TYPE),
+      supabase.from('user_unlocks').select('unlockable_id').eq('user_id', user.id),
+    ]);
+
+    if (inventoryRes.error) console.error('Error loading inventory:', inventoryRes.error);
+    setInventory(Object.fromEntries((inventoryRes.data ?? []).map(row => [row.power_up_id, row.quantity])));
+
+    const unlockedIds = new Set((userUnlocksRes.data ?? []).map(u => u.unlockable_id));
+    const slotIds = (slotUnlockablesRes.data ?? []).map(u => u.id);
+    // Slots are unlocked by the server once the player's verified runs meet the
+    // achievement, which may be after the achievement popped on the client
+    const newlyUnlocked = await Promise.all(
+      slotIds
+        .filter(id => !unlockedIds.has(id))
+        .map(async id => (await supabase.rpc('unlock_loadout_slot', { p_unlockable_id: id })).data === true)
+    );
+    const unlockedSlots = slotIds.filter(id => unlockedIds.has(id)).length + newlyUnlocked.filter(Boolean).length;
+    setSlots(getLoadoutSlots(unlockedSlots));
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadInventory();
+  }, [loadInventory]);
+
+  // Spends the picks server-side. Returns null (and keeps the inventory) on failure.
+  const startLoadout = useCallback(async (powerUpIds: string[]): Promise<Loadout | null> => {
+    if (!user || powerUpIds.length === 0) return null;
+
+    const { data, error } = await supabase.rpc('start_loadout', { p_power_up_ids: powerUpIds });
+    if (error || !data) {
+      console.error('Error starting loadout:', error);
+      return null;
+    }
+
+    setInventory(prev => {
+      const next = { ...prev };
+      for (const id of powerUpIds) next[id] = (next[id] ?? 0) - 1;
+      return next;
+    });
+    return { id: data, powerUpIds };
+  }, [user]);
+
+  return {
+    inventory,
+    slots,
+    loading,
+    startLoadout,
+    reload: loadInventory,
+  };
+}
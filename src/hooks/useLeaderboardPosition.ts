@@ -0,0 +1,89 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { GameMode, LeaderboardEntry } from '@/types/game';
+import { LeaderboardWindow } from '@/lib/leaderboardWindows';
+import { useAuth } from './useAuth';
+
+export interface LeaderboardPosition {
+  rank: number;
+  totalRanked: number;
+  percentile: number; // "top N%"
+}
+
+export interface NearbyEntry {
+  rank: number;
+  isMe: boolean;
+  entry: Omit<LeaderboardEntry, 'user_id'>;
+}
+
+interface PositionOptions {
+  window: LeaderboardWindow;
+  gameMode?: GameMode;
+  dailyDate?: string;
+  friendsOnly?: boolean;
+  enabled?: boolean;
+}
+
+// The signed-in player's rank on a leaderboard and the players around them
+// (get_leaderboard_position). Null position when they have no run on it.
+export function useLeaderboardPosition({ window, gameMode, dailyDate, friendsOnly = false, enabled = true }: PositionOptions) {
+  const { user } = useAuth();
+  const [position, setPosition] = useState<LeaderboardPosition | null>(null);
+  const [nearby, setNearby] = useState<NearbyEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!user || !enabled) {
+      setPosition(null);
+      setNearby([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const fetchPosition = async () => {
+      setLoading(true);
+      const { data, error } = await supabase.rpc('get_leaderboard_position', {
+        p_window: window,
+        p_game_mode: gameMode,
+        p_daily_date: dailyDate,
+        p_friends_only: friendsOnly,
+      });
+      if (cancelled) return;
+      setLoading(false);
+
+      if (error) {
+        console.error('Error fetching leaderboard position:', error);
+        return;
+      }
+
+      const me = data?.find(row => row.is_me);
+      setPosition(me ? { rank: me.rank, totalRanked: me.total_ranked, percentile: me.percentile } : null);
+      setNearby((data || []).map(row => ({
+        rank: row.rank,
+        isMe: row.is_me,
+        entry: {
+          id: row.id,
+          profile_id: row.profile_id,
+          game_mode: row.game_mode,
+          score: row.score,
+          hands_played: row.hands_played,
+          time_seconds: row.time_seconds ?? undefined,
+          best_hand: row.best_hand ?? undefined,
+          ssc_level: row.ssc_level ?? undefined,
+          daily_date: row.daily_date,
+          created_at: row.created_at,
+          profiles: { username: row.username, avatar_url: row.avatar_url },
+          replays: row.replay_id ? { id: row.replay_id } : null,
+        },
+      })));
+    };
+
+    fetchPosition();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, window, gameMode, dailyDate, friendsOnly, enabled]);
+
+  return { position, nearby, loading };
+}
@@ -0,0 +1,144 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { Card, GameState } from '@/types/game';
+import { evaluateHand } from '@/lib/pokerEngine';
+import { Replay, ReplayEvent, BonusArg, getCardById } from '@/lib/replay';
+import { createRunSnapshot } from '@/lib/savedRun';
+import { useGameState } from './useGameState';
+
+type GameActions = ReturnType<typeof useGameState>;
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8] as const;
+
+// Long idle gaps (e.g. a backgrounded tab) are shortened - timing never
+// changes the outcome, only the pacing
+const MAX_EVENT_GAP_MS = 3000;
+
+function toCards(ids: string[]): Card[] {
+  return ids.map(getCardById).filter((card): card is Card => !!card);
+}
+
+// Feed one logged action back into the game hooks
+function dispatchEvent(event: ReplayEvent, game: GameActions, getState: () => GameState) {
+  const [, action, arg] = event;
+
+  switch (action) {
+    case 'select': {
+      const card = getCardById(arg as string);
+      if (card) game.selectCard(card);
+      break;
+    }
+    case 'submit':
+      game.submitHand();
+      break;
+    case 'bonus': {
+      const [keptIds, timeRemaining, bestIds] = arg as BonusArg;
+      const cards = toCards(keptIds);
+      game.submitBonusHand(cards, evaluateHand(cards), timeRemaining, bestIds ? evaluateHand(toCards(bestIds)) : null);
+      break;
+    }
+    case 'tick':
+      game.tick();
+      break;
+    case 'pause':
+      game.setPaused(arg as boolean);
+      break;
+    case 'toggle':
+      game.pauseGame();
+      break;
+    case 'power':
+      game.usePowerUp(arg as string);
+      break;
+    case 'pick_power':
+      game.selectPowerUp(arg as string);
+      break;
+    case 'dismiss_power':
+      game.dismissPowerUpSelection();
+      break;
+    case 'claim':
+      game.claimReward();
+      break;
+    case 'upgrade':
+      game.upgradeReward();
+      break;
+    case 'swap':
+      game.swapPowerUp(arg as string);
+      break;
+    case 'craft':
+      game.craftPowerUps(arg as string[]);
+      break;
+    case 'discard':
+      game.discardReward();
+      break;
+    case 'next':
+      game.nextLevel();
+      break;
+    case 'bonus_start':
+      game.startBonusRound();
+      break;
+    case 'bonus_skip':
+      game.skipBonusRound();
+      break;
+    case 'shuffle':
+      game.reshuffleUnselected();
+      break;
+    case 'explainer':
+      game.markExplainerSeen();
+      break;
+    case 'end':
+      game.endGame();
+      break;
+    case 'reset':
+      game.resetGame();
+      break;
+    case 'resume': {
+      // The run was saved here and restored later - apply the same snapshot round trip
+      const clock = { timeRemaining: game.getTimeRemaining(), timeElapsed: game.getTimeElapsed() };
+      game.restoreRun(createRunSnapshot(getState(), clock));
+      break;
+    }
+  }
+}
+
+// Plays a recorded run back through a replay-mode useGameState (see
+// GameScreen). Position 0 is the run start; position n is event n - 1.
+export function useReplayPlayer(replay: Replay | null, game: GameActions, isActive: boolean) {
+  const [position, setPosition] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+  const [speed, setSpeed] = useState<number>(1);
+  const gameRef = useRef(game);
+  gameRef.current = game;
+  const stateRef = useRef(game.state);
+  stateRef.current = game.state;
+
+  const total = replay ? replay.events.length + 1 : 0;
+  const isFinished = !!replay && position >= total;
+
+  useEffect(() => {
+    if (!replay || !isActive || !isPlaying || position >= total) return;
+
+    const event = position > 0 ? replay.events[position - 1] : null;
+    const delay = event ? Math.min(event[0], MAX_EVENT_GAP_MS) / speed : 0;
+
+    const timer = setTimeout(() => {
+      if (event) {
+        dispatchEvent(event, gameRef.current, () => stateRef.current);
+      } else {
+        gameRef.current.startGame(replay.mode, replay.forceBonus, replay.startLevel, replay.phaseOverride, replay.seed, replay.loadout);
+      }
+      setPosition(position + 1);
+    }, delay);
+
+    return () => clearTimeout(timer);
+  }, [replay, isActive, isPlaying, position, total, speed]);
+
+  const togglePlaying = useCallback(() => setIsPlaying(playing => !playing), []);
+
+  return {
+    progress: total > 0 ? position / total : 0,
+    isPlaying,
+    isFinished,
+    speed,
+    setSpeed,
+    togglePlaying,
+  };
+}
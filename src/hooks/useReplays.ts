@@ -0,0 +1,46 @@
+import { useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Replay, parseReplay } from '@/lib/replay';
+
+// The player's most recent run, playable at /replay/local without an account
+const LOCAL_REPLAY_KEY = 'poker_shootout_last_replay';
+
+export const LOCAL_REPLAY_ID = 'local';
+
+export function useReplays() {
+  const saveLocalReplay = useCallback((replay: Replay) => {
+    try {
+      localStorage.setItem(LOCAL_REPLAY_KEY, JSON.stringify(replay));
+    } catch (error) {
+      console.error('Error saving local replay:', error);
+    }
+  }, []);
+
+  const loadReplay = useCallback(async (id: string): Promise<Replay | null> => {
+    if (id === LOCAL_REPLAY_ID) {
+      try {
+        const stored = localStorage.getItem(LOCAL_REPLAY_KEY);
+        return stored ? parseReplay(JSON.parse(stored)) : null;
+      } catch {
+        return null;
+      }
+    }
+
+    const { data, error } = await supabase
+      .from('replays')
+      .select('log')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading replay:', error);
+      return null;
+    }
+    return data ? parseReplay(data.log) : null;
+  }, []);
+
+  return {
+    saveLocalReplay,
+    loadReplay,
+  };
+}
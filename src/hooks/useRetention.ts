@@ -1,6 +1,8 @@
 import { useState, useEffect, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from './useAuth';
+import { LOADOUT_SLOT_UNLOCK_TYPE } from '@/lib/loadout';
+import { getPowerUp } from '@/lib/powerUps';
 
 // Types
 export interface UserStreak {
@@ -26,6 +28,9 @@ export interface UserAchievement {
   unlocked_at: string;
 }
 
+export type ChallengePeriod = 'daily' | 'weekly' | 'chain';
+
+// Daily, weekly and chain challenges all live in daily_challenges
 export interface DailyChallenge {
   id: string;
   challenge_type: string;
@@ -33,6 +38,11 @@ export interface DailyChallenge {
   current_value: number;
   completed: boolean;
   reward_claimed: boolean;
+  period: string;               // ChallengePeriod
+  chain_id: string | null;
+  chain_step: number | null;
+  reward_type: string | null;   // weekly and chain challenges only
+  reward_value: string | null;
 }
 
 export interface UserStats {
@@ -52,6 +62,7 @@ export interface DailyReward {
   claim_date: string;
   reward_type: string;
   reward_value: string;
+  mystery?: boolean; // a mystery spin, stored as the reward the server resolved it to
   created_at?: string;
 }
 
@@ -63,16 +74,32 @@ export interface Unlockable {
   unlock_requirement: string | null;
 }
 
-// Challenge definitions
-const CHALLENGE_TEMPLATES = [
-  { type: 'play_games', name: 'Play Games', target: 3, description: 'Play 3 games today' },
-  { type: 'make_flush', name: 'Flush Hunter', target: 2, description: 'Make 2 flushes' },
-  { type: 'make_straight', name: 'Straight Shooter', target: 2, description: 'Make 2 straights' },
-  { type: 'score_target', name: 'Point Pusher', target: 3000, description: 'Score 3,000 points in one game' },
-  { type: 'make_full_house', name: 'Full House Frenzy', target: 1, description: 'Make a full house' },
-];
+// Server's view of the reward window (see daily_reward_status)
+interface RewardStatus {
+  canClaim: boolean;
+  nextClaimAt: number;   // ms, server clock
+  clockOffsetMs: number; // server time minus device time, for the countdown
+}
 
-// Reward wheel options
+// Challenge types, keyed by challenge_type. get_challenges rolls the daily and
+// weekly picks and chain steps server-side with their targets; the text is
+// built from the target so one type serves every period.
+const CHALLENGE_TYPES: Record<string, { name: string; describe: (target: number) => string }> = {
+  play_games: { name: 'Play Games', describe: t => `Play ${t} games` },
+  make_flush: { name: 'Flush Hunter', describe: t => `Make ${t} flush${t !== 1 ? 'es' : ''}` },
+  make_straight: { name: 'Straight Shooter', describe: t => `Make ${t} straight${t !== 1 ? 's' : ''}` },
+  score_target: { name: 'Point Pusher', describe: t => `Score ${t.toLocaleString()} points in one game` },
+  make_full_house: { name: 'Full House Frenzy', describe: t => t === 1 ? 'Make a full house' : `Make ${t} full houses` },
+  score_total: { name: 'Point Hoarder', describe: t => `Score ${t.toLocaleString()} points in total` },
+  reach_ssc_level: { name: 'Climber', describe: t => `Reach SSC level ${t}` },
+};
+
+export const CHALLENGE_CHAIN_NAMES: Record<string, string> = {
+  road_to_royalty: 'Road to Royalty',
+  marathon: 'Marathon',
+};
+
+// Reward wheel options. claim_daily_reward spins server-side with the same weights.
 export const REWARD_OPTIONS = [
   { type: 'bonus_points', value: '500', label: '+500 Bonus', weight: 30 },
   { type: 'bonus_points', value: '1000', label: '+1000 Bonus', weight: 20 },
@@ -82,16 +109,46 @@ export const REWARD_OPTIONS = [
   { type: 'mystery', value: 'mystery', label: '??? Mystery ???', weight: 10 },
 ];
 
+// Rewards kept in reward_inventory until used: shields save a broken streak
+// (one per missed day), 2x points doubles the next non-daily leaderboard score
+export const STREAK_SHIELD_REWARD = 'streak_shield';
+export const DOUBLE_POINTS_REWARD = 'double_xp';
+
+// Display text for a reward, including ones that aren't on the wheel
+// (resolved mystery spins, challenge rewards)
+export function getRewardLabel(rewardType: string, rewardValue: string): string {
+  const option = REWARD_OPTIONS.find(o => o.type === rewardType && o.value === rewardValue);
+  if (option) return option.label;
+
+  switch (rewardType) {
+    case 'bonus_points':
+      return `+${rewardValue} Bonus`;
+    case 'streak_shield':
+      return `${rewardValue} Streak Shields`;
+    case 'double_xp':
+      return `2x Points (${rewardValue} games)`;
+    case 'power_up': {
+      const powerUp = getPowerUp(rewardValue);
+      return powerUp ? `${powerUp.emoji} ${powerUp.name}` : rewardValue;
+    }
+    default:
+      return rewardValue;
+  }
+}
+
 export function useRetention() {
   const { user } = useAuth();
   const [streak, setStreak] = useState<UserStreak | null>(null);
   const [achievements, setAchievements] = useState<Achievement[]>([]);
   const [userAchievements, setUserAchievements] = useState<UserAchievement[]>([]);
   const [challenges, setChallenges] = useState<DailyChallenge[]>([]);
+  const [chainLengths, setChainLengths] = useState<Record<string, number>>({});
   const [stats, setStats] = useState<UserStats | null>(null);
   const [unlockables, setUnlockables] = useState<Unlockable[]>([]);
   const [userUnlocks, setUserUnlocks] = useState<string[]>([]);
   const [todayReward, setTodayReward] = useState<DailyReward | null>(null);
+  const [rewardItems, setRewardItems] = useState<Record<string, number>>({});
+  const [rewardStatus, setRewardStatus] = useState<RewardStatus | null>(null);
   const [loading, setLoading] = useState(true);
   const [newAchievements, setNewAchievements] = useState<Achievement[]>([]);
 
@@ -103,6 +160,9 @@ export function useRetention() {
     }
 
     try {
+      // Reward windows and challenge days follow the player's timezone (changes are rate limited server-side)
+      await supabase.rpc('set_timezone', { p_timezone: Intl.DateTimeFormat().resolvedOptions().timeZone });
+
       // Load achievements definitions
       const { data: achievementsData } = await supabase
         .from('achievements')
@@ -115,15 +175,24 @@ export function useRetention() {
         .select('*');
       setUnlockables(unlockablesData || []);
 
+      // Load chain lengths for "step n of m"
+      const { data: chainStepsData } = await supabase
+        .from('challenge_chain_steps')
+        .select('chain_id');
+      const lengths: Record<string, number> = {};
+      for (const step of chainStepsData || []) lengths[step.chain_id] = (lengths[step.chain_id] || 0) + 1;
+      setChainLengths(lengths);
+
       // Load user-specific data in parallel
       // Get the most recent reward to check 24-hour window
-      const [streakRes, userAchRes, challengesRes, statsRes, unlocksRes, rewardRes] = await Promise.all([
+      const [streakRes, userAchRes, challengesRes, statsRes, unlocksRes, rewardRes, rewardItemsRes] = await Promise.all([
         supabase.from('user_streaks').select('*').eq('user_id', user.id).maybeSingle(),
         supabase.from('user_achievements').select('*').eq('user_id', user.id),
-        supabase.from('daily_challenges').select('*').eq('user_id', user.id).eq('challenge_date', new Date().toISOString().split('T')[0]),
+        supabase.rpc('get_challenges'),
         supabase.from('user_stats').select('*').eq('user_id', user.id).maybeSingle(),
         supabase.from('user_unlocks').select('unlockable_id').eq('user_id', user.id),
         supabase.from('daily_rewards').select('*').eq('user_id', user.id).order('created_at', { ascending: false }).limit(1).maybeSingle(),
+        supabase.from('reward_inventory').select('reward_type, quantity').eq('user_id', user.id),
       ]);
 
       if (streakRes.data) {
@@ -136,11 +205,8 @@ export function useRetention() {
       }
       setUserUnlocks((unlocksRes.data || []).map(u => u.unlockable_id));
       setTodayReward(rewardRes.data);
-
-      // Generate daily challenges if none exist
-      if (!challengesRes.data || challengesRes.data.length === 0) {
-        await generateDailyChallenges();
-      }
+      setRewardItems(Object.fromEntries((rewardItemsRes.data || []).map(r => [r.reward_type, r.quantity])));
+      await loadRewardStatus();
 
     } catch (error) {
       console.error('Error loading retention data:', error);
@@ -153,28 +219,20 @@ export function useRetention() {
     loadRetentionData();
   }, [loadRetentionData]);
 
-  // Generate daily challenges
-  const generateDailyChallenges = async () => {
-    if (!user) return;
-
-    // Pick 3 random challenges
-    const shuffled = [...CHALLENGE_TEMPLATES].sort(() => Math.random() - 0.5);
-    const todayChallenges = shuffled.slice(0, 3);
-
-    const challengeInserts = todayChallenges.map(c => ({
-      user_id: user.id,
-      challenge_date: new Date().toISOString().split('T')[0],
-      challenge_type: c.type,
-      target_value: c.target,
-      current_value: 0,
-      completed: false,
-      reward_claimed: false,
-    }));
-
-    const { data } = await supabase.from('daily_challenges').insert(challengeInserts).select();
-    if (data) {
-      setChallenges(data);
+  // Whether a spin is open and when the next one opens, by the server's clock
+  const loadRewardStatus = async () => {
+    const { data, error } = await supabase.rpc('daily_reward_status');
+    const status = data?.[0];
+    if (error || !status) {
+      console.error('Error loading reward status:', error);
+      setRewardStatus(null);
+      return;
     }
+    setRewardStatus({
+      canClaim: status.can_claim,
+      nextClaimAt: new Date(status.next_claim_at).getTime(),
+      clockOffsetMs: new Date(status.server_time).getTime() - Date.now(),
+    });
   };
 
   // Update streak when playing
@@ -189,9 +247,23 @@ export function useRetention() {
       if (streak.last_play_date === today) return streak;
 
       // Check if streak continues or resets
-      const newStreak = streak.last_play_date === yesterday 
+      let newStreak = streak.last_play_date === yesterday 
         ? streak.current_streak + 1 
         : 1;
+
+      // A broken streak survives if there's a shield for every missed day
+      if (newStreak === 1 && streak.last_play_date && streak.current_streak > 0) {
+        const missedDays = Math.round((Date.parse(today) - Date.parse(streak.last_play_date)) / 86400000) - 1;
+        // Asked server-side even if local state shows none, as it may not have loaded yet
+        if (missedDays > 0) {
+          const { data: shielded } = await supabase.rpc('use_streak_shields', { p_missed_days: missedDays });
+          if (shielded) {
+            newStreak = streak.current_streak + 1;
+            setRewardItems(prev => ({ ...prev, [STREAK_SHIELD_REWARD]: Math.max((prev[STREAK_SHIELD_REWARD] || 0) - missedDays, 0) }));
+            console.log('Streak saved by shields:', missedDays);
+          }
+        }
+      }
       
       const longestStreak = Math.max(newStreak, streak.longest_streak);
 
@@ -263,24 +335,30 @@ export function useRetention() {
       if (achievement) {
         setNewAchievements(prev => [...prev, achievement]);
         
-        // Unlock associated reward if any
-        if (achievement.reward_type === 'card_back' && achievement.reward_id) {
-          await unlockCardBack(achievement.reward_id);
+        // Unlock associated reward if any (card backs, loadout slots)
+        if ((achievement.reward_type === 'card_back' || achievement.reward_type === LOADOUT_SLOT_UNLOCK_TYPE) && achievement.reward_id) {
+          await unlockReward(achievement.reward_id, achievement.reward_type);
         }
       }
     }
   };
 
-  // Unlock card back
-  const unlockCardBack = async (cardBackId: string) => {
+  // Unlock a card back or loadout slot. Loadout slots are unlocked by the
+  // server, which checks the achievement against the player's verified runs.
+  const unlockReward = async (unlockableId: string, rewardType: string) => {
     if (!user) return;
-    if (userUnlocks.includes(cardBackId)) return;
+    if (userUnlocks.includes(unlockableId)) return;
 
-    await supabase
-      .from('user_unlocks')
-      .insert({ user_id: user.id, unlockable_id: cardBackId });
+    if (rewardType === LOADOUT_SLOT_UNLOCK_TYPE) {
+      const { data: unlocked } = await supabase.rpc('unlock_loadout_slot', { p_unlockable_id: unlockableId });
+      if (!unlocked) return;
+    } else {
+      await supabase
+        .from('user_unlocks')
+        .insert({ user_id: user.id, unlockable_id: unlockableId });
+    }
 
-    setUserUnlocks(prev => [...prev, cardBackId]);
+    setUserUnlocks(prev => [...prev, unlockableId]);
   };
 
   // Update stats after a game
@@ -340,7 +418,6 @@ export function useRetention() {
     if (data) {
       setStats(data);
       await checkGameAchievements(newStats, gameStats);
-      await updateChallengeProgress(gameStats);
     }
   };
 
@@ -354,6 +431,7 @@ export function useRetention() {
     if (newStats.total_games >= 10) await unlockAchievement('games_10');
     if (newStats.total_games >= 50) await unlockAchievement('games_50');
     if (newStats.total_games >= 100) await unlockAchievement('games_100');
+    if (newStats.total_games >= 25) await unlockAchievement('loadout_2');
 
     // Hand type achievements
     if (newStats.flushes_made >= 1) await unlockAchievement('first_flush');
@@ -367,95 +445,37 @@ export function useRetention() {
     if (gameStats.score >= 5000) await unlockAchievement('score_5000');
     if (gameStats.score >= 10000) await unlockAchievement('score_10000');
     if (gameStats.score >= 25000) await unlockAchievement('score_25000');
+    if (gameStats.score >= 15000) await unlockAchievement('loadout_3');
   };
 
-  // Update challenge progress
-  const updateChallengeProgress = async (gameStats: { 
-    score: number; 
-    handTypes: Record<string, number> 
-  }) => {
-    if (!user) return;
-
-    // Fetch fresh challenges from database to ensure we have the latest data
-    const today = new Date().toISOString().split('T')[0];
-    const { data: currentChallenges } = await supabase
-      .from('daily_challenges')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('challenge_date', today);
-
-    if (!currentChallenges || currentChallenges.length === 0) return;
-
-    const updates: DailyChallenge[] = [];
-
-    for (const challenge of currentChallenges) {
-      if (challenge.completed) continue;
-
-      let increment = 0;
-      switch (challenge.challenge_type) {
-        case 'play_games':
-          increment = 1;
-          break;
-        case 'make_flush':
-          increment = gameStats.handTypes.flush || 0;
-          break;
-        case 'make_straight':
-          increment = gameStats.handTypes.straight || 0;
-          break;
-        case 'make_full_house':
-          increment = gameStats.handTypes.fullHouse || 0;
-          break;
-        case 'score_target':
-          if (gameStats.score >= challenge.target_value) increment = challenge.target_value;
-          break;
-      }
-
-      if (increment > 0) {
-        const newValue = Math.min(challenge.current_value + increment, challenge.target_value);
-        const completed = newValue >= challenge.target_value;
-
-        const { data } = await supabase
-          .from('daily_challenges')
-          .update({ current_value: newValue, completed })
-          .eq('id', challenge.id)
-          .select()
-          .single();
+  // Pay out a completed weekly challenge or chain step
+  const claimChallengeReward = async (challengeId: string): Promise<boolean> => {
+    if (!user) return false;
 
-        if (data) updates.push(data);
-      }
+    const { data, error } = await supabase.rpc('claim_challenge_reward', { p_challenge_id: challengeId });
+    if (error || !data) {
+      console.error('Error claiming challenge reward:', error);
+      return false;
     }
 
-    if (updates.length > 0) {
-      setChallenges(prev => prev.map(c => {
-        const updated = updates.find(u => u.id === c.id);
-        return updated || c;
-      }));
-    }
+    // Claiming a chain's last reward retires it; the server may also start the next chain
+    const [{ data: refreshed }, { data: items }] = await Promise.all([
+      supabase.rpc('get_challenges'),
+      supabase.from('reward_inventory').select('reward_type, quantity').eq('user_id', user.id),
+    ]);
+    if (refreshed) setChallenges(refreshed);
+    setRewardItems(Object.fromEntries((items || []).map(r => [r.reward_type, r.quantity])));
+    return true;
   };
 
-  // Check if 24 hours have passed since last claim - computed value, not function
+  // Whether a spin is open - decided by the server, computed value not function
   // Returns false while loading to prevent popup from appearing prematurely
-  const canClaimReward = (() => {
-    // Don't allow claiming while data is still loading
-    if (loading) return false;
-    // If no user, can't claim
-    if (!user) return false;
-    // If no previous reward record exists, user can claim
-    if (!todayReward || !todayReward.created_at) return true;
-    // Check if 24 hours have passed since last claim
-    const lastClaimTime = new Date(todayReward.created_at).getTime();
-    const now = Date.now();
-    const hoursSinceLastClaim = (now - lastClaimTime) / (1000 * 60 * 60);
-    return hoursSinceLastClaim >= 24;
-  })();
-
-  // Get time remaining until next reward
+  const canClaimReward = !loading && !!user && !!rewardStatus?.canClaim;
+
+  // Get time remaining until next reward (device clock corrected to server time)
   const getTimeUntilNextReward = (): { hours: number; minutes: number } | null => {
-    if (!todayReward || !todayReward.created_at) return null;
-    const lastClaimTime = new Date(todayReward.created_at).getTime();
-    const nextClaimTime = lastClaimTime + (24 * 60 * 60 * 1000);
-    const now = Date.now();
-    const remaining = nextClaimTime - now;
+    if (!rewardStatus || rewardStatus.canClaim) return null;
+    const remaining = rewardStatus.nextClaimAt - (Date.now() + rewardStatus.clockOffsetMs);
     
     if (remaining <= 0) return null;
     
@@ -464,40 +484,21 @@ export function useRetention() {
     return { hours, minutes };
   };
 
-  // Claim daily reward
+  // Claim daily reward - the spin happens in claim_daily_reward
   const claimDailyReward = async (): Promise<DailyReward | null> => {
     if (!user || !canClaimReward) return null;
 
-    // Weighted random selection
-    const totalWeight = REWARD_OPTIONS.reduce((sum, opt) => sum + opt.weight, 0);
-    let random = Math.random() * totalWeight;
-    let selectedReward = REWARD_OPTIONS[0];
-
-    for (const option of REWARD_OPTIONS) {
-      random -= option.weight;
-      if (random <= 0) {
-        selectedReward = option;
-        break;
-      }
-    }
-
-    const reward: Omit<DailyReward, 'claim_date' | 'created_at'> & { user_id: string; claim_date: string } = {
-      user_id: user.id,
-      claim_date: new Date().toISOString().split('T')[0],
-      reward_type: selectedReward.type,
-      reward_value: selectedReward.value,
-    };
-
-    const { data, error } = await supabase
-      .from('daily_rewards')
-      .insert(reward)
-      .select()
-      .single();
+    const { data, error } = await supabase.rpc('claim_daily_reward');
+    await loadRewardStatus();
 
     if (data && !error) {
       setTodayReward(data);
+      // Shields, 2x points and mystery rewards are credited server-side
+      const { data: items } = await supabase.from('reward_inventory').select('reward_type, quantity').eq('user_id', user.id);
+      setRewardItems(Object.fromEntries((items || []).map(r => [r.reward_type, r.quantity])));
       return data;
     }
+    console.error('Error claiming daily reward:', error);
     return null;
   };
 
@@ -507,10 +508,26 @@ export function useRetention() {
   };
 
   // Get challenge display info
-  const getChallengeInfo = (type: string) => {
-    return CHALLENGE_TEMPLATES.find(t => t.type === type) || { name: type, description: type };
+  const getChallengeInfo = (challenge: DailyChallenge) => {
+    const type = CHALLENGE_TYPES[challenge.challenge_type];
+    const description = type ? type.describe(challenge.target_value) : challenge.challenge_type;
+
+    if (challenge.period === 'chain' && challenge.chain_id) {
+      const chainName = CHALLENGE_CHAIN_NAMES[challenge.chain_id] || challenge.chain_id;
+      const steps = chainLengths[challenge.chain_id];
+      return {
+        name: `${chainName} - Step ${challenge.chain_step}${steps ? ` of ${steps}` : ''}`,
+        description,
+      };
+    }
+    return {
+      name: type?.name || challenge.challenge_type,
+      description: challenge.period === 'weekly' ? `${description} this week` : description,
+    };
   };
 
+  const dailyChallenges = challenges.filter(c => c.period === 'daily');
+
   return {
     // Data
     streak,
@@ -521,6 +538,8 @@ export function useRetention() {
     unlockables,
     userUnlocks,
     todayReward,
+    streakShields: rewardItems[STREAK_SHIELD_REWARD] || 0,
+    doublePointsGames: rewardItems[DOUBLE_POINTS_REWARD] || 0,
     newAchievements,
     loading,
 
@@ -529,6 +548,7 @@ export function useRetention() {
     updateStats,
     unlockAchievement,
     claimDailyReward,
+    claimChallengeReward,
     clearNewAchievements,
     getChallengeInfo,
     loadRetentionData,
@@ -538,6 +558,6 @@ export function useRetention() {
     isAchievementUnlocked: (id: string) => userAchievements.some(ua => ua.achievement_id === id),
     isUnlocked: (id: string) => userUnlocks.includes(id),
     canClaimReward,
-    allChallengesCompleted: challenges.length > 0 && challenges.every(c => c.completed),
+    allChallengesCompleted: dailyChallenges.length > 0 && dailyChallenges.every(c => c.completed),
   };
 }
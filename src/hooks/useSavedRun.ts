@@ -0,0 +1,91 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { useCrazyGames } from '@/contexts/CrazyGamesContext';
+import { SavedRun, parseSavedRun } from '@/lib/savedRun';
+import { useAuth } from './useAuth';
+
+// Own key, so saving or clearing a run never touches the shared game progress
+const SAVED_RUN_KEY = 'ssc_saved_run';
+
+function parseStoredRun(json: string | null): SavedRun | null {
+  if (!json) return null;
+  try {
+    return parseSavedRun(JSON.parse(json));
+  } catch {
+    return null;
+  }
+}
+
+// Where a run is saved: Supabase accounts use the saved_runs table; everyone
+// else goes through CrazyGames data under SAVED_RUN_KEY (cloud for CrazyGames
+// accounts, localStorage for guests). Failed cloud writes fall back to the
+// local copy.
+export function useSavedRun() {
+  const { user, loading: authLoading } = useAuth();
+  const { isInitialized, saveData, loadData, deleteData } = useCrazyGames();
+  // undefined while loading, null when there is nothing to resume
+  const [savedRun, setSavedRun] = useState<SavedRun | null | undefined>(undefined);
+
+  const loadRun = useCallback(async (): Promise<SavedRun | null> => {
+    if (user) {
+      const { data, error } = await supabase
+        .from('saved_runs')
+        .select('snapshot')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error('Error loading saved run:', error);
+      } else if (data) {
+        return parseSavedRun(data.snapshot);
+      }
+    }
+
+    return parseStoredRun(await loadData(SAVED_RUN_KEY));
+  }, [user, loadData]);
+
+  useEffect(() => {
+    if (authLoading || !isInitialized) return;
+    loadRun().then(setSavedRun);
+  }, [authLoading, isInitialized, loadRun]);
+
+  const saveRun = useCallback(async (run: SavedRun) => {
+    if (user) {
+      const { error } = await supabase
+        .from('saved_runs')
+        .upsert({
+          user_id: user.id,
+          version: run.version,
+          snapshot: run as unknown as Json,
+          updated_at: run.savedAt,
+        });
+
+      if (!error) return;
+      console.error('Error saving run, keeping a local copy:', error);
+    }
+
+    await saveData(SAVED_RUN_KEY, JSON.stringify(run));
+  }, [user, saveData]);
+
+  const clearRun = useCallback(async () => {
+    setSavedRun(null);
+    if (user) {
+      const { error } = await supabase
+        .from('saved_runs')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (error) console.error('Error clearing saved run:', error);
+    }
+    await deleteData(SAVED_RUN_KEY);
+  }, [user, deleteData]);
+
+  return {
+    savedRun,
+    isLoading: savedRun === undefined,
+    loadRun,
+    saveRun,
+    clearRun,
+  };
+}
@@ -0,0 +1,106 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { SeasonTier, SeasonTrack, getReachedTier, getSeasonTierKey } from '@/lib/seasonPass';
+import { useAuth } from './useAuth';
+import { useSubscription } from './useSubscription';
+
+export interface Season {
+  id: string;
+  name: string;
+  starts_at: string;
+  ends_at: string;
+}
+
+// The running season, its tiers and the player's XP and claims.
+// Claims are checked again server-side by claim_season_reward.
+export function useSeasonPass() {
+  const { user } = useAuth();
+  const { isPremium } = useSubscription();
+  const [season, setSeason] = useState<Season | null>(null);
+  const [tiers, setTiers] = useState<SeasonTier[]>([]);
+  const [xp, setXp] = useState(0);
+  const [claimed, setClaimed] = useState<Set<string>>(new Set());
+  const [unlockableNames, setUnlockableNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+
+  const loadSeasonPass = useCallback(async () => {
+    const now = new Date().toISOString();
+    const { data: seasonData, error: seasonError } = await supabase
+      .from('seasons')
+      .select('*')
+      .lte('starts_at', now)
+      .gt('ends_at', now)
+      .maybeSingle();
+
+    if (seasonError) console.error('Error loading season:', seasonError);
+    setSeason(seasonData);
+
+    if (!seasonData) {
+      setTiers([]);
+      setLoading(false);
+      return;
+    }
+
+    const [tiersRes, progressRes, claimsRes] = await Promise.all([
+      supabase.from('season_tiers').select('*').eq('season_id', seasonData.id).order('tier'),
+      user
+        ? supabase.from('season_progress').select('xp').eq('user_id', user.id).eq('season_id', seasonData.id).maybeSingle()
+        : Promise.resolve({ data: null }),
+      user
+        ? supabase.from('season_claims').select('tier, track').eq('user_id', user.id).eq('season_id', seasonData.id)
+        : Promise.resolve({ data: [] }),
+    ]);
+
+    const seasonTiers: SeasonTier[] = (tiersRes.data || []).map(t => ({
+      tier: t.tier,
+      track: t.track as SeasonTrack,
+      xpRequired: t.xp_required,
+      rewardType: t.reward_type,
+      rewardValue: t.reward_value,
+    }));
+    setTiers(seasonTiers);
+
+    // Card back and theme rewards are unlockables; show their names
+    const unlockableIds = seasonTiers
+      .filter(t => t.rewardType === 'card_back' || t.rewardType === 'theme')
+      .map(t => t.rewardValue);
+    if (unlockableIds.length > 0) {
+      const { data: unlockables } = await supabase.from('unlockables').select('id, name').in('id', unlockableIds);
+      setUnlockableNames(Object.fromEntries((unlockables || []).map(u => [u.id, u.name])));
+    }
+
+    setXp(progressRes.data?.xp ?? 0);
+    setClaimed(new Set((claimsRes.data || []).map(c => getSeasonTierKey(c.tier, c.track as SeasonTrack))));
+    setLoading(false);
+  }, [user]);
+
+  useEffect(() => {
+    loadSeasonPass();
+  }, [loadSeasonPass]);
+
+  const claimTier = useCallback(async (tier: number, track: SeasonTrack): Promise<boolean> => {
+    if (!user) return false;
+
+    const { error } = await supabase.rpc('claim_season_reward', { p_tier: tier, p_track: track });
+    if (error) {
+      console.error('Error claiming season reward:', error);
+      return false;
+    }
+
+    setClaimed(prev => new Set(prev).add(getSeasonTierKey(tier, track)));
+    return true;
+  }, [user]);
+
+  return {
+    season,
+    tiers,
+    xp,
+    reachedTier: getReachedTier(xp, tiers),
+    claimed,
+    unlockableNames,
+    isPremium,
+    loading,
+    claimTier,
+    reload: loadSeasonPass,
+  };
+}
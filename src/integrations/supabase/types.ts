@@ -53,37 +53,109 @@ export type Database = {
         }
         Relationships: []
       }
+      challenge_chain_steps: {
+        Row: {
+          chain_id: string
+          chain_order: number
+          challenge_type: string
+          reward_type: string
+          reward_value: string
+          step: number
+          target_value: number
+        }
+        Insert: {
+          chain_id: string
+          chain_order: number
+          challenge_type: string
+          reward_type: string
+          reward_value: string
+          step: number
+          target_value: number
+        }
+        Update: {
+          chain_id?: string
+          chain_order?: number
+          challenge_type?: string
+          reward_type?: string
+          reward_value?: string
+          step?: number
+          target_value?: number
+        }
+        Relationships: []
+      }
+      daily_attempts: {
+        Row: {
+          attempt_date: string
+          id: string
+          run_nonce: string
+          started_at: string
+          submitted_at: string | null
+          user_id: string
+        }
+        Insert: {
+          attempt_date: string
+          id?: string
+          run_nonce?: string
+          started_at?: string
+          submitted_at?: string | null
+          user_id: string
+        }
+        Update: {
+          attempt_date?: string
+          id?: string
+          run_nonce?: string
+          started_at?: string
+          submitted_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
       daily_challenges: {
         Row: {
+          chain_id: string | null
+          chain_step: number | null
           challenge_date: string
           challenge_type: string
           completed: boolean
           created_at: string
           current_value: number
           id: string
+          period: string
           reward_claimed: boolean
+          reward_type: string | null
+          reward_value: string | null
           target_value: number
           user_id: string
         }
         Insert: {
+          chain_id?: string | null
+          chain_step?: number | null
           challenge_date?: string
           challenge_type: string
           completed?: boolean
           created_at?: string
           current_value?: number
           id?: string
+          period?: string
           reward_claimed?: boolean
+          reward_type?: string | null
+          reward_value?: string | null
           target_value: number
           user_id: string
         }
         Update: {
+          chain_id?: string | null
+          chain_step?: number | null
           challenge_date?: string
           challenge_type?: string
           completed?: boolean
           created_at?: string
           current_value?: number
           id?: string
+          period?: string
           reward_claimed?: boolean
+          reward_type?: string | null
+          reward_value?: string | null
           target_value?: number
           user_id?: string
         }
@@ -94,6 +166,7 @@ export type Database = {
           claim_date: string
           created_at: string
           id: string
+          mystery: boolean
           reward_type: string
           reward_value: string
           user_id: string
@@ -102,6 +175,7 @@ export type Database = {
           claim_date?: string
           created_at?: string
           id?: string
+          mystery?: boolean
           reward_type: string
           reward_value: string
           user_id: string
@@ -110,21 +184,52 @@ export type Database = {
           claim_date?: string
           created_at?: string
           id?: string
+          mystery?: boolean
           reward_type?: string
           reward_value?: string
           user_id?: string
         }
         Relationships: []
       }
+      friendships: {
+        Row: {
+          addressee_id: string
+          created_at: string
+          id: string
+          requester_id: string
+          responded_at: string | null
+          status: string
+        }
+        Insert: {
+          addressee_id: string
+          created_at?: string
+          id?: string
+          requester_id: string
+          responded_at?: string | null
+          status?: string
+        }
+        Update: {
+          addressee_id?: string
+          created_at?: string
+          id?: string
+          requester_id?: string
+          responded_at?: string | null
+          status?: string
+        }
+        Relationships: []
+      }
       leaderboard_entries: {
         Row: {
           best_hand: string | null
           created_at: string
+          daily_date: string | null
           game_mode: Database["public"]["Enums"]["game_mode"]
           hands_played: number
           id: string
           profile_id: string
           score: number
+          score_multiplier: number
+          seed: number | null
           ssc_level: number | null
           time_seconds: number | null
           user_id: string
@@ -132,11 +237,14 @@ export type Database = {
         Insert: {
           best_hand?: string | null
           created_at?: string
+          daily_date?: string | null
           game_mode: Database["public"]["Enums"]["game_mode"]
           hands_played?: number
           id?: string
           profile_id: string
           score: number
+          score_multiplier?: number
+          seed?: number | null
           ssc_level?: number | null
           time_seconds?: number | null
           user_id: string
@@ -144,11 +252,14 @@ export type Database = {
         Update: {
           best_hand?: string | null
           created_at?: string
+          daily_date?: string | null
           game_mode?: Database["public"]["Enums"]["game_mode"]
           hands_played?: number
           id?: string
           profile_id?: string
           score?: number
+          score_multiplier?: number
+          seed?: number | null
           ssc_level?: number | null
           time_seconds?: number | null
           user_id?: string
@@ -163,6 +274,84 @@ export type Database = {
           },
         ]
       }
+      loadout_runs: {
+        Row: {
+          created_at: string
+          id: string
+          power_up_ids: string[]
+          submitted_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          power_up_ids: string[]
+          submitted_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          power_up_ids?: string[]
+          submitted_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      moderators: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      power_up_inventory: {
+        Row: {
+          power_up_id: string
+          quantity: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          power_up_id: string
+          quantity?: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          power_up_id?: string
+          quantity?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      premium_status: {
+        Row: {
+          checked_at: string
+          is_premium: boolean
+          user_id: string
+        }
+        Insert: {
+          checked_at?: string
+          is_premium?: boolean
+          user_id: string
+        }
+        Update: {
+          checked_at?: string
+          is_premium?: boolean
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -199,6 +388,323 @@ export type Database = {
         }
         Relationships: []
       }
+      rejected_submissions: {
+        Row: {
+          created_at: string
+          game_mode: string | null
+          id: string
+          reason: string
+          replay: Json | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          rule: string
+          run: Json | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          game_mode?: string | null
+          id?: string
+          reason: string
+          replay?: Json | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          rule: string
+          run?: Json | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          game_mode?: string | null
+          id?: string
+          reason?: string
+          replay?: Json | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          rule?: string
+          run?: Json | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      replays: {
+        Row: {
+          created_at: string
+          game_mode: Database["public"]["Enums"]["game_mode"]
+          id: string
+          leaderboard_entry_id: string
+          log: Json
+          seed: number
+          user_id: string
+          version: number
+        }
+        Insert: {
+          created_at?: string
+          game_mode: Database["public"]["Enums"]["game_mode"]
+          id?: string
+          leaderboard_entry_id: string
+          log: Json
+          seed: number
+          user_id: string
+          version: number
+        }
+        Update: {
+          created_at?: string
+          game_mode?: Database["public"]["Enums"]["game_mode"]
+          id?: string
+          leaderboard_entry_id?: string
+          log?: Json
+          seed?: number
+          user_id?: string
+          version?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "replays_leaderboard_entry_id_fkey"
+            columns: ["leaderboard_entry_id"]
+            isOneToOne: true
+            referencedRelation: "leaderboard_entries"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      reward_inventory: {
+        Row: {
+          quantity: number
+          reward_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          quantity?: number
+          reward_type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          quantity?: number
+          reward_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      run_starts: {
+        Row: {
+          game_mode: Database["public"]["Enums"]["game_mode"]
+          id: string
+          started_at: string
+          submitted_at: string | null
+          user_id: string
+        }
+        Insert: {
+          game_mode: Database["public"]["Enums"]["game_mode"]
+          id?: string
+          started_at?: string
+          submitted_at?: string | null
+          user_id: string
+        }
+        Update: {
+          game_mode?: Database["public"]["Enums"]["game_mode"]
+          id?: string
+          started_at?: string
+          submitted_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      saved_runs: {
+        Row: {
+          snapshot: Json
+          updated_at: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          snapshot: Json
+          updated_at?: string
+          user_id: string
+          version: number
+        }
+        Update: {
+          snapshot?: Json
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      season_claims: {
+        Row: {
+          claimed_at: string
+          season_id: string
+          tier: number
+          track: string
+          user_id: string
+        }
+        Insert: {
+          claimed_at?: string
+          season_id: string
+          tier: number
+          track: string
+          user_id: string
+        }
+        Update: {
+          claimed_at?: string
+          season_id?: string
+          tier?: number
+          track?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "season_claims_tier_fkey"
+            columns: ["season_id", "tier", "track"]
+            isOneToOne: false
+            referencedRelation: "season_tiers"
+            referencedColumns: ["season_id", "tier", "track"]
+          },
+        ]
+      }
+      season_progress: {
+        Row: {
+          season_id: string
+          updated_at: string
+          user_id: string
+          xp: number
+        }
+        Insert: {
+          season_id: string
+          updated_at?: string
+          user_id: string
+          xp?: number
+        }
+        Update: {
+          season_id?: string
+          updated_at?: string
+          user_id?: string
+          xp?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "season_progress_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      season_tiers: {
+        Row: {
+          reward_type: string
+          reward_value: string
+          season_id: string
+          tier: number
+          track: string
+          xp_required: number
+        }
+        Insert: {
+          reward_type: string
+          reward_value: string
+          season_id: string
+          tier: number
+          track: string
+          xp_required: number
+        }
+        Update: {
+          reward_type?: string
+          reward_value?: string
+          season_id?: string
+          tier?: number
+          track?: string
+          xp_required?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "season_tiers_season_id_fkey"
+            columns: ["season_id"]
+            isOneToOne: false
+            referencedRelation: "seasons"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seasons: {
+        Row: {
+          ends_at: string
+          id: string
+          name: string
+          starts_at: string
+        }
+        Insert: {
+          ends_at: string
+          id: string
+          name: string
+          starts_at: string
+        }
+        Update: {
+          ends_at?: string
+          id?: string
+          name?: string
+          starts_at?: string
+        }
+        Relationships: []
+      }
+      ssc_level_clears: {
+        Row: {
+          created_at: string
+          id: string
+          leaderboard_entry_id: string
+          level: number
+          level_goal: number
+          level_score: number
+          profile_id: string
+          star_rating: number
+          time_seconds: number
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          leaderboard_entry_id: string
+          level: number
+          level_goal: number
+          level_score: number
+          profile_id: string
+          star_rating: number
+          time_seconds: number
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          leaderboard_entry_id?: string
+          level?: number
+          level_goal?: number
+          level_score?: number
+          profile_id?: string
+          star_rating?: number
+          time_seconds?: number
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ssc_level_clears_leaderboard_entry_id_fkey"
+            columns: ["leaderboard_entry_id"]
+            isOneToOne: false
+            referencedRelation: "leaderboard_entries"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ssc_level_clears_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       unlockables: {
         Row: {
           created_at: string
@@ -342,6 +848,24 @@ export type Database = {
         }
         Relationships: []
       }
+      user_timezones: {
+        Row: {
+          timezone: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          timezone?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          timezone?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       user_unlocks: {
         Row: {
           id: string
@@ -376,10 +900,247 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_season_xp: {
+        Args: { p_user_id: string; p_xp: number }
+        Returns: number
+      }
+      bank_power_ups: {
+        Args: { p_power_up_ids: string[]; p_user_id: string }
+        Returns: undefined
+      }
+      claim_challenge_reward: {
+        Args: { p_challenge_id: string }
+        Returns: {
+          chain_id: string | null
+          chain_step: number | null
+          challenge_date: string
+          challenge_type: string
+          completed: boolean
+          created_at: string
+          current_value: number
+          id: string
+          period: string
+          reward_claimed: boolean
+          reward_type: string | null
+          reward_value: string | null
+          target_value: number
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "daily_challenges"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      claim_daily_attempt: {
+        Args: never
+        Returns: string
+      }
+      claim_daily_reward: {
+        Args: never
+        Returns: {
+          claim_date: string
+          created_at: string
+          id: string
+          mystery: boolean
+          reward_type: string
+          reward_value: string
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "daily_rewards"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      claim_season_reward: {
+        Args: { p_tier: number; p_track: string }
+        Returns: undefined
+      }
+      daily_reward_status: {
+        Args: never
+        Returns: {
+          can_claim: boolean
+          next_claim_at: string
+          server_time: string
+        }[]
+      }
+      friend_user_ids: {
+        Args: never
+        Returns: string[]
+      }
+      get_challenges: {
+        Args: never
+        Returns: {
+          chain_id: string | null
+          chain_step: number | null
+          challenge_date: string
+          challenge_type: string
+          completed: boolean
+          created_at: string
+          current_value: number
+          id: string
+          period: string
+          reward_claimed: boolean
+          reward_type: string | null
+          reward_value: string | null
+          target_value: number
+          user_id: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "daily_challenges"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      get_friends: {
+        Args: never
+        Returns: {
+          avatar_url: string | null
+          created_at: string
+          friendship_id: string
+          incoming: boolean
+          status: string
+          username: string | null
+        }[]
+      }
+      get_leaderboard: {
+        Args: {
+          p_daily_date?: string
+          p_game_mode?: Database["public"]["Enums"]["game_mode"]
+          p_friends_only?: boolean
+          p_limit?: number
+          p_window: string
+        }
+        Returns: {
+          avatar_url: string | null
+          best_hand: string | null
+          created_at: string
+          daily_date: string | null
+          game_mode: Database["public"]["Enums"]["game_mode"]
+          hands_played: number
+          id: string
+          profile_id: string
+          replay_id: string | null
+          score: number
+          ssc_level: number | null
+          time_seconds: number | null
+          username: string | null
+        }[]
+      }
+      get_leaderboard_position: {
+        Args: {
+          p_daily_date?: string
+          p_friends_only?: boolean
+          p_game_mode?: Database["public"]["Enums"]["game_mode"]
+          p_neighbours?: number
+          p_window: string
+        }
+        Returns: {
+          avatar_url: string | null
+          best_hand: string | null
+          created_at: string
+          daily_date: string | null
+          game_mode: Database["public"]["Enums"]["game_mode"]
+          hands_played: number
+          id: string
+          is_me: boolean
+          percentile: number
+          profile_id: string
+          rank: number
+          replay_id: string | null
+          score: number
+          ssc_level: number | null
+          time_seconds: number | null
+          total_ranked: number
+          username: string | null
+        }[]
+      }
+      get_level_leaderboard: {
+        Args: { p_level: number; p_limit?: number }
+        Returns: {
+          avatar_url: string | null
+          created_at: string
+          is_me: boolean
+          level_goal: number
+          level_score: number
+          rank: number
+          replay_id: string | null
+          star_rating: number
+          time_seconds: number
+          username: string | null
+        }[]
+      }
+      get_level_records: {
+        Args: never
+        Returns: {
+          level: number
+          my_star_rating: number | null
+          my_time_seconds: number | null
+          star_rating: number
+          time_seconds: number
+          username: string | null
+        }[]
+      }
+      leaderboard_window_start: {
+        Args: { p_window: string }
+        Returns: string
+      }
+      record_challenge_progress: {
+        Args: {
+          p_flushes: number
+          p_full_houses: number
+          p_score: number
+          p_ssc_level: number
+          p_straights: number
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      respond_friend_request: {
+        Args: { p_accept: boolean; p_friendship_id: string }
+        Returns: undefined
+      }
+      send_friend_request: {
+        Args: { p_username: string }
+        Returns: string
+      }
+      set_timezone: {
+        Args: { p_timezone: string }
+        Returns: string
+      }
+      start_loadout: {
+        Args: { p_power_up_ids: string[] }
+        Returns: string
+      }
+      start_run: {
+        Args: { p_game_mode: Database["public"]["Enums"]["game_mode"] }
+        Returns: string
+      }
+      unlock_loadout_slot: {
+        Args: { p_unlockable_id: string }
+        Returns: boolean
+      }
+      use_double_points: {
+        Args: { p_user_id: string }
+        Returns: boolean
+      }
+      use_streak_shields: {
+        Args: { p_missed_days: number }
+        Returns: boolean
+      }
     }
     Enums: {
-      game_mode: "classic_fc" | "classic_cb" | "blitz_fc" | "blitz_cb" | "ssc"
+      game_mode:
+        | "classic_fc"
+        | "classic_cb"
+        | "blitz_fc"
+        | "blitz_cb"
+        | "ssc"
+        | "daily"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -507,7 +1268,7 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      game_mode: ["classic_fc", "classic_cb", "blitz_fc", "blitz_cb", "ssc"],
+      game_mode: ["classic_fc", "classic_cb", "blitz_fc", "blitz_cb", "ssc", "daily"],
     },
   },
 } as const
@@ -0,0 +1,23 @@
+import { seedFromString } from '@/lib/random';
+
+// ============================================================================
+// DAILY SEED MODE
+// ============================================================================
+// Every player gets the same deck order for the UTC day. The date key doubles
+// as the leaderboard tag, so it must be computed in UTC - never local time.
+
+// UTC day as YYYY-MM-DD
+export function getDailyDateKey(date: Date = new Date()): string {
+  return date.toISOString().split('T')[0];
+}
+
+// Shared seed for a given UTC day
+export function getDailySeed(dateKey: string = getDailyDateKey()): number {
+  return seedFromString(`poker-shootout-daily:${dateKey}`);
+}
+
+// Milliseconds until the next UTC midnight (when a new daily seed unlocks)
+export function getTimeUntilNextDaily(now: Date = new Date()): number {
+  const nextMidnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return nextMidnight - now.getTime();
+}
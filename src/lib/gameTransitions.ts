@@ -0,0 +1,713 @@
+import { Card, GameMode, GameState, HandResult, SSCPhase } from '@/types/game';
+import {
+  createDeck,
+  shuffleDeck,
+  calculateLevelGoal,
+  getSSCLevelInfo,
+  getSSCLevelWilds,
+  createBonusFriendlyDeck,
+  compareHands,
+  calculateStarRating,
+  shouldTriggerBonusRound,
+  isSSCMode,
+} from '@/lib/pokerEngine';
+import { getScoringRuleset, evaluateRulesetHand } from '@/lib/scoringRulesets';
+import { createSeededRandom, generateSeed, RandomSource } from '@/lib/random';
+import { getDailyDateKey, getDailySeed } from '@/lib/dailySeed';
+import { SavedRun } from '@/lib/savedRun';
+import { getPowerUp, getPowerUpsByTier, getPowerUpLevel, getCraftResultTier, canUpgradePowerUp } from '@/lib/powerUps';
+import { INITIAL_GAME_STATE } from '@/hooks/game/gameConstants';
+
+// ============================================================================
+// GAME STATE TRANSITIONS
+// ============================================================================
+// Every rule that changes a run, as pure (state, input) => state functions.
+// The game hooks wrap these in setState; the submit-score edge function runs
+// them directly to re-play a run's action log (see replayVerifier.ts). No
+// React, DOM or timers in here - it must run under Deno too.
+
+// ============================================================================
+// BONUS ROUND REWARDS
+// ============================================================================
+
+export type RewardTier = 'bronze' | 'silver' | 'gold';
+
+// Indexed by power-up tier - 1
+const REWARD_TIERS: RewardTier[] = ['bronze', 'silver', 'gold'];
+
+export function getRewardTier(score: number): RewardTier {
+  if (score > 1200) return 'gold';
+  if (score >= 500) return 'silver';
+  return 'bronze';
+}
+
+// Grade a bonus round hand: points set the tier, and keeping the best hand the
+// dealt cards allowed (an exact tie counts) moves it up one tier
+export function gradeBonusHand(result: HandResult, points: number, bestAvailable: HandResult | null): RewardTier {
+  const tier = getRewardTier(points);
+  if (!bestAvailable || compareHands(result, bestAvailable) < 0) return tier;
+  return tier === 'bronze' ? 'silver' : 'gold';
+}
+
+// Get power-ups available for a specific tier
+function getPowerUpsForTier(tier: RewardTier): string[] {
+  return getPowerUpsByTier(REWARD_TIERS.indexOf(tier) + 1).map(p => p.id);
+}
+
+// Select a random power-up for a bonus round reward tier
+export function selectRewardPowerUp(tier: RewardTier, random: RandomSource = Math.random): string | null {
+  const availablePowerUps = getPowerUpsForTier(tier);
+
+  if (availablePowerUps.length === 0) return null;
+
+  const randomIndex = Math.floor(random() * availablePowerUps.length);
+  return availablePowerUps[randomIndex];
+}
+
+// Helper to remove only ONE instance of a power-up ID from an array
+function removeOnePowerUp(arr: string[], id: string): string[] {
+  const idx = arr.indexOf(id);
+  if (idx === -1) return arr;
+  return [...arr.slice(0, idx), ...arr.slice(idx + 1)];
+}
+
+// Level complete screen, bonus round offer or loot box: the level is over, so
+// nothing can be played and the clock stands still until the player moves on
+function isBetweenLevels(state: GameState): boolean {
+  return state.isLevelComplete || state.pendingBonusRound || state.showLootBox;
+}
+
+// Upgrades last until the last copy of a power-up is gone
+function keepHeldLevels(levels: Record<string, number>, earnedPowerUps: string[]): Record<string, number> {
+  return Object.fromEntries(Object.entries(levels).filter(([id]) => earnedPowerUps.includes(id)));
+}
+
+// ============================================================================
+// GAME CONTROLS
+// ============================================================================
+
+// A fresh run. The seed is generated here unless the caller pinned one.
+// SSC runs can start with a pre-run loadout of power-ups (see loadout.ts).
+export function createGameState(mode: GameMode, forceBonus: boolean = false, startLevel: number = 1, phaseOverride?: string, seed?: number, loadout: string[] = []): GameState {
+  const isBlitz = mode === 'blitz_fc' || mode === 'blitz_cb';
+  const isSSC = isSSCMode(mode);
+  // Daily runs always start at Level 1 from the shared seed for the UTC day
+  const dailyDate = mode === 'daily' ? getDailyDateKey() : null;
+
+  const level = isSSC && !dailyDate ? startLevel : 1;
+  const levelInfo = isSSC ? getSSCLevelInfo(level) : null;
+  const isBonusLevel = forceBonus;
+  const initialBonusCount = isBonusLevel ? 1 : 0;
+  const wilds = isSSC && !isBonusLevel ? getSSCLevelWilds(level) : null;
+
+  // Every run is seeded so it can be replayed exactly; callers may pin the seed
+  const runSeed = seed ?? (dailyDate ? getDailySeed(dailyDate) : generateSeed());
+  const rng = createSeededRandom(runSeed);
+  const deck = isBonusLevel ? createBonusFriendlyDeck(initialBonusCount, rng.next) : shuffleDeck(createDeck(wilds?.jokers), rng.next);
+
+  return {
+    ...INITIAL_GAME_STATE,
+    mode,
+    deck,
+    isPlaying: true,
+    timeRemaining: isBlitz ? 60 : (isSSC ? 60 : 9999),
+    sscLevel: level,
+    sscPhase: levelInfo?.phase || 'sitting_duck',
+    sscRound: levelInfo?.round || 1,
+    isBonusLevel,
+    levelGoal: isSSC ? calculateLevelGoal(level) : 0,
+    // Daily runs stay on equal terms: no loadouts
+    earnedPowerUps: mode === 'ssc' ? [...loadout] : [],
+    activePowerUps: mode === 'ssc' ? [...loadout] : [],
+    powerUpChoices: [],
+    showPowerUpSelection: false,
+    bonusRoundCount: initialBonusCount,
+    pendingBonusRound: false,
+    phaseOverride,
+    seed: runSeed,
+    rngState: rng.getState(),
+    dailyDate,
+    wildRanks: wilds ? wilds.rules.wildRanks : [],
+  };
+}
+
+// Resume a saved SSC run. Starts paused so the intro can play before the clock runs.
+export function restoreGameState(saved: SavedRun): GameState {
+  return {
+    ...INITIAL_GAME_STATE,
+    ...saved.state,
+    isPlaying: true,
+    isPaused: true,
+    isGameOver: false,
+  };
+}
+
+export function applySetPaused(prev: GameState, paused: boolean): GameState {
+  return { ...prev, isPaused: paused };
+}
+
+export function applyTogglePause(prev: GameState): GameState {
+  return { ...prev, isPaused: !prev.isPaused };
+}
+
+export function applyEndGame(prev: GameState): GameState {
+  const { score: finalScore, timeBonus, leftoverPenalty } = getScoringRuleset(prev.mode).finalizeScore(prev);
+
+  return {
+    ...prev,
+    score: finalScore,
+    timeBonus,
+    leftoverPenalty,
+    isPlaying: false,
+    isGameOver: true,
+  };
+}
+
+export function applyReshuffle(prev: GameState): GameState {
+  const rng = createSeededRandom(prev.rngState);
+  const shuffledDeck = shuffleDeck([...prev.deck], rng.next);
+  return {
+    ...prev,
+    deck: shuffledDeck,
+    xRayCardIds: [],
+    rngState: rng.getState(),
+  };
+}
+
+export function applyExplainerSeen(prev: GameState): GameState {
+  return {
+    ...prev,
+    hasSeenSSCExplainer: true,
+  };
+}
+
+// ============================================================================
+// CLOCK
+// ============================================================================
+
+// One second of game clock: counts down in Blitz/SSC (ending the level or
+// game at zero) and up in Classic (ending the game at 10 minutes)
+export function applyTick(state: GameState): GameState {
+  if (state.isGameOver || isBetweenLevels(state)) return state;
+
+  // Power-up effects wear off on the game clock
+  const prev = state.slowMotionSeconds > 0 ? { ...state, slowMotionSeconds: state.slowMotionSeconds - 1 } : state;
+
+  // Freeze Time: this second doesn't count
+  if (prev.timeFrozenSeconds > 0) {
+    return { ...prev, timeFrozenSeconds: prev.timeFrozenSeconds - 1 };
+  }
+
+  const mode = prev.mode;
+  const isBlitz = mode === 'blitz_fc' || mode === 'blitz_cb';
+  const isSSC = isSSCMode(mode);
+  const timeElapsed = prev.timeElapsed + 1;
+
+  if (isBlitz || isSSC) {
+    const timeRemaining = prev.timeRemaining - 1;
+
+    if (timeRemaining > 0) {
+      return { ...prev, timeRemaining, timeElapsed };
+    }
+
+    if (isSSC && prev.isBonusLevel) {
+      return {
+        ...prev,
+        timeRemaining: 0,
+        timeElapsed,
+        isLevelComplete: true,
+        isBonusFailed: true
+      };
+    }
+
+    if (isSSC && prev.score >= prev.levelGoal) {
+      return {
+        ...prev,
+        timeRemaining: 0,
+        timeElapsed,
+        isLevelComplete: true,
+        pendingBonusRound: shouldTriggerBonusRound(prev.sscLevel),
+        starRating: calculateStarRating(prev.score, prev.levelGoal),
+      };
+    }
+
+    // Out of time: the mode's ruleset settles the final score (Blitz: rawScore × handsPlayed)
+    const { score: finalScore, timeBonus, leftoverPenalty } = getScoringRuleset(mode).finalizeScore({ ...prev, timeRemaining: 0, timeElapsed });
+
+    return {
+      ...prev,
+      timeRemaining: 0,
+      timeElapsed,
+      score: finalScore,
+      timeBonus,
+      leftoverPenalty,
+      isGameOver: true,
+      isPlaying: false
+    };
+  }
+
+  // Classic mode
+  const isClassic = mode === 'classic_fc' || mode === 'classic_cb';
+
+  if (isClassic && timeElapsed >= 600) {
+    const { score: finalScore, timeBonus, leftoverPenalty } = getScoringRuleset(mode).finalizeScore({ ...prev, timeElapsed: 600 });
+
+    return {
+      ...prev,
+      timeElapsed: 600,
+      isGameOver: true,
+      isPlaying: false,
+      score: finalScore,
+      timeBonus,
+      leftoverPenalty,
+    };
+  }
+
+  return { ...prev, timeElapsed };
+}
+
+// ============================================================================
+// CARD SELECTION & HANDS
+// ============================================================================
+
+// How many cards a player can realistically pick from at once on each board
+// (SD grid on desktop, ~one screen of belt / falling cards, all three rings).
+// The boards deal from the top of the deck only, so a pick from further down
+// was never on show.
+export const VISIBLE_CARDS: Record<SSCPhase, number> = {
+  sitting_duck: 21,
+  conveyor: 18,
+  falling: 10,
+  orbit: 36,
+};
+
+// The board a run is played on: the testing phase override, then the mode for
+// Classic and Blitz, then the SSC level's phase
+export function getBoardPhase(state: GameState): SSCPhase {
+  const override = state.phaseOverride as SSCPhase | undefined;
+  if (override && override in VISIBLE_CARDS) return override;
+  if (state.mode === 'classic_fc' || state.mode === 'blitz_fc') return 'falling';
+  if (state.mode === 'classic_cb' || state.mode === 'blitz_cb') return 'conveyor';
+  return state.sscPhase;
+}
+
+// The cards the board can be showing right now
+export function getVisibleCards(state: GameState): Card[] {
+  return state.deck.slice(0, VISIBLE_CARDS[getBoardPhase(state)]);
+}
+
+export function applySelectCard(prev: GameState, card: Card): GameState {
+  // Hard cap
+  if (prev.selectedCards.length >= 5) return prev;
+
+  // Game state check
+  if (!prev.isPlaying || prev.isPaused || isBetweenLevels(prev)) return prev;
+
+  // Duplicate card check
+  if (prev.selectedCards.some((c) => c.id === card.id)) return prev;
+
+  // Only cards on show (a card can be tapped mid-animation after a power-up
+  // has taken it or a hand has moved the window past it)
+  if (!getVisibleCards(prev).some((c) => c.id === card.id)) return prev;
+
+  const shouldRecycle = getScoringRuleset(prev.mode).recyclesCards;
+
+  return {
+    ...prev,
+    selectedCards: [...prev.selectedCards, card],
+    usedCards: shouldRecycle ? prev.usedCards : [...prev.usedCards, card],
+    deck: prev.deck.filter((c) => c.id !== card.id),
+    cardsSelected: prev.cardsSelected + 1,
+  };
+}
+
+// Hand-scoring transitions also return the scored hand (null if nothing was
+// scored) so callers can keep the run's hand history
+export interface HandTransition {
+  state: GameState;
+  hand: HandResult | null;
+}
+
+export function applySubmitHand(prev: GameState): HandTransition {
+  if (prev.selectedCards.length !== 5 || isBetweenLevels(prev)) return { state: prev, hand: null };
+
+  // Base points, multipliers and end-of-game rules all come from the mode's ruleset
+  const ruleset = getScoringRuleset(prev.mode);
+  const result = evaluateRulesetHand(ruleset, prev.selectedCards, { wildRanks: prev.wildRanks });
+  const isSSC = isSSCMode(prev.mode);
+
+  const {
+    result: modifiedResult,
+    points: multipliedPoints,
+    rawPoints,
+    multiplier: betterHandMultiplier,
+    betterHandStreak: newBetterHandStreak,
+  } = ruleset.scoreHand(result, prev);
+  const newPreviousHand = result;
+
+  const newHandsPlayed = prev.handsPlayed + 1;
+  const newRawScore = prev.rawScore + rawPoints;
+  const newScore = prev.score + multipliedPoints;
+  const newLevelScore = prev.levelScore + multipliedPoints;
+  const newCumulativeScore = prev.cumulativeScore + multipliedPoints;
+
+  const recycledDeck = ruleset.recyclesCards
+    ? [...prev.deck, ...prev.selectedCards]
+    : prev.deck;
+
+  const handLimitReached = ruleset.handLimit !== null && newHandsPlayed >= ruleset.handLimit;
+
+  // For SSC, check if level is complete
+  if (isSSC && newScore >= prev.levelGoal) {
+    const starRating = calculateStarRating(newScore, prev.levelGoal);
+    const shouldBonus = shouldTriggerBonusRound(prev.sscLevel);
+    return {
+      hand: modifiedResult,
+      state: {
+        ...prev,
+        score: newScore,
+        rawScore: newRawScore,
+        levelScore: newLevelScore,
+        cumulativeScore: newCumulativeScore,
+        handsPlayed: newHandsPlayed,
+        selectedCards: [],
+        xRayCardIds: [],
+        currentHand: modifiedResult,
+        isLevelComplete: true,
+        pendingBonusRound: shouldBonus,
+        deck: recycledDeck,
+        previousHand: newPreviousHand,
+        betterHandStreak: newBetterHandStreak,
+        currentMultiplier: betterHandMultiplier,
+        starRating,
+      },
+    };
+  }
+
+  // Hand limit reached (Classic) - apply end-of-game adjustments
+  if (handLimitReached) {
+    const { score: finalScore, timeBonus, leftoverPenalty } = ruleset.finalizeScore({
+      ...prev,
+      rawScore: newRawScore,
+      handsPlayed: newHandsPlayed,
+    });
+
+    return {
+      hand: modifiedResult,
+      state: {
+        ...prev,
+        score: finalScore,
+        rawScore: newRawScore,
+        timeBonus,
+        leftoverPenalty,
+        handsPlayed: newHandsPlayed,
+        selectedCards: [],
+        xRayCardIds: [],
+        currentHand: modifiedResult,
+        isGameOver: true,
+      },
+    };
+  }
+
+  return {
+    hand: modifiedResult,
+    state: {
+      ...prev,
+      score: newScore,
+      rawScore: newRawScore,
+      levelScore: newLevelScore,
+      cumulativeScore: newCumulativeScore,
+      handsPlayed: newHandsPlayed,
+      selectedCards: [],
+      xRayCardIds: [],
+      currentHand: modifiedResult,
+      deck: recycledDeck,
+      isGameOver: false,
+      previousHand: newPreviousHand,
+      betterHandStreak: newBetterHandStreak,
+      currentMultiplier: betterHandMultiplier,
+    },
+  };
+}
+
+export function applySubmitBonusHand(prev: GameState, cards: Card[], result: HandResult, timeRemaining: number, bestAvailable: HandResult | null = null): HandTransition {
+  if (!prev.isBonusLevel || isBetweenLevels(prev)) return { state: prev, hand: null };
+
+  const { points: totalPoints, timeBonusPoints } = getScoringRuleset(prev.mode).scoreBonusHand(result, timeRemaining);
+
+  const newScore = prev.score + totalPoints;
+  const newRawScore = prev.rawScore + totalPoints;
+  const newLevelScore = prev.levelScore + totalPoints;
+  const newCumulativeScore = prev.cumulativeScore + totalPoints;
+
+  const tier = gradeBonusHand(result, totalPoints, bestAvailable);
+  const rng = createSeededRandom(prev.rngState);
+  const rewardPowerUp = selectRewardPowerUp(tier, rng.next);
+
+  return {
+    hand: result,
+    state: {
+      ...prev,
+      score: newScore,
+      rawScore: newRawScore,
+      levelScore: newLevelScore,
+      cumulativeScore: newCumulativeScore,
+      handsPlayed: prev.handsPlayed + 1,
+      selectedCards: [],
+      currentHand: result,
+      isLevelComplete: true,
+      bonusTimePoints: timeBonusPoints,
+      pendingReward: rewardPowerUp,
+      rewardTier: tier,
+      showLootBox: rewardPowerUp !== null,
+      inventoryFull: false,
+      powerUpChoices: [],
+      showPowerUpSelection: false,
+      rngState: rng.getState(),
+    },
+  };
+}
+
+// ============================================================================
+// POWER-UPS
+// ============================================================================
+
+export function applyPowerUp(prev: GameState, powerUpId: string): GameState {
+  if (!prev.activePowerUps.includes(powerUpId) || isBetweenLevels(prev)) return prev;
+
+  const powerUp = getPowerUp(powerUpId);
+  if (!powerUp) return prev;
+
+  const next = powerUp.apply(prev, getPowerUpLevel(prev, powerUpId));
+  // Don't consume the power-up if it couldn't take effect (e.g. hand can't be formed)
+  if (next === prev) return prev;
+
+  // Remove ONE instance from both earned and active lists (consumed until won again)
+  const earnedPowerUps = removeOnePowerUp(prev.earnedPowerUps, powerUpId);
+  return {
+    ...next,
+    earnedPowerUps,
+    activePowerUps: removeOnePowerUp(prev.activePowerUps, powerUpId),
+    powerUpLevels: keepHeldLevels(prev.powerUpLevels, earnedPowerUps),
+  };
+}
+
+// Combine three power-ups of one tier into a random power-up of the next tier
+export function applyCraftPowerUps(prev: GameState, powerUpIds: string[]): GameState {
+  const tier = getCraftResultTier(powerUpIds);
+  if (tier === null) return prev;
+
+  // Every ingredient must be held (duplicates need as many copies)
+  let earnedPowerUps = prev.earnedPowerUps;
+  let activePowerUps = prev.activePowerUps;
+  for (const id of powerUpIds) {
+    if (!earnedPowerUps.includes(id)) return prev;
+    earnedPowerUps = removeOnePowerUp(earnedPowerUps, id);
+    activePowerUps = removeOnePowerUp(activePowerUps, id);
+  }
+
+  const rng = createSeededRandom(prev.rngState);
+  const crafted = selectRewardPowerUp(REWARD_TIERS[tier - 1], rng.next);
+  if (!crafted) return prev;
+
+  return {
+    ...prev,
+    earnedPowerUps: [...earnedPowerUps, crafted],
+    activePowerUps: [...activePowerUps, crafted],
+    powerUpLevels: keepHeldLevels(prev.powerUpLevels, earnedPowerUps),
+    rngState: rng.getState(),
+  };
+}
+
+// Claim the pending reward (add to inventory - no limit)
+export function applyClaimReward(prev: GameState): GameState {
+  if (!prev.pendingReward) return prev;
+
+  return {
+    ...prev,
+    earnedPowerUps: [...prev.earnedPowerUps, prev.pendingReward],
+    activePowerUps: [...prev.activePowerUps, prev.pendingReward],
+    pendingReward: null,
+    rewardTier: null,
+    showLootBox: false,
+    inventoryFull: false,
+  };
+}
+
+// Upgrade: spend the pending reward on raising the level of the copy already held
+export function applyUpgradeReward(prev: GameState): GameState {
+  if (!prev.pendingReward || !canUpgradePowerUp(prev, prev.pendingReward)) return prev;
+
+  return {
+    ...prev,
+    powerUpLevels: { ...prev.powerUpLevels, [prev.pendingReward]: getPowerUpLevel(prev, prev.pendingReward) + 1 },
+    pendingReward: null,
+    rewardTier: null,
+    showLootBox: false,
+    inventoryFull: false,
+  };
+}
+
+// Swap: discard ONE instance of an existing power-up to make room for the new one
+export function applySwapPowerUp(prev: GameState, discardPowerUpId: string): GameState {
+  if (!prev.pendingReward) return prev;
+
+  const earnedPowerUps = [...removeOnePowerUp(prev.earnedPowerUps, discardPowerUpId), prev.pendingReward];
+  return {
+    ...prev,
+    earnedPowerUps,
+    activePowerUps: [...removeOnePowerUp(prev.activePowerUps, discardPowerUpId), prev.pendingReward],
+    powerUpLevels: keepHeldLevels(prev.powerUpLevels, earnedPowerUps),
+    pendingReward: null,
+    rewardTier: null,
+    showLootBox: false,
+    inventoryFull: false,
+  };
+}
+
+// Discard the new reward (keep current inventory)
+export function applyDiscardReward(prev: GameState): GameState {
+  return {
+    ...prev,
+    pendingReward: null,
+    rewardTier: null,
+    showLootBox: false,
+    inventoryFull: false,
+  };
+}
+
+// Legacy power-up choice screen
+export function applySelectPowerUp(prev: GameState, powerUpId: string): GameState {
+  if (!prev.powerUpChoices.includes(powerUpId)) return prev;
+
+  return {
+    ...prev,
+    earnedPowerUps: [...prev.earnedPowerUps, powerUpId],
+    activePowerUps: [...prev.activePowerUps, powerUpId],
+    powerUpChoices: [],
+    showPowerUpSelection: false,
+  };
+}
+
+export function applyDismissPowerUpSelection(prev: GameState): GameState {
+  return {
+    ...prev,
+    powerUpChoices: [],
+    showPowerUpSelection: false,
+    showLootBox: false,
+    pendingReward: null,
+    rewardTier: null,
+    inventoryFull: false,
+  };
+}
+
+// ============================================================================
+// LEVEL PROGRESSION
+// ============================================================================
+
+// Start a bonus round (called when pendingBonusRound is true)
+export function applyStartBonusRound(prev: GameState): GameState {
+  if (!prev.pendingBonusRound) return prev;
+
+  const newBonusRoundCount = prev.bonusRoundCount + 1;
+  const rng = createSeededRandom(prev.rngState);
+  const deck = createBonusFriendlyDeck(newBonusRoundCount, rng.next);
+
+  return {
+    ...prev,
+    isBonusLevel: true,
+    isBonusFailed: false,
+    pendingBonusRound: false,
+    bonusRoundCount: newBonusRoundCount,
+    isPlaying: true,
+    isPaused: false,
+    isGameOver: false,
+    score: 0,
+    rawScore: 0,
+    levelScore: 0,
+    handsPlayed: 0,
+    cardsSelected: 0,
+    timeRemaining: 60,
+    timeElapsed: 0,
+    bonusTimePoints: 0,
+    selectedCards: [],
+    deck,
+    usedCards: [],
+    currentHand: null,
+    isLevelComplete: false,
+    powerUpChoices: [],
+    showPowerUpSelection: false,
+    previousHand: null,
+    betterHandStreak: 0,
+    currentMultiplier: 1,
+    starRating: 0,
+    timeFrozenSeconds: 0,
+    slowMotionSeconds: 0,
+    xRayCardIds: [],
+    rngState: rng.getState(),
+    wildRanks: [],
+  };
+}
+
+// Proceed to next numbered level (called after bonus round or directly).
+// Only from a completed level, once any bonus round offer and loot box are dealt with.
+export function applyNextLevel(prev: GameState): GameState {
+  if (!prev.isLevelComplete || prev.pendingBonusRound || prev.showLootBox) return prev;
+
+  const newLevel = prev.sscLevel + 1;
+  const levelInfo = getSSCLevelInfo(newLevel);
+  const wilds = getSSCLevelWilds(newLevel);
+  const rng = createSeededRandom(prev.rngState);
+  const deck = shuffleDeck(createDeck(wilds.jokers), rng.next);
+
+  return {
+    ...prev,
+    sscLevel: newLevel,
+    sscPhase: levelInfo.phase,
+    sscRound: levelInfo.round,
+    isBonusLevel: false,
+    isBonusFailed: false,
+    pendingBonusRound: false,
+    levelGoal: calculateLevelGoal(newLevel),
+    isPlaying: true,
+    isPaused: false,
+    isGameOver: false,
+    score: 0,
+    rawScore: 0,
+    levelScore: 0,
+    handsPlayed: 0,
+    cardsSelected: 0,
+    timeRemaining: 60,
+    timeElapsed: 0,
+    timeBonus: 0,
+    leftoverPenalty: 0,
+    bonusTimePoints: 0,
+    selectedCards: [],
+    deck,
+    usedCards: [],
+    currentHand: null,
+    isLevelComplete: false,
+    powerUpChoices: [],
+    showPowerUpSelection: false,
+    activePowerUps: [...prev.earnedPowerUps],
+    previousHand: null,
+    betterHandStreak: 0,
+    currentMultiplier: 1,
+    starRating: 0,
+    timeFrozenSeconds: 0,
+    slowMotionSeconds: 0,
+    xRayCardIds: [],
+    rngState: rng.getState(),
+    wildRanks: wilds.rules.wildRanks,
+  };
+}
+
+export function applySkipBonusRound(prev: GameState): GameState {
+  if (!prev.isBonusLevel || prev.isLevelComplete) return prev;
+
+  return {
+    ...prev,
+    isLevelComplete: true,
+    isBonusFailed: true,
+  };
+}
@@ -0,0 +1,26 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { formatTimeLeft, getWindowResetAt } from '@/lib/leaderboardWindows';
+
+test('the daily window resets at the next UTC midnight', () => {
+  const reset = getWindowResetAt('daily', new Date('2026-10-21T23:30:00Z'));
+  assert.equal(reset?.toISOString(), '2026-10-22T00:00:00.000Z');
+});
+
+test('the weekly window resets on the next Monday, UTC', () => {
+  // 2026-10-19 is a Monday
+  for (const day of ['2026-10-19T00:00:00Z', '2026-10-21T12:00:00Z', '2026-10-25T23:59:00Z']) {
+    assert.equal(getWindowResetAt('weekly', new Date(day))?.toISOString(), '2026-10-26T00:00:00.000Z');
+  }
+});
+
+test('all-time never resets', () => {
+  assert.equal(getWindowResetAt('all_time'), null);
+});
+
+test('time left is shown in the two largest units', () => {
+  assert.equal(formatTimeLeft(((2 * 24 + 5) * 60 + 30) * 60 * 1000), '2d 5h');
+  assert.equal(formatTimeLeft((5 * 60 + 12) * 60 * 1000), '5h 12m');
+  assert.equal(formatTimeLeft(12 * 60 * 1000 + 59 * 1000), '12m');
+  assert.equal(formatTimeLeft(-1000), '0m');
+});
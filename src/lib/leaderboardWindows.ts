@@ -0,0 +1,39 @@
+// ============================================================================
+// LEADERBOARD WINDOWS
+// ============================================================================
+// The leaderboard ranks runs submitted in the current UTC day, the current
+// UTC week (Monday to Sunday, like Postgres date_trunc('week')) or all time.
+// The boundaries are decided by leaderboard_window_start in Postgres; these
+// helpers only drive the reset countdowns.
+
+export type LeaderboardWindow = 'daily' | 'weekly' | 'all_time';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// When the window next starts over (null for all-time)
+export function getWindowResetAt(window: LeaderboardWindow, now: Date = new Date()): Date | null {
+  const nextMidnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+
+  switch (window) {
+    case 'daily':
+      return new Date(nextMidnight);
+    case 'weekly': {
+      const dayOfWeek = (now.getUTCDay() + 6) % 7; // Monday = 0
+      return new Date(nextMidnight + (6 - dayOfWeek) * DAY_MS);
+    }
+    case 'all_time':
+      return null;
+  }
+}
+
+// "2d 5h", "5h 12m" or "12m"
+export function formatTimeLeft(ms: number): string {
+  const totalMinutes = Math.max(0, Math.floor(ms / (60 * 1000)));
+  const days = Math.floor(totalMinutes / (24 * 60));
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  return `${minutes}m`;
+}
@@ -0,0 +1,47 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { canAffordLoadout, getLoadoutSlots, isLoadout, isSameLoadout, MAX_LOADOUT_SLOTS } from '@/lib/loadout';
+import { parseReplay, REPLAY_VERSION } from '@/lib/replay';
+import { createGameState } from '@/lib/gameTransitions';
+
+test('loadout slots start at one and are capped', () => {
+  assert.equal(getLoadoutSlots(0), 1);
+  assert.equal(getLoadoutSlots(1), 2);
+  assert.equal(getLoadoutSlots(10), MAX_LOADOUT_SLOTS);
+});
+
+test('a loadout needs a copy in the inventory for every pick', () => {
+  const inventory = { add_time: 2, flush: 1 };
+
+  assert.ok(canAffordLoadout(['add_time', 'add_time', 'flush'], inventory));
+  assert.ok(!canAffordLoadout(['flush', 'flush'], inventory));
+  assert.ok(!canAffordLoadout(['royal_flush'], inventory));
+});
+
+test('loadouts compare without regard to order', () => {
+  assert.ok(isSameLoadout(['flush', 'add_time'], ['add_time', 'flush']));
+  assert.ok(!isSameLoadout(['flush', 'flush'], ['flush']));
+});
+
+test('replays only carry loadouts with an id and known power-ups', () => {
+  assert.ok(isLoadout({ id: 'run-1', powerUpIds: ['add_time', 'flush'] }));
+  assert.ok(!isLoadout({ id: '', powerUpIds: ['add_time'] }));
+  assert.ok(!isLoadout({ powerUpIds: ['add_time'] }));
+  assert.ok(!isLoadout({ id: 'run-1' }));
+  assert.ok(!isLoadout({ id: 'run-1', powerUpIds: ['not_a_power_up'] }));
+
+  const replay = { version: REPLAY_VERSION, mode: 'ssc', seed: 7, startLevel: 1, forceBonus: false, events: [] };
+  assert.ok(parseReplay({ ...replay, loadout: { id: 'run-1', powerUpIds: ['flush'] } }));
+  assert.ok(parseReplay(replay));
+  assert.equal(parseReplay({ ...replay, loadout: { powerUpIds: ['royal_flush', 'royal_flush'] } }), null);
+  assert.equal(parseReplay({ ...replay, loadout: { id: 'run-1' } }), null);
+});
+
+test('SSC runs start holding the loadout; Daily runs ignore it', () => {
+  const ssc = createGameState('ssc', false, 1, undefined, 7, ['add_time', 'flush']);
+  assert.deepEqual(ssc.earnedPowerUps, ['add_time', 'flush']);
+  assert.deepEqual(ssc.activePowerUps, ['add_time', 'flush']);
+
+  const daily = createGameState('daily', false, 1, undefined, 7, ['add_time']);
+  assert.deepEqual(daily.earnedPowerUps, []);
+});
@@ -0,0 +1,46 @@
+// ============================================================================
+// PRE-RUN LOADOUTS
+// ============================================================================
+// Account holders keep a persistent power-up inventory (power_up_inventory).
+// Before an SSC run they can take a few of them in with them; the start_loadout
+// RPC spends them and returns an id that the replay carries, so submit-score
+// can check the run really started with them. Power-ups still held when a
+// verified SSC run ends are banked back into the inventory.
+
+import { getPowerUp } from '@/lib/powerUps';
+
+export const BASE_LOADOUT_SLOTS = 1;
+export const MAX_LOADOUT_SLOTS = 3;
+
+// unlockables.type of the extra slots granted by achievements
+export const LOADOUT_SLOT_UNLOCK_TYPE = 'loadout_slot';
+
+export interface Loadout {
+  id: string;             // loadout_runs row created by start_loadout
+  powerUpIds: string[];
+}
+
+export function getLoadoutSlots(unlockedSlots: number): number {
+  return Math.min(BASE_LOADOUT_SLOTS + unlockedSlots, MAX_LOADOUT_SLOTS);
+}
+
+// Whether the inventory holds enough copies for every pick (duplicates need as many copies)
+export function canAffordLoadout(powerUpIds: string[], inventory: Record<string, number>): boolean {
+  const needed: Record<string, number> = {};
+  for (const id of powerUpIds) needed[id] = (needed[id] ?? 0) + 1;
+  return Object.entries(needed).every(([id, count]) => (inventory[id] ?? 0) >= count);
+}
+
+// A loadout as a replay carries it: the start_loadout id and known power-up ids
+export function isLoadout(value: unknown): value is Loadout {
+  if (!value || typeof value !== 'object') return false;
+  const { id, powerUpIds } = value as Partial<Loadout>;
+  return typeof id === 'string' && id.length > 0
+    && Array.isArray(powerUpIds)
+    && powerUpIds.every(powerUpId => typeof powerUpId === 'string' && getPowerUp(powerUpId) !== undefined);
+}
+
+// Same power-ups regardless of order
+export function isSameLoadout(a: string[], b: string[]): boolean {
+  return a.length === b.length && [...a].sort().join(',') === [...b].sort().join(',');
+}
@@ -0,0 +1,392 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Card, POKER_HANDS } from '@/types/game';
+import { createDeck, createJoker, evaluateHand, generateSpecificHand, analyzeBestHands, findBestHand, getEffectiveCards, compareHands, findStrongestHand, getSSCLevelWilds, DEUCES_WILD, NO_WILDS, WildCardRules } from '@/lib/pokerEngine';
+import { createSeededRandom } from '@/lib/random';
+
+// ============================================================================
+// REFERENCE EVALUATOR
+// ============================================================================
+// Deliberately naive - sorts values and compares them directly - so it shares
+// nothing with the bitmask tables it is checking.
+
+function referenceCategory(cards: Card[]): string {
+  const values = cards.map(c => c.value).sort((a, b) => a - b);
+  const flush = cards.every(c => c.suit === cards[0].suit);
+  const unique = new Set(values).size === 5;
+  const wheel = values.join(',') === '2,3,4,5,14';
+  const straight = unique && (values[4] - values[0] === 4 || wheel);
+
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  const groups = [...counts.values()].sort((a, b) => b - a);
+
+  if (straight && flush) return values[0] === 10 ? 'Royal Flush' : 'Straight Flush';
+  if (groups[0] === 4) return 'Four of a Kind';
+  if (groups[0] === 3 && groups[1] === 2) return 'Full House';
+  if (flush) return 'Flush';
+  if (straight) return 'Straight';
+  if (groups[0] === 3) return 'Three of a Kind';
+  if (groups[0] === 2 && groups[1] === 2) return 'Two Pair';
+  if (groups[0] === 2) return 'One Pair';
+  return 'High Card';
+}
+
+// Standard 5-card poker frequencies (52 choose 5 = 2,598,960)
+const EXPECTED_COUNTS: Record<string, number> = {
+  'Royal Flush': 4,
+  'Straight Flush': 36,
+  'Four of a Kind': 624,
+  'Full House': 3744,
+  'Flush': 5108,
+  'Straight': 10200,
+  'Three of a Kind': 54912,
+  'Two Pair': 123552,
+  'One Pair': 1098240,
+  'High Card': 1302540,
+};
+
+// ============================================================================
+// EXHAUSTIVE EVALUATION
+// ============================================================================
+
+test('evaluateHand agrees with the reference on all 2,598,960 hands', () => {
+  const deck = createDeck();
+  const counts: Record<string, number> = {};
+  let total = 0;
+  let mismatches = 0;
+  const examples: string[] = [];
+  const hand: Card[] = new Array(5);
+
+  for (let a = 0; a < 48; a++) {
+    hand[0] = deck[a];
+    for (let b = a + 1; b < 49; b++) {
+      hand[1] = deck[b];
+      for (let c = b + 1; c < 50; c++) {
+        hand[2] = deck[c];
+        for (let d = c + 1; d < 51; d++) {
+          hand[3] = deck[d];
+          for (let e = d + 1; e < 52; e++) {
+            hand[4] = deck[e];
+            const actual = evaluateHand(hand).hand.name;
+            const expected = referenceCategory(hand);
+            counts[actual] = (counts[actual] || 0) + 1;
+            total++;
+            if (actual !== expected) {
+              mismatches++;
+              if (examples.length < 5) examples.push(`${hand.map(c => c.id).join(' ')}: ${actual}, expected ${expected}`);
+            }
+          }
+        }
+      }
+    }
+  }
+
+  assert.equal(total, 2598960);
+  assert.equal(mismatches, 0, `Mismatched hands:\n${examples.join('\n')}`);
+  assert.deepEqual(counts, EXPECTED_COUNTS);
+  assert.equal(counts['Royal Flush'] + counts['Straight Flush'], 40);
+});
+
+test('evaluateHand reports the points of the category it found', () => {
+  const deck = createDeck();
+  const result = evaluateHand(deck.filter(c => c.suit === 'spades' && c.value >= 10));
+  assert.equal(result.hand, POKER_HANDS[0]);
+  assert.equal(result.valueBonus, 10 + 11 + 12 + 13 + 14);
+  assert.equal(result.totalPoints, POKER_HANDS[0].basePoints + result.valueBonus);
+});
+
+// ============================================================================
+// generateSpecificHand PROPERTIES
+// ============================================================================
+
+const GENERATED_TYPES = POKER_HANDS
+  .map(h => h.name)
+  .filter(name => name !== 'One Pair' && name !== 'High Card');
+
+const SEEDS = 500;
+
+// Random subset of a fresh deck - the cards a power-up can draw from
+function dealCards(count: number, random: () => number): Card[] {
+  const deck = createDeck();
+  for (let i = deck.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [deck[i], deck[j]] = [deck[j], deck[i]];
+  }
+  return deck.slice(0, count);
+}
+
+for (const handType of GENERATED_TYPES) {
+  test(`generateSpecificHand('${handType}') always returns a ${handType} from a full deck`, () => {
+    for (let seed = 1; seed <= SEEDS; seed++) {
+      const hand = generateSpecificHand(handType, createDeck(), createSeededRandom(seed).next);
+      assert.ok(hand, `seed ${seed}: no hand generated`);
+      assert.equal(hand.length, 5, `seed ${seed}: ${hand.length} cards`);
+      assert.equal(new Set(hand.map(c => c.id)).size, 5, `seed ${seed}: duplicate cards`);
+      assert.equal(evaluateHand(hand).hand.name, handType, `seed ${seed}: ${hand.map(c => c.id).join(' ')}`);
+    }
+  });
+
+  test(`generateSpecificHand('${handType}') only uses available cards and never returns another category`, () => {
+    for (let seed = 1; seed <= SEEDS; seed++) {
+      const random = createSeededRandom(seed).next;
+      const available = dealCards(10 + (seed % 30), random);
+      const hand = generateSpecificHand(handType, available, random);
+      if (!hand) continue;
+
+      const ids = new Set(available.map(c => c.id));
+      assert.equal(hand.length, 5, `seed ${seed}: ${hand.length} cards`);
+      assert.ok(hand.every(c => ids.has(c.id)), `seed ${seed}: card not in the available cards`);
+      assert.equal(new Set(hand.map(c => c.id)).size, 5, `seed ${seed}: duplicate cards`);
+      assert.equal(evaluateHand(hand).hand.name, handType, `seed ${seed}: ${hand.map(c => c.id).join(' ')}`);
+    }
+  });
+}
+
+test('generateSpecificHand returns null when the hand cannot be made', () => {
+  const deck = createDeck();
+  // 2-7, one card each, alternating hearts and clubs
+  const oneOfEachRank = deck.filter(c => c.value <= 7 && c.suit === (c.value % 2 ? 'clubs' : 'hearts'));
+  assert.equal(generateSpecificHand('Two Pair', oneOfEachRank), null);
+  assert.equal(generateSpecificHand('Flush', oneOfEachRank), null);
+  assert.equal(generateSpecificHand('Unknown', deck), null);
+});
+
+// ============================================================================
+// analyzeBestHands
+// ============================================================================
+
+const FULL_DECK = createDeck();
+
+// Cards by id, e.g. 'A-spades'
+function cards(...ids: string[]): Card[] {
+  return ids.map(id => id.startsWith('joker') ? createJoker(Number(id.split('-')[1])) : FULL_DECK.find(c => c.id === id)!);
+}
+
+// Highest score over every 5-card combination - what the analyzer must match
+function bruteForceBestPoints(pool: Card[], rules: WildCardRules): number {
+  let best = -1;
+  const hand: Card[] = [];
+  const pick = (start: number) => {
+    if (hand.length === 5) {
+      best = Math.max(best, evaluateHand(hand, rules).totalPoints);
+      return;
+    }
+    for (let i = start; i < pool.length; i++) {
+      hand.push(pool[i]);
+      pick(i + 1);
+      hand.pop();
+    }
+  };
+  pick(0);
+  return best;
+}
+
+test('analyzeBestHands finds the best hand and one alternative per other category', () => {
+  const { best, alternatives } = analyzeBestHands(cards('9-hearts', '9-clubs', '9-spades', '4-hearts', '4-diamonds', 'K-hearts', '2-hearts'));
+  assert.equal(best?.hand.name, 'Full House');
+  assert.deepEqual(best?.cards.map(c => c.value).sort((a, b) => a - b), [4, 4, 9, 9, 9]);
+  assert.equal(alternatives.length, 3);
+  assert.equal(new Set(alternatives.map(a => a.hand.name)).size, 3);
+  assert.ok(alternatives.every(a => a.totalPoints <= best!.totalPoints));
+});
+
+test('analyzeBestHands needs five cards', () => {
+  assert.equal(analyzeBestHands(cards('A-spades', 'K-spades', 'Q-spades', 'J-spades')).best, null);
+  assert.equal(findBestHand([]), null);
+});
+
+test('analyzeBestHands fills the missing card of a hand with a Joker', () => {
+  const best = findBestHand(cards('joker-1', 'A-spades', 'K-spades', 'Q-spades', 'J-spades', '3-hearts'));
+  assert.equal(best?.hand.name, 'Royal Flush');
+  assert.ok(best?.cards.some(c => c.id === 'joker-1'));
+  assert.ok(!best?.cards.some(c => c.id === '3-hearts'));
+});
+
+test('analyzeBestHands pairs the top card with a Joker when nothing else connects', () => {
+  const best = findBestHand(cards('joker-1', 'K-hearts', '9-clubs', '6-diamonds', '3-spades'));
+  assert.equal(best?.hand.name, 'One Pair');
+  assert.equal(getEffectiveCards(best!).filter(c => c.value === 13).length, 2);
+});
+
+test('analyzeBestHands plays spare wilds as high kickers', () => {
+  const best = findBestHand(cards('joker-1', 'joker-2', '9-hearts', '9-clubs', '9-spades', '3-diamonds'));
+  assert.equal(best?.hand.name, 'Four of a Kind');
+  assert.equal(best?.totalPoints, evaluateHand(cards('joker-1', 'joker-2', '9-hearts', '9-clubs', '9-spades')).totalPoints);
+});
+
+test('analyzeBestHands treats wild ranks as wild only under those rules', () => {
+  const pool = cards('2-clubs', '9-hearts', '9-diamonds', '9-spades', 'K-clubs', '5-hearts');
+  assert.equal(findBestHand(pool, DEUCES_WILD)?.hand.name, 'Four of a Kind');
+  assert.equal(findBestHand(pool)?.hand.name, 'Three of a Kind');
+});
+
+test('analyzeBestHands matches a brute-force search with and without wilds', () => {
+  const rulesets: [string, WildCardRules, number][] = [['natural', NO_WILDS, 0], ['jokers', NO_WILDS, 2], ['four jokers', NO_WILDS, 4], ['deuces wild', DEUCES_WILD, 1]];
+  for (const [name, rules, jokers] of rulesets) {
+    for (let seed = 1; seed <= 300; seed++) {
+      const random = createSeededRandom(seed).next;
+      const deck = createDeck(jokers);
+      for (let i = deck.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [deck[i], deck[j]] = [deck[j], deck[i]];
+      }
+      const pool = deck.slice(0, 5 + (seed % 5));
+      const best = analyzeBestHands(pool, 3, rules).best;
+      assert.equal(best?.totalPoints, bruteForceBestPoints(pool, rules), `${name} seed ${seed}: ${pool.map(c => c.id).join(' ')}`);
+    }
+  }
+});
+
+// ============================================================================
+// compareHands / findStrongestHand
+// ============================================================================
+
+function hand(...ids: string[]) {
+  return evaluateHand(cards(...ids));
+}
+
+test('compareHands ranks by category before score', () => {
+  const lowFlush = hand('2-hearts', '4-hearts', '6-hearts', '8-hearts', '9-hearts');
+  const highStraight = hand('A-spades', 'K-hearts', 'Q-clubs', 'J-diamonds', '10-spades');
+  assert.ok(compareHands(lowFlush, highStraight) > 0);
+  assert.ok(compareHands(highStraight, lowFlush) < 0);
+});
+
+test('compareHands breaks ties on kickers', () => {
+  const aceKicker = hand('K-spades', 'K-hearts', 'A-clubs', '7-diamonds', '3-spades');
+  const queenKicker = hand('K-clubs', 'K-diamonds', 'Q-clubs', '7-hearts', '3-hearts');
+  assert.ok(compareHands(aceKicker, queenKicker) > 0);
+
+  const lastKicker = hand('9-spades', '8-hearts', '6-clubs', '4-diamonds', '3-spades');
+  const lowerLastKicker = hand('9-clubs', '8-diamonds', '6-hearts', '4-hearts', '2-spades');
+  assert.ok(compareHands(lastKicker, lowerLastKicker) > 0);
+});
+
+test('compareHands plays the wheel as five-high', () => {
+  const wheel = hand('A-spades', '2-hearts', '3-clubs', '4-diamonds', '5-spades');
+  const sixHigh = hand('2-spades', '3-hearts', '4-clubs', '5-diamonds', '6-spades');
+  assert.equal(wheel.hand.name, 'Straight');
+  assert.ok(compareHands(sixHigh, wheel) > 0);
+
+  const steelWheel = hand('A-hearts', '2-hearts', '3-hearts', '4-hearts', '5-hearts');
+  const sixHighStraightFlush = hand('2-clubs', '3-clubs', '4-clubs', '5-clubs', '6-clubs');
+  assert.ok(compareHands(sixHighStraightFlush, steelWheel) > 0);
+});
+
+test('compareHands splits the pot when only suits differ', () => {
+  const a = hand('Q-spades', 'Q-hearts', '8-clubs', '5-diamonds', '2-spades');
+  const b = hand('Q-clubs', 'Q-diamonds', '8-hearts', '5-hearts', '2-clubs');
+  assert.equal(compareHands(a, b), 0);
+  assert.equal(compareHands(b, a), 0);
+
+  const royal = hand('A-spades', 'K-spades', 'Q-spades', 'J-spades', '10-spades');
+  assert.equal(compareHands(royal, hand('A-hearts', 'K-hearts', 'Q-hearts', 'J-hearts', '10-hearts')), 0);
+});
+
+test('compareHands orders two pair by top pair, then bottom pair, then kicker', () => {
+  const kingsAndDeuces = hand('K-spades', 'K-hearts', '2-clubs', '2-diamonds', '3-spades');
+  const queensAndJacks = hand('Q-spades', 'Q-hearts', 'J-clubs', 'J-diamonds', 'A-spades');
+  assert.ok(compareHands(kingsAndDeuces, queensAndJacks) > 0);
+
+  const kingsAndFives = hand('K-clubs', 'K-diamonds', '5-clubs', '5-diamonds', '3-hearts');
+  assert.ok(compareHands(kingsAndFives, kingsAndDeuces) > 0);
+
+  const kingsAndDeucesAceKicker = hand('K-clubs', 'K-diamonds', '2-hearts', '2-spades', 'A-clubs');
+  assert.ok(compareHands(kingsAndDeucesAceKicker, kingsAndDeuces) > 0);
+});
+
+test('compareHands orders full houses by the trips', () => {
+  const threesFull = hand('3-spades', '3-hearts', '3-clubs', '2-diamonds', '2-spades');
+  const deucesFull = hand('2-clubs', '2-hearts', '2-diamonds', 'A-diamonds', 'A-spades');
+  assert.ok(compareHands(threesFull, deucesFull) > 0);
+});
+
+test('findStrongestHand picks the strongest hand, keeping the first of a tie', () => {
+  assert.equal(findStrongestHand([]), null);
+
+  const pair = hand('Q-spades', 'Q-hearts', '8-clubs', '5-diamonds', '2-spades');
+  const samePair = hand('Q-clubs', 'Q-diamonds', '8-hearts', '5-hearts', '2-clubs');
+  const wheel = hand('A-spades', '2-hearts', '3-clubs', '4-diamonds', '5-spades');
+  const sixHigh = hand('2-spades', '3-hearts', '4-clubs', '5-diamonds', '6-spades');
+  assert.equal(findStrongestHand([pair, sixHigh, wheel]), sixHigh);
+  assert.equal(findStrongestHand([pair, samePair]), pair);
+});
+
+// ============================================================================
+// WILD CARDS
+// ============================================================================
+
+test('createDeck adds the requested Jokers after the 52 standard cards', () => {
+  assert.equal(createDeck().length, 52);
+  const deck = createDeck(2);
+  assert.equal(deck.length, 54);
+  assert.deepEqual(deck.slice(52).map(c => c.id), ['joker-1', 'joker-2']);
+  assert.ok(deck.slice(52).every(c => c.suit === 'joker' && c.value === 0));
+  assert.equal(new Set(deck.map(c => c.id)).size, 54);
+});
+
+test('a Joker under 5-4-3-2 makes a six-high straight, not the wheel', () => {
+  const result = hand('joker-1', '5-spades', '4-hearts', '3-clubs', '2-diamonds');
+  assert.equal(result.hand.name, 'Straight');
+  assert.deepEqual(result.substitutions?.map(s => s.rank), ['6']);
+  assert.ok(compareHands(result, hand('A-spades', '2-hearts', '3-clubs', '4-diamonds', '5-spades')) > 0);
+  assert.equal(compareHands(result, hand('2-spades', '3-hearts', '4-clubs', '5-diamonds', '6-spades')), 0);
+});
+
+test('evaluateHand scores a wild hand as the cards it stands in for', () => {
+  const result = hand('joker-1', 'A-spades', 'K-spades', 'Q-spades', 'J-spades');
+  assert.equal(result.hand.name, 'Royal Flush');
+  assert.deepEqual(result.substitutions, [{ cardId: 'joker-1', rank: '10', suit: 'spades' }]);
+  assert.equal(result.totalPoints, hand('10-spades', 'A-spades', 'K-spades', 'Q-spades', 'J-spades').totalPoints);
+  assert.deepEqual(result.cards.map(c => c.id), ['joker-1', 'A-spades', 'K-spades', 'Q-spades', 'J-spades']);
+});
+
+test('evaluateHand never makes five of a kind from wilds', () => {
+  const result = hand('joker-1', 'joker-2', '9-hearts', '9-clubs', '9-spades');
+  assert.equal(result.hand.name, 'Four of a Kind');
+  const effective = getEffectiveCards(result);
+  assert.equal(effective.filter(c => c.value === 9).length, 4);
+  assert.equal(new Set(effective.map(c => `${c.rank}-${c.suit}`)).size, 5);
+});
+
+test('evaluateHand plays wild ranks only under the level rules', () => {
+  const pool = cards('2-clubs', '9-hearts', '9-diamonds', '9-spades', 'K-clubs');
+  assert.equal(evaluateHand(pool).hand.name, 'Three of a Kind');
+  const wild = evaluateHand(pool, DEUCES_WILD);
+  assert.equal(wild.hand.name, 'Four of a Kind');
+  assert.deepEqual(wild.substitutions, [{ cardId: '2-clubs', rank: '9', suit: 'clubs' }]);
+});
+
+test('wild substitutions are real cards the hand does not already hold', () => {
+  for (let seed = 1; seed <= 300; seed++) {
+    const random = createSeededRandom(seed).next;
+    const deck = createDeck(4);
+    for (let i = deck.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1));
+      [deck[i], deck[j]] = [deck[j], deck[i]];
+    }
+    const picked = deck.slice(0, 5);
+    if (!picked.some(c => c.suit === 'joker')) continue;
+
+    const result = evaluateHand(picked, DEUCES_WILD);
+    const wilds = picked.filter(c => c.suit === 'joker' || c.rank === '2');
+    assert.deepEqual(result.substitutions?.map(s => s.cardId).sort(), wilds.map(c => c.id).sort(), `seed ${seed}`);
+
+    const effective = getEffectiveCards(result);
+    assert.ok(effective.every(c => c.suit !== 'joker' && c.value >= 2), `seed ${seed}`);
+    assert.equal(new Set(effective.map(c => `${c.rank}-${c.suit}`)).size, 5, `seed ${seed}`);
+    assert.equal(evaluateHand(effective).totalPoints, result.totalPoints, `seed ${seed}`);
+    assert.equal(evaluateHand(effective).hand.name, result.hand.name, `seed ${seed}`);
+  }
+});
+
+test('getSSCLevelWilds adds Jokers every 5th level and plays Deuces Wild every 10th', () => {
+  assert.deepEqual(getSSCLevelWilds(1), { jokers: 0, rules: NO_WILDS, label: null });
+  assert.equal(getSSCLevelWilds(5).jokers, 2);
+  assert.deepEqual(getSSCLevelWilds(5).rules, NO_WILDS);
+  assert.equal(getSSCLevelWilds(10).jokers, 0);
+  assert.deepEqual(getSSCLevelWilds(10).rules, DEUCES_WILD);
+  assert.equal(getSSCLevelWilds(15).label, 'Jokers Wild');
+  assert.equal(getSSCLevelWilds(20).label, 'Deuces Wild');
+});
@@ -1,4 +1,5 @@
-import { Card, HandResult, POKER_HANDS, RANK_VALUES, Rank, Suit, SUITS, RANKS } from '@/types/game';
+import { Card, CardSuit, GameMode, HandResult, POKER_HANDS, PokerHand, RANK_VALUES, Rank, Suit, SUITS, RANKS, WildSubstitution } from '@/types/game';
+import { RandomSource } from '@/lib/random';
 
 // ============================================================================
 // BITMASK-BASED HAND EVALUATION FOR PERFORMANCE
@@ -100,10 +101,6 @@ function countBits(n: number): number {
 
 // Check if a rank mask contains a straight pattern - O(1) with 10 comparisons
 function hasStraight(rankMask: number): boolean {
-  // Debug: log wheel check
-  const wheelPattern = STRAIGHT_PATTERNS[0];
-  console.log('[STRAIGHT CHECK] rankMask:', rankMask.toString(2).padStart(13, '0'), 'wheel:', wheelPattern.toString(2).padStart(13, '0'), 'match:', (rankMask & wheelPattern) === wheelPattern);
-  
   for (const pattern of STRAIGHT_PATTERNS) {
     if ((rankMask & pattern) === pattern) return true;
   }
@@ -130,8 +127,8 @@ function getValueCounts(cards: Card[]): Map<number, Card[]> {
   return counts;
 }
 
-function getSuitCounts(cards: Card[]): Map<Suit, Card[]> {
-  const counts = new Map<Suit, Card[]>();
+function getSuitCounts(cards: Card[]): Map<CardSuit, Card[]> {
+  const counts = new Map<CardSuit, Card[]>();
   cards.forEach(card => {
     const existing = counts.get(card.suit) || [];
     counts.set(card.suit, [...existing, card]);
@@ -139,11 +136,21 @@ function getSuitCounts(cards: Card[]): Map<Suit, Card[]> {
   return counts;
 }
 
-// Optimized hand evaluation using bitmasks
-export function evaluateHand(cards: Card[]): HandResult {
+// Evaluate a 5-card hand. Jokers (and any ranks made wild by the level's
+// rules, e.g. DEUCES_WILD) take whichever substitution scores highest.
+// `hands` is the category table (POKER_HANDS order) - see scoringRulesets.ts.
+export function evaluateHand(cards: Card[], rules: WildCardRules = NO_WILDS, hands: PokerHand[] = POKER_HANDS): HandResult {
+  if (cards.length === 5 && cards.some(c => isWildCard(c, rules))) {
+    return evaluateWildHand(cards, rules, hands);
+  }
+  return evaluateNaturalHand(cards, hands);
+}
+
+// Optimized hand evaluation using bitmasks (no wilds)
+function evaluateNaturalHand(cards: Card[], hands: PokerHand[]): HandResult {
   if (cards.length !== 5) {
     return {
-      hand: POKER_HANDS[9], // High Card
+      hand: hands[9], // High Card
       cards,
       valueBonus: cards.reduce((sum, c) => sum + c.value, 0),
       totalPoints: 5 + cards.reduce((sum, c) => sum + c.value, 0)
@@ -153,28 +160,28 @@ export function evaluateHand(cards: Card[]): HandResult {
   const bitmask = cardsToBitmask(cards);
   const valueBonus = cards.reduce((sum, c) => sum + c.value, 0);
   
-  let hand = POKER_HANDS[9]; // Default: High Card
+  let hand = hands[9]; // Default: High Card
 
   // Check from highest to lowest using bitmask operations
   if (bitmask.isFlush && hasRoyal(bitmask.flushRankMask)) {
-    hand = POKER_HANDS[0]; // Royal Flush
+    hand = hands[0]; // Royal Flush
   } else if (bitmask.isFlush && hasStraight(bitmask.flushRankMask)) {
-    hand = POKER_HANDS[1]; // Straight Flush
+    hand = hands[1]; // Straight Flush
   } else {
     // Check rank-based hands using frequency pattern
     const pattern = getFrequencyPattern(bitmask.rankCounts);
     const patternHandIndex = RANK_PATTERN_HANDS[pattern];
     
     if (patternHandIndex === 2) {
-      hand = POKER_HANDS[2]; // Four of a Kind
+      hand = hands[2]; // Four of a Kind
     } else if (patternHandIndex === 3) {
-      hand = POKER_HANDS[3]; // Full House
+      hand = hands[3]; // Full House
     } else if (bitmask.isFlush) {
-      hand = POKER_HANDS[4]; // Flush
+      hand = hands[4]; // Flush
     } else if (hasStraight(bitmask.rankMask)) {
-      hand = POKER_HANDS[5]; // Straight
+      hand = hands[5]; // Straight
     } else if (patternHandIndex !== undefined) {
-      hand = POKER_HANDS[patternHandIndex];
+      hand = hands[patternHandIndex];
     }
   }
 
@@ -205,7 +212,559 @@ function isStraightFlush(cards: Card[]): boolean {
   return bm.isFlush && hasStraight(bm.flushRankMask);
 }
 
-export function createDeck(): Card[] {
+// ============================================================================
+// WILD CARDS (JOKERS, DEUCES WILD)
+// ============================================================================
+// A wild stands in for any card not already in the hand - so there is no Five
+// of a Kind. Instead of trying every concrete card for every wild (47^w), the
+// search enumerates only the values the wilds add to the naturals' rank
+// counts (at most C(17,5) = 6188 multisets with five wilds) and classifies
+// each with the same pattern/straight-mask checks as the natural evaluator.
+// Suits are only assigned once, for the winning substitution.
+
+export interface WildCardRules {
+  wildRanks: Rank[]; // Ranks that play as wild on top of Jokers
+}
+
+export const NO_WILDS: WildCardRules = { wildRanks: [] };
+export const DEUCES_WILD: WildCardRules = { wildRanks: ['2'] };
+
+const VALUE_TO_RANK: Record<number, Rank> = Object.fromEntries(
+  RANKS.map(rank => [RANK_VALUES[rank], rank])
+);
+
+export function isJoker(card: Card): boolean {
+  return card.suit === 'joker';
+}
+
+export function isWildCard(card: Card, rules: WildCardRules = NO_WILDS): boolean {
+  return isJoker(card) || rules.wildRanks.includes(card.rank as Rank);
+}
+
+export function createJoker(index: number): Card {
+  return { id: `joker-${index}`, suit: 'joker', rank: 'JK', value: 0 };
+}
+
+// Cards as they were scored - each wild replaced by the card it stood in for
+export function getEffectiveCards(result: HandResult): Card[] {
+  if (!result.substitutions?.length) return result.cards;
+  return result.cards.map(card => {
+    const sub = result.substitutions!.find(s => s.cardId === card.id);
+    return sub ? { ...card, rank: sub.rank, suit: sub.suit, value: RANK_VALUES[sub.rank] } : card;
+  });
+}
+
+const EMPTY_RESULT: HandResult = { hand: POKER_HANDS[9], cards: [], valueBonus: 0, totalPoints: 0 };
+
+// Hand category index (into POKER_HANDS) from the shape of 5 cards' rank
+// counts: how many distinct ranks and the largest group. -1 = five of a kind.
+function classifyRankCounts(distinct: number, maxCount: number, rankMask: number, flush: boolean): number {
+  if (distinct === 5) {
+    if (flush && hasRoyal(rankMask)) return 0;
+    if (flush && hasStraight(rankMask)) return 1;
+    if (flush) return 4;
+    return hasStraight(rankMask) ? 5 : 9;
+  }
+  if (distinct === 4) return 8;                   // One Pair
+  if (distinct === 3) return maxCount === 3 ? 6 : 7; // Three of a Kind / Two Pair
+  if (distinct === 2) return maxCount === 4 ? 2 : 3; // Four of a Kind / Full House
+  return -1;
+}
+
+// Give each wild a concrete card for the chosen rank counts, never duplicating
+// a card already in the hand
+function assignWilds(naturals: Card[], wilds: Card[], rankCounts: number[], flush: boolean): WildSubstitution[] {
+  const baseSuit = naturals[0]?.suit as Suit | undefined;
+  const used = new Set(naturals.map(c => `${c.value}-${c.suit}`));
+  const counts = new Array(13).fill(0);
+  naturals.forEach(c => counts[RANK_TO_BIT[c.value]]++);
+
+  const substitutions: WildSubstitution[] = [];
+  let wildIndex = 0;
+  for (let bit = 12; bit >= 0; bit--) {
+    for (let n = counts[bit]; n < rankCounts[bit]; n++) {
+      const value = bit + 2;
+      // Flushes follow the naturals' suit; otherwise avoid it so 5 distinct values can't become a flush
+      const suitOrder = flush
+        ? [baseSuit ?? SUITS[3]]
+        : [...SUITS.filter(suit => suit !== baseSuit), ...(baseSuit ? [baseSuit] : [])];
+      const suit = suitOrder.find(candidate => !used.has(`${value}-${candidate}`))!;
+      used.add(`${value}-${suit}`);
+      substitutions.push({ cardId: wilds[wildIndex++].id, rank: VALUE_TO_RANK[value], suit });
+    }
+  }
+  return substitutions;
+}
+
+// Kicker order straight from rank counts - same ordering as getTiebreakValues
+function tiebreakFromCounts(rankCounts: number[], handIndex: number): number[] {
+  const values: number[] = [];
+  for (let size = 4; size >= 1; size--) {
+    for (let bit = 12; bit >= 0; bit--) {
+      if (rankCounts[bit] === size) values.push(bit + 2);
+    }
+  }
+  if (handIndex === 0 || handIndex === 1 || handIndex === 5) {
+    const isWheel = values[0] === 14 && values[1] === 5;
+    return [isWheel ? 5 : values[0]];
+  }
+  return values;
+}
+
+function evaluateWildHand(cards: Card[], rules: WildCardRules, hands: PokerHand[]): HandResult {
+  const naturals = cards.filter(c => !isWildCard(c, rules));
+  const wilds = cards.filter(c => isWildCard(c, rules));
+  const canFlush = naturals.every(c => c.suit === naturals[0].suit);
+
+  const rankCounts = new Array(13).fill(0);
+  naturals.forEach(c => rankCounts[RANK_TO_BIT[c.value]]++);
+  const hasNaturalAce = rankCounts[12] > 0;
+
+  let bestPoints = -1;
+  let bestIndex = 9;
+  let bestTiebreak: number[] = [];
+  let bestCounts = rankCounts;
+
+  const consider = () => {
+    let rankMask = 0;
+    let valueBonus = 0;
+    let distinct = 0;
+    let maxCount = 0;
+    for (let bit = 0; bit < 13; bit++) {
+      const count = rankCounts[bit];
+      if (count === 0) continue;
+      rankMask |= 1 << bit;
+      valueBonus += count * (bit + 2);
+      distinct++;
+      if (count > maxCount) maxCount = count;
+    }
+    const handIndex = classifyRankCounts(distinct, maxCount, rankMask, canFlush);
+    if (handIndex < 0) return;
+    // A wild Ace would only make the wheel (five-high) - the wild plays as the six instead
+    if (rankMask === STRAIGHT_PATTERNS[0] && !hasNaturalAce && (handIndex === 1 || handIndex === 5)) return;
+
+    const totalPoints = hands[handIndex].basePoints + valueBonus;
+    if (totalPoints < bestPoints) return;
+
+    const tiebreak = tiebreakFromCounts(rankCounts, handIndex);
+    if (totalPoints === bestPoints) {
+      // Equal score: better category, then higher kickers (as compareHands)
+      if (hands[handIndex].rank > hands[bestIndex].rank) return;
+      if (handIndex === bestIndex) {
+        const i = tiebreak.findIndex((v, idx) => v !== bestTiebreak[idx]);
+        if (i === -1 || tiebreak[i] < bestTiebreak[i]) return;
+      }
+    }
+    bestPoints = totalPoints;
+    bestIndex = handIndex;
+    bestTiebreak = tiebreak;
+    bestCounts = [...rankCounts];
+  };
+
+  // Non-decreasing rank bits so each multiset of wild values is visited once
+  const search = (startBit: number, remaining: number) => {
+    if (remaining === 0) {
+      consider();
+      return;
+    }
+    for (let bit = startBit; bit < 13; bit++) {
+      if (rankCounts[bit] >= 4) continue;
+      rankCounts[bit]++;
+      search(bit, remaining - 1);
+      rankCounts[bit]--;
+    }
+  };
+
+  search(0, wilds.length);
+
+  const flush = bestIndex === 0 || bestIndex === 1 || bestIndex === 4;
+  const substitutions = assignWilds(naturals, wilds, bestCounts, flush);
+  const scored = evaluateNaturalHand(getEffectiveCards({ ...EMPTY_RESULT, cards, substitutions }), hands);
+  return { ...scored, cards, substitutions };
+}
+
+// ============================================================================
+// BEST-FIVE-OF-N ANALYZER
+// ============================================================================
+// Finds the best 5-card hand among any number of visible cards (hints, bots,
+// post-run review). Rather than scoring all C(n,5) combinations it builds the
+// strongest hand of each category straight from rank/suit buckets, so a full
+// 52-card board costs about the same as a handful of cards. Wilds (Jokers and
+// any wildRanks) fill in whatever cards a category is missing. Pure and
+// DOM-free: safe to call every frame or from a Web Worker.
+
+export interface BestHandAnalysis {
+  best: HandResult | null;     // Highest-scoring hand (null if fewer than 5 cards)
+  alternatives: HandResult[];  // Best hand of each other category, highest score first
+}
+
+// Straight windows by value, highest first (wheel last - Ace plays low)
+const STRAIGHT_WINDOWS: number[][] = [
+  ...Array.from({ length: 9 }, (_, i) => [14 - i, 13 - i, 12 - i, 11 - i, 10 - i]),
+  [5, 4, 3, 2, 14],
+];
+
+interface CardBuckets {
+  byValue: Card[][];                      // index = card value (2-14)
+  bySuit: Card[][];                       // index = SUIT_INDEX, highest value first
+  grid: (Card | undefined)[][];           // grid[suit][value]
+  values: number[];                       // distinct values present, highest first
+  wilds: Card[];                          // kept out of the buckets above
+}
+
+function bucketCards(cards: Card[], rules: WildCardRules): CardBuckets {
+  const byValue: Card[][] = Array.from({ length: 15 }, () => []);
+  const bySuit: Card[][] = [[], [], [], []];
+  const grid: (Card | undefined)[][] = [[], [], [], []];
+  const wilds: Card[] = [];
+  const seen = new Set<string>();
+
+  for (const card of cards) {
+    if (seen.has(card.id)) continue;
+    seen.add(card.id);
+    // Wilds are placed by the wild finders and resolved per hand by evaluateHand
+    if (isWildCard(card, rules)) {
+      wilds.push(card);
+      continue;
+    }
+    const suitIdx = SUIT_INDEX[card.suit];
+    byValue[card.value].push(card);
+    bySuit[suitIdx].push(card);
+    grid[suitIdx][card.value] = card;
+  }
+
+  bySuit.forEach(suitCards => suitCards.sort((a, b) => b.value - a.value));
+  const values: number[] = [];
+  for (let v = 14; v >= 2; v--) {
+    if (byValue[v].length > 0) values.push(v);
+  }
+
+  return { byValue, bySuit, grid, values, wilds };
+}
+
+function sumValues(cards: Card[]): number {
+  return cards.reduce((sum, c) => sum + c.value, 0);
+}
+
+function valuesToRankMask(values: number[]): number {
+  return values.reduce((mask, v) => mask | (1 << RANK_TO_BIT[v]), 0);
+}
+
+// One card per value, highest values first, skipping excluded values
+function topKickers(b: CardBuckets, excluded: number[], count: number): Card[] | null {
+  const kickers: Card[] = [];
+  for (const v of b.values) {
+    if (excluded.includes(v)) continue;
+    kickers.push(b.byValue[v][0]);
+    if (kickers.length === count) return kickers;
+  }
+  return null;
+}
+
+// One card per value that are NOT all the same suit (which would make a flush)
+function pickMixedSuits(b: CardBuckets, values: number[]): Card[] | null {
+  const picks = values.map(v => b.byValue[v][0]);
+  if (picks.some(c => c.suit !== picks[0].suit)) return picks;
+
+  for (let i = 0; i < values.length; i++) {
+    const alt = b.byValue[values[i]].find(c => c.suit !== picks[0].suit);
+    if (alt) {
+      picks[i] = alt;
+      return picks;
+    }
+  }
+  return null;
+}
+
+// Keep whichever candidate has the higher value sum
+function higher(current: Card[] | null, candidate: Card[] | null): Card[] | null {
+  if (!candidate) return current;
+  if (!current) return candidate;
+  return sumValues(candidate) > sumValues(current) ? candidate : current;
+}
+
+function bestRoyalFlush(b: CardBuckets): Card[] | null {
+  for (let s = 0; s < 4; s++) {
+    const cards = STRAIGHT_WINDOWS[0].map(v => b.grid[s][v]);
+    if (cards.every(Boolean)) return cards as Card[];
+  }
+  return null;
+}
+
+function bestStraightFlush(b: CardBuckets): Card[] | null {
+  let best: Card[] | null = null;
+  for (let s = 0; s < 4; s++) {
+    for (const window of STRAIGHT_WINDOWS.slice(1)) {
+      const cards = window.map(v => b.grid[s][v]);
+      if (cards.every(Boolean)) best = higher(best, cards as Card[]);
+    }
+  }
+  return best;
+}
+
+function bestFourOfAKind(b: CardBuckets): Card[] | null {
+  let best: Card[] | null = null;
+  for (const v of b.values) {
+    if (b.byValue[v].length < 4) continue;
+    const kicker = topKickers(b, [v], 1);
+    if (kicker) best = higher(best, [...b.byValue[v].slice(0, 4), ...kicker]);
+  }
+  return best;
+}
+
+function bestFullHouse(b: CardBuckets): Card[] | null {
+  let best: Card[] | null = null;
+  for (const trip of b.values) {
+    if (b.byValue[trip].length < 3) continue;
+    for (const pair of b.values) {
+      if (pair === trip || b.byValue[pair].length < 2) continue;
+      best = higher(best, [...b.byValue[trip].slice(0, 3), ...b.byValue[pair].slice(0, 2)]);
+    }
+  }
+  return best;
+}
+
+function bestFlush(b: CardBuckets): Card[] | null {
+  let best: Card[] | null = null;
+  for (const suitCards of b.bySuit) {
+    if (suitCards.length < 5) continue;
+    let cards = suitCards.slice(0, 5);
+    // Top five in a row is a straight flush - drop the lowest for the next card down
+    if (hasStraight(valuesToRankMask(cards.map(c => c.value)))) {
+      if (suitCards.length < 6) continue;
+      cards = [...suitCards.slice(0, 4), suitCards[5]];
+    }
+    best = higher(best, cards);
+  }
+  return best;
+}
+
+function bestStraight(b: CardBuckets): Card[] | null {
+  let best: Card[] | null = null;
+  for (const window of STRAIGHT_WINDOWS) {
+    if (!window.every(v => b.byValue[v].length > 0)) continue;
+    best = higher(best, pickMixedSuits(b, window));
+  }
+  return best;
+}
+
+function bestThreeOfAKind(b: CardBuckets): Card[] | null {
+  let best: Card[] | null = null;
+  for (const v of b.values) {
+    if (b.byValue[v].length < 3) continue;
+    const kickers = topKickers(b, [v], 2);
+    if (kickers) best = higher(best, [...b.byValue[v].slice(0, 3), ...kickers]);
+  }
+  return best;
+}
+
+function bestTwoPair(b: CardBuckets): Card[] | null {
+  const pairs = b.values.filter(v => b.byValue[v].length >= 2);
+  let best: Card[] | null = null;
+  for (let i = 0; i < pairs.length; i++) {
+    for (let j = i + 1; j < pairs.length; j++) {
+      const kicker = topKickers(b, [pairs[i], pairs[j]], 1);
+      if (!kicker) continue;
+      best = higher(best, [...b.byValue[pairs[i]].slice(0, 2), ...b.byValue[pairs[j]].slice(0, 2), ...kicker]);
+    }
+  }
+  return best;
+}
+
+function bestOnePair(b: CardBuckets): Card[] | null {
+  let best: Card[] | null = null;
+  for (const v of b.values) {
+    if (b.byValue[v].length < 2) continue;
+    const kickers = topKickers(b, [v], 3);
+    if (kickers) best = higher(best, [...b.byValue[v].slice(0, 2), ...kickers]);
+  }
+  return best;
+}
+
+// Five distinct values that are neither a straight nor forced into a flush.
+// At most C(13,5) = 1287 value combinations, searched highest first.
+function bestHighCard(b: CardBuckets): Card[] | null {
+  let best: Card[] | null = null;
+  const chosen: number[] = [];
+
+  const search = (start: number) => {
+    if (chosen.length === 5) {
+      if (!hasStraight(valuesToRankMask(chosen))) {
+        best = higher(best, pickMixedSuits(b, chosen));
+      }
+      return;
+    }
+    for (let i = start; i <= b.values.length - (5 - chosen.length); i++) {
+      chosen.push(b.values[i]);
+      search(i + 1);
+      chosen.pop();
+    }
+  };
+
+  search(0);
+  return best;
+}
+
+// A category built with wilds, and the value sum it scores as (each wild
+// counted at the value it stands in for)
+interface WildPick {
+  cards: Card[];
+  sum: number;
+}
+
+function withWilds(naturals: Card[], wilds: Card[], fillValues: number[]): WildPick | null {
+  if (fillValues.length > wilds.length) return null;
+  return {
+    cards: [...naturals, ...wilds.slice(0, fillValues.length)],
+    sum: sumValues(naturals) + fillValues.reduce((sum, v) => sum + v, 0),
+  };
+}
+
+function higherPick(current: WildPick | null, candidate: WildPick | null): WildPick | null {
+  if (!candidate) return current;
+  if (!current) return candidate;
+  return candidate.sum > current.sum ? candidate : current;
+}
+
+// Straight windows with the missing values filled by wilds, within one suit
+// (straight and royal flushes) or across suits
+function wildStraight(b: CardBuckets, windows: number[][], suited: boolean): WildPick | null {
+  let best: WildPick | null = null;
+  for (const window of windows) {
+    for (let s = 0; s < (suited ? 4 : 1); s++) {
+      const present = window.filter(v => (suited ? b.grid[s][v] : b.byValue[v][0]));
+      const naturals = present.map(v => (suited ? b.grid[s][v] : b.byValue[v][0]) as Card);
+      // A wild never plays as the wheel's Ace (see evaluateWildHand)
+      if (window[4] === 14 && !present.includes(14)) continue;
+      best = higherPick(best, withWilds(naturals, b.wilds, window.filter(v => !present.includes(v))));
+    }
+  }
+  return best;
+}
+
+// Highest values first: the natural card where there is one, otherwise a
+// spare wild standing in for that value
+function topUp(count: number, spareWilds: number, excluded: number[], natural: (v: number) => Card | undefined): { naturals: Card[]; fill: number[] } {
+  const naturals: Card[] = [];
+  const fill: number[] = [];
+  for (let v = 14; v >= 2 && naturals.length + fill.length < count; v--) {
+    if (excluded.includes(v)) continue;
+    const card = natural(v);
+    if (card) naturals.push(card);
+    else if (fill.length < spareWilds) fill.push(v);
+  }
+  return { naturals, fill };
+}
+
+function wildFlush(b: CardBuckets): WildPick | null {
+  let best: WildPick | null = null;
+  for (let s = 0; s < 4; s++) {
+    if (b.bySuit[s].length === 0) continue;
+    const { naturals, fill } = topUp(5, b.wilds.length, [], v => b.grid[s][v]);
+    if (naturals.length + fill.length === 5) best = higherPick(best, withWilds(naturals, b.wilds, fill));
+  }
+  return best;
+}
+
+// Groups of equal values (e.g. [3, 2] for a Full House) topped up with wilds,
+// then the highest kickers, natural or wild. Every group keeps at least one
+// natural card.
+function wildGroups(b: CardBuckets, sizes: number[]): WildPick | null {
+  const kickerCount = 5 - sizes.reduce((sum, size) => sum + size, 0);
+  let best: WildPick | null = null;
+  const chosen: number[] = [];
+
+  const search = () => {
+    if (chosen.length === sizes.length) {
+      const naturals: Card[] = [];
+      const fill: number[] = [];
+      sizes.forEach((size, g) => {
+        const group = b.byValue[chosen[g]].slice(0, size);
+        naturals.push(...group);
+        for (let n = group.length; n < size; n++) fill.push(chosen[g]);
+      });
+      const kickers = topUp(kickerCount, b.wilds.length - fill.length, chosen, v => b.byValue[v][0]);
+      if (kickers.naturals.length + kickers.fill.length < kickerCount) return;
+      best = higherPick(best, withWilds([...naturals, ...kickers.naturals], b.wilds, [...fill, ...kickers.fill]));
+      return;
+    }
+    for (const v of b.values) {
+      if (chosen.includes(v)) continue;
+      chosen.push(v);
+      search();
+      chosen.pop();
+    }
+  };
+
+  search();
+  return best;
+}
+
+const CATEGORY_FINDERS = [
+  bestRoyalFlush,
+  bestStraightFlush,
+  bestFourOfAKind,
+  bestFullHouse,
+  bestFlush,
+  bestStraight,
+  bestThreeOfAKind,
+  bestTwoPair,
+  bestOnePair,
+  bestHighCard,
+];
+
+// Same order as CATEGORY_FINDERS. With a wild in hand there's always a pair,
+// so High Card has no wild version.
+const WILD_FINDERS: ((b: CardBuckets) => WildPick | null)[] = [
+  b => wildStraight(b, STRAIGHT_WINDOWS.slice(0, 1), true),
+  b => wildStraight(b, STRAIGHT_WINDOWS.slice(1), true),
+  b => wildGroups(b, [4]),
+  b => wildGroups(b, [3, 2]),
+  wildFlush,
+  b => wildStraight(b, STRAIGHT_WINDOWS, false),
+  b => wildGroups(b, [3]),
+  b => wildGroups(b, [2, 2]),
+  b => wildGroups(b, [2]),
+];
+
+// Best 5-card hand out of any number of cards, plus the best hand of each
+// other category that can be made (up to maxAlternatives), ranked by score
+export function analyzeBestHands(cards: Card[], maxAlternatives = 3, rules: WildCardRules = NO_WILDS): BestHandAnalysis {
+  const buckets = bucketCards(cards, rules);
+  const results: HandResult[] = [];
+
+  CATEGORY_FINDERS.forEach((find, i) => {
+    const hand = find(buckets);
+    if (hand) results.push(evaluateHand(hand, rules));
+    const wildPick = buckets.wilds.length > 0 ? WILD_FINDERS[i]?.(buckets) : null;
+    if (wildPick) results.push(evaluateHand(wildPick.cards, rules));
+  });
+
+  // Score decides (a strong High Card can outscore a weak One Pair); ties go to the stronger hand
+  results.sort((a, b) => b.totalPoints - a.totalPoints || compareHands(b, a));
+
+  // Wilds can score a pick as a better category than the one it was built
+  // for - keep the best hand of each category
+  const seen = new Set<string>();
+  const ranked = results.filter(result => {
+    if (seen.has(result.hand.name)) return false;
+    seen.add(result.hand.name);
+    return true;
+  });
+
+  return {
+    best: ranked[0] ?? null,
+    alternatives: ranked.slice(1, 1 + maxAlternatives),
+  };
+}
+
+// Highest-scoring 5-card hand available in the given cards
+export function findBestHand(cards: Card[], rules: WildCardRules = NO_WILDS): HandResult | null {
+  return analyzeBestHands(cards, 0, rules).best;
+}
+
+// Standard 52-card deck, plus optional Jokers for wild-card levels
+export function createDeck(jokers = 0): Card[] {
   const deck: Card[] = [];
   SUITS.forEach(suit => {
     RANKS.forEach(rank => {
@@ -217,13 +776,17 @@ export function createDeck(): Card[] {
       });
     });
   });
+  for (let i = 1; i <= jokers; i++) {
+    deck.push(createJoker(i));
+  }
   return deck;
 }
 
-export function shuffleDeck(deck: Card[]): Card[] {
+// Fisher-Yates shuffle. Pass a seeded RandomSource for reproducible runs.
+export function shuffleDeck(deck: Card[], random: RandomSource = Math.random): Card[] {
   const shuffled = [...deck];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
@@ -259,6 +822,13 @@ export interface SSCLevelInfo {
   difficultyMultiplier: number;
 }
 
+export const SSC_PHASE_LABELS: Record<SSCLevelInfo['phase'], string> = {
+  sitting_duck: 'Sitting Duck',
+  conveyor: 'Conveyor',
+  falling: 'Falling',
+  orbit: 'Orbit',
+};
+
 // Get level info for a numbered level (NOT bonus round)
 export function getSSCLevelInfo(level: number): SSCLevelInfo {
   // Orbit mode starts at Level 13 (2nd cycle)
@@ -310,6 +880,11 @@ export function getSSCLevelInfo(level: number): SSCLevelInfo {
   };
 }
 
+// Modes that play the SSC level progression (levels, goals, bonus rounds)
+export function isSSCMode(mode: GameMode): boolean {
+  return mode === 'ssc' || mode === 'daily';
+}
+
 // Check if a bonus round should occur AFTER completing a level
 export function shouldTriggerBonusRound(levelJustCompleted: number): boolean {
   return levelJustCompleted > 0 && levelJustCompleted % 3 === 0;
@@ -326,6 +901,20 @@ export function calculateLevelGoal(level: number): number {
   return Math.floor(baseGoal * Math.pow(1.05, level - 1));
 }
 
+// Wild-card levels: every 5th level shuffles two Jokers into the deck, and
+// every 10th plays Deuces Wild instead. Bonus rounds never have wilds.
+export interface SSCLevelWilds {
+  jokers: number;
+  rules: WildCardRules;
+  label: string | null; // Shown during the level, null for a normal level
+}
+
+export function getSSCLevelWilds(level: number): SSCLevelWilds {
+  if (level % 10 === 0) return { jokers: 0, rules: DEUCES_WILD, label: 'Deuces Wild' };
+  if (level % 5 === 0) return { jokers: 2, rules: NO_WILDS, label: 'Jokers Wild' };
+  return { jokers: 0, rules: NO_WILDS, label: null };
+}
+
 export function getSSCSpeed(level: number): number {
   const info = getSSCLevelInfo(level);
   
@@ -393,42 +982,73 @@ export function getBetterHandMultiplier(streak: number): number {
   return 2; // 3+ consecutive better hands
 }
 
-// Calculate hand strength for tie-breaking (higher is better)
-export function calculateHandStrength(cards: Card[]): number {
-  if (cards.length !== 5) return 0;
-  
-  const valueCounts = getValueCounts(cards);
-  const sortedValues = cards.map(c => c.value).sort((a, b) => b - a);
-  const countArray = Array.from(valueCounts.entries()).sort((a, b) => {
-    // Sort by count first, then by value
-    if (b[1].length !== a[1].length) return b[1].length - a[1].length;
-    return b[0] - a[0];
-  });
-  
-  // Base strength from hand rank (higher rank hands have much higher base)
-  let strength = 0;
-  
-  // Add kickers for tie-breaking (weighted by position)
-  for (let i = 0; i < sortedValues.length; i++) {
-    strength += sortedValues[i] * Math.pow(15, 4 - i);
+// ============================================================================
+// HAND COMPARISON (STANDARD POKER ORDERING)
+// ============================================================================
+
+// Values to compare, most significant first, once categories are equal:
+// grouped cards by size then value (quads before kicker, trips before pair...),
+// and just the top card for straights - the A-2-3-4-5 wheel is five-high.
+function getTiebreakValues(result: HandResult): number[] {
+  const values = getEffectiveCards(result).map(c => c.value).sort((a, b) => b - a);
+
+  if (result.hand.name === 'Straight' || result.hand.name === 'Straight Flush' || result.hand.name === 'Royal Flush') {
+    const isWheel = values[0] === 14 && values[1] === 5;
+    return [isWheel ? 5 : values[0]];
   }
-  
-  // For pairs/sets, weight the matched cards more heavily
-  if (countArray.length > 0) {
-    const primaryValue = countArray[0][0];
-    strength += primaryValue * 1000000;
-    if (countArray.length > 1) {
-      const secondaryValue = countArray[1][0];
-      strength += secondaryValue * 10000;
-    }
+
+  const counts = new Map<number, number>();
+  values.forEach(v => counts.set(v, (counts.get(v) || 0) + 1));
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || b[0] - a[0])
+    .map(([value]) => value);
+}
+
+// Total ordering of evaluated hands: category first, then kickers.
+// Returns > 0 if a beats b, < 0 if b beats a, 0 for an exact tie (suits never break ties).
+export function compareHands(a: HandResult, b: HandResult): number {
+  if (a.hand.rank !== b.hand.rank) return b.hand.rank - a.hand.rank;
+
+  const aValues = getTiebreakValues(a);
+  const bValues = getTiebreakValues(b);
+  for (let i = 0; i < Math.min(aValues.length, bValues.length); i++) {
+    if (aValues[i] !== bValues[i]) return aValues[i] - bValues[i];
   }
-  
-  return strength;
+  return 0;
+}
+
+// Strongest hand of a run (e.g. for the leaderboard's best_hand), null if none were played
+export function findStrongestHand(results: HandResult[]): HandResult | null {
+  return results.reduce<HandResult | null>(
+    (best, result) => (!best || compareHands(result, best) > 0 ? result : best),
+    null
+  );
+}
+
+// Compare stored hand names (leaderboard rows only keep the category) - same sign as compareHands
+export function compareHandNames(a: string | null | undefined, b: string | null | undefined): number {
+  const rankOf = (name: string | null | undefined) =>
+    POKER_HANDS.find(h => h.name === name)?.rank ?? POKER_HANDS.length + 1;
+  return rankOf(b) - rankOf(a);
 }
 
-// Generate a hand of a specific type for power-ups
-export function generateSpecificHand(handType: string, availableCards: Card[]): Card[] | null {
-  const shuffled = shuffleDeck([...availableCards]);
+// Up to `count` cards of different values, none matching `excluded` - kickers
+// that can't pair up with each other or the made hand
+function randomKickers(shuffled: Card[], excluded: number[], count: number): Card[] | null {
+  const kickers: Card[] = [];
+  for (const card of shuffled) {
+    if (excluded.includes(card.value) || kickers.some(k => k.value === card.value)) continue;
+    kickers.push(card);
+    if (kickers.length === count) return kickers;
+  }
+  return null;
+}
+
+// Generate a hand of a specific type for power-ups. The result is always
+// exactly that category - kickers never improve it, straights and flushes
+// never turn into straight flushes.
+export function generateSpecificHand(handType: string, availableCards: Card[], random: RandomSource = Math.random): Card[] | null {
+  const shuffled = shuffleDeck(availableCards.filter(c => !isJoker(c)), random);
   
   switch (handType) {
     case 'Two Pair': {
@@ -439,36 +1059,46 @@ export function generateSpecificHand(handType: string, availableCards: Card[]):
         if (pairs.length === 2) break;
       }
       if (pairs.length < 2) return null;
-      const kicker = shuffled.find(c => !pairs[0].includes(c) && !pairs[1].includes(c));
-      return kicker ? [...pairs[0], ...pairs[1], kicker] : null;
+      const kicker = randomKickers(shuffled, [pairs[0][0].value, pairs[1][0].value], 1);
+      return kicker ? [...pairs[0], ...pairs[1], ...kicker] : null;
     }
     case 'Three of a Kind': {
       const valueCounts = getValueCounts(shuffled);
       for (const [, cards] of valueCounts) {
         if (cards.length >= 3) {
-          const kickers = shuffled.filter(c => !cards.includes(c)).slice(0, 2);
-          return [...cards.slice(0, 3), ...kickers];
+          const kickers = randomKickers(shuffled, [cards[0].value], 2);
+          if (kickers) return [...cards.slice(0, 3), ...kickers];
         }
       }
       return null;
     }
     case 'Straight': {
-      const sorted = [...new Map(shuffled.map(c => [c.value, c])).values()].sort((a, b) => a.value - b.value);
-      for (let i = 0; i <= sorted.length - 5; i++) {
-        const straight: Card[] = [];
-        for (let j = 0; j < 5; j++) {
-          if (sorted[i + j]?.value === sorted[i].value + j) {
-            straight.push(sorted[i + j]);
-          }
+      const valueCounts = getValueCounts(shuffled);
+      const values = [...valueCounts.keys()].sort((a, b) => a - b);
+      for (let i = 0; i <= values.length - 5; i++) {
+        if (values[i + 4] !== values[i] + 4) continue;
+        // Five of one suit would be a straight flush - swap in an off-suit card
+        const straight = values.slice(i, i + 5).map(v => valueCounts.get(v)![0]);
+        if (straight.every(c => c.suit === straight[0].suit)) {
+          const swapIndex = straight.findIndex(c => valueCounts.get(c.value)!.some(alt => alt.suit !== c.suit));
+          if (swapIndex === -1) continue;
+          straight[swapIndex] = valueCounts.get(straight[swapIndex].value)!.find(alt => alt.suit !== straight[0].suit)!;
         }
-        if (straight.length === 5) return straight;
+        return straight;
       }
       return null;
     }
     case 'Flush': {
       const suitCounts = getSuitCounts(shuffled);
       for (const [, cards] of suitCounts) {
-        if (cards.length >= 5) return cards.slice(0, 5);
+        if (cards.length < 5) continue;
+        const flush = cards.slice(0, 5);
+        if (!hasStraight(valuesToRankMask(flush.map(c => c.value)))) return flush;
+        // Replacing the middle card of a straight with any other card breaks it
+        if (cards.length > 5) {
+          const middle = [...flush].sort((a, b) => a.value - b.value)[2];
+          return flush.map(c => (c === middle ? cards[5] : c));
+        }
       }
       return null;
     }
@@ -498,7 +1128,8 @@ export function generateSpecificHand(handType: string, availableCards: Card[]):
       for (const [, cards] of suitCounts) {
         if (cards.length >= 5) {
           const sorted = [...cards].sort((a, b) => a.value - b.value);
-          for (let i = 0; i <= sorted.length - 5; i++) {
+          // Stop before 10-A, which is a Royal Flush
+          for (let i = 0; i <= sorted.length - 5 && sorted[i].value < 10; i++) {
             const straight: Card[] = [];
             for (let j = 0; j < 5; j++) {
               if (sorted[i + j]?.value === sorted[i].value + j) {
@@ -528,13 +1159,13 @@ export function generateSpecificHand(handType: string, availableCards: Card[]):
 
 // Create a deck that guarantees at least Two Pair can be achieved
 // Used for early bonus rounds to ensure players can get good hands
-export function createBonusFriendlyDeck(bonusRoundNumber: number): Card[] {
+export function createBonusFriendlyDeck(bonusRoundNumber: number, random: RandomSource = Math.random): Card[] {
   const deck = createDeck();
   
   // For early bonus rounds (1-3), ensure there are multiple pairs available
   if (bonusRoundNumber <= 3) {
     // Shuffle first
-    const shuffled = shuffleDeck(deck);
+    const shuffled = shuffleDeck(deck, random);
     
     // Find cards that form at least 2 pairs and put them at the front
     const valueCounts = new Map<number, Card[]>();
@@ -562,7 +1193,7 @@ export function createBonusFriendlyDeck(bonusRoundNumber: number): Card[] {
     }
     
     // Shuffle the other cards and combine
-    const shuffledOthers = shuffleDeck(otherCards);
+    const shuffledOthers = shuffleDeck(otherCards, random);
     
     // Place pair cards within the first portion of cards that will be shown
     // Interleave pair cards with some other cards for natural feel
@@ -588,5 +1219,5 @@ export function createBonusFriendlyDeck(bonusRoundNumber: number): Card[] {
   }
   
   // For later bonus rounds, just use a regular shuffled deck
-  return shuffleDeck(deck);
+  return shuffleDeck(deck, random);
 }
@@ -0,0 +1,108 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateHand } from '@/lib/pokerEngine';
+import { getAllPowerUps, getPowerUp, getPowerUpsByTier, registerPowerUp } from '@/lib/powerUps';
+import { createGameState, applyPowerUp, applyTick, applyCraftPowerUps, applyUpgradeReward } from '@/lib/gameTransitions';
+
+test('every reward tier has power-ups to give out', () => {
+  for (const tier of [1, 2, 3]) {
+    assert.ok(getPowerUpsByTier(tier).length > 0, `tier ${tier}`);
+  }
+});
+
+test('hand power-ups form the hand they are named for', () => {
+  for (const powerUp of getAllPowerUps().filter(p => p.targeting === 'hand')) {
+    const state = createGameState('ssc', false, 1, undefined, 42);
+    const next = powerUp.apply(state);
+
+    assert.equal(evaluateHand(next.selectedCards).hand.name, powerUp.handType, powerUp.id);
+  }
+});
+
+test('applyPowerUp consumes one copy, and none when the effect cannot apply', () => {
+  const state = { ...createGameState('ssc', false, 1, undefined, 42), earnedPowerUps: ['add_time', 'add_time', 'royal_flush'], activePowerUps: ['add_time', 'add_time', 'royal_flush'] };
+
+  const timed = applyPowerUp(state, 'add_time');
+  assert.equal(timed.timeRemaining, state.timeRemaining + 15);
+  assert.deepEqual(timed.activePowerUps, ['add_time', 'royal_flush']);
+
+  // No royal flush can be made from an empty deck
+  const empty = { ...state, deck: [] };
+  assert.equal(applyPowerUp(empty, 'royal_flush'), empty);
+});
+
+test('Freeze Time holds the clock for its duration', () => {
+  const state = getPowerUp('freeze_time')!.apply(createGameState('ssc', false, 1, undefined, 42));
+  const frozen = applyTick(state);
+
+  assert.equal(frozen.timeRemaining, state.timeRemaining);
+  assert.equal(frozen.timeFrozenSeconds, state.timeFrozenSeconds - 1);
+  assert.equal(applyTick({ ...state, timeFrozenSeconds: 0 }).timeRemaining, state.timeRemaining - 1);
+});
+
+test('Suit Swap trades the last picked card with its rank in the hand\'s suit', () => {
+  const base = createGameState('ssc', false, 1, undefined, 42);
+  const pick = (id: string) => base.deck.find(c => c.id === id)!;
+  const selectedCards = [pick('2-spades'), pick('9-spades'), pick('K-hearts')];
+  const state = { ...base, selectedCards, deck: base.deck.filter(c => !selectedCards.includes(c)) };
+
+  const next = getPowerUp('suit_swap')!.apply(state);
+  assert.equal(next.selectedCards[2].id, 'K-spades');
+  assert.ok(next.deck.some(c => c.id === 'K-hearts'));
+  assert.ok(!next.deck.some(c => c.id === 'K-spades'));
+  assert.equal(next.deck.length, state.deck.length);
+
+  // Nothing picked: nothing to swap
+  assert.equal(getPowerUp('suit_swap')!.apply(base), base);
+});
+
+test('X-Ray marks the best hand among the visible cards', () => {
+  const state = createGameState('ssc', false, 1, undefined, 42);
+  const next = getPowerUp('x_ray')!.apply(state);
+  const visibleIds = state.deck.slice(0, 16).map(c => c.id);
+
+  assert.equal(next.xRayCardIds.length, 5);
+  assert.ok(next.xRayCardIds.every(id => visibleIds.includes(id)));
+});
+
+test('three power-ups of one tier craft into a power-up of the next tier', () => {
+  const held = ['two_pair', 'two_pair', 'add_time', 'royal_flush'];
+  const state = { ...createGameState('ssc', false, 1, undefined, 42), earnedPowerUps: held, activePowerUps: held };
+
+  const crafted = applyCraftPowerUps(state, ['two_pair', 'two_pair', 'add_time']);
+  assert.equal(crafted.earnedPowerUps.length, 2);
+  assert.equal(crafted.earnedPowerUps[0], 'royal_flush');
+  assert.equal(getPowerUp(crafted.earnedPowerUps[1])!.tier, 2);
+  assert.deepEqual(crafted.activePowerUps, crafted.earnedPowerUps);
+
+  // Mixed tiers, too few copies, or nothing above Rare
+  assert.equal(applyCraftPowerUps(state, ['two_pair', 'add_time', 'royal_flush']), state);
+  assert.equal(applyCraftPowerUps(state, ['add_time', 'add_time', 'two_pair']), state);
+  assert.equal(applyCraftPowerUps(state, ['two_pair', 'two_pair']), state);
+});
+
+test('claiming a held power-up can upgrade it until the last copy is used', () => {
+  const state = {
+    ...createGameState('ssc', false, 1, undefined, 42),
+    earnedPowerUps: ['add_time'],
+    activePowerUps: ['add_time'],
+    pendingReward: 'add_time',
+    showLootBox: true,
+  };
+
+  const upgraded = applyUpgradeReward(state);
+  assert.equal(upgraded.powerUpLevels.add_time, 2);
+  assert.equal(upgraded.pendingReward, null);
+  assert.deepEqual(upgraded.earnedPowerUps, ['add_time']);
+
+  const used = applyPowerUp(upgraded, 'add_time');
+  assert.equal(used.timeRemaining, state.timeRemaining + 25);
+  assert.deepEqual(used.powerUpLevels, {});
+
+  // Hand power-ups have no upgrades
+  assert.equal(applyUpgradeReward({ ...state, earnedPowerUps: ['two_pair'], pendingReward: 'two_pair' }).pendingReward, 'two_pair');
+});
+
+test('power-up ids must be unique', () => {
+  assert.throws(() => registerPowerUp({ ...getPowerUp('add_time')! }));
+});
@@ -0,0 +1,235 @@
+import { GameState, PowerUp, SSCPhase, SUITS } from '@/types/game';
+import { shuffleDeck, generateSpecificHand, findBestHand, isJoker } from '@/lib/pokerEngine';
+import { createSeededRandom } from '@/lib/random';
+
+// ============================================================================
+// POWER-UP REGISTRY
+// ============================================================================
+// Each power-up is one registered object: metadata for the UI plus an
+// apply(state) => state effect. Rewards, PowerUpBar, LootBoxReveal and the
+// game transitions all read from here, so a new power-up only needs a
+// registerPowerUp() call. Effects draw randomness from state.rngState, which
+// keeps them replayable (see replayVerifier.ts).
+
+// What a power-up acts on
+export type PowerUpTargeting =
+  | 'board'   // the cards on screen
+  | 'hand'    // fills the player's hand with a ready-made hand
+  | 'selected' // the cards the player has already picked
+  | 'clock';  // the level timer
+
+export interface PowerUpDefinition extends PowerUp {
+  targeting: PowerUpTargeting;
+  phases?: SSCPhase[];      // SSC phases it can be used in (default: all)
+  maxLevel?: number;        // Upgradable up to this level (default 1: no upgrades)
+  // Returns the same state object when it can't be used right now - it isn't consumed then.
+  // `level` is the held copy's upgrade level (default 1).
+  apply: (state: GameState, level?: number) => GameState;
+}
+
+const registry = new Map<string, PowerUpDefinition>();
+
+export function registerPowerUp(powerUp: PowerUpDefinition): void {
+  if (registry.has(powerUp.id)) {
+    throw new Error(`Power-up "${powerUp.id}" is already registered`);
+  }
+  registry.set(powerUp.id, powerUp);
+}
+
+export function getPowerUp(id: string): PowerUpDefinition | undefined {
+  return registry.get(id);
+}
+
+// In registration order
+export function getAllPowerUps(): PowerUpDefinition[] {
+  return [...registry.values()];
+}
+
+export function getPowerUpsByTier(tier: number): PowerUpDefinition[] {
+  return getAllPowerUps().filter(p => p.tier === tier);
+}
+
+// Whether the power-up can be used in the current SSC phase (always outside SSC)
+export function isPowerUpAvailable(powerUp: PowerUpDefinition, phase?: SSCPhase): boolean {
+  return !phase || !powerUp.phases || powerUp.phases.includes(phase);
+}
+
+// ============================================================================
+// CRAFTING & UPGRADES
+// ============================================================================
+// Three power-ups of one tier combine into a random power-up of the next tier.
+// Claiming a reward you already hold can upgrade that power-up instead of
+// adding a copy; upgrades last until the last copy is used.
+
+export const CRAFT_COST = 3;
+export const MAX_TIER = 3;
+
+// The tier three of these power-ups craft into, or null if they can't be crafted
+export function getCraftResultTier(powerUpIds: string[]): number | null {
+  if (powerUpIds.length !== CRAFT_COST) return null;
+  const tiers = powerUpIds.map(id => getPowerUp(id)?.tier);
+  const tier = tiers[0];
+  if (tier === undefined || tier >= MAX_TIER || tiers.some(t => t !== tier)) return null;
+  return tier + 1;
+}
+
+export function getPowerUpLevel(state: Pick<GameState, 'powerUpLevels'>, id: string): number {
+  return state.powerUpLevels[id] ?? 1;
+}
+
+// Whether claiming `id` can upgrade a held copy instead
+export function canUpgradePowerUp(state: Pick<GameState, 'earnedPowerUps' | 'powerUpLevels'>, id: string): boolean {
+  const powerUp = getPowerUp(id);
+  if (!powerUp || !state.earnedPowerUps.includes(id)) return false;
+  return getPowerUpLevel(state, id) < (powerUp.maxLevel ?? 1);
+}
+
+// ============================================================================
+// EFFECTS
+// ============================================================================
+
+// Builds the hand from cards still in the deck
+function formHand(handType: string) {
+  return (state: GameState): GameState => {
+    const rng = createSeededRandom(state.rngState);
+    const hand = generateSpecificHand(handType, [...state.deck], rng.next);
+    if (!hand) return state;
+
+    return {
+      ...state,
+      selectedCards: hand,
+      deck: state.deck.filter(c => !hand.some(h => h.id === c.id)),
+      usedCards: [...state.usedCards, ...hand],
+      rngState: rng.getState(),
+    };
+  };
+}
+
+// Cards X-Ray looks through: the mobile grid, and the top rows on desktop
+const X_RAY_VISIBLE_CARDS = 16;
+
+// Seconds at level 1, plus the step added by each upgrade
+const ADD_TIME_SECONDS = 15;
+const ADD_TIME_UPGRADE = 10;
+const FREEZE_TIME_SECONDS = 5;
+const FREEZE_TIME_UPGRADE = 3;
+const SLOW_MOTION_SECONDS = 10;
+const SLOW_MOTION_UPGRADE = 5;
+
+// Swaps the last picked card for the same rank in the suit the rest of the
+// hand leans towards. The original card goes back where the new one was.
+function swapSuit(state: GameState): GameState {
+  const card = state.selectedCards[state.selectedCards.length - 1];
+  if (!card || isJoker(card)) return state;
+
+  const others = state.selectedCards.slice(0, -1);
+  const suitCount = (suit: string) => others.filter(c => c.suit === suit).length;
+  const suits = SUITS.filter(suit => suit !== card.suit).sort((a, b) => suitCount(b) - suitCount(a));
+
+  const replacement = suits
+    .map(suit => state.deck.find(c => c.rank === card.rank && c.suit === suit))
+    .find(c => c !== undefined);
+  if (!replacement) return state;
+
+  return {
+    ...state,
+    selectedCards: [...others, replacement],
+    deck: state.deck.map(c => (c.id === replacement.id ? card : c)),
+    usedCards: state.usedCards.map(c => (c.id === card.id ? replacement : c)),
+  };
+}
+
+// ============================================================================
+// BUILT-IN POWER-UPS
+// ============================================================================
+
+// Tier 1: Common (bronze rewards)
+registerPowerUp({
+  id: 'reshuffle', name: 'Reshuffle', emoji: '🔀', description: 'Shuffle and re-deal all cards on screen',
+  handType: '', tier: 1, isReusable: true, targeting: 'board', phases: ['sitting_duck'],
+  apply: (state) => {
+    const rng = createSeededRandom(state.rngState);
+    return {
+      ...state,
+      deck: shuffleDeck([...state.deck], rng.next),
+      reshuffleTrigger: state.reshuffleTrigger + 1,
+      xRayCardIds: [],
+      rngState: rng.getState(),
+    };
+  },
+});
+
+registerPowerUp({
+  id: 'two_pair', name: 'Two Pair', emoji: '2️⃣', description: 'Instantly form a Two Pair hand',
+  handType: 'Two Pair', tier: 1, targeting: 'hand', apply: formHand('Two Pair'),
+});
+
+registerPowerUp({
+  id: 'three_kind', name: 'Three of a Kind', emoji: '3️⃣', description: 'Instantly form Three of a Kind',
+  handType: 'Three of a Kind', tier: 1, targeting: 'hand', apply: formHand('Three of a Kind'),
+});
+
+registerPowerUp({
+  id: 'add_time', name: 'Add Time', emoji: '⏰', description: `Add ${ADD_TIME_SECONDS} seconds to the clock (+${ADD_TIME_UPGRADE}s per upgrade)`,
+  handType: '', tier: 1, isReusable: true, targeting: 'clock', maxLevel: 3,
+  apply: (state, level = 1) => ({ ...state, timeRemaining: state.timeRemaining + ADD_TIME_SECONDS + ADD_TIME_UPGRADE * (level - 1) }),
+});
+
+registerPowerUp({
+  id: 'slow_motion', name: 'Slow Motion', emoji: '🐢', description: `Moving cards travel at half speed for ${SLOW_MOTION_SECONDS} seconds (+${SLOW_MOTION_UPGRADE}s per upgrade)`,
+  handType: '', tier: 1, targeting: 'board', phases: ['conveyor', 'falling', 'orbit'], maxLevel: 3,
+  apply: (state, level = 1) => ({ ...state, slowMotionSeconds: state.slowMotionSeconds + SLOW_MOTION_SECONDS + SLOW_MOTION_UPGRADE * (level - 1) }),
+});
+
+registerPowerUp({
+  id: 'suit_swap', name: 'Suit Swap', emoji: '🔄', description: 'Change the suit of your last picked card to match your hand',
+  handType: '', tier: 1, targeting: 'selected', apply: swapSuit,
+});
+
+// Tier 2: Uncommon (silver rewards)
+registerPowerUp({
+  id: 'straight', name: 'Straight', emoji: '➡️', description: 'Instantly form a Straight',
+  handType: 'Straight', tier: 2, targeting: 'hand', apply: formHand('Straight'),
+});
+
+registerPowerUp({
+  id: 'flush', name: 'Flush', emoji: '♦️', description: 'Instantly form a Flush',
+  handType: 'Flush', tier: 2, targeting: 'hand', apply: formHand('Flush'),
+});
+
+registerPowerUp({
+  id: 'full_house', name: 'Full House', emoji: '🏠', description: 'Instantly form a Full House',
+  handType: 'Full House', tier: 2, targeting: 'hand', apply: formHand('Full House'),
+});
+
+registerPowerUp({
+  id: 'freeze_time', name: 'Freeze Time', emoji: '❄️', description: `Stop the clock for ${FREEZE_TIME_SECONDS} seconds (+${FREEZE_TIME_UPGRADE}s per upgrade)`,
+  handType: '', tier: 2, targeting: 'clock', maxLevel: 3,
+  apply: (state, level = 1) => ({ ...state, timeFrozenSeconds: state.timeFrozenSeconds + FREEZE_TIME_SECONDS + FREEZE_TIME_UPGRADE * (level - 1) }),
+});
+
+registerPowerUp({
+  id: 'x_ray', name: 'X-Ray', emoji: '🔍', description: 'Highlight the best hand on the table',
+  handType: '', tier: 2, targeting: 'board', phases: ['sitting_duck'],
+  apply: (state) => {
+    const best = findBestHand([...state.selectedCards, ...state.deck.slice(0, X_RAY_VISIBLE_CARDS)], { wildRanks: state.wildRanks });
+    if (!best) return state;
+    return { ...state, xRayCardIds: best.cards.map(c => c.id) };
+  },
+});
+
+// Tier 3: Rare (gold rewards)
+registerPowerUp({
+  id: 'four_kind', name: 'Four of a Kind', emoji: '4️⃣', description: 'Instantly form Four of a Kind',
+  handType: 'Four of a Kind', tier: 3, targeting: 'hand', apply: formHand('Four of a Kind'),
+});
+
+registerPowerUp({
+  id: 'straight_flush', name: 'Straight Flush', emoji: '🔥', description: 'Instantly form a Straight Flush',
+  handType: 'Straight Flush', tier: 3, targeting: 'hand', apply: formHand('Straight Flush'),
+});
+
+registerPowerUp({
+  id: 'royal_flush', name: 'Royal Flush', emoji: '👑', description: 'Instantly form a Royal Flush',
+  handType: 'Royal Flush', tier: 3, targeting: 'hand', apply: formHand('Royal Flush'),
+});
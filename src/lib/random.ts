@@ -0,0 +1,61 @@
+// ============================================================================
+// SEEDABLE PRNG FOR REPRODUCIBLE RUNS
+// ============================================================================
+// Mulberry32: tiny, fast, and its whole state is a single uint32, so the
+// current position of a run's RNG can live in GameState and be resumed from
+// anywhere (reducers, saved runs, replays) without hidden module state.
+
+// Same contract as Math.random: returns a float in [0, 1)
+export type RandomSource = () => number;
+
+export interface SeededRandom {
+  next: RandomSource;
+  getState: () => number;
+}
+
+// Advance a mulberry32 state by one step - returns [value, nextState]
+function mulberry32Step(state: number): [number, number] {
+  const nextState = (state + 0x6d2b79f5) >>> 0;
+  let t = nextState;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  const value = ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  return [value, nextState];
+}
+
+// Create a generator starting from a seed (or a previously saved state)
+export function createSeededRandom(seed: number): SeededRandom {
+  let state = seed >>> 0;
+
+  return {
+    next: () => {
+      const [value, nextState] = mulberry32Step(state);
+      state = nextState;
+      return value;
+    },
+    getState: () => state,
+  };
+}
+
+// Fresh seed for a new run - this is the only place a run touches Math.random
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+// Parse a user-supplied seed (e.g. ?seed= query param); null if invalid
+export function parseSeed(value: string | null | undefined): number | null {
+  if (value === null || value === undefined || value.trim() === '') return null;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0 || parsed > 0xffffffff) return null;
+  return parsed >>> 0;
+}
+
+// Derive a stable seed from a string (FNV-1a) - e.g. a date key for shared daily decks
+export function seedFromString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
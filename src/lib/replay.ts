@@ -0,0 +1,126 @@
+import { Card, GameMode } from '@/types/game';
+import { createDeck, createJoker } from '@/lib/pokerEngine';
+import { Loadout, isLoadout } from '@/lib/loadout';
+
+// ============================================================================
+// REPLAY FORMAT
+// ============================================================================
+// A run is its seed plus every game action in order. Decks come from the
+// seeded RNG and timer ticks are logged as actions, so feeding the same
+// actions back into the same game hooks reproduces the run exactly - no
+// state snapshots needed. Timestamps only pace playback.
+//
+// Events are [msSincePreviousEvent, action, arg?] tuples to keep long SSC
+// runs small (a 30-minute run is a few thousand events).
+
+export const REPLAY_VERSION = 1;
+
+export type ReplayAction =
+  | 'select'      // arg: card id (logged even if the pick is rejected)
+  | 'submit'
+  | 'bonus'       // arg: [kept card ids, timeRemaining, best available card ids | null]
+  | 'tick'        // one second of game clock
+  | 'pause'       // arg: paused
+  | 'toggle'      // pause button
+  | 'power'       // arg: power-up id
+  | 'pick_power'  // arg: power-up id
+  | 'dismiss_power'
+  | 'claim'
+  | 'upgrade'     // pending reward spent on upgrading the held copy
+  | 'swap'        // arg: power-up id given up
+  | 'craft'       // arg: the three power-up ids combined
+  | 'discard'
+  | 'next'
+  | 'bonus_start'
+  | 'bonus_skip'
+  | 'shuffle'
+  | 'explainer'
+  | 'end'
+  | 'reset'
+  | 'resume';     // saved run restored - the log continues from the snapshot
+
+export type BonusArg = [string[], number, string[] | null];
+export type ReplayArg = string | boolean | string[] | BonusArg;
+export type ReplayEvent = [number, ReplayAction] | [number, ReplayAction, ReplayArg];
+
+export interface ReplayStart {
+  mode: GameMode;
+  seed: number;
+  startLevel: number;
+  forceBonus: boolean;
+  phaseOverride?: string;
+  loadout?: Loadout;      // SSC: power-ups brought in from the account inventory
+}
+
+// Only runs from the normal start are ranked: SSC from Level 1, no forced
+// bonus round and no phase override (level select and test URLs stay practice)
+export function isRankedStart(start: ReplayStart): boolean {
+  return start.startLevel === 1 && !start.forceBonus && !start.phaseOverride;
+}
+
+export interface Replay extends ReplayStart {
+  version: number;
+  recordedAt: string;
+  dailyRunNonce?: string; // Daily: issued by claim_daily_attempt, spent when the run is submitted
+  runToken?: string;      // SSC: issued by start_run as the log starts, so submit-score can time the run
+  events: ReplayEvent[];
+}
+
+// Every card a replay can reference, by id (standard deck plus Jokers)
+const CARDS_BY_ID = new Map<string, Card>(
+  [...createDeck(), ...[1, 2, 3, 4].map(createJoker)].map(card => [card.id, card])
+);
+
+export function getCardById(id: string): Card | undefined {
+  return CARDS_BY_ID.get(id);
+}
+
+// Recorder for one run. start() begins a new log (e.g. on restart);
+// resume() continues a log carried over from a saved run.
+export function createReplayRecorder() {
+  let replay: Replay | null = null;
+  let lastEventAt = 0;
+
+  return {
+    start(start: ReplayStart) {
+      replay = { ...start, version: REPLAY_VERSION, recordedAt: new Date().toISOString(), events: [] };
+      lastEventAt = Date.now();
+    },
+    resume(saved: Replay | null) {
+      replay = saved ? { ...saved, events: [...saved.events] } : null;
+      lastEventAt = Date.now();
+    },
+    // Ties the ranked daily attempt to this log (claimed once play begins)
+    bindDailyRun(nonce: string) {
+      if (replay) replay.dailyRunNonce = nonce;
+    },
+    // Ties the server's note of the run's start to this log
+    bindRunToken(token: string) {
+      if (replay) replay.runToken = token;
+    },
+    record(action: ReplayAction, arg?: ReplayArg) {
+      if (!replay) return;
+      const now = Date.now();
+      replay.events.push(arg === undefined ? [now - lastEventAt, action] : [now - lastEventAt, action, arg]);
+      lastEventAt = now;
+    },
+    // A copy, so saved runs keep the log as it was at save time
+    getReplay(): Replay | null {
+      return replay ? { ...replay, events: [...replay.events] } : null;
+    },
+  };
+}
+
+export type ReplayRecorder = ReturnType<typeof createReplayRecorder>;
+
+// Validate a stored replay before playing it back
+export function parseReplay(raw: unknown): Replay | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const replay = raw as Partial<Replay>;
+  if (replay.version !== REPLAY_VERSION || typeof replay.seed !== 'number' || !replay.mode) return null;
+  if (!Array.isArray(replay.events)) return null;
+  // A malformed loadout would hand the run power-ups submit-score never checked
+  if (replay.loadout !== undefined && !isLoadout(replay.loadout)) return null;
+  if (replay.runToken !== undefined && typeof replay.runToken !== 'string') return null;
+  return replay as Replay;
+}
@@ -0,0 +1,284 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Card, GameState } from '@/types/game';
+import { Replay, ReplayEvent, REPLAY_VERSION } from '@/lib/replay';
+import { createGameState, applySelectCard, applySubmitHand, applyTick, getVisibleCards, VISIBLE_CARDS } from '@/lib/gameTransitions';
+import { findBestHand } from '@/lib/pokerEngine';
+import { verifyReplay } from '@/lib/replayVerifier';
+import { checkLevelClearTiming, checkScorePlausibility, checkServerDuration } from '@/lib/scorePlausibility';
+
+// Plays a Blitz run the way the client would - five cards off the top of the
+// deck, submit, one clock tick - and logs every action as it goes
+function recordBlitzRun(seed: number): { replay: Replay; final: GameState } {
+  const events: ReplayEvent[] = [];
+  let state = createGameState('blitz_fc', false, 1, undefined, seed);
+
+  while (!state.isGameOver) {
+    for (const card of state.deck.slice(0, 5)) {
+      events.push([0, 'select', card.id]);
+      state = applySelectCard(state, card);
+    }
+    events.push([0, 'submit']);
+    state = applySubmitHand(state).state;
+    events.push([1000, 'tick']);
+    state = applyTick(state);
+  }
+
+  return {
+    replay: {
+      version: REPLAY_VERSION,
+      recordedAt: new Date(0).toISOString(),
+      mode: 'blitz_fc',
+      seed,
+      startLevel: 1,
+      forceBonus: false,
+      events,
+    },
+    final: state,
+  };
+}
+
+// Plays SSC level 1 picking the best hand on show each second (submitted
+// 300ms after the fifth card, like the client), then ends the run once the
+// level is cleared
+function recordSSCLevelClear(seed: number): { replay: Replay; cleared: GameState } {
+  const events: ReplayEvent[] = [];
+  let state = createGameState('ssc', false, 1, undefined, seed);
+
+  while (!state.isLevelComplete && !state.isGameOver) {
+    const best = findBestHand(getVisibleCards(state));
+    for (const card of best?.cards ?? []) {
+      events.push([0, 'select', card.id]);
+      state = applySelectCard(state, card);
+    }
+    events.push([300, 'submit']);
+    state = applySubmitHand(state).state;
+    if (state.isLevelComplete) break;
+    events.push([1000, 'tick']);
+    state = applyTick(state);
+  }
+
+  const cleared = state;
+  events.push([0, 'end']);
+
+  return {
+    replay: {
+      version: REPLAY_VERSION,
+      recordedAt: new Date(0).toISOString(),
+      mode: 'ssc',
+      seed,
+      startLevel: 1,
+      forceBonus: false,
+      events,
+    },
+    cleared,
+  };
+}
+
+test('verifyReplay reproduces the score of an honest run', () => {
+  const { replay, final } = recordBlitzRun(12345);
+  const result = verifyReplay(replay);
+
+  assert.ok(result.ok);
+  assert.equal(result.run.score, final.score);
+  assert.equal(result.run.handsPlayed, final.handsPlayed);
+  assert.equal(result.run.timeSeconds, final.timeElapsed);
+  // Every hand is counted once under its category, for challenge progress
+  assert.equal(Object.values(result.run.handCounts).reduce((sum, n) => sum + n, 0), result.run.totalHands);
+});
+
+test('verifyReplay rejects a run that never finished', () => {
+  const { replay } = recordBlitzRun(12345);
+  const result = verifyReplay({ ...replay, events: replay.events.slice(0, 30) });
+
+  assert.equal(result.ok, false);
+});
+
+test('verifyReplay does not score cards that were never dealt', () => {
+  const { replay } = recordBlitzRun(12345);
+  // Blitz decks have no jokers, so every one of these picks must be ignored
+  const tampered = replay.events.map(([dt, action, arg]): ReplayEvent =>
+    action === 'select' ? [dt, action, 'joker-1'] : [dt, action, arg]
+  );
+  const result = verifyReplay({ ...replay, events: tampered });
+
+  assert.ok(result.ok);
+  assert.equal(result.run.handsPlayed, 0);
+  assert.equal(result.run.score, 0);
+});
+
+test('verifyReplay does not score cards from below the ones on show', () => {
+  const start = createGameState('blitz_fc', false, 1, undefined, 12345);
+  const onShow = getVisibleCards(start);
+  // One hand, then the Blitz clock runs out
+  const playHand = (cards: Card[]) => verifyReplay({
+    version: REPLAY_VERSION,
+    recordedAt: new Date(0).toISOString(),
+    mode: 'blitz_fc',
+    seed: 12345,
+    startLevel: 1,
+    forceBonus: false,
+    events: [
+      ...cards.map((card): ReplayEvent => [0, 'select', card.id]),
+      [300, 'submit'],
+      ...Array.from({ length: 60 }, (): ReplayEvent => [1000, 'tick']),
+    ],
+  });
+
+  const honest = playHand(onShow.slice(0, 5));
+  const hidden = playHand(start.deck.slice(onShow.length, onShow.length + 5));
+
+  assert.equal(onShow.length, VISIBLE_CARDS.falling);
+  assert.ok(honest.ok);
+  assert.equal(honest.run.handsPlayed, 1);
+  assert.ok(hidden.ok);
+  assert.equal(hidden.run.handsPlayed, 0);
+  assert.equal(hidden.run.score, 0);
+});
+
+test('verifyReplay rejects unknown actions', () => {
+  const { replay } = recordBlitzRun(12345);
+  const events = [[0, 'win'], ...replay.events] as unknown as ReplayEvent[];
+
+  assert.equal(verifyReplay({ ...replay, events }).ok, false);
+});
+
+test('an honest run passes the plausibility checks', () => {
+  const result = verifyReplay(recordBlitzRun(777).replay);
+
+  assert.ok(result.ok);
+  assert.equal(checkScorePlausibility(result.run), null);
+});
+
+test('verifyReplay measures real time from the event timestamps', () => {
+  const result = verifyReplay(recordBlitzRun(777).replay);
+
+  assert.ok(result.ok);
+  // One second between ticks, and the run ends on the 60th
+  assert.equal(result.run.realSeconds, 60);
+  assert.equal(result.run.totalSeconds, 60);
+});
+
+test('a log replayed at machine speed verifies but fails plausibility', () => {
+  const { replay } = recordBlitzRun(777);
+  const events = replay.events.map(([, action, arg]): ReplayEvent => (arg === undefined ? [0, action] : [0, action, arg]));
+  const result = verifyReplay({ ...replay, events });
+
+  assert.ok(result.ok);
+  assert.equal(result.run.realSeconds, 0);
+  assert.notEqual(checkScorePlausibility(result.run), null);
+});
+
+test('verifyReplay records SSC level clears with the time the goal was reached', () => {
+  const { replay, cleared } = recordSSCLevelClear(2024);
+  const result = verifyReplay(replay);
+
+  assert.ok(cleared.isLevelComplete);
+  assert.ok(result.ok);
+  assert.deepEqual(result.run.levelClears, [{
+    level: 1,
+    levelScore: cleared.levelScore,
+    levelGoal: cleared.levelGoal,
+    // Real time from the timestamps; the run ends right after the clear
+    timeSeconds: Math.ceil(replay.events.reduce((sum, [ms]) => sum + ms, 0) / 1000),
+    clockSeconds: cleared.timeElapsed,
+    handsPlayed: cleared.handsPlayed,
+    starRating: cleared.starRating,
+  }]);
+  assert.equal(checkScorePlausibility(result.run), null);
+});
+
+test('level clears are timed by the event timestamps, pauses included', () => {
+  const { replay } = recordSSCLevelClear(2024);
+  const honest = verifyReplay(replay);
+
+  // A long pause slows the clear down - otherwise a log could hide cut time in one
+  const paused: ReplayEvent[] = [[0, 'pause', true], [60000, 'pause', false], ...replay.events];
+  const withPause = verifyReplay({ ...replay, events: paused });
+
+  // Played back at machine speed, the clear takes no time at all
+  const instant = replay.events.map(([, action, arg]): ReplayEvent => (arg === undefined ? [0, action] : [0, action, arg]));
+  const machine = verifyReplay({ ...replay, events: instant });
+
+  assert.ok(honest.ok && withPause.ok && machine.ok);
+  assert.equal(withPause.run.levelClears[0].timeSeconds, honest.run.levelClears[0].timeSeconds + 60);
+  assert.equal(machine.run.levelClears[0].timeSeconds, 0);
+  assert.notEqual(checkScorePlausibility(machine.run), null);
+});
+
+test('a log that compresses its timestamps keeps its score but not its level clears', () => {
+  const { replay } = recordSSCLevelClear(2024);
+  // The player stopped for a minute before their first hand...
+  const played = verifyReplay({ ...replay, events: [[0, 'pause', true], [60000, 'pause', false], ...replay.events] });
+  // ...and the log they sent leaves the minute out
+  const compressed = verifyReplay(replay);
+
+  assert.ok(played.ok);
+  assert.ok(compressed.ok);
+  // What the server saw between start_run and submit-score
+  const serverSeconds = played.run.realSeconds + 2;
+  assert.equal(checkScorePlausibility(compressed.run), null);
+  assert.ok(compressed.run.levelClears[0].timeSeconds < played.run.levelClears[0].timeSeconds);
+  assert.equal(checkLevelClearTiming(played.run, serverSeconds), null);
+  assert.notEqual(checkLevelClearTiming(compressed.run, serverSeconds), null);
+  // Nor can a log hold more time than the server saw pass
+  assert.equal(checkServerDuration(played.run, serverSeconds), null);
+  assert.notEqual(checkServerDuration(played.run, serverSeconds - 30), null);
+});
+
+test('non-SSC runs record no level clears', () => {
+  const result = verifyReplay(recordBlitzRun(12345).replay);
+
+  assert.ok(result.ok);
+  assert.deepEqual(result.run.levelClears, []);
+});
+
+test('verifyReplay rejects level changes out of turn', () => {
+  const { replay } = recordSSCLevelClear(2024);
+  // Skipping levels without playing them
+  const skipping: ReplayEvent[] = [...Array.from({ length: 20 }, (): ReplayEvent => [0, 'next']), [0, 'end']];
+  assert.equal(verifyReplay({ ...replay, events: skipping }).ok, false);
+
+  // Once the level is cleared one "next" moves on, a second one doesn't
+  const cleared = replay.events.slice(0, -1);
+  const movedOn = verifyReplay({ ...replay, events: [...cleared, [0, 'next'], [0, 'end']] });
+  assert.ok(movedOn.ok);
+  assert.equal(movedOn.run.sscLevel, 2);
+  assert.equal(verifyReplay({ ...replay, events: [...cleared, [0, 'next'], [0, 'next'], [0, 'end']] }).ok, false);
+  assert.equal(verifyReplay({ ...replay, events: [...cleared, [0, 'bonus_start'], [0, 'end']] }).ok, false);
+  assert.equal(verifyReplay({ ...replay, events: [...cleared, [0, 'bonus_skip'], [0, 'end']] }).ok, false);
+});
+
+test('nothing is played and the clock stands still once a level is complete', () => {
+  const { replay, cleared } = recordSSCLevelClear(2024);
+  const honest = verifyReplay(replay);
+
+  const afterClear: ReplayEvent[] = [
+    ...Array.from({ length: 30 }, (): ReplayEvent => [1000, 'tick']),
+    ...cleared.deck.slice(0, 5).map((card): ReplayEvent => [0, 'select', card.id]),
+    [0, 'submit'],
+  ];
+  const padded = verifyReplay({ ...replay, events: [...replay.events.slice(0, -1), ...afterClear, [0, 'end']] });
+
+  assert.ok(honest.ok);
+  assert.ok(padded.ok);
+  assert.equal(padded.run.score, honest.run.score);
+  assert.equal(padded.run.totalHands, honest.run.totalHands);
+  assert.equal(padded.run.totalSeconds, honest.run.totalSeconds);
+  assert.equal(padded.run.timeSeconds, honest.run.timeSeconds);
+});
+
+test('verifyReplay only ranks runs from the normal start', () => {
+  const { replay } = recordSSCLevelClear(2024);
+
+  assert.equal(verifyReplay({ ...replay, startLevel: 5 }).ok, false);
+  assert.equal(verifyReplay({ ...replay, forceBonus: true }).ok, false);
+  assert.equal(verifyReplay({ ...replay, phaseOverride: 'sitting_duck' }).ok, false);
+});
+
+test('verifyReplay rejects a run that was reset partway through', () => {
+  const { replay } = recordBlitzRun(12345);
+  const events: ReplayEvent[] = [...replay.events.slice(0, 30), [0, 'reset'], ...replay.events.slice(30)];
+
+  assert.equal(verifyReplay({ ...replay, events }).ok, false);
+});
@@ -0,0 +1,288 @@
+import { Card, GameMode, GameState, HandResult } from '@/types/game';
+import { evaluateHand, findBestHand, findStrongestHand, compareHands, isSSCMode } from '@/lib/pokerEngine';
+import { Replay, BonusArg, getCardById, isRankedStart } from '@/lib/replay';
+import { createRunSnapshot } from '@/lib/savedRun';
+import {
+  HandTransition,
+  createGameState,
+  restoreGameState,
+  applySelectCard,
+  applySubmitHand,
+  applySubmitBonusHand,
+  applyTick,
+  applySetPaused,
+  applyTogglePause,
+  applyPowerUp,
+  applySelectPowerUp,
+  applyDismissPowerUpSelection,
+  applyClaimReward,
+  applyUpgradeReward,
+  applySwapPowerUp,
+  applyCraftPowerUps,
+  applyDiscardReward,
+  applyNextLevel,
+  applyStartBonusRound,
+  applySkipBonusRound,
+  applyReshuffle,
+  applyExplainerSeen,
+  applyEndGame,
+} from '@/lib/gameTransitions';
+
+// ============================================================================
+// REPLAY VERIFICATION
+// ============================================================================
+// Re-plays an action log through the same transitions the game hooks use and
+// reports what the run actually scored. Used by the submit-score edge
+// function, so the leaderboard never trusts a client-reported score.
+
+// Far beyond any real run (a 30-minute SSC run is a few thousand events)
+export const MAX_REPLAY_EVENTS = 200000;
+
+// Bonus rounds deal up to 16 cards on mobile and 18 on desktop
+const BONUS_TABLE_SIZES = [16, 18];
+
+// The leaderboard row a verified run produces
+// An SSC level reaching its goal: recorded for the per-level leaderboards
+export interface LevelClear {
+  level: number;
+  levelScore: number;
+  levelGoal: number;
+  timeSeconds: number;      // Real time from the level's start to its goal, pauses included, from the event timestamps
+  clockSeconds: number;     // Game clock at the same moment (Freeze Time holds it back)
+  handsPlayed: number;
+  starRating: number;
+}
+
+export interface VerifiedRun {
+  mode: GameMode;
+  seed: number;
+  score: number;            // cumulativeScore for SSC modes
+  handsPlayed: number;
+  sscLevel: number | null;
+  startLevel: number;       // Always 1 - runs started later aren't ranked (isRankedStart)
+  timeSeconds: number;
+  bestHand: string | null;
+  totalHands: number;       // Across every level and bonus round (handsPlayed resets per level)
+  totalSeconds: number;     // Game clock ticks that moved the clock, across the whole run
+  realSeconds: number;      // Wall-clock length of the log, from its event timestamps
+  bonusHands: number;       // Bonus round hands (included in totalHands)
+  handCounts: Record<string, number>; // By hand name, across every level and bonus round
+  leftoverPowerUps: string[]; // SSC: still held at the end, banked into the account inventory
+  levelClears: LevelClear[];  // SSC: every numbered level cleared, in order
+}
+
+export type VerificationResult =
+  | { ok: true; run: VerifiedRun }
+  | { ok: false; reason: string };
+
+function toCards(ids: unknown): Card[] | null {
+  if (!Array.isArray(ids)) return null;
+  const cards = ids.map(id => getCardById(String(id)));
+  return cards.every(Boolean) ? cards as Card[] : null;
+}
+
+// A bonus pick is only valid if every kept card, and the "best available"
+// hand used to grade it, came from the cards dealt on the table
+function resolveBonusPick(state: GameState, arg: BonusArg): { cards: Card[]; best: HandResult | null } | null {
+  if (!state.isBonusLevel || state.isLevelComplete || !state.isPlaying) return null;
+
+  const cards = toCards(arg[0]);
+  if (!cards || cards.length !== 5 || new Set(cards.map(c => c.id)).size !== 5) return null;
+
+  for (const size of BONUS_TABLE_SIZES) {
+    const dealt = state.deck.slice(0, Math.min(state.bonusRoundCount * 10, size));
+    const dealtIds = new Set(dealt.map(c => c.id));
+    if (!cards.every(c => dealtIds.has(c.id))) continue;
+
+    // The grading hand is recomputed from the table, never taken from the log
+    const best = findBestHand(dealt);
+    const claimedBest = arg[2] ? toCards(arg[2]) : null;
+    if (!claimedBest || !best || compareHands(evaluateHand(claimedBest), best) === 0) {
+      return { cards, best };
+    }
+  }
+  return null;
+}
+
+export function verifyReplay(replay: Replay): VerificationResult {
+  if (replay.events.length > MAX_REPLAY_EVENTS) {
+    return { ok: false, reason: 'Replay is too long' };
+  }
+  if (!isRankedStart(replay)) {
+    return { ok: false, reason: 'Only runs from the normal start are ranked' };
+  }
+
+  let state = createGameState(replay.mode, replay.forceBonus, replay.startLevel, replay.phaseOverride, replay.seed, replay.loadout?.powerUpIds);
+  const startLevel = state.sscLevel;
+  // Mirrors useHandSubmission's history: cleared at each level, bonus round and restore
+  let hands: HandResult[] = [];
+  let totalHands = 0;
+  let totalSeconds = 0;
+  let realMs = 0;
+  // Real time the current level has been in play, pauses included - submit-score
+  // holds the whole log to the server's clock, so a pause can't hide time cut
+  // from a clear
+  let levelMs = 0;
+  let bonusHands = 0;
+  const handCounts: Record<string, number> = {};
+  const levelClears: LevelClear[] = [];
+
+  const scored = ({ state: next, hand }: HandTransition) => {
+    if (hand) {
+      hands.push(hand);
+      totalHands++;
+      handCounts[hand.hand.name] = (handCounts[hand.hand.name] ?? 0) + 1;
+    }
+    return next;
+  };
+
+  for (let i = 0; i < replay.events.length && !state.isGameOver; i++) {
+    const [msSincePrev, action, arg] = replay.events[i];
+    const ms = Math.max(0, Number(msSincePrev) || 0);
+    realMs += ms;
+    if (!state.isLevelComplete) levelMs += ms;
+
+    switch (action) {
+      case 'select': {
+        const card = getCardById(String(arg));
+        if (!card) return { ok: false, reason: `Unknown card at event ${i}` };
+        state = applySelectCard(state, card);
+        break;
+      }
+      case 'submit':
+        state = scored(applySubmitHand(state));
+        break;
+      case 'bonus': {
+        const pick = resolveBonusPick(state, arg as BonusArg);
+        if (!pick) return { ok: false, reason: `Invalid bonus round pick at event ${i}` };
+        // The clock is the server's, not the one the client reported
+        const bonus = applySubmitBonusHand(state, pick.cards, evaluateHand(pick.cards), state.timeRemaining, pick.best);
+        if (bonus.hand) bonusHands++;
+        state = scored(bonus);
+        break;
+      }
+      case 'tick': {
+        // Ticks between levels (or after the clock ran out) don't move the clock
+        const next = applyTick(state);
+        if (next !== state) totalSeconds++;
+        state = next;
+        break;
+      }
+      case 'pause':
+        state = applySetPaused(state, arg === true);
+        break;
+      case 'toggle':
+        state = applyTogglePause(state);
+        break;
+      case 'power':
+        state = applyPowerUp(state, String(arg));
+        break;
+      case 'pick_power':
+        state = applySelectPowerUp(state, String(arg));
+        break;
+      case 'dismiss_power':
+        state = applyDismissPowerUpSelection(state);
+        break;
+      case 'claim':
+        state = applyClaimReward(state);
+        break;
+      case 'upgrade':
+        state = applyUpgradeReward(state);
+        break;
+      case 'swap':
+        state = applySwapPowerUp(state, String(arg));
+        break;
+      case 'craft':
+        if (!Array.isArray(arg)) return { ok: false, reason: `Invalid craft at event ${i}` };
+        state = applyCraftPowerUps(state, arg.map(String));
+        break;
+      case 'discard':
+        state = applyDiscardReward(state);
+        break;
+      // The client only records level changes it can make (see useGameState)
+      case 'next': {
+        const next = applyNextLevel(state);
+        if (next === state) return { ok: false, reason: `Level change out of turn at event ${i}` };
+        state = next;
+        hands = [];
+        levelMs = 0;
+        break;
+      }
+      case 'bonus_start': {
+        const next = applyStartBonusRound(state);
+        if (next === state) return { ok: false, reason: `Level change out of turn at event ${i}` };
+        state = next;
+        hands = [];
+        levelMs = 0;
+        break;
+      }
+      case 'bonus_skip': {
+        const next = applySkipBonusRound(state);
+        if (next === state) return { ok: false, reason: `Level change out of turn at event ${i}` };
+        state = next;
+        break;
+      }
+      case 'shuffle':
+        state = applyReshuffle(state);
+        break;
+      case 'explainer':
+        state = applyExplainerSeen(state);
+        break;
+      case 'end':
+        state = applyEndGame(state);
+        break;
+      case 'reset':
+        // A run is submitted from its own game over screen - never across a reset
+        return { ok: false, reason: `Run was reset at event ${i}` };
+      case 'resume':
+        // Same snapshot round trip the client made when it saved and restored
+        state = restoreGameState(createRunSnapshot(state, { timeRemaining: state.timeRemaining, timeElapsed: state.timeElapsed }));
+        hands = [];
+        break;
+      default:
+        return { ok: false, reason: `Unknown action at event ${i}` };
+    }
+
+    // A numbered level has just reached its goal (bonus rounds don't count)
+    if (state.mode === 'ssc' && state.isLevelComplete && !state.isBonusLevel && state.score >= state.levelGoal
+      && levelClears[levelClears.length - 1]?.level !== state.sscLevel) {
+      levelClears.push({
+        level: state.sscLevel,
+        levelScore: state.levelScore,
+        levelGoal: state.levelGoal,
+        timeSeconds: Math.ceil(levelMs / 1000),
+        clockSeconds: state.timeElapsed,
+        handsPlayed: state.handsPlayed,
+        starRating: state.starRating,
+      });
+    }
+  }
+
+  if (!state.isGameOver) {
+    return { ok: false, reason: 'Run did not finish' };
+  }
+
+  const isSSC = isSSCMode(state.mode);
+  const bestHand = findStrongestHand(hands) ?? state.currentHand;
+
+  return {
+    ok: true,
+    run: {
+      mode: state.mode,
+      seed: replay.seed,
+      score: isSSC ? state.cumulativeScore : state.score,
+      handsPlayed: state.handsPlayed,
+      sscLevel: isSSC ? state.sscLevel : null,
+      startLevel,
+      timeSeconds: state.timeElapsed,
+      bestHand: bestHand?.hand.name ?? null,
+      totalHands,
+      totalSeconds,
+      realSeconds: realMs / 1000,
+      bonusHands,
+      handCounts,
+      leftoverPowerUps: state.mode === 'ssc' ? state.earnedPowerUps : [],
+      levelClears,
+    },
+  };
+}
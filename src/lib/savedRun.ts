@@ -0,0 +1,135 @@
+import { GameState } from '@/types/game';
+import { isSSCMode } from '@/lib/pokerEngine';
+import { getDailyDateKey } from '@/lib/dailySeed';
+import { Replay } from '@/lib/replay';
+
+// ============================================================================
+// SAVED SSC RUNS
+// ============================================================================
+// A versioned snapshot of an in-progress SSC / Daily run, written after every
+// hand and level change so closing the tab doesn't lose a 30-minute run.
+// Bump SAVED_RUN_VERSION whenever the snapshot shape changes - older
+// snapshots are discarded rather than restored into a mismatched state.
+
+export const SAVED_RUN_VERSION = 3;
+
+// Everything needed to put the player back where they left off. Bonus rounds
+// in progress are never saved - resuming returns to the level-complete screen
+// before them, and the seeded RNG deals the same bonus deck again.
+type SavedRunState = Pick<GameState,
+  | 'mode'
+  | 'seed'
+  | 'rngState'
+  | 'dailyDate'
+  | 'sscLevel'
+  | 'sscPhase'
+  | 'sscRound'
+  | 'levelGoal'
+  | 'score'
+  | 'rawScore'
+  | 'levelScore'
+  | 'cumulativeScore'
+  | 'handsPlayed'
+  | 'cardsSelected'
+  | 'timeRemaining'
+  | 'timeElapsed'
+  | 'deck'
+  | 'usedCards'
+  | 'currentHand'
+  | 'previousHand'
+  | 'betterHandStreak'
+  | 'currentMultiplier'
+  | 'earnedPowerUps'
+  | 'activePowerUps'
+  | 'powerUpLevels'
+  | 'bonusRoundCount'
+  | 'isBonusLevel'
+  | 'isBonusFailed'
+  | 'isLevelComplete'
+  | 'pendingBonusRound'
+  | 'bonusTimePoints'
+  | 'starRating'
+  | 'hasSeenSSCExplainer'
+  | 'wildRanks'
+>;
+
+export interface SavedRun {
+  version: number;
+  savedAt: string;
+  dailyRanked: boolean; // Daily only: this run is the day's ranked attempt
+  state: SavedRunState;
+  replay: Replay | null; // Action log up to this snapshot, continued on resume
+}
+
+// Whether the run is at a point that can be snapshotted
+export function canSaveRun(state: GameState): boolean {
+  if (!isSSCMode(state.mode) || !state.isPlaying || state.isGameOver) return false;
+  // Mid-bonus-round, or a bonus reward still waiting to be claimed
+  if (state.isBonusLevel && !state.isLevelComplete) return false;
+  return !state.showLootBox && !state.pendingReward;
+}
+
+// Snapshot the run. The timer lives in refs, so callers pass the live clock.
+export function createRunSnapshot(
+  state: GameState,
+  clock: { timeRemaining: number; timeElapsed: number },
+  dailyRanked = false,
+  replay: Replay | null = null
+): SavedRun {
+  return {
+    version: SAVED_RUN_VERSION,
+    savedAt: new Date().toISOString(),
+    dailyRanked,
+    replay,
+    state: {
+      mode: state.mode,
+      seed: state.seed,
+      rngState: state.rngState,
+      dailyDate: state.dailyDate,
+      sscLevel: state.sscLevel,
+      sscPhase: state.sscPhase,
+      sscRound: state.sscRound,
+      levelGoal: state.levelGoal,
+      score: state.score,
+      rawScore: state.rawScore,
+      levelScore: state.levelScore,
+      cumulativeScore: state.cumulativeScore,
+      handsPlayed: state.handsPlayed,
+      cardsSelected: state.cardsSelected,
+      timeRemaining: clock.timeRemaining,
+      timeElapsed: clock.timeElapsed,
+      // A half-picked hand goes back on the table
+      deck: [...state.deck, ...state.selectedCards],
+      usedCards: state.usedCards,
+      currentHand: state.currentHand,
+      previousHand: state.previousHand,
+      betterHandStreak: state.betterHandStreak,
+      currentMultiplier: state.currentMultiplier,
+      earnedPowerUps: state.earnedPowerUps,
+      activePowerUps: state.activePowerUps,
+      powerUpLevels: state.powerUpLevels,
+      bonusRoundCount: state.bonusRoundCount,
+      isBonusLevel: state.isBonusLevel,
+      isBonusFailed: state.isBonusFailed,
+      isLevelComplete: state.isLevelComplete,
+      pendingBonusRound: state.pendingBonusRound,
+      bonusTimePoints: state.bonusTimePoints ?? 0,
+      starRating: state.starRating,
+      hasSeenSSCExplainer: state.hasSeenSSCExplainer,
+      wildRanks: state.wildRanks,
+    },
+  };
+}
+
+// Validate a stored snapshot. Returns null for anything that can't be resumed:
+// unknown versions, non-SSC runs, and Daily runs from a previous UTC day.
+export function parseSavedRun(raw: unknown): SavedRun | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const saved = raw as Partial<SavedRun>;
+
+  if (saved.version !== SAVED_RUN_VERSION || !saved.state) return null;
+  if (!isSSCMode(saved.state.mode) || !Array.isArray(saved.state.deck) || saved.state.deck.length === 0) return null;
+  if (saved.state.mode === 'daily' && saved.state.dailyDate !== getDailyDateKey()) return null;
+
+  return saved as SavedRun;
+}
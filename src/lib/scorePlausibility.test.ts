@@ -0,0 +1,107 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { calculateLevelGoal } from '@/lib/pokerEngine';
+import { LevelClear, VerifiedRun } from '@/lib/replayVerifier';
+import { checkLevelClearPlausibility, checkScorePlausibility, getMaxHandPoints, getMaxScoreForLevel, getMinScoreForLevel } from '@/lib/scorePlausibility';
+
+function run(overrides: Partial<VerifiedRun>): VerifiedRun {
+  return {
+    mode: 'classic_fc',
+    seed: 1,
+    score: 2000,
+    handsPlayed: 10,
+    sscLevel: null,
+    startLevel: 1,
+    timeSeconds: 120,
+    bestHand: 'Flush',
+    totalHands: 10,
+    totalSeconds: 120,
+    realSeconds: 125,
+    bonusHands: 0,
+    handCounts: {},
+    leftoverPowerUps: [],
+    levelClears: [],
+    ...overrides,
+  };
+}
+
+test('getMaxHandPoints is a Royal Flush plus the largest card value bonus', () => {
+  assert.equal(getMaxHandPoints('ssc'), 5000 + 5 * 14);
+});
+
+test('checkScorePlausibility accepts ordinary runs', () => {
+  assert.equal(checkScorePlausibility(run({})), null);
+  assert.equal(checkScorePlausibility(run({ mode: 'blitz_fc', score: 40 * 300 * 40, handsPlayed: 40, timeSeconds: 60, totalHands: 40, totalSeconds: 60, realSeconds: 61 })), null);
+  assert.equal(checkScorePlausibility(run({
+    mode: 'ssc',
+    sscLevel: 4,
+    score: getMinScoreForLevel(4) + 200,
+    handsPlayed: 8,
+    timeSeconds: 30,
+    totalHands: 60,
+    totalSeconds: 250,
+    realSeconds: 300,
+  })), null);
+});
+
+test('checkScorePlausibility rejects more points than the hands could make', () => {
+  const max = 10 * getMaxHandPoints('classic_fc') + 1000;
+  assert.notEqual(checkScorePlausibility(run({ score: max + 1 })), null);
+});
+
+test('checkScorePlausibility rejects hands played faster than the rate limit', () => {
+  assert.notEqual(checkScorePlausibility(run({ mode: 'blitz_fc', score: 0, handsPlayed: 200, timeSeconds: 60, totalHands: 200, totalSeconds: 60, realSeconds: 60 })), null);
+});
+
+test('checkScorePlausibility rejects an SSC level the score could not have reached', () => {
+  const reached = run({ mode: 'ssc', sscLevel: 5, handsPlayed: 5, timeSeconds: 60, totalHands: 80, totalSeconds: 400, realSeconds: 400 });
+  const minScore = [1, 2, 3, 4].reduce((sum, level) => sum + calculateLevelGoal(level), 0);
+
+  assert.equal(checkScorePlausibility({ ...reached, score: minScore }), null);
+  assert.notEqual(checkScorePlausibility({ ...reached, score: minScore - 1 }), null);
+  // Testing URLs start later, so fewer goals had to be cleared
+  assert.equal(checkScorePlausibility({ ...reached, startLevel: 5, score: 0 }), null);
+});
+
+test('checkScorePlausibility rejects a game clock running ahead of real time', () => {
+  assert.equal(checkScorePlausibility(run({ realSeconds: 116 })), null);
+  assert.notEqual(checkScorePlausibility(run({ realSeconds: 100 })), null);
+  assert.notEqual(checkScorePlausibility(run({ realSeconds: 0 })), null);
+});
+
+test('checkScorePlausibility caps an SSC score by the goals of the levels played', () => {
+  const reached = run({ mode: 'ssc', sscLevel: 3, handsPlayed: 5, timeSeconds: 60, totalHands: 40, totalSeconds: 200, realSeconds: 200 });
+  const maxScore = getMaxScoreForLevel('ssc', 3, 1, 0);
+
+  assert.equal(maxScore, [1, 2, 3].reduce((sum, level) => sum + calculateLevelGoal(level) - 1 + getMaxHandPoints('ssc') * 4, 0));
+  assert.equal(checkScorePlausibility({ ...reached, score: maxScore }), null);
+  assert.notEqual(checkScorePlausibility({ ...reached, score: maxScore + 1 }), null);
+  // More hands don't raise the cap; a bonus hand does
+  assert.notEqual(checkScorePlausibility({ ...reached, score: maxScore + 1, totalHands: 300, totalSeconds: 400, realSeconds: 400 }), null);
+  assert.equal(checkScorePlausibility({ ...reached, score: maxScore + 1, bonusHands: 1 }), null);
+});
+
+test('checkScorePlausibility rejects a Blitz run longer than its clock', () => {
+  const blitz = run({ mode: 'blitz_fc', score: 0, handsPlayed: 40, timeSeconds: 60, totalHands: 40, totalSeconds: 61, realSeconds: 61 });
+
+  assert.equal(checkScorePlausibility(blitz), null);
+  assert.notEqual(checkScorePlausibility({ ...blitz, timeSeconds: 61 }), null);
+});
+
+test('checkLevelClearPlausibility holds each clear to its own timing and goal', () => {
+  const goal = calculateLevelGoal(1);
+  const clear: LevelClear = { level: 1, levelScore: goal + 100, levelGoal: goal, timeSeconds: 20, clockSeconds: 18, handsPlayed: 12, starRating: 2 };
+
+  assert.equal(checkLevelClearPlausibility('ssc', clear), null);
+  // Game clock ahead of real time
+  assert.notEqual(checkLevelClearPlausibility('ssc', { ...clear, clockSeconds: 30 }), null);
+  // Faster than the auto-submit delay allows
+  assert.notEqual(checkLevelClearPlausibility('ssc', { ...clear, timeSeconds: 1, clockSeconds: 1 }), null);
+  // Short of the goal, or past it by more than one hand
+  assert.notEqual(checkLevelClearPlausibility('ssc', { ...clear, levelScore: goal - 1 }), null);
+  assert.notEqual(checkLevelClearPlausibility('ssc', { ...clear, levelScore: goal + getMaxHandPoints('ssc') * 4 }), null);
+
+  const sscRun = run({ mode: 'ssc', sscLevel: 2, score: goal + 100, handsPlayed: 3, timeSeconds: 10, totalHands: 15, totalSeconds: 30, realSeconds: 30 });
+  assert.equal(checkScorePlausibility({ ...sscRun, levelClears: [clear] }), null);
+  assert.notEqual(checkScorePlausibility({ ...sscRun, levelClears: [{ ...clear, timeSeconds: 0, clockSeconds: 0 }] }), null);
+});
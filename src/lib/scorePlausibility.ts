@@ -0,0 +1,173 @@
+import { RANK_VALUES } from '@/types/game';
+import { calculateLevelGoal, isSSCMode } from '@/lib/pokerEngine';
+import { getScoringRuleset } from '@/lib/scoringRulesets';
+import { LevelClear, VerifiedRun } from '@/lib/replayVerifier';
+
+// ============================================================================
+// SCORE PLAUSIBILITY
+// ============================================================================
+// Cheap upper/lower bounds a leaderboard row must satisfy, checked by
+// submit-score on top of the full replay. A verified run should never trip
+// these - if one does, it's either a rules bug or an exploit, and the row
+// goes to moderators instead of the leaderboard.
+
+// Faster than anyone can tap five cards; power-ups and Reshuffle add a few free hands
+export const MAX_HANDS_PER_SECOND = 2;
+const FREE_HAND_ALLOWANCE = 5;
+
+// The game clock ticks once a real second, so it can't run ahead of the log's
+// own timestamps by more than timer jitter
+const CLOCK_DRIFT = 1.05;
+const CLOCK_SLACK_SECONDS = 2;
+
+// start_run is called as the log starts and the game over screen calls
+// submit-score as it ends, so the server sees the same span give or take a
+// request each way
+const SERVER_CLOCK_SLACK_SECONDS = 10;
+const SUBMIT_GRACE_SECONDS = 30;
+
+// Every hand is submitted by the client's auto-submit, 300ms after its fifth
+// card (or the power-up that formed it), so hands can't come faster than this
+const MIN_SECONDS_PER_HAND = 0.3;
+
+// Blitz is one 60s clock with no power-ups to extend it
+const BLITZ_MAX_SECONDS = 60;
+
+// Classic ends at 10 minutes; its time bonus tops out at 1,000
+const CLASSIC_MAX_SECONDS = 600;
+const CLASSIC_MAX_TIME_BONUS = 1000;
+
+// SSC: 3+ Better-Hand streak (x2), then the final stretch doubles again
+const SSC_MAX_HAND_MULTIPLIER = 4;
+// Bonus round hands also earn 10 points per second left on a 60s clock, plus Add Time
+const MAX_BONUS_TIME_POINTS = (60 + 4 * 15) * 10;
+
+const MAX_CARD_VALUE = Math.max(...Object.values(RANK_VALUES));
+
+// Best base hand in the mode's table plus the largest possible card value bonus
+export function getMaxHandPoints(mode: VerifiedRun['mode']): number {
+  const { hands } = getScoringRuleset(mode);
+  return Math.max(...hands.map(h => h.basePoints)) + 5 * MAX_CARD_VALUE;
+}
+
+// Cumulative score needed to have cleared every level from `startLevel` up to `level`
+export function getMinScoreForLevel(level: number, startLevel: number = 1): number {
+  let total = 0;
+  for (let l = startLevel; l < level; l++) total += calculateLevelGoal(l);
+  return total;
+}
+
+// Highest cumulative score a run from `startLevel` can hold on `level`. A level
+// ends on the hand that reaches its goal, so each one banks at most its goal
+// less a point plus one maxed-out hand; bonus hands add their time points.
+export function getMaxScoreForLevel(mode: VerifiedRun['mode'], level: number, startLevel: number, bonusHands: number): number {
+  const maxHandPoints = getMaxHandPoints(mode);
+  let total = bonusHands * (maxHandPoints + MAX_BONUS_TIME_POINTS);
+  for (let l = startLevel; l <= level; l++) total += calculateLevelGoal(l) - 1 + maxHandPoints * SSC_MAX_HAND_MULTIPLIER;
+  return total;
+}
+
+// Returns why a level clear is implausible, or null. Clears feed the per-level
+// records, so each one has to stand on its own timing.
+export function checkLevelClearPlausibility(mode: VerifiedRun['mode'], clear: LevelClear): string | null {
+  const { level, levelScore, levelGoal, timeSeconds, clockSeconds, handsPlayed } = clear;
+
+  if (clockSeconds > timeSeconds * CLOCK_DRIFT + CLOCK_SLACK_SECONDS) {
+    return `Level ${level}: ${clockSeconds}s of game clock in ${timeSeconds}s of real time`;
+  }
+  if (handsPlayed * MIN_SECONDS_PER_HAND > timeSeconds) {
+    return `Level ${level}: ${handsPlayed} hands in ${timeSeconds}s`;
+  }
+
+  const maxScore = levelGoal - 1 + getMaxHandPoints(mode) * SSC_MAX_HAND_MULTIPLIER;
+  if (levelScore < levelGoal || levelScore > maxScore) {
+    return `Level ${level}: score ${levelScore} outside ${levelGoal}-${maxScore}`;
+  }
+  return null;
+}
+
+// Returns why the run is implausible, or null if it passes every rule
+export function checkScorePlausibility(run: VerifiedRun): string | null {
+  const { mode, score, handsPlayed, timeSeconds, sscLevel, startLevel, totalHands, totalSeconds, realSeconds, bonusHands } = run;
+  const ruleset = getScoringRuleset(mode);
+  const maxHandPoints = getMaxHandPoints(mode);
+
+  if (handsPlayed < 0 || timeSeconds < 0 || handsPlayed > totalHands || timeSeconds > totalSeconds || bonusHands > totalHands) {
+    return 'Negative or inconsistent hand/time counts';
+  }
+
+  // A log replayed at machine speed has game time but no real time behind it.
+  // Holding the clock to real time makes the hand rates below real-time rates.
+  if (totalSeconds > realSeconds * CLOCK_DRIFT + CLOCK_SLACK_SECONDS) {
+    return `${totalSeconds}s of game clock in ${Math.round(realSeconds)}s of real time`;
+  }
+
+  // Hand rate, for the whole run and for the level the row reports
+  if (totalHands > FREE_HAND_ALLOWANCE + totalSeconds * MAX_HANDS_PER_SECOND) {
+    return `${totalHands} hands in ${totalSeconds}s`;
+  }
+  if (handsPlayed > FREE_HAND_ALLOWANCE + timeSeconds * MAX_HANDS_PER_SECOND) {
+    return `${handsPlayed} hands in ${timeSeconds}s`;
+  }
+
+  if (isSSCMode(mode)) {
+    if (sscLevel === null || sscLevel < startLevel) return 'Missing SSC level';
+
+    const maxScore = getMaxScoreForLevel(mode, sscLevel, startLevel, bonusHands);
+    if (score > maxScore) return `Score ${score} exceeds ${maxScore} for level ${sscLevel}`;
+
+    // Reaching level N means clearing the goal of every level before it
+    const minScore = getMinScoreForLevel(sscLevel, startLevel);
+    if (score < minScore) return `Score ${score} is below the ${minScore} needed to reach level ${sscLevel}`;
+
+    for (const clear of run.levelClears) {
+      const reason = checkLevelClearPlausibility(mode, clear);
+      if (reason) return reason;
+    }
+    return null;
+  }
+
+  if (sscLevel !== null) return 'SSC level on a non-SSC run';
+
+  if (ruleset.id === 'classic') {
+    if (timeSeconds > CLASSIC_MAX_SECONDS) return `Classic run lasted ${timeSeconds}s`;
+    if (ruleset.handLimit !== null && handsPlayed > ruleset.handLimit) return `${handsPlayed} hands in Classic`;
+
+    const maxScore = handsPlayed * maxHandPoints + CLASSIC_MAX_TIME_BONUS;
+    if (score > maxScore) return `Score ${score} exceeds ${maxScore} for ${handsPlayed} hands`;
+    return null;
+  }
+
+  // Blitz: base points × hands played. Recycled cards allow the best hand every
+  // time, so the bound stays quadratic - the clock rules above cap the hands.
+  if (timeSeconds > BLITZ_MAX_SECONDS) return `Blitz run lasted ${timeSeconds}s`;
+
+  const maxScore = handsPlayed * maxHandPoints * handsPlayed;
+  if (score > maxScore) return `Score ${score} exceeds ${maxScore} for ${handsPlayed} hands`;
+  return null;
+}
+
+// Returns why the log holds more real time than the server saw pass since
+// start_run, or null
+export function checkServerDuration(run: VerifiedRun, serverSeconds: number): string | null {
+  if (run.realSeconds > serverSeconds + SERVER_CLOCK_SLACK_SECONDS) {
+    return `${Math.round(run.realSeconds)}s of real time in ${Math.round(serverSeconds)}s since the run started`;
+  }
+  return null;
+}
+
+// Returns why the run's level clears can't be stored, or null. Time the log
+// leaves out could have been cut from a clear, so the log has to account for
+// nearly all the time since start_run. Resumed runs leave out the time they
+// spent saved, and keep their score without level records.
+export function checkLevelClearTiming(run: VerifiedRun, serverSeconds: number): string | null {
+  // Each clear rounds up to a whole second
+  const clearSeconds = run.levelClears.reduce((sum, clear) => sum + clear.timeSeconds, 0) - run.levelClears.length;
+  if (clearSeconds > serverSeconds + SERVER_CLOCK_SLACK_SECONDS) {
+    return `Level clears take ${clearSeconds}s of ${Math.round(serverSeconds)}s since the run started`;
+  }
+  if (run.realSeconds < serverSeconds - SUBMIT_GRACE_SECONDS) {
+    return `Log covers ${Math.round(run.realSeconds)}s of ${Math.round(serverSeconds)}s since the run started`;
+  }
+  return null;
+}
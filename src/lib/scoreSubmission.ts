@@ -0,0 +1,42 @@
+import { supabase } from '@/integrations/supabase/client';
+import { GameMode } from '@/types/game';
+import { Replay } from '@/lib/replay';
+
+// ============================================================================
+// SCORE SUBMISSION
+// ============================================================================
+// Clients can't write leaderboard_entries directly. A finished run's replay
+// goes to the submit-score edge function, which re-runs it and records the
+// score it actually produced (see replayVerifier.ts).
+
+export interface SubmittedScore {
+  entryId: string;
+  score: number;           // after scoreMultiplier
+  scoreMultiplier: number; // 2 when a 2x points game was used, otherwise 1
+  bankedPowerUps: string[]; // SSC leftovers added to the account inventory
+  seasonXp: number;         // season pass XP the run earned
+}
+
+// Returns null when the run was rejected or couldn't be sent
+export async function submitScore(replay: Replay): Promise<SubmittedScore | null> {
+  const { data, error } = await supabase.functions.invoke('submit-score', {
+    body: { replay },
+  });
+
+  if (error || !data?.entryId) {
+    console.error('Score submission rejected:', error ?? data?.error);
+    return null;
+  }
+  return data as SubmittedScore;
+}
+
+// Notes the run's start on the server (SSC). submit-score times the run's
+// level clears against it. Returns null if it couldn't be noted.
+export async function startServerRun(mode: GameMode): Promise<string | null> {
+  const { data, error } = await supabase.rpc('start_run', { p_game_mode: mode });
+  if (error) {
+    console.error('Error starting run:', error);
+    return null;
+  }
+  return data;
+}
@@ -0,0 +1,156 @@
+import { Card, GameMode, GameState, HandResult, POKER_HANDS, PokerHand } from '@/types/game';
+import {
+  evaluateHand,
+  compareHands,
+  getEffectiveCards,
+  getBetterHandMultiplier,
+  calculateTimeBonus,
+  calculateLeftoverPenalty,
+  WildCardRules,
+  NO_WILDS,
+} from '@/lib/pokerEngine';
+
+// ============================================================================
+// SCORING RULESETS
+// ============================================================================
+// Everything that decides what a hand is worth in a mode: the hand table
+// (base points + ranking), the value bonus, in-run multipliers and the
+// end-of-game adjustments. Reducers ask the mode's ruleset instead of
+// branching on mode, so adding or rebalancing a mode only touches this file.
+
+export interface HandScore {
+  result: HandResult;       // Hand as shown to the player (totalPoints after multipliers)
+  points: number;           // Added to score / levelScore / cumulativeScore
+  rawPoints: number;        // Added to rawScore - the input to finalizeScore
+  multiplier: number;       // Better-Hand multiplier applied (1 if none)
+  betterHandStreak: number;
+}
+
+export interface FinalScore {
+  score: number;
+  timeBonus: number;
+  leftoverPenalty: number;
+}
+
+export interface ScoringRuleset {
+  id: 'ssc' | 'classic' | 'blitz';
+  hands: PokerHand[];                    // Categories in POKER_HANDS order; rank sets the ranking
+  valueBonus: (cards: Card[]) => number;
+  scoreHand: (result: HandResult, state: GameState) => HandScore;
+  scoreBonusHand: (result: HandResult, timeRemaining: number) => { points: number; timeBonusPoints: number };
+  recyclesCards: boolean;                // Played cards go back into the deck
+  handLimit: number | null;              // Run ends once this many hands are played
+  finalizeScore: (state: GameState) => FinalScore;
+}
+
+const FINAL_STRETCH_SECONDS = 10;
+const FINAL_STRETCH_MULTIPLIER = 2;
+const BONUS_TIME_POINTS_PER_SECOND = 10;
+
+const sumCardValues = (cards: Card[]) => cards.reduce((sum, c) => sum + c.value, 0);
+
+// Last 10 seconds of a timed level
+function isFinalStretch(state: GameState): boolean {
+  return state.timeRemaining <= FINAL_STRETCH_SECONDS && state.timeRemaining > 0;
+}
+
+function scoreBonusHand(result: HandResult, timeRemaining: number) {
+  const timeBonusPoints = timeRemaining * BONUS_TIME_POINTS_PER_SECOND;
+  return { points: result.totalPoints + timeBonusPoints, timeBonusPoints };
+}
+
+function plainScore(result: HandResult, points: number, rawPoints: number): HandScore {
+  return {
+    result: { ...result, totalPoints: points },
+    points,
+    rawPoints,
+    multiplier: 1,
+    betterHandStreak: 0,
+  };
+}
+
+// SSC / Daily: Better-Hand streak, then the final stretch doubles what's left
+export const SSC_RULESET: ScoringRuleset = {
+  id: 'ssc',
+  hands: POKER_HANDS,
+  valueBonus: sumCardValues,
+  scoreHand: (result, state) => {
+    let betterHandStreak = 0;
+    let multiplier = 1;
+    if (!state.isBonusLevel && state.previousHand !== null && compareHands(result, state.previousHand) > 0) {
+      betterHandStreak = state.betterHandStreak + 1;
+      multiplier = getBetterHandMultiplier(betterHandStreak);
+    }
+
+    let points = Math.floor(result.totalPoints * multiplier);
+    if (isFinalStretch(state)) {
+      points = Math.floor(points * FINAL_STRETCH_MULTIPLIER);
+    }
+
+    return {
+      result: { ...result, totalPoints: points },
+      points,
+      rawPoints: points,
+      multiplier,
+      betterHandStreak,
+    };
+  },
+  scoreBonusHand,
+  recyclesCards: true,
+  handLimit: null,
+  finalizeScore: (state) => ({ score: state.score, timeBonus: 0, leftoverPenalty: 0 }),
+};
+
+// Classic: 10 hands from one deck, then time bonus minus leftover penalty
+export const CLASSIC_RULESET: ScoringRuleset = {
+  id: 'classic',
+  hands: POKER_HANDS,
+  valueBonus: sumCardValues,
+  scoreHand: (result) => plainScore(result, result.totalPoints, result.totalPoints),
+  scoreBonusHand,
+  recyclesCards: false,
+  handLimit: 10,
+  finalizeScore: (state) => {
+    const timeBonus = calculateTimeBonus(state.timeElapsed);
+    const leftoverPenalty = calculateLeftoverPenalty(state.deck);
+    return { score: state.rawScore + timeBonus - leftoverPenalty, timeBonus, leftoverPenalty };
+  },
+};
+
+// Blitz: final stretch doubles the live score, but the final score is
+// base points (rawScore) × hands played
+export const BLITZ_RULESET: ScoringRuleset = {
+  id: 'blitz',
+  hands: POKER_HANDS,
+  valueBonus: sumCardValues,
+  scoreHand: (result, state) => {
+    const points = isFinalStretch(state)
+      ? Math.floor(result.totalPoints * FINAL_STRETCH_MULTIPLIER)
+      : result.totalPoints;
+    return plainScore(result, points, result.totalPoints);
+  },
+  scoreBonusHand,
+  recyclesCards: true,
+  handLimit: null,
+  finalizeScore: (state) => ({ score: state.rawScore * state.handsPlayed, timeBonus: 0, leftoverPenalty: 0 }),
+};
+
+const RULESETS_BY_MODE: Record<GameMode, ScoringRuleset> = {
+  classic_fc: CLASSIC_RULESET,
+  classic_cb: CLASSIC_RULESET,
+  blitz_fc: BLITZ_RULESET,
+  blitz_cb: BLITZ_RULESET,
+  ssc: SSC_RULESET,
+  daily: SSC_RULESET,
+};
+
+export function getScoringRuleset(mode: GameMode): ScoringRuleset {
+  return RULESETS_BY_MODE[mode];
+}
+
+// Evaluate a hand with a ruleset's hand table and value bonus
+export function evaluateRulesetHand(ruleset: ScoringRuleset, cards: Card[], wildRules: WildCardRules = NO_WILDS): HandResult {
+  const result = evaluateHand(cards, wildRules, ruleset.hands);
+  const valueBonus = ruleset.valueBonus(getEffectiveCards(result));
+  return { ...result, valueBonus, totalPoints: result.hand.basePoints + valueBonus };
+}
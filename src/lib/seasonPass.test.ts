@@ -0,0 +1,41 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  canClaimSeasonTier,
+  getGameXp,
+  getReachedTier,
+  getSeasonTierKey,
+  MAX_GAME_XP,
+  SeasonTier,
+} from '@/lib/seasonPass';
+
+const tiers: SeasonTier[] = [
+  { tier: 1, track: 'free', xpRequired: 500, rewardType: 'power_up', rewardValue: 'add_time' },
+  { tier: 1, track: 'premium', xpRequired: 500, rewardType: 'double_xp', rewardValue: '1' },
+  { tier: 2, track: 'free', xpRequired: 1000, rewardType: 'streak_shield', rewardValue: '1' },
+];
+
+test('game XP grows with score and hands and is capped', () => {
+  assert.equal(getGameXp({ score: 2500, totalHands: 10 }), 25 + 50);
+  assert.equal(getGameXp({ score: 0, totalHands: 0 }), 0);
+  assert.equal(getGameXp({ score: 1_000_000, totalHands: 400 }), MAX_GAME_XP);
+});
+
+test('the reached tier is the highest one the XP covers', () => {
+  assert.equal(getReachedTier(0, tiers), 0);
+  assert.equal(getReachedTier(999, tiers), 1);
+  assert.equal(getReachedTier(5000, tiers), 2);
+});
+
+test('premium tiers need premium, and each tier can be claimed once', () => {
+  const [free1, premium1, free2] = tiers;
+  const claimed = new Set<string>();
+
+  assert.ok(canClaimSeasonTier(free1, 600, false, claimed));
+  assert.ok(!canClaimSeasonTier(premium1, 600, false, claimed));
+  assert.ok(canClaimSeasonTier(premium1, 600, true, claimed));
+  assert.ok(!canClaimSeasonTier(free2, 600, true, claimed));
+
+  claimed.add(getSeasonTierKey(1, 'free'));
+  assert.ok(!canClaimSeasonTier(free1, 600, false, claimed));
+});
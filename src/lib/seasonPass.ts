@@ -0,0 +1,59 @@
+import { VerifiedRun } from '@/lib/replayVerifier';
+
+// ============================================================================
+// SEASON PASS
+// ============================================================================
+// Seasons (the seasons table) run between fixed dates. Every submitted game
+// earns XP for the season running now, and so does every completed challenge;
+// XP unlocks the tiers in season_tiers on a free track and a premium track.
+// submit-score grants the game XP from the verified run, the challenge XP is
+// granted by a database trigger, and claim_season_reward pays out tiers.
+
+export type SeasonTrack = 'free' | 'premium';
+
+// Game XP: 1 per 100 points plus 5 per hand, capped so one marathon run
+// can't clear the pass
+const XP_PER_POINTS = 100;
+const XP_PER_HAND = 5;
+export const MAX_GAME_XP = 500;
+
+// Granted by the complete_challenge trigger when a challenge is completed
+export const CHALLENGE_XP: Record<string, number> = {
+  daily: 100,
+  weekly: 300,
+  chain: 200,
+};
+
+export interface SeasonTier {
+  tier: number;
+  track: SeasonTrack;
+  xpRequired: number;
+  rewardType: string;  // card_back | theme | power_up | streak_shield | double_xp
+  rewardValue: string;
+}
+
+export function getGameXp(run: Pick<VerifiedRun, 'score' | 'totalHands'>): number {
+  const xp = Math.floor(run.score / XP_PER_POINTS) + run.totalHands * XP_PER_HAND;
+  return Math.min(Math.max(xp, 0), MAX_GAME_XP);
+}
+
+// Highest tier the XP has reached (0 before the first)
+export function getReachedTier(xp: number, tiers: SeasonTier[]): number {
+  return tiers.reduce((reached, t) => (xp >= t.xpRequired ? Math.max(reached, t.tier) : reached), 0);
+}
+
+export function getSeasonTierKey(tier: number, track: SeasonTrack): string {
+  return `${track}:${tier}`;
+}
+
+// Mirrors the checks in claim_season_reward
+export function canClaimSeasonTier(
+  tier: SeasonTier,
+  xp: number,
+  isPremium: boolean,
+  claimed: Set<string>,
+): boolean {
+  if (claimed.has(getSeasonTierKey(tier.tier, tier.track))) return false;
+  if (tier.track === 'premium' && !isPremium) return false;
+  return xp >= tier.xpRequired;
+}
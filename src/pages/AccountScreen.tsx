@@ -1,24 +1,28 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { ArrowLeft, User, Trophy, Target, Flame, LogOut, Edit2, Check, X } from 'lucide-react';
+import { ArrowLeft, User, Users, UserPlus, UserMinus, Trophy, Target, Flame, LogOut, Edit2, Check, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { useAuth } from '@/hooks/useAuth';
 import { useRetention } from '@/hooks/useRetention';
+import { useFriends, Friend } from '@/hooks/useFriends';
 import { useToast } from '@/hooks/use-toast';
 
 export default function AccountScreen() {
   const navigate = useNavigate();
   const { user, profile, loading, signOut, updateUsername } = useAuth();
   const { stats, streak, achievements, userAchievements } = useRetention();
+  const { friends, incoming, outgoing, sendRequest, respondToRequest, removeFriend } = useFriends();
   const { toast } = useToast();
   
   const [isEditingUsername, setIsEditingUsername] = useState(false);
   const [newUsername, setNewUsername] = useState(profile?.username || '');
   const [saving, setSaving] = useState(false);
+  const [friendUsername, setFriendUsername] = useState('');
+  const [sendingRequest, setSendingRequest] = useState(false);
 
   // Redirect if not logged in (only after loading is complete)
   useEffect(() => {
@@ -64,6 +68,35 @@ export default function AccountScreen() {
     }
   };
 
+  const handleAddFriend = async () => {
+    const username = friendUsername.trim();
+    if (!username) return;
+
+    setSendingRequest(true);
+    const { status, error } = await sendRequest(username);
+    setSendingRequest(false);
+
+    if (error) {
+      toast({ title: 'Could not add friend', description: error, variant: 'destructive' });
+    } else {
+      toast({ title: status === 'accepted' ? `You and ${username} are now friends!` : `Friend request sent to ${username}` });
+      setFriendUsername('');
+    }
+  };
+
+  const renderFriendRow = (friend: Friend, actions: React.ReactNode) => (
+    <div key={friend.friendshipId} className="flex items-center gap-3">
+      <Avatar className="w-8 h-8">
+        <AvatarImage src={friend.avatarUrl || undefined} />
+        <AvatarFallback className="bg-primary/20 text-primary text-sm">
+          {friend.username?.[0]?.toUpperCase() || '?'}
+        </AvatarFallback>
+      </Avatar>
+      <span className="flex-1 min-w-0 truncate font-medium">{friend.username || 'Anonymous'}</span>
+      {actions}
+    </div>
+  );
+
   const unlockedCount = userAchievements?.length || 0;
   const totalCount = achievements?.length || 0;
 
@@ -231,6 +264,81 @@ export default function AccountScreen() {
           </Card>
         </motion.div>
 
+        {/* Friends Card */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.25 }}
+        >
+          <Card className="mb-6 bg-card/80 backdrop-blur-sm border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Users className="w-5 h-5" />
+                Friends
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Input
+                  value={friendUsername}
+                  onChange={(e) => setFriendUsername(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleAddFriend()}
+                  placeholder="Add a friend by username"
+                  maxLength={20}
+                />
+                <Button onClick={handleAddFriend} disabled={sendingRequest || !friendUsername.trim()}>
+                  <UserPlus className="w-4 h-4 mr-2" />
+                  Add
+                </Button>
+              </div>
+
+              {incoming.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-muted-foreground">Friend Requests</h4>
+                  {incoming.map(friend => renderFriendRow(friend, (
+                    <>
+                      <Button size="icon" variant="ghost" onClick={() => respondToRequest(friend.friendshipId, true)}>
+                        <Check className="w-4 h-4 text-green-500" />
+                      </Button>
+                      <Button size="icon" variant="ghost" onClick={() => respondToRequest(friend.friendshipId, false)}>
+                        <X className="w-4 h-4 text-red-500" />
+                      </Button>
+                    </>
+                  )))}
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-muted-foreground">
+                  Friends ({friends.length})
+                </h4>
+                {friends.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    No friends yet. Add some to compare scores on the Friends leaderboard.
+                  </p>
+                ) : (
+                  friends.map(friend => renderFriendRow(friend, (
+                    <Button size="icon" variant="ghost" onClick={() => removeFriend(friend.friendshipId)}>
+                      <UserMinus className="w-4 h-4 text-muted-foreground" />
+                    </Button>
+                  )))
+                )}
+              </div>
+
+              {outgoing.length > 0 && (
+                <div className="space-y-2">
+                  <h4 className="text-sm font-medium text-muted-foreground">Sent Requests</h4>
+                  {outgoing.map(friend => renderFriendRow(friend, (
+                    <Button size="sm" variant="ghost" onClick={() => removeFriend(friend.friendshipId)}>
+                      Cancel
+                    </Button>
+                  )))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </motion.div>
+
         {/* Achievements & Streak */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -2,19 +2,12 @@ import { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
-import { getSSCLevelInfo } from '@/lib/pokerEngine';
+import { getSSCLevelInfo, SSC_PHASE_LABELS } from '@/lib/pokerEngine';
 import { ArrowLeftIcon } from '@heroicons/react/24/outline';
 
 const PHASES = ['sitting_duck', 'conveyor', 'falling', 'orbit'] as const;
 type Phase = typeof PHASES[number];
 
-const PHASE_LABELS: Record<Phase, string> = {
-  sitting_duck: 'Sitting Duck',
-  conveyor: 'Conveyor',
-  falling: 'Falling',
-  orbit: 'Orbit',
-};
-
 export default function DevSSCLevelJump() {
   const navigate = useNavigate();
   const [selectedLevel, setSelectedLevel] = useState<number | null>(null);
@@ -73,7 +66,7 @@ export default function DevSSCLevelJump() {
                   onClick={() => setSelectedPhase(phase)}
                   className="border-primary"
                 >
-                  {PHASE_LABELS[phase]}
+                  {SSC_PHASE_LABELS[phase]}
                 </Button>
               ))}
             </div>
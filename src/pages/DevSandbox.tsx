@@ -3,7 +3,8 @@ import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { ArrowLeft, Play, Pause, RotateCcw, Gift, Trophy, Target, Eye, EyeOff, User, HelpCircle, Settings, Zap } from 'lucide-react';
 import { Button } from '@/components/ui/button';
-import { Card as CardType, SSCPhase, POWER_UPS, HandResult, GameMode } from '@/types/game';
+import { Card as CardType, SSCPhase, HandResult, GameMode } from '@/types/game';
+import { getPowerUp, getPowerUpsByTier } from '@/lib/powerUps';
 import { createDeck, shuffleDeck, generateSpecificHand, calculateLevelGoal, evaluateHand, createBonusFriendlyDeck } from '@/lib/pokerEngine';
 import { StaticGrid } from '@/components/game/StaticGrid';
 import { ConveyorBelt } from '@/components/game/ConveyorBelt';
@@ -22,9 +23,9 @@ const HAND_TYPES = [
   'Flush', 'Straight', 'Three of a Kind', 'Two Pair', 'One Pair',
 ];
 
-const TIER_1_POWERUPS = ['reshuffle', 'two_pair', 'three_kind', 'add_time'];
-const TIER_2_POWERUPS = ['straight', 'flush', 'full_house'];
-const TIER_3_POWERUPS = ['four_kind', 'straight_flush', 'royal_flush'];
+const TIER_1_POWERUPS = getPowerUpsByTier(1).map(p => p.id);
+const TIER_2_POWERUPS = getPowerUpsByTier(2).map(p => p.id);
+const TIER_3_POWERUPS = getPowerUpsByTier(3).map(p => p.id);
 
 const DevSandbox = () => {
   const navigate = useNavigate();
@@ -434,7 +435,7 @@ const DevSandbox = () => {
           <span className="text-muted-foreground">Inventory:</span>
           <div className="flex gap-0.5">
             {inventory.map(id => {
-              const p = POWER_UPS.find(x => x.id === id);
+              const p = getPowerUp(id);
               return p ? (
                 <button 
                   key={id} 
@@ -455,7 +456,7 @@ const DevSandbox = () => {
           <div className="flex gap-0.5">
             <span className="text-muted-foreground text-xs">T1:</span>
             {TIER_1_POWERUPS.map(id => {
-              const p = POWER_UPS.find(x => x.id === id);
+              const p = getPowerUp(id);
               return p ? (
                 <button 
                   key={id} 
@@ -472,7 +473,7 @@ const DevSandbox = () => {
           <div className="flex gap-0.5">
             <span className="text-muted-foreground text-xs">T2:</span>
             {TIER_2_POWERUPS.map(id => {
-              const p = POWER_UPS.find(x => x.id === id);
+              const p = getPowerUp(id);
               return p ? (
                 <button 
                   key={id} 
@@ -489,7 +490,7 @@ const DevSandbox = () => {
           <div className="flex gap-0.5">
             <span className="text-muted-foreground text-xs">T3:</span>
             {TIER_3_POWERUPS.map(id => {
-              const p = POWER_UPS.find(x => x.id === id);
+              const p = getPowerUp(id);
               return p ? (
                 <button 
                   key={id} 
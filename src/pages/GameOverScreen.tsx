@@ -3,14 +3,20 @@ import { useLocation, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { Button } from '@/components/ui/button';
 import { GameState, HandResult } from '@/types/game';
-import { Play, Award, Home, RotateCcw, CheckCircle } from 'lucide-react';
+import { Play, Award, Home, RotateCcw, CheckCircle, Film } from 'lucide-react';
 import { useSubscription } from '@/hooks/useSubscription';
 import { useAuth } from '@/hooks/useAuth';
 import { useRetention } from '@/hooks/useRetention';
 import { useCrazyGames } from '@/contexts/CrazyGamesContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useGuestScores } from '@/hooks/useGuestScores';
+import { useReplays, LOCAL_REPLAY_ID } from '@/hooks/useReplays';
+import { useLeaderboardPosition } from '@/hooks/useLeaderboardPosition';
 import { AuthModal } from '@/components/auth/AuthModal';
+import { isSSCMode, findStrongestHand } from '@/lib/pokerEngine';
+import { Replay, isRankedStart } from '@/lib/replay';
+import { submitScore } from '@/lib/scoreSubmission';
+import { getDailyDateKey } from '@/lib/dailySeed';
 
 // Map hand names from evaluateHand to the keys expected by updateStats
 function mapHandTypesToStats(handHistory: HandResult[]): Record<string, number> {
@@ -50,17 +56,31 @@ export default function GameOverScreen() {
   const navigate = useNavigate();
   const gameState = location.state?.gameState as GameState | undefined;
   const handHistory = location.state?.handHistory as HandResult[] | undefined;
+  // Daily Seed: only the first attempt of the UTC day is submitted to the leaderboard
+  const dailyRanked = location.state?.dailyRanked === true;
+  const replay = (location.state?.replay ?? null) as Replay | null;
   const { user, loading: authLoading } = useAuth();
   const { isPremium } = useSubscription();
   const { updateStats, updateStreak } = useRetention();
   const { showMidgameAd, isAvailable: isCrazyGamesAvailable } = useCrazyGames();
   const { saveGuestScore } = useGuestScores();
+  const { saveLocalReplay } = useReplays();
   const scoreSavedRef = useRef(false);
   const statsUpdatedRef = useRef(false);
   const adShownRef = useRef(false);
   const [showAuthModal, setShowAuthModal] = useState(false);
   const [scoreSynced, setScoreSynced] = useState(false);
   const [personalBest, setPersonalBest] = useState<number | null>(null);
+  const [doubledScore, setDoubledScore] = useState<number | null>(null);
+  const [seasonXp, setSeasonXp] = useState<number | null>(null);
+
+  // All-time rank once this run is on the board (Daily Seed: today's seed)
+  const { position } = useLeaderboardPosition({
+    window: 'all_time',
+    gameMode: gameState?.mode,
+    dailyDate: gameState?.mode === 'daily' ? getDailyDateKey() : undefined,
+    enabled: scoreSynced && !!gameState,
+  });
 
   // Show midgame ad when game over screen loads (once per session)
   useEffect(() => {
@@ -74,7 +94,7 @@ export default function GameOverScreen() {
     }
   }, [isCrazyGamesAvailable, gameState, showMidgameAd]);
 
-  // Update retention stats (challenges, achievements, streak) when game ends
+  // Update retention stats (achievements, streak) when game ends
   useEffect(() => {
     const updateRetentionStats = async () => {
       if (!gameState || !user || statsUpdatedRef.current) return;
@@ -89,9 +109,9 @@ export default function GameOverScreen() {
         const handTypes = handHistory ? mapHandTypesToStats(handHistory) : {};
         
         // Use cumulative score for SSC, regular score for other modes
-        const scoreToUse = gameState.mode === 'ssc' ? gameState.cumulativeScore : gameState.score;
+        const scoreToUse = isSSCMode(gameState.mode) ? gameState.cumulativeScore : gameState.score;
         
-        // Update stats and check achievements/challenges
+        // Update stats and check achievements (challenge progress comes from submit-score)
         await updateStats({
           score: scoreToUse,
           handsPlayed: gameState.handsPlayed,
@@ -107,6 +127,11 @@ export default function GameOverScreen() {
     updateRetentionStats();
   }, [gameState, handHistory, user, updateStats, updateStreak]);
 
+  // Keep the run watchable at /replay/local
+  useEffect(() => {
+    if (replay) saveLocalReplay(replay);
+  }, [replay, saveLocalReplay]);
+
   // Save score to leaderboard when component mounts
   useEffect(() => {
     const saveScore = async () => {
@@ -114,52 +139,37 @@ export default function GameOverScreen() {
       
       scoreSavedRef.current = true;
       
-      // If user is not logged in, save to localStorage
+      // Daily practice runs (repeat attempts) never reach the leaderboard
+      const isDaily = gameState.mode === 'daily';
+      if (isDaily && !dailyRanked) return;
+
+      // Level select and phase override runs are practice too (the server rejects them)
+      if (replay && !isRankedStart(replay)) return;
+      
+      // Strongest hand of the run - also the leaderboard's tiebreak for equal scores
+      const bestHand = findStrongestHand(handHistory ?? []) ?? gameState.currentHand;
+      
+      // If user is not logged in, save to localStorage (with the replay, so it can be verified on sync)
       if (!user) {
-        saveGuestScore(gameState);
+        saveGuestScore(gameState, bestHand, replay);
         console.log('Score saved locally (guest mode)');
         return;
       }
       
+      // The server re-runs the replay and records the score it produces
+      if (!replay) {
+        console.error('No replay recorded - score cannot be submitted');
+        return;
+      }
+      
       try {
-        // Get user's profile id
-        const { data: profile, error: profileError } = await supabase
-          .from('profiles')
-          .select('id')
-          .eq('user_id', user.id)
-          .maybeSingle();
-        
-        if (profileError) {
-          console.error('Error fetching profile:', profileError);
-          return;
-        }
-        
-        if (!profile) {
-          console.error('No profile found for user');
-          return;
-        }
-        
-        // Save score to leaderboard - use cumulativeScore for SSC mode
-        const scoreToSave = gameState.mode === 'ssc' ? gameState.cumulativeScore : gameState.score;
-        
-        const { error: insertError } = await supabase
-          .from('leaderboard_entries')
-          .insert({
-            user_id: user.id,
-            profile_id: profile.id,
-            game_mode: gameState.mode,
-            score: scoreToSave,
-            hands_played: gameState.handsPlayed,
-            ssc_level: gameState.mode === 'ssc' ? gameState.sscLevel : null,
-            time_seconds: gameState.timeElapsed,
-            best_hand: gameState.currentHand?.hand.name || null,
-          });
-        
-        if (insertError) {
-          console.error('Error saving score:', insertError);
-        } else {
+        const submitted = await submitScore(replay);
+        if (submitted) {
           console.log('Score saved to leaderboard');
           setScoreSynced(true);
+          // A 2x points game from the reward wheel was used on this run
+          if (submitted.scoreMultiplier > 1) setDoubledScore(submitted.score);
+          if (submitted.seasonXp > 0) setSeasonXp(submitted.seasonXp);
         }
       } catch (error) {
         console.error('Error saving score:', error);
@@ -167,7 +177,7 @@ export default function GameOverScreen() {
     };
     
     saveScore();
-  }, [user, gameState, saveGuestScore]);
+  }, [user, gameState, handHistory, dailyRanked, replay, saveGuestScore]);
 
   // Fetch personal best when user is authenticated
   useEffect(() => {
@@ -220,7 +230,9 @@ export default function GameOverScreen() {
 
   const isClassicMode = gameState.mode === 'classic_fc' || gameState.mode === 'classic_cb';
   const isBlitzMode = gameState.mode === 'blitz_fc' || gameState.mode === 'blitz_cb';
-  const isSSC = gameState.mode === 'ssc';
+  const isSSC = isSSCMode(gameState.mode);
+  const isDaily = gameState.mode === 'daily';
+  const isPracticeStart = replay !== null && !isRankedStart(replay);
   // Use cumulative score for SSC, regular score for other modes
   const displayScore = isSSC ? gameState.cumulativeScore : gameState.score;
   const stars = getStarRating(displayScore);
@@ -309,6 +321,17 @@ export default function GameOverScreen() {
               <p className="text-sm text-muted-foreground">Final Level Score: {gameState.levelScore.toLocaleString()}</p>
             </>
           )}
+          {/* Daily Seed: ranked vs practice */}
+          {isDaily && (
+            <p className={`text-sm ${dailyRanked ? 'text-primary' : 'text-muted-foreground'}`}>
+              {dailyRanked
+                ? `Daily Seed ${gameState.dailyDate} - ranked attempt`
+                : `Daily Seed ${gameState.dailyDate} - practice run (only your first attempt is ranked)`}
+            </p>
+          )}
+          {isPracticeStart && (
+            <p className="text-sm text-muted-foreground">Practice run - only runs from the standard start are ranked</p>
+          )}
         </div>
 
         {/* Guest Sign-In Module - Hidden for now (re-enable when not on CrazyGames)
@@ -339,7 +362,7 @@ export default function GameOverScreen() {
         */}
 
         {/* Authenticated User - Personal Best / Synced Status */}
-        {!isGuest && (
+        {!isGuest && (!isDaily || dailyRanked) && !isPracticeStart && (
           <motion.div
             initial={{ opacity: 0, y: 10 }}
             animate={{ opacity: 1, y: 0 }}
@@ -350,6 +373,21 @@ export default function GameOverScreen() {
               <CheckCircle className="w-5 h-5" />
               <span className="font-display">Score Saved to Cloud</span>
             </div>
+            {doubledScore !== null && (
+              <div className="mt-2 text-sm text-gold font-medium">
+                2x Points! Saved as {doubledScore.toLocaleString()}
+              </div>
+            )}
+            {seasonXp !== null && (
+              <div className="mt-2 text-sm text-primary font-medium">
+                +{seasonXp.toLocaleString()} Season XP
+              </div>
+            )}
+            {position && (
+              <div className="mt-2 text-sm font-medium">
+                You placed #{position.rank.toLocaleString()} — top {position.percentile}%
+              </div>
+            )}
             {personalBest !== null && (
               <div className="mt-2 text-sm text-muted-foreground">
                 {isNewPersonalBest ? (
@@ -376,7 +414,7 @@ export default function GameOverScreen() {
           */}
           
           {/* SSC Mode: Replay This Level option */}
-          {isSSC && gameState.sscLevel > 1 && (
+          {isSSC && !isDaily && gameState.sscLevel > 1 && (
             <Button 
               onClick={handleReplayLevel} 
               variant="outline"
@@ -395,7 +433,7 @@ export default function GameOverScreen() {
             className="w-full h-14 text-lg font-display border-primary bg-transparent hover:bg-primary/10 hover:text-foreground gap-2"
           >
             <Play className="w-5 h-5 text-primary" />
-            {isSSC ? 'Start From Level 1' : 'Play Again'}
+            {isDaily ? 'Practice Daily Seed' : isSSC ? 'Start From Level 1' : 'Play Again'}
           </Button>
           
           {/* Go Premium - Hidden for now (re-enable when not on CrazyGames)
@@ -418,6 +456,18 @@ export default function GameOverScreen() {
           )}
           */}
           
+          {replay && (
+            <Button 
+              onClick={() => navigate(`/replay/${LOCAL_REPLAY_ID}`)} 
+              variant="outline"
+              size="lg" 
+              className="w-full h-14 text-lg font-display border-primary bg-transparent hover:bg-primary/10 hover:text-foreground gap-2"
+            >
+              <Film className="w-5 h-5 text-primary" />
+              Watch Replay
+            </Button>
+          )}
+          
           <Button 
             onClick={() => navigate('/')} 
             variant="ghost" 
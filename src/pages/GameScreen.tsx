@@ -1,12 +1,14 @@
-import { useState, useCallback, useEffect, useRef } from 'react';
-import { useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { useParams, useNavigate, useSearchParams, useLocation } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useGameState } from '@/hooks/useGameState';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { useAudio } from '@/contexts/AudioContext';
 import { useAuth } from '@/hooks/useAuth';
 import { useCrazyGames } from '@/contexts/CrazyGamesContext';
-import { supabase } from '@/integrations/supabase/client';
+import { useDailySeed } from '@/hooks/useDailySeed';
+import { useSavedRun } from '@/hooks/useSavedRun';
+import { useReplayPlayer } from '@/hooks/useReplayPlayer';
 import { ScorePanel } from '@/components/game/ScoreDisplay';
 import { HandDisplay } from '@/components/game/HandDisplay';
 import { FallingCards } from '@/components/game/FallingCards';
@@ -14,23 +16,42 @@ import { ConveyorBelt } from '@/components/game/ConveyorBelt';
 import { StaticGrid } from '@/components/game/StaticGrid';
 import { OrbitCards } from '@/components/game/OrbitCards';
 import { PowerUpBar } from '@/components/game/PowerUpBar';
+import { CraftingPanel } from '@/components/game/CraftingPanel';
+import { CRAFT_COST, canUpgradePowerUp, getPowerUpLevel } from '@/lib/powerUps';
 import { PowerUpSelection } from '@/components/game/PowerUpSelection';
 import { BonusRound } from '@/components/game/BonusRound';
 import { LevelCompleteModal } from '@/components/game/LevelCompleteModal';
 import { LootBoxReveal } from '@/components/game/LootBoxReveal';
+import { ReplayControls } from '@/components/game/ReplayControls';
 
 import { GameMode } from '@/types/game';
-import { getSSCSpeed } from '@/lib/pokerEngine';
+import { getSSCSpeed, getSSCLevelWilds, isSSCMode } from '@/lib/pokerEngine';
+import { parseSeed } from '@/lib/random';
+import { canSaveRun, createRunSnapshot } from '@/lib/savedRun';
+import { getBoardPhase, VISIBLE_CARDS } from '@/lib/gameTransitions';
+import { Replay, isRankedStart } from '@/lib/replay';
+import { startServerRun } from '@/lib/scoreSubmission';
+import { Loadout } from '@/lib/loadout';
 import { BoltIcon, ArrowTrendingUpIcon } from '@heroicons/react/24/outline';
 
 
-export default function GameScreen() {
-  const { mode } = useParams<{ mode: GameMode }>();
+interface GameScreenProps {
+  // Play back a recorded run instead of taking input (see ReplayScreen)
+  replay?: Replay;
+  onReplayExit?: () => void;
+}
+
+export default function GameScreen({ replay, onReplayExit }: GameScreenProps = {}) {
+  const { mode: modeParam } = useParams<{ mode: GameMode }>();
+  const mode = replay ? replay.mode : modeParam;
+  const isReplay = !!replay;
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
+  const game = useGameState({ isReplay });
   const { 
     state, 
     startGame, 
+    restoreRun,
     selectCard, 
     submitBonusHand, 
     skipBonusRound, 
@@ -44,22 +65,33 @@ export default function GameScreen() {
     startBonusRound,
     markExplainerSeen,
     claimReward,
+    upgradeReward,
     swapPowerUp,
+    craftPowerUps,
     discardReward,
     getHandResults,
-  } = useGameState();
+    getTimeRemaining,
+    getTimeElapsed,
+    getReplay,
+    bindDailyRun,
+    bindRunToken,
+  } = game;
   const { playSound, startMusic, stopMusic, isMusicLoading, isMuted, setMasterVolume, masterVolume } = useAudio();
   const isMobile = useIsMobile();
-  const isSSC = state.mode === 'ssc';
+  const isSSC = isSSCMode(state.mode);
   const isBlitzCB = state.mode === 'blitz_cb';
   const isClassicCB = state.mode === 'classic_cb';
   // Blitz/CB and Classic/CB use 1.0 speed on mobile, other modes use 1.0 as well
   const baseSpeed = 1;
   const sscSpeed = isSSC ? getSSCSpeed(state.sscLevel) : 1;
+  const wildsLabel = isSSC && !state.isBonusLevel ? getSSCLevelWilds(state.sscLevel).label : null;
+  // Slow Motion power-up: moving cards at half speed
+  const timeScale = state.slowMotionSeconds > 0 ? 0.5 : 1;
   const [showUsedCards, setShowUsedCards] = useState(false);
   const [bonusIntroActive, setBonusIntroActive] = useState(false);
   const [isLoadingMusic, setIsLoadingMusic] = useState(true);
   const [introPhase, setIntroPhase] = useState<'loading' | 'ready' | 'begin' | 'playing'>('loading');
+  const replayPlayer = useReplayPlayer(replay ?? null, game, introPhase === 'playing');
   const prevHandsPlayed = useRef(state.handsPlayed);
   const gameInitializedRef = useRef(false);
   const didStartGameRef = useRef(false);
@@ -69,57 +101,33 @@ export default function GameScreen() {
   const startLevelParam = searchParams.get('startLevel');
   const startLevel = startLevelParam ? parseInt(startLevelParam, 10) : undefined;
   const phaseOverride = searchParams.get('phase') as 'sitting_duck' | 'conveyor' | 'falling' | null;
-
-  const { user } = useAuth();
+  // Optional fixed seed (?seed=123) to replay a run exactly, e.g. from a bug report.
+  // Daily runs always use the shared seed for the day.
+  const seedParam = mode === 'daily' ? null : parseSeed(searchParams.get('seed'));
+  // ?resume=true picks up the saved run instead of starting a new one
+  const isResume = searchParams.get('resume') === 'true';
+  // SSC loadout picked (and already paid for) on the splash screen. Only the
+  // first run gets it - restarts start empty-handed.
+  const location = useLocation();
+  const loadoutRef = useRef((location.state as { loadout?: Loadout } | null)?.loadout);
+
+  const { user, loading: authLoading } = useAuth();
   const { gameplayStart, gameplayStop, happytime, showMidgameAd } = useCrazyGames();
-  const lastTrackedChallengeHandRef = useRef<string | null>(null);
-
-  // Hand Detection Event Hook: update daily challenge progress immediately on each submitted hand
-  useEffect(() => {
-    if (!user) return;
-    if (!state.currentHand) return;
-
-    const handName = state.currentHand.hand.name;
-    const challengeType = handName === 'Straight'
-      ? 'make_straight'
-      : handName === 'Full House'
-        ? 'make_full_house'
-        : null;
-
-    if (!challengeType) return;
-
-    const dedupeKey = `${state.handsPlayed}-${handName}-${state.currentHand.totalPoints}`;
-    if (lastTrackedChallengeHandRef.current === dedupeKey) return;
-    lastTrackedChallengeHandRef.current = dedupeKey;
-
-    const today = new Date().toISOString().split('T')[0];
-
-    (async () => {
-      const { data: challenge, error } = await supabase
-        .from('daily_challenges')
-        .select('id, current_value, target_value, completed')
-        .eq('user_id', user.id)
-        .eq('challenge_date', today)
-        .eq('challenge_type', challengeType)
-        .maybeSingle();
-
-      if (error || !challenge || challenge.completed) return;
-
-      const currentValue = typeof challenge.current_value === 'number' ? challenge.current_value : 0;
-      const targetValue = typeof challenge.target_value === 'number' ? challenge.target_value : 1;
-      const newValue = Math.min(currentValue + 1, targetValue);
-      const completed = newValue >= targetValue;
-
-      await supabase
-        .from('daily_challenges')
-        .update({ current_value: newValue, completed })
-        .eq('id', challenge.id);
-    })();
-  }, [user, state.currentHand, state.handsPlayed]);
+  const { isReady: isDailyReady, claimAttempt: claimDailyAttempt } = useDailySeed();
+  const didClaimDailyRef = useRef(false);
+  const didStartServerRunRef = useRef(false);
+  const dailyRankedRef = useRef(false);
+  const { savedRun, saveRun, clearRun } = useSavedRun();
+  const savedRunRef = useRef(savedRun);
+  savedRunRef.current = savedRun;
+  // Resuming has to wait until we know where the run was saved (account or local)
+  const isResumeReady = !isResume || savedRun !== undefined;
+  const latestStateRef = useRef(state);
+  latestStateRef.current = state;
 
   // Start background music first, then show intro sequence
   useEffect(() => {
-    if (gameInitializedRef.current) return;
+    if (gameInitializedRef.current || !isResumeReady) return;
 
     const initGame = async () => {
       console.log('Game init effect:', { mode, isTestBonus, startLevel });
@@ -138,16 +146,26 @@ export default function GameScreen() {
 
       setIsLoadingMusic(false);
 
-      // Pre-start the game (populate deck) but keep it paused until intro completes
-      if (!didStartGameRef.current) {
+      // Pre-start the game (populate deck) but keep it paused until intro completes.
+      // Replays start the game themselves from the recorded log.
+      if (isReplay) {
+        didStartGameRef.current = true;
+      } else if (!didStartGameRef.current) {
         try {
-          if (isTestBonus) {
+          const saved = isResume ? savedRunRef.current : null;
+          if (saved) {
             didStartGameRef.current = true;
-            startGame('ssc', true);
+            restoreRun(saved);
+            // The daily attempt was claimed when this run first started
+            didClaimDailyRef.current = true;
+            dailyRankedRef.current = saved.dailyRanked;
+          } else if (isTestBonus) {
+            didStartGameRef.current = true;
+            startGame('ssc', true, 1, undefined, seedParam ?? undefined);
             setPaused(true);
           } else if (mode) {
             didStartGameRef.current = true;
-            startGame(mode as GameMode, false, startLevel ?? 1, phaseOverride || undefined);
+            startGame(mode as GameMode, false, startLevel ?? 1, phaseOverride || undefined, seedParam ?? undefined, loadoutRef.current);
             setPaused(true);
           }
         } catch (e) {
@@ -168,7 +186,7 @@ export default function GameScreen() {
     return () => {
       stopMusic();
     };
-  }, [mode, isTestBonus, startLevel, phaseOverride, startGame, setPaused, startMusic, stopMusic]);
+  }, [mode, isReplay, isTestBonus, startLevel, phaseOverride, seedParam, isResume, isResumeReady, startGame, restoreRun, setPaused, startMusic, stopMusic]);
 
 
   // Intro sequence: Ready -> Begin -> Playing
@@ -184,8 +202,8 @@ export default function GameScreen() {
       const timer = setTimeout(() => {
         setIntroPhase('playing');
         gameplayStart();
-        // Unpause now that gameplay is visible
-        setPaused(false);
+        // Unpause now that gameplay is visible (replays unpause from the log)
+        if (!isReplay) setPaused(false);
         // Ensure audio is not muted when game starts
         if (isMuted) {
           setMasterVolume(0.7);
@@ -195,37 +213,96 @@ export default function GameScreen() {
       }, 1000);
       return () => clearTimeout(timer);
     }
-  }, [introPhase, isLoadingMusic, gameplayStart, setPaused, startMusic, isMuted, setMasterVolume]);
+  }, [introPhase, isLoadingMusic, isReplay, gameplayStart, setPaused, startMusic, isMuted, setMasterVolume]);
 
   // Failsafe: if we reach the playing phase but game state didn't start, start it once.
   useEffect(() => {
-    if (introPhase !== 'playing') return;
+    if (introPhase !== 'playing' || isReplay) return;
     if (state.isPlaying) return;
 
     try {
       if (isTestBonus) {
         didStartGameRef.current = true;
-        startGame('ssc', true);
+        startGame('ssc', true, 1, undefined, seedParam ?? undefined);
       } else if (mode) {
         didStartGameRef.current = true;
-        startGame(mode as GameMode, false, startLevel ?? 1, phaseOverride || undefined);
+        startGame(mode as GameMode, false, startLevel ?? 1, phaseOverride || undefined, seedParam ?? undefined);
       }
     } catch (e) {
       didStartGameRef.current = false;
       console.error('Failed to start game (failsafe):', e);
     }
-  }, [introPhase, state.isPlaying, isTestBonus, mode, startLevel, phaseOverride, startGame]);
+  }, [introPhase, isReplay, state.isPlaying, isTestBonus, mode, startLevel, phaseOverride, seedParam, startGame]);
+
+  // Daily Seed: the first run of the UTC day is the ranked one, claimed as soon as play begins
+  useEffect(() => {
+    if (mode !== 'daily' || isReplay || introPhase !== 'playing' || !isDailyReady) return;
+    if (didClaimDailyRef.current) return;
+
+    didClaimDailyRef.current = true;
+    claimDailyAttempt().then((nonce) => {
+      dailyRankedRef.current = !!nonce;
+      if (nonce) bindDailyRun(nonce);
+    });
+  }, [mode, isReplay, introPhase, isDailyReady, claimDailyAttempt, bindDailyRun]);
+
+  // SSC: the server notes when each signed-in run starts, and submit-score only
+  // stores level clears whose timestamps fit the time since then. Resumed runs
+  // keep the note from their first start.
+  const noteServerStart = useCallback(() => {
+    const run = getReplay();
+    if (!user || !run || !isSSCMode(run.mode) || !isRankedStart(run)) return;
+    startServerRun(run.mode).then((token) => {
+      if (token) bindRunToken(token);
+    });
+  }, [user, getReplay, bindRunToken]);
+
+  useEffect(() => {
+    if (isReplay || isResume || introPhase === 'loading' || authLoading) return;
+    if (didStartServerRunRef.current) return;
+
+    didStartServerRunRef.current = true;
+    noteServerStart();
+  }, [isReplay, isResume, introPhase, authLoading, noteServerStart]);
+
+  // Save the run after every hand and level change, and when the tab is closed.
+  // The key changes only at those checkpoints, not on every card tap.
+  const saveCheckpoint = !isReplay && canSaveRun(state)
+    ? `${state.seed}-${state.sscLevel}-${state.handsPlayed}-${state.isLevelComplete}-${state.bonusRoundCount}-${state.earnedPowerUps.join(',')}`
+    : null;
+
+  const saveCurrentRun = useCallback(() => {
+    if (isReplay || !canSaveRun(latestStateRef.current)) return;
+    const clock = { timeRemaining: getTimeRemaining(), timeElapsed: getTimeElapsed() };
+    saveRun(createRunSnapshot(latestStateRef.current, clock, dailyRankedRef.current, getReplay()));
+  }, [isReplay, saveRun, getTimeRemaining, getTimeElapsed, getReplay]);
+
+  useEffect(() => {
+    if (saveCheckpoint) saveCurrentRun();
+  }, [saveCheckpoint, saveCurrentRun]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', saveCurrentRun);
+    return () => window.removeEventListener('pagehide', saveCurrentRun);
+  }, [saveCurrentRun]);
+
+  // Restarting forfeits a ranked daily attempt - the new run is practice only
+  const handleRestart = useCallback(() => {
+    dailyRankedRef.current = false;
+    startGame(mode as GameMode);
+    noteServerStart();
+  }, [mode, startGame, noteServerStart]);
 
   // Failsafe: prevent getting stuck paused after intro (would freeze timer + animations)
   useEffect(() => {
-    if (introPhase !== 'playing') return;
+    if (introPhase !== 'playing' || isReplay) return;
     if (!state.isPlaying || state.isGameOver || state.isLevelComplete) return;
     if (!state.isPaused) return;
     if (didForceUnpauseRef.current) return;
 
     didForceUnpauseRef.current = true;
     setPaused(false);
-  }, [introPhase, state.isPlaying, state.isGameOver, state.isLevelComplete, state.isPaused, setPaused]);
+  }, [introPhase, isReplay, state.isPlaying, state.isGameOver, state.isLevelComplete, state.isPaused, setPaused]);
 
   // Signal CrazyGames when gameplay stops (game over or level complete)
   useEffect(() => {
@@ -256,7 +333,7 @@ export default function GameScreen() {
   const prevTimeRef = useRef(state.timeRemaining);
   useEffect(() => {
     const isBlitz = state.mode === 'blitz_fc' || state.mode === 'blitz_cb';
-    const isSSC = state.mode === 'ssc';
+    const isSSC = isSSCMode(state.mode);
     
     // Only trigger on time change, not on initial render
     if (prevTimeRef.current !== state.timeRemaining && (isBlitz || isSSC)) {
@@ -282,7 +359,7 @@ export default function GameScreen() {
   // Play sound on game over (only for non-timed modes - timed modes play sound when time hits 0)
   useEffect(() => {
     const isBlitz = state.mode === 'blitz_fc' || state.mode === 'blitz_cb';
-    const isSSC = state.mode === 'ssc';
+    const isSSC = isSSCMode(state.mode);
     // Only play here for Classic modes - Blitz/SSC play sound when time hits 0
     if (state.isGameOver && !isBlitz && !isSSC) {
       playSound('gameOver');
@@ -294,15 +371,15 @@ export default function GameScreen() {
   useEffect(() => {
     if (state.isBonusLevel && state.isPlaying && !state.isLevelComplete && !state.isGameOver) {
       setBonusIntroActive(true);
-      setPaused(true); // Pause the timer during intro
+      if (!isReplay) setPaused(true); // Pause the timer during intro
     }
-  }, [state.isBonusLevel, state.isPlaying, state.isLevelComplete, state.isGameOver, setPaused]);
+  }, [isReplay, state.isBonusLevel, state.isPlaying, state.isLevelComplete, state.isGameOver, setPaused]);
 
   // Handle bonus intro completion
   const handleBonusIntroComplete = useCallback(() => {
     setBonusIntroActive(false);
-    setPaused(false); // Resume the timer
-  }, [setPaused]);
+    if (!isReplay) setPaused(false); // Resume the timer
+  }, [isReplay, setPaused]);
 
   const formatTime = useCallback((seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -311,7 +388,7 @@ export default function GameScreen() {
   }, []);
 
   const getProgressInfo = () => {
-    if (state.mode === 'ssc') {
+    if (isSSC) {
       return { label: 'Level', value: `${state.sscLevel}` };
     }
     if (state.mode === 'blitz_fc' || state.mode === 'blitz_cb') {
@@ -343,15 +420,23 @@ export default function GameScreen() {
   const progress = getProgressInfo();
 
   // Navigate to game over screen when game ends
+  // (replays stay on screen and show their own finished overlay)
   useEffect(() => {
-    if (state.isGameOver) {
+    if (state.isGameOver && !isReplay) {
+      if (isSSC) clearRun();
       const handHistory = getHandResults();
-      navigate('/game-over', { state: { gameState: state, handHistory } });
+      navigate('/game-over', {
+        state: { gameState: state, handHistory, dailyRanked: dailyRankedRef.current, replay: getReplay() },
+      });
     }
-  }, [state.isGameOver, state, getHandResults, navigate]);
+  }, [state.isGameOver, state, isReplay, isSSC, getHandResults, getReplay, clearRun, navigate]);
 
   const selectedIds = state.selectedCards.map(c => c.id);
 
+  // Boards deal from the cards on show only; picks from further down the deck are ignored
+  const boardPhase = getBoardPhase(state);
+  const visibleCards = useMemo(() => state.deck.slice(0, VISIBLE_CARDS[boardPhase]), [state.deck, boardPhase]);
+
   // Show loading screen while music is loading
   if (isLoadingMusic || introPhase === 'loading') {
     return (
@@ -441,7 +526,7 @@ export default function GameScreen() {
               isUrgent={inFinalStretch}
               inFinalStretch={inFinalStretch}
               onHome={() => { resetGame(); navigate('/'); }}
-              onRestart={() => { startGame(mode as GameMode); }}
+              onRestart={handleRestart}
               onPause={pauseGame}
               isPaused={state.isPaused}
               gameMode={isSSC ? 'ssc' : isBlitz ? 'blitz' : 'classic'}
@@ -471,12 +556,36 @@ export default function GameScreen() {
                 </motion.div>
               )}
             </AnimatePresence>
+            {/* Wild-card level modifier */}
+            {wildsLabel && (
+              <div className="absolute top-20 left-1/2 -translate-x-1/2 z-40 bg-primary/20 backdrop-blur-sm border border-primary/30 rounded-lg px-3 py-1">
+                <span className="font-display text-sm font-bold text-primary">★ {wildsLabel}</span>
+              </div>
+            )}
+            {/* Active power-up effects */}
+            <AnimatePresence>
+              {(state.timeFrozenSeconds > 0 || state.slowMotionSeconds > 0) && (
+                <motion.div
+                  initial={{ opacity: 0, x: 20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: 20 }}
+                  className="absolute top-20 right-4 z-40 flex items-center gap-2 bg-primary/20 backdrop-blur-sm border border-primary/30 rounded-lg px-3 py-2"
+                >
+                  {state.timeFrozenSeconds > 0 && (
+                    <span className="font-display text-sm font-bold text-primary">❄️ {state.timeFrozenSeconds}s</span>
+                  )}
+                  {state.slowMotionSeconds > 0 && (
+                    <span className="font-display text-sm font-bold text-primary">🐢 {state.slowMotionSeconds}s</span>
+                  )}
+                </motion.div>
+              )}
+            </AnimatePresence>
           </>
         )}
 
         {isFalling && (
           <FallingCards
-            deck={state.deck}
+            deck={visibleCards}
             selectedCards={state.selectedCards}
             selectedCardIds={selectedIds}
             onSelectCard={selectCard}
@@ -485,36 +594,40 @@ export default function GameScreen() {
             isRecycling={isBlitz || isSSC}
             reshuffleTrigger={state.reshuffleTrigger}
             gameMode={isSSC ? 'ssc' : isBlitz ? 'blitz' : 'classic'}
+            timeScale={timeScale}
           />
         )}
         {isConveyor && (
           <div className="flex-grow flex items-center justify-center">
             <ConveyorBelt
-              deck={state.deck}
+              deck={visibleCards}
               selectedCardIds={selectedIds}
               onSelectCard={selectCard}
               speed={baseSpeed * (isBlitz ? 1.5 : isSSC ? sscSpeed : 1)}
               isPaused={state.isPaused || state.isLevelComplete}
               isRecycling={isBlitz || isSSC}
               reshuffleTrigger={state.reshuffleTrigger}
+              timeScale={timeScale}
             />
           </div>
         )}
         {isStatic && (
           <StaticGrid
-            deck={state.deck}
+            deck={visibleCards}
             selectedCardIds={selectedIds}
             onSelectCard={selectCard}
+            highlightedCardIds={state.xRayCardIds}
           />
         )}
         {isOrbit && (
           <OrbitCards
-            deck={state.deck}
+            deck={visibleCards}
             selectedCardIds={selectedIds}
             onSelectCard={selectCard}
             level={state.sscLevel}
             isPaused={state.isPaused || state.isLevelComplete}
             reshuffleTrigger={state.reshuffleTrigger}
+            timeScale={timeScale}
           />
         )}
         {isBonusRound && (
@@ -527,7 +640,7 @@ export default function GameScreen() {
             level={state.sscLevel}
             bonusRoundNumber={state.bonusRoundCount}
             onHome={() => { resetGame(); navigate('/'); }}
-            onRestart={() => { startGame(mode as GameMode); }}
+            onRestart={handleRestart}
             onPause={pauseGame}
             isPaused={state.isPaused}
             onIntroComplete={handleBonusIntroComplete}
@@ -541,7 +654,18 @@ export default function GameScreen() {
               activePowerUps={state.activePowerUps}
               onUsePowerUp={usePowerUp}
               currentPhase={state.sscPhase}
+              powerUpLevels={state.powerUpLevels}
             />
+            {!isReplay && state.earnedPowerUps.length >= CRAFT_COST && (
+              <div className="mt-2 flex justify-center pr-2">
+                <CraftingPanel
+                  earnedPowerUps={state.earnedPowerUps}
+                  powerUpLevels={state.powerUpLevels}
+                  onCraft={craftPowerUps}
+                  onOpenChange={setPaused}
+                />
+              </div>
+            )}
           </div>
         )}
 
@@ -579,6 +703,8 @@ export default function GameScreen() {
           inventoryFull={state.inventoryFull}
           currentPowerUps={state.earnedPowerUps}
           onClaim={claimReward}
+          upgradeToLevel={state.pendingReward && canUpgradePowerUp(state, state.pendingReward) ? getPowerUpLevel(state, state.pendingReward) + 1 : null}
+          onUpgrade={upgradeReward}
           onSwap={swapPowerUp}
           onDiscard={discardReward}
         />
@@ -601,6 +727,23 @@ export default function GameScreen() {
         />
 
       </div>
+
+      {isReplay && (
+        <>
+          {/* Swallow all input - the recorded log drives the game */}
+          <div className="fixed inset-0 z-[100]" />
+          <ReplayControls
+            progress={replayPlayer.progress}
+            isPlaying={replayPlayer.isPlaying}
+            isFinished={replayPlayer.isFinished}
+            speed={replayPlayer.speed}
+            finalScore={isSSC ? state.cumulativeScore : state.score}
+            onTogglePlaying={replayPlayer.togglePlaying}
+            onSpeedChange={replayPlayer.setSpeed}
+            onExit={onReplayExit ?? (() => navigate('/'))}
+          />
+        </>
+      )}
     </div>
   );
 }
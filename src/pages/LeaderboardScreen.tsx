@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
 import { useQuery } from '@tanstack/react-query';
@@ -6,10 +6,16 @@ import { supabase } from '@/integrations/supabase/client';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { GameMode, LeaderboardEntry } from '@/types/game';
-import { Trophy, Medal, Award, ArrowLeft, User, Clock, Zap, Target } from 'lucide-react';
+import { isSSCMode } from '@/lib/pokerEngine';
+import { getDailyDateKey } from '@/lib/dailySeed';
+import { LeaderboardWindow, getWindowResetAt, formatTimeLeft } from '@/lib/leaderboardWindows';
+import { useLeaderboardPosition } from '@/hooks/useLeaderboardPosition';
+import { useAuth } from '@/hooks/useAuth';
+import { Trophy, Medal, Award, ArrowLeft, User, Clock, Zap, Target, CalendarDays, Film, Timer, Users, Globe } from 'lucide-react';
 
 const GAME_MODES: { value: GameMode | 'all'; label: string; icon: React.ReactNode }[] = [
   { value: 'all', label: 'All', icon: <Trophy className="w-4 h-4" /> },
+  { value: 'daily', label: 'Daily Seed', icon: <CalendarDays className="w-4 h-4" /> },
   { value: 'classic_fc', label: 'Classic FC', icon: <Target className="w-4 h-4" /> },
   { value: 'classic_cb', label: 'Classic CB', icon: <Target className="w-4 h-4" /> },
   { value: 'blitz_fc', label: 'Blitz FC', icon: <Zap className="w-4 h-4" /> },
@@ -17,6 +23,12 @@ const GAME_MODES: { value: GameMode | 'all'; label: string; icon: React.ReactNod
   { value: 'ssc', label: 'SSC', icon: <Medal className="w-4 h-4" /> },
 ];
 
+const WINDOWS: { value: LeaderboardWindow; label: string }[] = [
+  { value: 'daily', label: 'Today' },
+  { value: 'weekly', label: 'This Week' },
+  { value: 'all_time', label: 'All Time' },
+];
+
 function getRankIcon(rank: number) {
   if (rank === 1) return <Trophy className="w-6 h-6 text-gold" />;
   if (rank === 2) return <Medal className="w-6 h-6 text-silver" />;
@@ -38,47 +50,137 @@ function getModeName(mode: GameMode) {
     case 'blitz_fc': return 'Blitz Falling';
     case 'blitz_cb': return 'Blitz Conveyor';
     case 'ssc': return 'Sharp Shooter';
+    case 'daily': return 'Daily Seed';
   }
 }
 
 export default function LeaderboardScreen() {
   const navigate = useNavigate();
+  const { user } = useAuth();
   const [selectedMode, setSelectedMode] = useState<GameMode | 'all'>('all');
+  const [selectedWindow, setSelectedWindow] = useState<LeaderboardWindow>('daily');
+  const [friendsFilter, setFriendsFilter] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+
+  // Friends need an account; signed out, the board is everyone's
+  const friendsOnly = friendsFilter && !!user;
+
+  // Keep the reset countdowns current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
 
   const { data: entries, isLoading } = useQuery({
-    queryKey: ['leaderboard', selectedMode],
+    queryKey: ['leaderboard', selectedWindow, selectedMode, friendsOnly, getWindowResetAt(selectedWindow, now)?.getTime()],
     queryFn: async () => {
-      // Only select safe public fields - explicitly exclude user_id to prevent account correlation attacks
-      let query = supabase
-        .from('leaderboard_entries')
-        .select(`
-          id,
-          profile_id,
-          game_mode,
-          score,
-          hands_played,
-          time_seconds,
-          best_hand,
-          ssc_level,
-          created_at,
-          profiles:profile_id (
-            username,
-            avatar_url
-          )
-        `)
-        .order('score', { ascending: false })
-        .limit(50);
-
-      if (selectedMode !== 'all') {
-        query = query.eq('game_mode', selectedMode);
-      }
-
-      const { data, error } = await query;
+      // Each player's best run per mode, already ranked: equal scores go to the
+      // faster run, then whoever got there first. Rows come without user_id.
+      const { data, error } = await supabase.rpc('get_leaderboard', {
+        p_window: selectedWindow,
+        p_game_mode: selectedMode === 'all' ? undefined : selectedMode,
+        // Today's Daily Seed ranking only counts today's seed
+        p_daily_date: selectedMode === 'daily' && selectedWindow === 'daily' ? getDailyDateKey() : undefined,
+        // Just the signed-in player and their accepted friends
+        p_friends_only: friendsOnly,
+      });
+
       if (error) throw error;
-      return data as LeaderboardEntry[];
+      return (data || []).map((row): Omit<LeaderboardEntry, 'user_id'> => ({
+        id: row.id,
+        profile_id: row.profile_id,
+        game_mode: row.game_mode,
+        score: row.score,
+        hands_played: row.hands_played,
+        time_seconds: row.time_seconds ?? undefined,
+        best_hand: row.best_hand ?? undefined,
+        ssc_level: row.ssc_level ?? undefined,
+        daily_date: row.daily_date,
+        created_at: row.created_at,
+        profiles: { username: row.username, avatar_url: row.avatar_url },
+        replays: row.replay_id ? { id: row.replay_id } : null,
+      }));
     },
   });
 
+  const { position, nearby } = useLeaderboardPosition({
+    window: selectedWindow,
+    gameMode: selectedMode === 'all' ? undefined : selectedMode,
+    dailyDate: selectedMode === 'daily' && selectedWindow === 'daily' ? getDailyDateKey() : undefined,
+    friendsOnly,
+  });
+  const myEntryId = nearby.find(n => n.isMe)?.entry.id;
+  // Below the top list, show the players around the signed-in player
+  const showAroundMe = !!position && !!entries && position.rank > entries.length;
+
+  const renderEntryRow = (entry: Omit<LeaderboardEntry, 'user_id'>, rank: number) => (
+    <div className="flex items-center gap-4 p-4">
+      {/* Rank */}
+      <div className="flex-shrink-0">
+        {getRankIcon(rank)}
+      </div>
+
+      {/* Avatar & Username */}
+      <div className="flex items-center gap-3 flex-1 min-w-0">
+        <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center overflow-hidden">
+          {entry.profiles?.avatar_url ? (
+            <img
+              src={entry.profiles.avatar_url}
+              alt=""
+              className="w-full h-full object-cover"
+            />
+          ) : (
+            <User className="w-5 h-5 text-muted-foreground" />
+          )}
+        </div>
+        <div className="min-w-0">
+          <p className="font-semibold truncate">
+            {entry.profiles?.username || 'Anonymous'}
+          </p>
+          {selectedMode === 'all' && (
+            <p className="text-xs text-muted-foreground">
+              {getModeName(entry.game_mode)}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="text-right flex-shrink-0">
+        <p className="text-xl font-display text-primary">
+          {entry.score.toLocaleString()}
+        </p>
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          {isSSCMode(entry.game_mode) && entry.ssc_level && (
+            <span>Lv.{entry.ssc_level}</span>
+          )}
+          {entry.time_seconds && (
+            <span className="flex items-center gap-1">
+              <Clock className="w-3 h-3" />
+              {formatTime(entry.time_seconds)}
+            </span>
+          )}
+          {/* Hide hands count for Classic modes - only show for Blitz and SSC */}
+          {entry.game_mode !== 'classic_fc' && entry.game_mode !== 'classic_cb' && (
+            <span>{entry.hands_played} hands</span>
+          )}
+        </div>
+      </div>
+
+      {/* Watch the run */}
+      {entry.replays?.id && (
+        <Button
+          variant="ghost"
+          size="icon"
+          className="flex-shrink-0"
+          onClick={() => navigate(`/replay/${entry.replays?.id}`)}
+        >
+          <Film className="w-5 h-5 text-primary" />
+        </Button>
+      )}
+    </div>
+  );
+
   return (
     <div className="min-h-screen modern-bg flex flex-col">
       {/* Header */}
@@ -91,6 +193,61 @@ export default function LeaderboardScreen() {
             <Trophy className="w-6 h-6 text-primary" />
             <h1 className="text-2xl font-display text-primary">Leaderboard</h1>
           </div>
+          <Button variant="outline" size="sm" className="ml-auto gap-1.5" onClick={() => navigate('/levels')}>
+            <Timer className="w-4 h-4" />
+            Level Records
+          </Button>
+        </div>
+
+        {/* Everyone / Friends - friends need an account */}
+        {user && (
+          <div className="px-4 pb-3">
+            <div className="grid grid-cols-2 gap-2">
+              <Button
+                variant={friendsOnly ? 'outline' : 'default'}
+                size="sm"
+                onClick={() => setFriendsFilter(false)}
+                className="gap-1.5"
+              >
+                <Globe className="w-4 h-4" />
+                Everyone
+              </Button>
+              <Button
+                variant={friendsOnly ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setFriendsFilter(true)}
+                className="gap-1.5"
+              >
+                <Users className="w-4 h-4" />
+                Friends
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {/* Window Tabs */}
+        <div className="px-4 pb-3">
+          <div className="grid grid-cols-3 gap-2">
+            {WINDOWS.map((timeWindow) => {
+              const resetAt = getWindowResetAt(timeWindow.value, now);
+              return (
+                <Button
+                  key={timeWindow.value}
+                  variant={selectedWindow === timeWindow.value ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => setSelectedWindow(timeWindow.value)}
+                  className="h-auto py-1.5 flex-col gap-0"
+                >
+                  <span>{timeWindow.label}</span>
+                  {resetAt && (
+                    <span className="text-[10px] font-normal opacity-80">
+                      Resets in {formatTimeLeft(resetAt.getTime() - now.getTime())}
+                    </span>
+                  )}
+                </Button>
+              );
+            })}
+          </div>
         </div>
 
         {/* Mode Tabs */}
@@ -137,64 +294,27 @@ export default function LeaderboardScreen() {
                     ${index === 1 ? 'bg-gradient-to-r from-silver/15 to-silver/5 border-silver/50' : ''}
                     ${index === 2 ? 'bg-gradient-to-r from-bronze/15 to-bronze/5 border-bronze/50' : ''}
                     ${index > 2 ? 'bg-card/50 border-border' : ''}
+                    ${entry.id === myEntryId ? 'ring-2 ring-primary' : ''}
                   `}
                 >
-                  <div className="flex items-center gap-4 p-4">
-                    {/* Rank */}
-                    <div className="flex-shrink-0">
-                      {getRankIcon(index + 1)}
-                    </div>
-
-                    {/* Avatar & Username */}
-                    <div className="flex items-center gap-3 flex-1 min-w-0">
-                      <div className="w-10 h-10 rounded-full bg-muted flex items-center justify-center overflow-hidden">
-                        {entry.profiles?.avatar_url ? (
-                          <img
-                            src={entry.profiles.avatar_url}
-                            alt=""
-                            className="w-full h-full object-cover"
-                          />
-                        ) : (
-                          <User className="w-5 h-5 text-muted-foreground" />
-                        )}
-                      </div>
-                      <div className="min-w-0">
-                        <p className="font-semibold truncate">
-                          {entry.profiles?.username || 'Anonymous'}
-                        </p>
-                        {selectedMode === 'all' && (
-                          <p className="text-xs text-muted-foreground">
-                            {getModeName(entry.game_mode)}
-                          </p>
-                        )}
-                      </div>
-                    </div>
-
-                    {/* Stats */}
-                    <div className="text-right flex-shrink-0">
-                      <p className="text-xl font-display text-primary">
-                        {entry.score.toLocaleString()}
-                      </p>
-                      <div className="flex items-center gap-2 text-xs text-muted-foreground">
-                        {entry.game_mode === 'ssc' && entry.ssc_level && (
-                          <span>Lv.{entry.ssc_level}</span>
-                        )}
-                        {entry.time_seconds && (
-                          <span className="flex items-center gap-1">
-                            <Clock className="w-3 h-3" />
-                            {formatTime(entry.time_seconds)}
-                          </span>
-                        )}
-                        {/* Hide hands count for Classic modes - only show for Blitz and SSC */}
-                        {entry.game_mode !== 'classic_fc' && entry.game_mode !== 'classic_cb' && (
-                          <span>{entry.hands_played} hands</span>
-                        )}
-                      </div>
-                    </div>
-                  </div>
+                  {renderEntryRow(entry, index + 1)}
                 </motion.div>
               ))}
             </AnimatePresence>
+
+            {showAroundMe && (
+              <>
+                <p className="pt-3 text-sm font-medium text-muted-foreground">Around you</p>
+                {nearby.map(({ rank, isMe, entry }) => (
+                  <div
+                    key={entry.id}
+                    className={`rounded-xl border ${isMe ? 'bg-primary/10 border-primary ring-2 ring-primary' : 'bg-card/50 border-border'}`}
+                  >
+                    {renderEntryRow(entry, rank)}
+                  </div>
+                ))}
+              </>
+            )}
           </div>
         ) : (
           <motion.div
@@ -205,14 +325,32 @@ export default function LeaderboardScreen() {
             <Trophy className="w-16 h-16 text-muted-foreground/30 mb-4" />
             <p className="text-lg text-muted-foreground">No scores yet!</p>
             <p className="text-sm text-muted-foreground/60 mb-4">
-              Be the first to set a record
+              {friendsOnly ? 'Neither you nor your friends have a run here yet' : 'Be the first to set a record'}
             </p>
-            <Button onClick={() => navigate('/')}>
-              Play Now
-            </Button>
+            <div className="flex gap-2">
+              <Button onClick={() => navigate('/')}>
+                Play Now
+              </Button>
+              {friendsOnly && (
+                <Button variant="outline" onClick={() => navigate('/account')}>
+                  Add Friends
+                </Button>
+              )}
+            </div>
           </motion.div>
         )}
       </div>
+
+      {/* Pinned: the signed-in player's own position */}
+      {position && (
+        <div className="sticky bottom-0 z-10 bg-background/90 backdrop-blur-sm border-t border-border px-4 py-3 flex items-center justify-between">
+          <span className="font-semibold">
+            You're #{position.rank.toLocaleString()}
+            <span className="text-muted-foreground font-normal"> of {position.totalRanked.toLocaleString()}</span>
+          </span>
+          <span className="text-sm text-primary font-medium">Top {position.percentile}%</span>
+        </div>
+      )}
     </div>
   );
 }
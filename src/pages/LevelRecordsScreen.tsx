@@ -0,0 +1,182 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { useQuery } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { useAuth } from '@/hooks/useAuth';
+import { getSSCLevelInfo, calculateLevelGoal, SSC_PHASE_LABELS } from '@/lib/pokerEngine';
+import { ArrowLeft, Timer, Star, User, Film, Lock } from 'lucide-react';
+
+const PHASE_COLORS = {
+  sitting_duck: 'border-green-500/50 hover:bg-green-500/20',
+  conveyor: 'border-yellow-500/50 hover:bg-yellow-500/20',
+  falling: 'border-blue-500/50 hover:bg-blue-500/20',
+  orbit: 'border-purple-500/50 hover:bg-purple-500/20',
+};
+
+// Always show a few cycles, and a row past the furthest level anyone has cleared
+const MIN_LEVELS = 24;
+
+// SSC level select with world records: the fastest clear of each level, and
+// per-level fastest-clear leaderboards from ssc_level_clears
+export default function LevelRecordsScreen() {
+  const navigate = useNavigate();
+  const { profile } = useAuth();
+  const [selectedLevel, setSelectedLevel] = useState(1);
+  const highestLevel = Math.max(profile?.highest_ssc_level ?? 1, 1);
+
+  const { data: records } = useQuery({
+    queryKey: ['level-records'],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_level_records');
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const { data: clears, isLoading } = useQuery({
+    queryKey: ['level-leaderboard', selectedLevel],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc('get_level_leaderboard', { p_level: selectedLevel });
+      if (error) throw error;
+      return data;
+    },
+  });
+
+  const furthestLevel = Math.max(MIN_LEVELS, highestLevel, ...(records ?? []).map(r => r.level + 1));
+  const levels = Array.from({ length: Math.ceil(furthestLevel / 6) * 6 }, (_, i) => i + 1);
+  const recordByLevel = new Map((records ?? []).map(r => [r.level, r]));
+  const selectedInfo = getSSCLevelInfo(selectedLevel);
+  const selectedRecord = recordByLevel.get(selectedLevel);
+  const canStart = selectedLevel <= highestLevel;
+
+  return (
+    <div className="fixed inset-0 modern-bg flex flex-col">
+      <div className="flex-1 overflow-y-auto">
+        <div className="max-w-4xl mx-auto p-4 pb-8">
+          {/* Header */}
+          <div className="flex items-center gap-4 mb-6">
+            <Button variant="ghost" size="icon" onClick={() => navigate(-1)}>
+              <ArrowLeft className="w-5 h-5" />
+            </Button>
+            <div className="flex items-center gap-2">
+              <Timer className="w-6 h-6 text-primary" />
+              <h1 className="text-2xl font-display text-primary">Level Records</h1>
+            </div>
+          </div>
+
+          {/* Level grid - world record under each level */}
+          <div className="grid grid-cols-3 sm:grid-cols-6 gap-2 mb-6">
+            {levels.map((level) => {
+              const record = recordByLevel.get(level);
+              return (
+                <motion.button
+                  key={level}
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  onClick={() => setSelectedLevel(level)}
+                  className={`
+                    rounded-lg border-2 p-2 text-left transition-colors
+                    ${selectedLevel === level
+                      ? 'bg-primary text-primary-foreground border-primary'
+                      : `bg-transparent text-foreground ${PHASE_COLORS[getSSCLevelInfo(level).phase]}`
+                    }
+                  `}
+                >
+                  <div className="flex items-center justify-between">
+                    <span className="text-lg font-bold">{level}</span>
+                    {level > highestLevel && <Lock className="w-3.5 h-3.5 opacity-60" />}
+                  </div>
+                  <div className="text-xs opacity-80">
+                    {record ? `WR ${record.time_seconds}s` : 'No record'}
+                  </div>
+                  {record?.my_time_seconds != null && (
+                    <div className="text-xs opacity-80">You {record.my_time_seconds}s</div>
+                  )}
+                </motion.button>
+              );
+            })}
+          </div>
+
+          {/* Selected level */}
+          <div className="bg-card border border-border rounded-xl p-4">
+            <div className="flex items-center justify-between mb-1">
+              <h2 className="font-display text-xl">
+                Level {selectedLevel} · {SSC_PHASE_LABELS[selectedInfo.phase]}
+              </h2>
+              <span className="text-sm text-muted-foreground">
+                Goal {calculateLevelGoal(selectedLevel).toLocaleString()}
+              </span>
+            </div>
+            <p className="text-sm text-muted-foreground mb-4">
+              {selectedRecord
+                ? `World record: ${selectedRecord.time_seconds}s by ${selectedRecord.username || 'Anonymous'}`
+                : 'Nobody has cleared this level yet.'}
+            </p>
+
+            <h3 className="font-semibold mb-2">Fastest Clears</h3>
+            {isLoading ? (
+              <div className="space-y-2">
+                {[...Array(5)].map((_, i) => (
+                  <div key={i} className="h-12 w-full rounded-lg bg-muted/50 animate-pulse" />
+                ))}
+              </div>
+            ) : clears && clears.length > 0 ? (
+              <div className="space-y-2">
+                {clears.map((clear) => (
+                  <div
+                    key={clear.rank}
+                    className={`flex items-center gap-3 p-2 rounded-lg border ${
+                      clear.is_me ? 'bg-primary/10 border-primary' : 'bg-secondary/30 border-border'
+                    }`}
+                  >
+                    <span className="w-8 text-center font-mono text-muted-foreground">#{clear.rank}</span>
+                    <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center overflow-hidden">
+                      {clear.avatar_url ? (
+                        <img src={clear.avatar_url} alt="" className="w-full h-full object-cover" />
+                      ) : (
+                        <User className="w-4 h-4 text-muted-foreground" />
+                      )}
+                    </div>
+                    <span className="flex-1 min-w-0 font-medium truncate">{clear.username || 'Anonymous'}</span>
+                    <span className="flex items-center gap-0.5 text-gold">
+                      {[...Array(clear.star_rating)].map((_, i) => (
+                        <Star key={i} className="w-3 h-3 fill-current" />
+                      ))}
+                    </span>
+                    <div className="text-right">
+                      <p className="font-display text-primary">{clear.time_seconds}s</p>
+                      <p className="text-xs text-muted-foreground">{clear.level_score.toLocaleString()} pts</p>
+                    </div>
+                    {clear.replay_id && (
+                      <Button variant="ghost" size="icon" onClick={() => navigate(`/replay/${clear.replay_id}`)}>
+                        <Film className="w-4 h-4 text-primary" />
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Be the first to clear it!</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Sticky Start Button - levels up to the player's highest */}
+      <div className="shrink-0 p-4 bg-background/80 backdrop-blur-sm border-t border-border">
+        <div className="max-w-4xl mx-auto">
+          <Button
+            size="lg"
+            disabled={!canStart}
+            onClick={() => navigate(`/play/ssc?startLevel=${selectedLevel}`)}
+            className="w-full h-14 text-lg font-display"
+          >
+            {canStart ? `Start Level ${selectedLevel}` : `Reach Level ${selectedLevel} to play it`}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import { useState, useEffect } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Button } from '@/components/ui/button';
+import { useReplays, LOCAL_REPLAY_ID } from '@/hooks/useReplays';
+import { Replay } from '@/lib/replay';
+import GameScreen from './GameScreen';
+
+// /replay/:id - plays a recorded run back through the real GameScreen.
+// "local" is the player's last run on this device; anything else is a
+// replay attached to a leaderboard entry.
+export default function ReplayScreen() {
+  const { id = LOCAL_REPLAY_ID } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const { loadReplay } = useReplays();
+  // undefined while loading, null when the replay doesn't exist
+  const [replay, setReplay] = useState<Replay | null | undefined>(undefined);
+
+  useEffect(() => {
+    setReplay(undefined);
+    loadReplay(id).then(setReplay);
+  }, [id, loadReplay]);
+
+  const handleExit = () => navigate(id === LOCAL_REPLAY_ID ? '/' : '/leaderboard');
+
+  if (replay === undefined) {
+    return (
+      <div className="h-screen flex items-center justify-center modern-bg">
+        <motion.div
+          animate={{ rotate: 360 }}
+          transition={{ duration: 1.5, repeat: Infinity, ease: "linear" }}
+          className="w-16 h-16 border-4 border-primary/30 border-t-primary rounded-full"
+        />
+      </div>
+    );
+  }
+
+  if (!replay) {
+    return (
+      <div className="h-screen flex flex-col items-center justify-center gap-4 modern-bg text-center p-6">
+        <h1 className="text-3xl font-display text-primary">Replay not found</h1>
+        <p className="text-muted-foreground">This replay doesn't exist or was recorded by an older version of the game.</p>
+        <Button onClick={handleExit}>Back</Button>
+      </div>
+    );
+  }
+
+  // Keyed so switching replays starts a fresh game
+  return <GameScreen key={id} replay={replay} onReplayExit={handleExit} />;
+}
@@ -7,6 +7,10 @@ import { useSubscription } from '@/hooks/useSubscription';
 import { useAuth } from '@/hooks/useAuth';
 import { useTheme } from '@/contexts/ThemeContext';
 import { useRetention } from '@/hooks/useRetention';
+import { useDailySeed } from '@/hooks/useDailySeed';
+import { useSavedRun } from '@/hooks/useSavedRun';
+import { useInventory } from '@/hooks/useInventory';
+import { useSeasonPass } from '@/hooks/useSeasonPass';
 import { useCrazyGames } from '@/contexts/CrazyGamesContext';
 import { useAudio } from '@/contexts/AudioContext';
 import { TutorialModal } from '@/components/tutorial/TutorialModal';
@@ -15,14 +19,17 @@ import { StreakDisplay } from '@/components/retention/StreakDisplay';
 import { DailyChallenges } from '@/components/retention/DailyChallenges';
 import { AchievementsPanel, AchievementNotification } from '@/components/retention/AchievementsPanel';
 import { DailyRewardWheel } from '@/components/retention/DailyRewardWheel';
+import { SeasonPassPanel } from '@/components/retention/SeasonPassPanel';
+import { LoadoutPicker } from '@/components/game/LoadoutPicker';
 import { StarIcon, UserIcon } from '@heroicons/react/24/solid';
-import { Target, Zap, Trophy, Gift, Settings, HelpCircle, LogIn, TestTubeDiagonal } from 'lucide-react';
+import { Target, Zap, Trophy, Gift, Settings, HelpCircle, LogIn, TestTubeDiagonal, CalendarDays, Play, Crown, Timer } from 'lucide-react';
+import { SeasonTier } from '@/lib/seasonPass';
 
 export default function SplashScreen() {
   const navigate = useNavigate();
   const { user, profile } = useAuth();
-  const { isPremium, loading } = useSubscription();
-  const { currentLogo } = useTheme();
+  const { isPremium, loading, openCheckout } = useSubscription();
+  const { currentLogo, refreshUnlocks } = useTheme();
   const { user: crazyGamesUser, loadingStop, isAvailable: isCrazyGamesAvailable, isUserLoggedIn: isCrazyGamesLoggedIn, showAuthPrompt } = useCrazyGames();
   const { unlockAudio } = useAudio();
   const [isLoggingIn, setIsLoggingIn] = useState(false);
@@ -34,11 +41,22 @@ export default function SplashScreen() {
     newAchievements,
     clearNewAchievements,
     getChallengeInfo,
+    claimChallengeReward,
     canClaimReward,
     claimDailyReward,
     todayReward,
+    streakShields,
+    doublePointsGames,
     getTimeUntilNextReward,
   } = useRetention();
+  const { hasAttemptedToday } = useDailySeed();
+  const { savedRun } = useSavedRun();
+  const { inventory, slots: loadoutSlots, startLoadout, reload: reloadInventory } = useInventory();
+  const [loadoutPicks, setLoadoutPicks] = useState<string[]>([]);
+  const [loadoutError, setLoadoutError] = useState<string | null>(null);
+  const seasonPass = useSeasonPass();
+  const hasInventory = !!user && Object.values(inventory).some(quantity => quantity > 0);
+  const hasLevelChoice = !!user && !!profile?.highest_ssc_level && profile.highest_ssc_level > 1;
 
   const [selectedMode, setSelectedMode] = useState<'classic' | 'blitz' | 'ssc' | null>(null);
   const [showTutorial, setShowTutorial] = useState(false);
@@ -46,6 +64,8 @@ export default function SplashScreen() {
   const [showAchievements, setShowAchievements] = useState(false);
   const [showRewardWheel, setShowRewardWheel] = useState(false);
   const [showChallenges, setShowChallenges] = useState(false);
+  const [showSeasonPass, setShowSeasonPass] = useState(false);
+  const dailyChallenges = challenges.filter(c => c.period === 'daily');
 
   // Use CrazyGames user if available, otherwise fall back to Supabase user
   const displayUsername = crazyGamesUser?.username || profile?.username;
@@ -101,8 +121,40 @@ export default function SplashScreen() {
   const handleSSCStart = async (startLevel: number) => {
     // Fallback audio unlock on game start
     await unlockAudio();
-    
-    navigate(`/play/ssc?startLevel=${startLevel}`);
+
+    // The loadout is paid for before the run starts
+    let loadout = null;
+    if (loadoutPicks.length > 0) {
+      loadout = await startLoadout(loadoutPicks);
+      if (!loadout) {
+        setLoadoutError("Couldn't load those power-ups. Please try again.");
+        return;
+      }
+    }
+
+    navigate(`/play/ssc?startLevel=${startLevel}`, { state: { loadout } });
+  };
+
+  // A mystery spin can land a power-up in the loadout inventory
+  const handleClaimReward = async () => {
+    const reward = await claimDailyReward();
+    if (reward?.reward_type === 'power_up') await reloadInventory();
+    return reward;
+  };
+
+  // Season rewards land in the loadout inventory or unlock a theme
+  const handleClaimSeasonTier = async (tier: SeasonTier) => {
+    const claimed = await seasonPass.claimTier(tier.tier, tier.track);
+    if (claimed && tier.rewardType === 'power_up') await reloadInventory();
+    if (claimed && tier.rewardType === 'theme') await refreshUnlocks();
+    return claimed;
+  };
+
+  const handleContinueRun = async () => {
+    if (!savedRun) return;
+    await unlockAudio();
+
+    navigate(`/play/${savedRun.state.mode}?resume=true`);
   };
 
   // Handle CrazyGames login button click
@@ -194,6 +246,23 @@ export default function SplashScreen() {
         transition={{ delay: 0.2 }}
         className="flex flex-col gap-4 w-full max-w-4xl"
       >
+        {/* Continue a saved SSC / Daily run */}
+        {savedRun && (
+          <div className="max-w-md mx-auto w-full">
+            <Button
+              size="lg"
+              className="w-full h-14 text-lg font-display gap-2"
+              onClick={handleContinueRun}
+            >
+              <Play className="w-5 h-5" />
+              Continue run
+              <span className="ml-2 text-xs bg-primary-foreground/20 px-2 py-0.5 rounded-full">
+                {savedRun.state.mode === 'daily' ? 'Daily · ' : ''}Lv.{savedRun.state.sscLevel} · {savedRun.state.cumulativeScore.toLocaleString()} pts
+              </span>
+            </Button>
+          </div>
+        )}
+
         {/* Main Game Mode Buttons Row */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           {/* Classic Mode */}
@@ -238,7 +307,7 @@ export default function SplashScreen() {
 
           {/* SSC Mode */}
           <div className="space-y-2">
-            {user && profile?.highest_ssc_level && profile.highest_ssc_level > 1 ? (
+            {hasLevelChoice || hasInventory ? (
               <>
                 <Button
                   variant="outline"
@@ -250,12 +319,29 @@ export default function SplashScreen() {
                   Sharp Shooter Challenge
                 </Button>
                 {selectedMode === 'ssc' && (
-                  <motion.div initial={{ height: 0 }} animate={{ height: 'auto' }} className="flex gap-2">
-                    <Button variant="secondary" className="flex-1" onClick={() => handleSSCStart(1)}>
-                      Start Level 1
-                    </Button>
-                    <Button variant="secondary" className="flex-1" onClick={() => handleSSCStart(profile.highest_ssc_level)}>
-                      Continue Lv.{profile.highest_ssc_level}
+                  <motion.div initial={{ height: 0 }} animate={{ height: 'auto' }} className="space-y-2">
+                    {hasInventory && (
+                      <LoadoutPicker
+                        inventory={inventory}
+                        slots={loadoutSlots}
+                        selected={loadoutPicks}
+                        onChange={(picks) => { setLoadoutPicks(picks); setLoadoutError(null); }}
+                      />
+                    )}
+                    {loadoutError && <p className="text-xs text-destructive text-center">{loadoutError}</p>}
+                    <div className="flex gap-2">
+                      <Button variant="secondary" className="flex-1" onClick={() => handleSSCStart(1)}>
+                        Start Level 1
+                      </Button>
+                      {hasLevelChoice && profile?.highest_ssc_level && (
+                        <Button variant="secondary" className="flex-1" onClick={() => handleSSCStart(profile.highest_ssc_level)}>
+                          Continue Lv.{profile.highest_ssc_level}
+                        </Button>
+                      )}
+                    </div>
+                    <Button variant="ghost" size="sm" className="w-full gap-1.5" onClick={() => navigate('/levels')}>
+                      <Timer className="w-4 h-4 text-primary" />
+                      Level Select & Records
                     </Button>
                   </motion.div>
                 )}
@@ -274,6 +360,24 @@ export default function SplashScreen() {
           </div>
         </div>
 
+        {/* Daily Seed - same deck for everyone, one ranked attempt per UTC day */}
+        <div className="max-w-md mx-auto w-full">
+          <Button
+            variant="outline"
+            size="lg"
+            className="w-full h-14 text-lg font-display border-primary bg-transparent hover:bg-primary/10 hover:text-foreground gap-2"
+            onClick={() => handleModeSelect('daily')}
+          >
+            <CalendarDays className="w-5 h-5 text-primary" />
+            Daily Seed
+            {user && hasAttemptedToday !== null && (
+              <span className="ml-2 text-xs bg-primary/20 text-primary px-2 py-0.5 rounded-full">
+                {hasAttemptedToday ? 'Practice' : 'Ranked'}
+              </span>
+            )}
+          </Button>
+        </div>
+
         {/* Settings & Tutorial Buttons - Centered below game modes */}
         <div className="flex justify-center gap-3 flex-wrap">
           <Button 
@@ -313,9 +417,9 @@ export default function SplashScreen() {
             >
               <Target className="w-5 h-5 text-primary" />
               Daily Challenges
-              {challenges.length > 0 && (
+              {dailyChallenges.length > 0 && (
                 <span className="ml-2 text-xs bg-primary/20 text-primary px-2 py-0.5 rounded-full">
-                  {challenges.filter(c => c.completed).length}/{challenges.length}
+                  {dailyChallenges.filter(c => c.completed).length}/{dailyChallenges.length}
                 </span>
               )}
             </Button>
@@ -333,6 +437,8 @@ export default function SplashScreen() {
                       <StreakDisplay 
                         currentStreak={streak.current_streak} 
                         longestStreak={streak.longest_streak} 
+                        streakShields={streakShields}
+                        doublePointsGames={doublePointsGames}
                       />
                     </div>
                     <Button
@@ -348,10 +454,24 @@ export default function SplashScreen() {
                 
                 {/* Challenges List */}
                 {challenges.length > 0 && (
-                  <DailyChallenges challenges={challenges} getChallengeInfo={getChallengeInfo} />
+                  <DailyChallenges challenges={challenges} getChallengeInfo={getChallengeInfo} onClaimReward={claimChallengeReward} />
                 )}
               </motion.div>
             )}
+            <Button
+              variant="outline"
+              size="lg"
+              className="w-full h-14 text-lg font-display border-primary bg-transparent hover:bg-primary/10 hover:text-foreground gap-2"
+              onClick={() => setShowSeasonPass(true)}
+            >
+              <Crown className="w-5 h-5 text-primary" />
+              Season Pass
+              {seasonPass.season && (
+                <span className="ml-2 text-xs bg-primary/20 text-primary px-2 py-0.5 rounded-full">
+                  Tier {seasonPass.reachedTier}
+                </span>
+              )}
+            </Button>
           </div>
         )}
       </motion.div>
@@ -370,10 +490,22 @@ export default function SplashScreen() {
         isOpen={showRewardWheel}
         onClose={() => setShowRewardWheel(false)}
         canClaim={canClaimReward}
-        onClaim={claimDailyReward}
+        onClaim={handleClaimReward}
         todayReward={todayReward}
         timeUntilNext={getTimeUntilNextReward()}
       />
+      <SeasonPassPanel
+        isOpen={showSeasonPass}
+        onClose={() => setShowSeasonPass(false)}
+        season={seasonPass.season}
+        tiers={seasonPass.tiers}
+        xp={seasonPass.xp}
+        claimed={seasonPass.claimed}
+        unlockableNames={seasonPass.unlockableNames}
+        isPremium={isPremium}
+        onClaim={handleClaimSeasonTier}
+        onUpgrade={isCrazyGamesAvailable ? undefined : openCheckout}
+      />
     </div>
   );
 }
@@ -1,11 +1,14 @@
 import { useState, useCallback, useEffect } from 'react';
-import { POWER_UPS, Card, HandResult } from '@/types/game';
+import { Card, HandResult } from '@/types/game';
 import { Button } from '@/components/ui/button';
 import { useNavigate } from 'react-router-dom';
 import { ArrowLeft, RotateCcw } from 'lucide-react';
 import { StaticGrid } from '@/components/game/StaticGrid';
 import { HandDisplay } from '@/components/game/HandDisplay';
-import { createDeck, shuffleDeck, evaluateHand, generateSpecificHand } from '@/lib/pokerEngine';
+import { createDeck, shuffleDeck, evaluateHand } from '@/lib/pokerEngine';
+import { getAllPowerUps, getPowerUp } from '@/lib/powerUps';
+import { generateSeed } from '@/lib/random';
+import { INITIAL_GAME_STATE } from '@/hooks/game/gameConstants';
 import { useAudio } from '@/contexts/AudioContext';
 
 export default function TestPowerUps() {
@@ -51,46 +54,37 @@ export default function TestPowerUps() {
   const handleUsePowerUp = useCallback((powerUpId: string) => {
     console.log('[TestPowerUps] Using power-up:', powerUpId);
     
-    const powerUp = POWER_UPS.find(p => p.id === powerUpId);
+    const powerUp = getPowerUp(powerUpId);
     if (!powerUp) {
       console.log('[TestPowerUps] Power-up not found:', powerUpId);
       return;
     }
 
-    // Handle reshuffle
-    if (powerUp.id === 'reshuffle') {
-      console.log('[TestPowerUps] Reshuffling deck');
-      setDeck(prev => shuffleDeck([...prev]));
-      playSound('cardSelect');
+    // Run the registered effect against a throwaway game state built from this board
+    const before = { ...INITIAL_GAME_STATE, deck, usedCards, timeRemaining: 60, rngState: generateSeed() };
+    const after = powerUp.apply(before);
+
+    if (after === before) {
+      console.log('[TestPowerUps] Could not apply', powerUp.id, '- not enough cards');
       return;
     }
 
-    // Handle add time (just log for test)
-    if (powerUp.id === 'add_time') {
-      console.log('[TestPowerUps] Add time triggered (+15s)');
-      playSound('cardSelect');
-      return;
+    if (after.timeRemaining !== before.timeRemaining) {
+      console.log(`[TestPowerUps] Clock: ${before.timeRemaining}s -> ${after.timeRemaining}s`);
     }
 
-    // For hand-type power-ups, generate the hand
-    if (powerUp.handType) {
-      console.log('[TestPowerUps] Generating hand:', powerUp.handType);
-      const hand = generateSpecificHand(powerUp.handType, deck);
-      
-      if (!hand) {
-        console.log('[TestPowerUps] Could not generate hand - not enough cards');
-        return;
-      }
+    setDeck(after.deck);
+    setUsedCards(after.usedCards);
 
-      console.log('[TestPowerUps] Generated:', hand.map(c => `${c.rank}${c.suit[0]}`).join(', '));
-      
-      // Set the selected cards and remove from deck
-      setSelectedCards(hand);
-      setDeck(prev => prev.filter(c => !hand.some(h => h.id === c.id)));
-      setUsedCards(prev => [...prev, ...hand]);
+    // Hand-type power-ups fill the hand
+    if (after.selectedCards !== before.selectedCards) {
+      console.log('[TestPowerUps] Generated:', after.selectedCards.map(c => `${c.rank}${c.suit[0]}`).join(', '));
+      setSelectedCards(after.selectedCards);
       playSound('handSubmit');
+    } else {
+      playSound('cardSelect');
     }
-  }, [deck, playSound]);
+  }, [deck, usedCards, playSound]);
 
   // Reset game
   const handleReset = () => {
@@ -127,7 +121,7 @@ export default function TestPowerUps() {
       <div className="p-3 border-b border-primary/20 bg-card/30">
         <div className="flex items-center gap-2 overflow-x-auto pb-1">
           <span className="text-sm text-muted-foreground whitespace-nowrap mr-2">Power-ups:</span>
-          {POWER_UPS.map(powerUp => {
+          {getAllPowerUps().map(powerUp => {
             const tierColor = powerUp.tier === 3 ? 'border-gold bg-gold/20 hover:bg-gold/30' 
                             : powerUp.tier === 2 ? 'border-silver bg-silver/20 hover:bg-silver/30'
                             : 'border-bronze bg-bronze/20 hover:bg-bronze/30';
@@ -0,0 +1,90 @@
+import { Card } from '@/types/game';
+import { findBestHand, WildCardRules } from '@/lib/pokerEngine';
+import { RandomSource } from '@/lib/random';
+
+// ============================================================================
+// BOT STRATEGIES FOR THE HEADLESS SIMULATOR
+// ============================================================================
+// A bot looks at the cards currently on screen (and the level's wild ranks)
+// and returns the 5 it would tap, plus how long it spent deciding. Tap time
+// (which scales with card speed) is charged by the simulator, not the bot.
+
+export interface BotDecision {
+  cards: Card[];
+  thinkSeconds: number;
+}
+
+export interface BotStrategy {
+  name: string;
+  chooseHand: (visible: Card[], random: RandomSource, rules: WildCardRules) => BotDecision;
+}
+
+// Normally distributed sample (Box-Muller) - reaction times cluster around a mean
+function gaussian(random: RandomSource, mean: number, stdDev: number): number {
+  const u = 1 - random();
+  const v = random();
+  return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+function pickRandom(cards: Card[], count: number, random: RandomSource): Card[] {
+  const pool = [...cards];
+  const picked: Card[] = [];
+  while (picked.length < count && pool.length > 0) {
+    picked.push(pool.splice(Math.floor(random() * pool.length), 1)[0]);
+  }
+  return picked;
+}
+
+// Taps any 5 cards as fast as possible - the floor for balancing
+export const randomBot: BotStrategy = {
+  name: 'random',
+  chooseHand: (visible, random) => ({
+    cards: pickRandom(visible, 5, random),
+    thinkSeconds: 0.5,
+  }),
+};
+
+// Grabs the biggest group of matching ranks it sees, then the highest cards
+export const greedyBot: BotStrategy = {
+  name: 'greedy',
+  chooseHand: (visible) => {
+    const byValue = new Map<number, Card[]>();
+    visible.forEach(card => byValue.set(card.value, [...(byValue.get(card.value) || []), card]));
+    const groups = Array.from(byValue.values())
+      .sort((a, b) => b.length - a.length || b[0].value - a[0].value);
+
+    const cards = groups[0].slice(0, 4);
+    const rest = visible
+      .filter(card => !cards.includes(card))
+      .sort((a, b) => b.value - a.value);
+    return {
+      cards: [...cards, ...rest].slice(0, 5),
+      thinkSeconds: 1.5,
+    };
+  },
+};
+
+// Finds the best hand on screen, but takes as long as a sharp human would:
+// a base reaction plus scan time per visible card, with some jitter
+export function createBestHandBot(reactionSeconds = 1.2, scanSecondsPerCard = 0.12): BotStrategy {
+  return {
+    name: 'best',
+    chooseHand: (visible, random, rules) => {
+      const best = findBestHand(visible, rules);
+      const thinkSeconds = Math.max(
+        0.3,
+        gaussian(random, reactionSeconds + visible.length * scanSecondsPerCard, reactionSeconds * 0.25)
+      );
+      return {
+        cards: best ? best.cards : pickRandom(visible, 5, random),
+        thinkSeconds,
+      };
+    },
+  };
+}
+
+export const BOTS: Record<string, BotStrategy> = {
+  random: randomBot,
+  greedy: greedyBot,
+  best: createBestHandBot(),
+};
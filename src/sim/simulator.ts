@@ -0,0 +1,192 @@
+import { GameState } from '@/types/game';
+import { getSSCSpeed, calculateLevelGoal, getSSCPhase, SSCLevelInfo } from '@/lib/pokerEngine';
+import {
+  createGameState,
+  applyTick,
+  applySelectCard,
+  applySubmitHand,
+  applyStartBonusRound,
+  applySkipBonusRound,
+  applyNextLevel,
+  applyEndGame,
+  getVisibleCards,
+} from '@/lib/gameTransitions';
+import { createSeededRandom } from '@/lib/random';
+import { BotStrategy } from './bots';
+
+// ============================================================================
+// HEADLESS SSC SIMULATOR
+// ============================================================================
+// Plays SSC runs through the same pure transitions the game and the replay
+// verifier use (createGameState, applySelectCard, applySubmitHand, applyTick,
+// applyNextLevel), with a simulated clock instead of React timers, so level
+// goals and speeds can be balanced from data. Bonus rounds are skipped -
+// they don't affect whether a level is passed.
+
+type Phase = SSCLevelInfo['phase'];
+
+export interface SimulationOptions {
+  bot: BotStrategy;
+  runs: number;
+  seed: number;         // Run i plays deck seed + i, so results are reproducible
+  maxLevel: number;     // Stop a run after clearing this level
+}
+
+export interface LevelStats {
+  level: number;
+  phase: Phase;
+  goal: number;
+  attempts: number;
+  passes: number;
+  handsInPasses: number;
+}
+
+export interface SimulationResult {
+  botName: string;
+  runs: number;
+  levels: LevelStats[];
+  finalScores: number[];  // Cumulative score per run
+  levelsCleared: number[]; // Highest level cleared per run
+}
+
+// Seconds to tap one card on a static grid; moving cards take longer the faster they go
+const TAP_SECONDS = 0.35;
+const SPEED_TAP_PENALTY = 0.5;
+
+function tapSeconds(level: number): number {
+  return TAP_SECONDS * (1 + getSSCSpeed(level) * SPEED_TAP_PENALTY);
+}
+
+const isLevelOver = (state: GameState) => state.isLevelComplete || state.isGameOver;
+
+// Plays the current level until it is cleared or its clock runs out. The bot's
+// thinking and tapping time is charged as whole-second clock ticks before each
+// hand is submitted, as the game's timer would have ticked meanwhile.
+function playLevel(initial: GameState, bot: BotStrategy, random: () => number): { state: GameState; passed: boolean; hands: number } {
+  let state = initial;
+  let clock = 0; // Seconds the bot has spent on this level
+  let ticks = 0;
+  let hands = 0;
+
+  while (!isLevelOver(state)) {
+    const visible = getVisibleCards(state);
+    const decision = bot.chooseHand(visible, random, { wildRanks: state.wildRanks });
+    // No hand to make: wait for the clock to run out
+    clock = decision.cards.length < 5
+      ? Infinity
+      : clock + decision.thinkSeconds + decision.cards.length * tapSeconds(state.sscLevel);
+
+    while (!isLevelOver(state) && ticks < Math.floor(clock)) {
+      state = applyTick(state);
+      ticks++;
+    }
+    if (isLevelOver(state)) break;
+
+    for (const card of decision.cards) {
+      state = applySelectCard(state, card);
+    }
+    state = applySubmitHand(state).state;
+    hands++;
+  }
+
+  return { state, passed: state.isLevelComplete && !state.isGameOver, hands };
+}
+
+export function runSimulation(options: SimulationOptions): SimulationResult {
+  const { bot, runs, seed, maxLevel } = options;
+  const levels: LevelStats[] = Array.from({ length: maxLevel }, (_, i) => ({
+    level: i + 1,
+    phase: getSSCPhase(i + 1),
+    goal: calculateLevelGoal(i + 1),
+    attempts: 0,
+    passes: 0,
+    handsInPasses: 0,
+  }));
+  const finalScores: number[] = [];
+  const levelsCleared: number[] = [];
+
+  for (let run = 0; run < runs; run++) {
+    const botRandom = createSeededRandom((seed + run) ^ 0x5bd1e995);
+    let state = createGameState('ssc', false, 1, undefined, (seed + run) >>> 0);
+    let cleared = 0;
+
+    for (let level = 1; level <= maxLevel; level++) {
+      const stats = levels[level - 1];
+      stats.attempts++;
+      const played = playLevel(state, bot, botRandom.next);
+      state = played.state;
+      if (!played.passed) break;
+
+      stats.passes++;
+      stats.handsInPasses += played.hands;
+      cleared = level;
+
+      if (level < maxLevel) {
+        // As the player would: open the bonus round, skip it, move on
+        if (state.pendingBonusRound) state = applySkipBonusRound(applyStartBonusRound(state));
+        state = applyNextLevel(state);
+      }
+    }
+
+    if (!state.isGameOver) state = applyEndGame(state);
+    finalScores.push(state.cumulativeScore);
+    levelsCleared.push(cleared);
+  }
+
+  return { botName: bot.name, runs, levels, finalScores, levelsCleared };
+}
+
+// ============================================================================
+// REPORTING
+// ============================================================================
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.floor((p / 100) * sorted.length));
+  return sorted[index];
+}
+
+function histogram(values: number[], buckets: number): string[] {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const width = Math.max(1, Math.ceil((max - min + 1) / buckets));
+  const counts = new Array(buckets).fill(0);
+  values.forEach(v => counts[Math.min(buckets - 1, Math.floor((v - min) / width))]++);
+  const peak = Math.max(...counts);
+
+  return counts.map((count, i) => {
+    const from = min + i * width;
+    const label = `${from}-${from + width - 1}`.padStart(13);
+    const bar = '#'.repeat(Math.round((count / peak) * 40));
+    return `${label} | ${bar} ${count}`;
+  });
+}
+
+export function formatReport(result: SimulationResult): string {
+  const lines: string[] = [];
+  lines.push(`Bot: ${result.botName}   Runs: ${result.runs}`);
+  lines.push('');
+  lines.push('Level  Phase          Goal  Reached  Passed  Pass rate  Avg hands');
+
+  for (const stats of result.levels) {
+    if (stats.attempts === 0) break;
+    const passRate = ((stats.passes / stats.attempts) * 100).toFixed(1) + '%';
+    const avgHands = stats.passes > 0 ? (stats.handsInPasses / stats.passes).toFixed(2) : '-';
+    lines.push(
+      `${String(stats.level).padStart(5)}  ${stats.phase.padEnd(13)}${String(stats.goal).padStart(6)}` +
+      `${String(stats.attempts).padStart(9)}${String(stats.passes).padStart(8)}${passRate.padStart(11)}${avgHands.padStart(11)}`
+    );
+  }
+
+  const scores = [...result.finalScores].sort((a, b) => a - b);
+  const cleared = [...result.levelsCleared].sort((a, b) => a - b);
+  lines.push('');
+  lines.push(`Levels cleared  p10 ${percentile(cleared, 10)}  p50 ${percentile(cleared, 50)}  p90 ${percentile(cleared, 90)}  max ${cleared[cleared.length - 1] ?? 0}`);
+  lines.push(`Final score     p10 ${percentile(scores, 10)}  p50 ${percentile(scores, 50)}  p90 ${percentile(scores, 90)}  max ${scores[scores.length - 1] ?? 0}`);
+  lines.push('');
+  lines.push('Score distribution:');
+  lines.push(...histogram(scores, 10));
+
+  return lines.join('\n');
+}
@@ -3,17 +3,19 @@ import { subscribeWithSelector } from 'zustand/middleware';
 import { Card, GameState, GameMode, HandResult, PowerUp } from '@/types/game';
 import { INITIAL_GAME_STATE } from '@/hooks/game/gameConstants';
 import { 
-  evaluateHand, 
   createDeck, 
   shuffleDeck, 
-  calculateTimeBonus, 
-  calculateLeftoverPenalty,
   calculateStarRating,
   shouldTriggerBonusRound,
-  getBetterHandMultiplier,
   calculateLevelGoal,
-  getSSCLevelInfo
+  getSSCLevelInfo,
+  getSSCLevelWilds,
+  isSSCMode
 } from '@/lib/pokerEngine';
+import { getScoringRuleset, evaluateRulesetHand } from '@/lib/scoringRulesets';
+import { createSeededRandom, generateSeed } from '@/lib/random';
+import { getDailyDateKey, getDailySeed } from '@/lib/dailySeed';
+import { applyPowerUp, applyUpgradeReward, applyCraftPowerUps } from '@/lib/gameTransitions';
 
 // ============================================================================
 // ZUSTAND STORE WITH ATOMIC SLICES
@@ -30,7 +32,7 @@ interface GameActions {
   updateScore: (points: number, hand: HandResult) => void;
   
   // Game control actions
-  startGame: (mode: GameMode, forceBonus?: boolean, startLevel?: number, phaseOverride?: string) => void;
+  startGame: (mode: GameMode, forceBonus?: boolean, startLevel?: number, phaseOverride?: string, seed?: number) => void;
   pauseGame: () => void;
   setPaused: (paused: boolean) => void;
   endGame: () => void;
@@ -56,8 +58,10 @@ interface GameActions {
   usePowerUp: (powerUpId: string) => void;
   dismissPowerUpSelection: () => void;
   claimReward: () => void;
+  upgradeReward: () => void;
   discardReward: () => void;
   swapPowerUp: (oldPowerUpId: string) => void;
+  craftPowerUps: (powerUpIds: string[]) => void;
 }
 
 // Full store type: GameState + Actions
@@ -110,9 +114,7 @@ export const useGameStore = create<GameStore>()(
         return;
       }
 
-      const isBlitz = state.mode === 'blitz_fc' || state.mode === 'blitz_cb';
-      const isSSC = state.mode === 'ssc';
-      const shouldRecycle = isBlitz || isSSC;
+      const shouldRecycle = getScoringRuleset(state.mode).recyclesCards;
 
       set({
         selectedCards: [...state.selectedCards, card],
@@ -148,17 +150,25 @@ export const useGameStore = create<GameStore>()(
     // ========================================================================
     // GAME CONTROLS
     // ========================================================================
-    startGame: (mode: GameMode, forceBonus = false, startLevel = 1, phaseOverride?: string) => {
-      const deck = shuffleDeck(createDeck());
+    startGame: (mode: GameMode, forceBonus = false, startLevel = 1, phaseOverride?: string, seed?: number) => {
       const isBlitz = mode === 'blitz_fc' || mode === 'blitz_cb';
-      const isSSC = mode === 'ssc';
+      const isSSC = isSSCMode(mode);
+      // Daily runs always start at Level 1 from the shared seed for the UTC day
+      const dailyDate = mode === 'daily' ? getDailyDateKey() : null;
+      const level = dailyDate ? 1 : startLevel;
+      
+      // Every run is seeded so it can be replayed exactly; callers may pin the seed
+      const runSeed = seed ?? (dailyDate ? getDailySeed(dailyDate) : generateSeed());
+      const rng = createSeededRandom(runSeed);
+      const wilds = isSSC && !forceBonus ? getSSCLevelWilds(level) : null;
+      const deck = shuffleDeck(createDeck(wilds?.jokers), rng.next);
       
       let timeRemaining = 60;
       if (isBlitz) timeRemaining = 60;
       else if (isSSC) timeRemaining = 60;
       
-      const levelGoal = isSSC ? calculateLevelGoal(startLevel) : 0;
-      const levelInfo = isSSC ? getSSCLevelInfo(startLevel) : null;
+      const levelGoal = isSSC ? calculateLevelGoal(level) : 0;
+      const levelInfo = isSSC ? getSSCLevelInfo(level) : null;
       
       set({
         ...INITIAL_GAME_STATE,
@@ -171,11 +181,15 @@ export const useGameStore = create<GameStore>()(
         isBonusLevel: forceBonus,
         timeRemaining,
         timeElapsed: 0,
-        sscLevel: startLevel,
+        sscLevel: level,
         sscPhase: levelInfo?.phase || 'sitting_duck',
         sscRound: levelInfo?.round || 1,
         levelGoal,
         phaseOverride,
+        seed: runSeed,
+        rngState: rng.getState(),
+        dailyDate,
+        wildRanks: wilds ? wilds.rules.wildRanks : [],
       });
     },
     
@@ -189,21 +203,7 @@ export const useGameStore = create<GameStore>()(
     
     endGame: () => {
       const state = get();
-      const isBlitz = state.mode === 'blitz_fc' || state.mode === 'blitz_cb';
-      const isClassic = state.mode === 'classic_fc' || state.mode === 'classic_cb';
-      
-      let finalScore = state.score;
-      let timeBonus = 0;
-      let leftoverPenalty = 0;
-      
-      if (isBlitz) {
-        // Blitz: rawScore × handsPlayed
-        finalScore = state.rawScore * state.handsPlayed;
-      } else if (isClassic) {
-        leftoverPenalty = calculateLeftoverPenalty(state.deck);
-        timeBonus = calculateTimeBonus(state.timeElapsed);
-        finalScore = state.rawScore + timeBonus - leftoverPenalty;
-      }
+      const { score: finalScore, timeBonus, leftoverPenalty } = getScoringRuleset(state.mode).finalizeScore(state);
       
       set({
         isGameOver: true,
@@ -225,56 +225,32 @@ export const useGameStore = create<GameStore>()(
       const state = get();
       if (state.selectedCards.length !== 5) return;
 
-      const result = evaluateHand(state.selectedCards);
+      const ruleset = getScoringRuleset(state.mode);
+      const result = evaluateRulesetHand(ruleset, state.selectedCards, { wildRanks: state.wildRanks });
+      const isSSC = isSSCMode(state.mode);
       
-      const isBlitz = state.mode === 'blitz_fc' || state.mode === 'blitz_cb';
-      const isSSC = state.mode === 'ssc';
-      const inFinalStretch = (isBlitz || isSSC) && state.timeRemaining <= 10 && state.timeRemaining > 0;
-      const finalStretchMultiplier = inFinalStretch ? 2 : 1;
-      
-      let betterHandMultiplier = 1;
-      let newBetterHandStreak = 0;
-      let newPreviousHandRank = result.hand.rank;
-      
-      if (isSSC && !state.isBonusLevel) {
-        if (state.previousHandRank !== null && result.hand.rank < state.previousHandRank) {
-          newBetterHandStreak = state.betterHandStreak + 1;
-          betterHandMultiplier = getBetterHandMultiplier(newBetterHandStreak);
-        } else if (state.previousHandRank !== null) {
-          newBetterHandStreak = 0;
-        }
-      }
-      
-      let multipliedPoints = result.totalPoints;
-      multipliedPoints = Math.floor(multipliedPoints * betterHandMultiplier);
-      if (inFinalStretch) {
-        multipliedPoints = Math.floor(multipliedPoints * finalStretchMultiplier);
-      }
-      
-      const modifiedResult = { ...result, totalPoints: multipliedPoints };
+      const {
+        result: modifiedResult,
+        points: multipliedPoints,
+        rawPoints,
+        multiplier: betterHandMultiplier,
+        betterHandStreak: newBetterHandStreak,
+      } = ruleset.scoreHand(result, state);
+      const newPreviousHand = result;
       
       const newHandsPlayed = state.handsPlayed + 1;
-      
-      // For Blitz: rawScore stores BASE points (before final stretch multiplier)
-      // This is used for final score calculation: rawScore × handsPlayed
-      const basePointsForRaw = isBlitz 
-        ? result.totalPoints  // Original points without final stretch multiplier
-        : multipliedPoints;   // For other modes, use multiplied points
-      
-      const newRawScore = state.rawScore + basePointsForRaw;
+      const newRawScore = state.rawScore + rawPoints;
       const newScore = state.score + multipliedPoints;
       const newLevelScore = state.levelScore + multipliedPoints;
 
-      const shouldRecycle = isBlitz || isSSC;
-      const recycledDeck = shouldRecycle 
+      const recycledDeck = ruleset.recyclesCards 
         ? [...state.deck, ...state.selectedCards] 
         : state.deck;
 
-      const isClassic = state.mode === 'classic_fc' || state.mode === 'classic_cb';
-      const classicGameOver = isClassic && newHandsPlayed >= 10;
+      const handLimitReached = ruleset.handLimit !== null && newHandsPlayed >= ruleset.handLimit;
 
       // SSC level complete check
-      if (state.mode === 'ssc' && newScore >= state.levelGoal) {
+      if (isSSC && newScore >= state.levelGoal) {
         const starRating = calculateStarRating(newScore, state.levelGoal);
         const shouldBonus = shouldTriggerBonusRound(state.sscLevel);
         set({
@@ -288,7 +264,7 @@ export const useGameStore = create<GameStore>()(
           isLevelComplete: true,
           pendingBonusRound: shouldBonus,
           deck: recycledDeck,
-          previousHandRank: newPreviousHandRank,
+          previousHand: newPreviousHand,
           betterHandStreak: newBetterHandStreak,
           currentMultiplier: betterHandMultiplier,
           starRating,
@@ -296,11 +272,13 @@ export const useGameStore = create<GameStore>()(
         return;
       }
 
-      // Classic game over
-      if (classicGameOver) {
-        const leftoverPenalty = calculateLeftoverPenalty(state.deck);
-        const timeBonus = calculateTimeBonus(state.timeElapsed);
-        const finalScore = newRawScore + timeBonus - leftoverPenalty;
+      // Hand limit reached (Classic) - apply end-of-game adjustments
+      if (handLimitReached) {
+        const { score: finalScore, timeBonus, leftoverPenalty } = ruleset.finalizeScore({
+          ...state,
+          rawScore: newRawScore,
+          handsPlayed: newHandsPlayed,
+        });
         
         set({
           score: finalScore,
@@ -326,7 +304,7 @@ export const useGameStore = create<GameStore>()(
         currentHand: modifiedResult,
         deck: recycledDeck,
         isGameOver: false,
-        previousHandRank: newPreviousHandRank,
+        previousHand: newPreviousHand,
         betterHandStreak: newBetterHandStreak,
         currentMultiplier: betterHandMultiplier,
       });
@@ -340,7 +318,9 @@ export const useGameStore = create<GameStore>()(
       const newLevel = state.sscLevel + 1;
       const levelInfo = getSSCLevelInfo(newLevel);
       const levelGoal = calculateLevelGoal(newLevel);
-      const deck = shuffleDeck(createDeck());
+      const wilds = getSSCLevelWilds(newLevel);
+      const rng = createSeededRandom(state.rngState);
+      const deck = shuffleDeck(createDeck(wilds.jokers), rng.next);
       
       set({
         sscLevel: newLevel,
@@ -359,15 +339,18 @@ export const useGameStore = create<GameStore>()(
         timeRemaining: 60,
         timeElapsed: 0,
         currentHand: null,
-        previousHandRank: null,
+        previousHand: null,
         betterHandStreak: 0,
         currentMultiplier: 1,
+        rngState: rng.getState(),
+        wildRanks: wilds.rules.wildRanks,
       });
     },
     
     startBonusRound: () => {
       const state = get();
-      const deck = shuffleDeck(createDeck());
+      const rng = createSeededRandom(state.rngState);
+      const deck = shuffleDeck(createDeck(), rng.next);
       
       set({
         isBonusLevel: true,
@@ -378,6 +361,8 @@ export const useGameStore = create<GameStore>()(
         timeRemaining: 30,
         timeElapsed: 0,
         bonusRoundCount: state.bonusRoundCount + 1,
+        rngState: rng.getState(),
+        wildRanks: [],
       });
     },
     
@@ -392,10 +377,14 @@ export const useGameStore = create<GameStore>()(
     // UTILITY FUNCTIONS
     // ========================================================================
     reshuffleUnselected: () => {
-      set(state => ({
-        deck: shuffleDeck(state.deck),
-        reshuffleTrigger: state.reshuffleTrigger + 1,
-      }));
+      set(state => {
+        const rng = createSeededRandom(state.rngState);
+        return {
+          deck: shuffleDeck(state.deck, rng.next),
+          reshuffleTrigger: state.reshuffleTrigger + 1,
+          rngState: rng.getState(),
+        };
+      });
     },
     
     markExplainerSeen: () => {
@@ -413,11 +402,9 @@ export const useGameStore = create<GameStore>()(
       }));
     },
     
+    // Same registry-driven effect as the live game
     usePowerUp: (powerUpId: string) => {
-      set(state => ({
-        activePowerUps: [...state.activePowerUps, powerUpId],
-        earnedPowerUps: state.earnedPowerUps.filter(p => p !== powerUpId),
-      }));
+      set(state => applyPowerUp(state, powerUpId));
     },
     
     dismissPowerUpSelection: () => {
@@ -444,6 +431,15 @@ export const useGameStore = create<GameStore>()(
       });
     },
     
+    // A full inventory can still take a reward as an upgrade, or make room by crafting
+    upgradeReward: () => {
+      set(state => applyUpgradeReward(state));
+    },
+    
+    craftPowerUps: (powerUpIds: string[]) => {
+      set(state => applyCraftPowerUps(state, powerUpIds));
+    },
+    
     discardReward: () => {
       set({
         pendingReward: null,
@@ -527,8 +523,10 @@ export const useGameActions = () => useGameStore(state => ({
   usePowerUp: state.usePowerUp,
   dismissPowerUpSelection: state.dismissPowerUpSelection,
   claimReward: state.claimReward,
+  upgradeReward: state.upgradeReward,
   discardReward: state.discardReward,
   swapPowerUp: state.swapPowerUp,
+  craftPowerUps: state.craftPowerUps,
 }));
 
 // Re-export types for convenience
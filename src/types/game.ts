@@ -1,11 +1,15 @@
 export type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
 export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K';
 
+// Jokers sit outside the four suits and thirteen ranks and are always wild
+export type CardSuit = Suit | 'joker';
+export type CardRank = Rank | 'JK';
+
 export interface Card {
   id: string;
-  suit: Suit;
-  rank: Rank;
-  value: number;
+  suit: CardSuit;
+  rank: CardRank;
+  value: number; // 0 for jokers - a wild scores as the card it stands in for
 }
 
 export interface FallingCard extends Card {
@@ -25,7 +29,8 @@ export interface ConveyorCard extends Card {
   speed: number;
 }
 
-export type GameMode = 'classic_fc' | 'classic_cb' | 'blitz_fc' | 'blitz_cb' | 'ssc';
+// 'daily' plays the SSC level sequence from a deck seeded by the UTC date
+export type GameMode = 'classic_fc' | 'classic_cb' | 'blitz_fc' | 'blitz_cb' | 'ssc' | 'daily';
 
 export type SSCPhase = 'sitting_duck' | 'conveyor' | 'falling' | 'orbit';
 
@@ -35,11 +40,19 @@ export interface PokerHand {
   rank: number;
 }
 
+// The card a wild (Joker or wild-rank card) stood in for when its hand was evaluated
+export interface WildSubstitution {
+  cardId: string;
+  rank: Rank;
+  suit: Suit;
+}
+
 export interface HandResult {
   hand: PokerHand;
   cards: Card[];
   valueBonus: number;
   totalPoints: number;
+  substitutions?: WildSubstitution[]; // Only present when the hand contained wilds
 }
 
 export type RewardTier = 'bronze' | 'silver' | 'gold';
@@ -93,7 +106,7 @@ export interface GameState {
   // Reshuffle trigger for visual re-deal in dynamic modes
   reshuffleTrigger: number;
   // Better-Hand multiplier system
-  previousHandRank: number | null;
+  previousHand: HandResult | null;
   betterHandStreak: number;
   currentMultiplier: number;
   // Star rating for level completion
@@ -107,8 +120,23 @@ export interface GameState {
   inventoryFull: boolean; // Whether player needs to swap/discard
   // Phase override for Classic/Blitz modes (for Play Again persistence)
   phaseOverride?: string;
+  // Deterministic RNG: seed the run started from, and the PRNG's current state
+  seed: number;
+  rngState: number;
+  // UTC date key (YYYY-MM-DD) of a Daily Seed run, null for other modes
+  dailyDate: string | null;
+  // Level modifier: ranks that play as wild alongside Jokers (e.g. ['2'] for deuces wild)
+  wildRanks: Rank[];
+  // Tactical power-up effects, counted down in seconds of game clock
+  timeFrozenSeconds: number;   // Freeze Time: the level clock doesn't run
+  slowMotionSeconds: number;   // Slow Motion: moving cards travel at half speed
+  // X-Ray: cards making up the best hand on the table, until the next hand is scored
+  xRayCardIds: string[];
+  // Upgrade level per held power-up id (absent = level 1)
+  powerUpLevels: Record<string, number>;
 }
 
+// Power-up metadata; definitions and effects are registered in src/lib/powerUps.ts
 export interface PowerUp {
   id: string;
   name: string;
@@ -129,11 +157,13 @@ export interface LeaderboardEntry {
   hands_played: number;
   best_hand?: string;
   time_seconds?: number;
+  daily_date?: string | null;
   created_at: string;
   profiles?: {
     username: string | null;
     avatar_url: string | null;
   };
+  replays?: { id: string } | null; // Recorded action log, if the run was uploaded with one
 }
 
 export const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
@@ -158,15 +188,3 @@ export const POKER_HANDS: PokerHand[] = [
   { name: 'High Card', basePoints: 10, rank: 10 },
 ];
 
-export const POWER_UPS: PowerUp[] = [
-  { id: 'reshuffle', name: 'Reshuffle', emoji: '🔀', description: 'Shuffle and re-deal all cards on screen', handType: '', tier: 1, isReusable: true },
-  { id: 'two_pair', name: 'Two Pair', emoji: '2️⃣', description: 'Instantly form a Two Pair hand', handType: 'Two Pair', tier: 1 },
-  { id: 'three_kind', name: 'Three of a Kind', emoji: '3️⃣', description: 'Instantly form Three of a Kind', handType: 'Three of a Kind', tier: 1 },
-  { id: 'add_time', name: 'Add Time', emoji: '⏰', description: 'Add 15 seconds to the clock', handType: '', tier: 1, isReusable: true },
-  { id: 'straight', name: 'Straight', emoji: '➡️', description: 'Instantly form a Straight', handType: 'Straight', tier: 2 },
-  { id: 'flush', name: 'Flush', emoji: '♦️', description: 'Instantly form a Flush', handType: 'Flush', tier: 2 },
-  { id: 'full_house', name: 'Full House', emoji: '🏠', description: 'Instantly form a Full House', handType: 'Full House', tier: 2 },
-  { id: 'four_kind', name: 'Four of a Kind', emoji: '4️⃣', description: 'Instantly form Four of a Kind', handType: 'Four of a Kind', tier: 3 },
-  { id: 'straight_flush', name: 'Straight Flush', emoji: '🔥', description: 'Instantly form a Straight Flush', handType: 'Straight Flush', tier: 3 },
-  { id: 'royal_flush', name: 'Royal Flush', emoji: '👑', description: 'Instantly form a Royal Flush', handType: 'Royal Flush', tier: 3 },
-];
@@ -97,6 +97,12 @@ serve(async (req) => {
     const isPremium = hasActiveSub || hasPurchasedGame || hasCompletedPurchase;
     logStep("Premium status determined");
 
+    // Database functions (the season pass premium track) read this instead of calling Stripe
+    const { error: statusError } = await supabaseClient
+      .from("premium_status")
+      .upsert({ user_id: user.id, is_premium: isPremium, checked_at: new Date().toISOString() }, { onConflict: "user_id" });
+    if (statusError) logStep("Premium status not recorded");
+
     return new Response(JSON.stringify({
       subscribed: hasActiveSub,
       isPremium,
@@ -0,0 +1,359 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { parseReplay } from "../../../src/lib/replay.ts";
+import { verifyReplay, VerifiedRun } from "../../../src/lib/replayVerifier.ts";
+import { checkLevelClearTiming, checkScorePlausibility, checkServerDuration } from "../../../src/lib/scorePlausibility.ts";
+import { getDailyDateKey, getDailySeed } from "../../../src/lib/dailySeed.ts";
+import { isSameLoadout } from "../../../src/lib/loadout.ts";
+import { getGameXp } from "../../../src/lib/seasonPass.ts";
+
+// Leaderboard rows are only ever written here. The client sends the action log
+// of a finished run; the score, hands, level and time all come from replaying
+// it through the same game transitions the browser ran. Anything turned away
+// is recorded in rejected_submissions for moderators. Power-ups an SSC run
+// still holds at the end are banked into the player's inventory, and a 2x
+// points game from the daily reward wheel doubles the stored score. Every
+// accepted run earns season pass XP and counts towards the player's
+// challenges, and each SSC level it cleared is stored for the per-level
+// records - when the log's timestamps fit the time the server saw pass since
+// start_run noted the run's start.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: unknown) => {
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : "";
+  console.log(`[SUBMIT-SCORE] ${step}${detailsStr}`);
+};
+
+// Per user, counting accepted and rejected submissions alike. Generous enough
+// for a guest syncing a backlog of runs on sign-in.
+const RATE_LIMIT_WINDOW_MS = 10 * 60 * 1000; // 10 minutes
+const RATE_LIMIT_MAX_SUBMISSIONS = 20;
+
+// Daily reward wheel "2x Points (1 game)". Daily Seed runs are left alone so
+// everyone on the same deck is ranked on the same terms.
+const DOUBLE_POINTS_MULTIPLIER = 2;
+
+type RejectionRule = "replay" | "plausibility" | "rate_limit" | "daily" | "duplicate" | "loadout";
+
+const jsonResponse = (body: unknown, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+// A daily run may finish just after UTC midnight, so yesterday's seed is still accepted
+const findDailyDate = (seed: number): string | null => {
+  const now = new Date();
+  const yesterday = new Date(now.getTime() - 24 * 60 * 60 * 1000);
+  return [getDailyDateKey(now), getDailyDateKey(yesterday)].find(date => getDailySeed(date) === seed) ?? null;
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseClient = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    logStep("Function started");
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) return jsonResponse({ error: "Not authenticated" }, 401);
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
+    const user = userData?.user;
+    if (userError || !user) return jsonResponse({ error: "Not authenticated" }, 401);
+
+    logStep("User authenticated", { userId: user.id });
+
+    // Record the rejection for review, then answer the client
+    const reject = async (rule: RejectionRule, reason: string, status: number, details: { gameMode?: string; run?: VerifiedRun; replay?: unknown } = {}) => {
+      logStep("Submission rejected", { rule, reason });
+      const { error } = await supabaseClient.from("rejected_submissions").insert({
+        user_id: user.id,
+        game_mode: details.gameMode ?? null,
+        rule,
+        reason,
+        run: details.run ?? null,
+        replay: details.replay ?? null,
+      });
+      if (error) logStep("Rejection not recorded", { message: error.message });
+      return jsonResponse({ error: reason }, status);
+    };
+
+    const windowStart = new Date(Date.now() - RATE_LIMIT_WINDOW_MS).toISOString();
+    const [{ count: accepted }, { count: rejected }] = await Promise.all([
+      supabaseClient.from("leaderboard_entries").select("id", { count: "exact", head: true })
+        .eq("user_id", user.id).gte("created_at", windowStart),
+      supabaseClient.from("rejected_submissions").select("id", { count: "exact", head: true })
+        .eq("user_id", user.id).gte("created_at", windowStart),
+    ]);
+
+    // Only the first submission over the limit is recorded (without its replay),
+    // so spamming the function can't flood the review table
+    const recentSubmissions = (accepted ?? 0) + (rejected ?? 0);
+    if (recentSubmissions >= RATE_LIMIT_MAX_SUBMISSIONS) {
+      const message = "Too many submissions. Please try again later.";
+      if (recentSubmissions > RATE_LIMIT_MAX_SUBMISSIONS) return jsonResponse({ error: message }, 429);
+      return reject("rate_limit", message, 429);
+    }
+
+    const { replay: rawReplay } = await req.json();
+    const replay = parseReplay(rawReplay);
+    if (!replay) return reject("replay", "Invalid replay", 400);
+
+    const verification = verifyReplay(replay);
+    if (!verification.ok) {
+      return reject("replay", verification.reason, 422, { gameMode: replay.mode, replay });
+    }
+    const { run } = verification;
+    logStep("Replay verified", { mode: run.mode, score: run.score });
+
+    const implausible = checkScorePlausibility(run);
+    if (implausible) {
+      return reject("plausibility", implausible, 422, { gameMode: run.mode, run, replay });
+    }
+
+    // SSC runs note their start with start_run. The log can't hold more time
+    // than has passed since then; runs without an unspent note (guest runs
+    // synced on sign-in) are stored without their level clears.
+    let runStartId: string | null = null;
+    let serverSeconds: number | null = null;
+    if (replay.runToken) {
+      const { data: runStart } = await supabaseClient
+        .from("run_starts")
+        .select("id, started_at")
+        .eq("id", replay.runToken)
+        .eq("user_id", user.id)
+        .eq("game_mode", run.mode)
+        .is("submitted_at", null)
+        .maybeSingle();
+
+      if (runStart) {
+        runStartId = runStart.id;
+        serverSeconds = (Date.now() - Date.parse(runStart.started_at)) / 1000;
+        const tooLong = checkServerDuration(run, serverSeconds);
+        if (tooLong) return reject("plausibility", tooLong, 422, { gameMode: run.mode, run, replay });
+      }
+    }
+
+    // Daily runs must use that day's seed, and only the run the attempt was
+    // claimed for is ranked: its replay carries the attempt's unspent nonce
+    let dailyDate: string | null = null;
+    let dailyAttemptId: string | null = null;
+    if (run.mode === "daily") {
+      dailyDate = findDailyDate(run.seed);
+      if (!dailyDate) return reject("daily", "Daily seed has expired", 422, { gameMode: run.mode, run });
+
+      const { data: attempt } = await supabaseClient
+        .from("daily_attempts")
+        .select("id, run_nonce, submitted_at")
+        .eq("user_id", user.id)
+        .eq("attempt_date", dailyDate)
+        .maybeSingle();
+
+      if (!attempt || attempt.submitted_at || !replay.dailyRunNonce || attempt.run_nonce !== replay.dailyRunNonce) {
+        return reject("daily", "No ranked daily attempt", 403, { gameMode: run.mode, run });
+      }
+      dailyAttemptId = attempt.id;
+    }
+
+    // A loadout must be one this player paid for with start_loadout, not yet
+    // spent on a stored score. It's claimed once the entry is in (below).
+    // parseReplay has already checked its shape, so it always has an id.
+    const loadout = replay.loadout && replay.loadout.powerUpIds.length > 0 ? replay.loadout : null;
+    if (loadout) {
+      const { data: loadoutRun } = await supabaseClient
+        .from("loadout_runs")
+        .select("power_up_ids")
+        .eq("id", loadout.id)
+        .eq("user_id", user.id)
+        .is("submitted_at", null)
+        .maybeSingle();
+
+      if (!loadoutRun || !isSameLoadout(loadoutRun.power_up_ids, loadout.powerUpIds)) {
+        return reject("loadout", "Unknown or already used loadout", 400, { gameMode: run.mode, run });
+      }
+    }
+
+    const { data: profile, error: profileError } = await supabaseClient
+      .from("profiles")
+      .select("id")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    if (profileError || !profile) return jsonResponse({ error: "Profile not found" }, 404);
+
+    const { data: entry, error: insertError } = await supabaseClient
+      .from("leaderboard_entries")
+      .insert({
+        user_id: user.id,
+        profile_id: profile.id,
+        game_mode: run.mode,
+        score: run.score,
+        score_multiplier: 1,
+        hands_played: run.handsPlayed,
+        ssc_level: run.sscLevel,
+        time_seconds: run.timeSeconds,
+        best_hand: run.bestHand,
+        daily_date: dailyDate,
+        seed: run.seed,
+      })
+      .select("id")
+      .single();
+
+    if (insertError) {
+      // unique_violation: this run (player, mode and seed) or the day's ranked
+      // score was already submitted. Nothing has been granted for it yet.
+      if (insertError.code === "23505") return reject("duplicate", "Score already submitted", 409, { gameMode: run.mode, run });
+      throw new Error(`Insert error: ${insertError.message}`);
+    }
+
+    // Claiming the loadout in one conditional update means it backs only one
+    // entry; if another submission claimed it first, this entry is taken back
+    if (loadout) {
+      const { data: claimed, error: claimError } = await supabaseClient
+        .from("loadout_runs")
+        .update({ submitted_at: new Date().toISOString() })
+        .eq("id", loadout.id)
+        .eq("user_id", user.id)
+        .is("submitted_at", null)
+        .select("id")
+        .maybeSingle();
+
+      if (claimError || !claimed) {
+        const { error: deleteError } = await supabaseClient.from("leaderboard_entries").delete().eq("id", entry.id);
+        if (deleteError) throw new Error(`Delete error: ${deleteError.message}`);
+        return reject("loadout", "Unknown or already used loadout", 400, { gameMode: run.mode, run });
+      }
+    }
+
+    // A 2x points game is only spent on a stored entry, which is then doubled
+    let scoreMultiplier = 1;
+    if (run.mode !== "daily") {
+      const { data: doubled, error: doubleError } = await supabaseClient.rpc("use_double_points", { p_user_id: user.id });
+      if (doubleError) logStep("Double points not checked", { message: doubleError.message });
+      if (doubled) {
+        const { error: doubleUpdateError } = await supabaseClient
+          .from("leaderboard_entries")
+          .update({ score: run.score * DOUBLE_POINTS_MULTIPLIER, score_multiplier: DOUBLE_POINTS_MULTIPLIER })
+          .eq("id", entry.id);
+        if (doubleUpdateError) {
+          logStep("Double points not applied", { message: doubleUpdateError.message });
+        } else {
+          scoreMultiplier = DOUBLE_POINTS_MULTIPLIER;
+          logStep("Double points applied", { score: run.score * scoreMultiplier });
+        }
+      }
+    }
+
+    // The nonce is spent once the score is stored (the unique daily_date row
+    // already stops a second entry for the day)
+    if (dailyAttemptId) {
+      const { error: attemptError } = await supabaseClient
+        .from("daily_attempts")
+        .update({ submitted_at: new Date().toISOString() })
+        .eq("id", dailyAttemptId);
+      if (attemptError) logStep("Daily attempt not marked submitted", { message: attemptError.message });
+    }
+
+    const { error: replayError } = await supabaseClient
+      .from("replays")
+      .insert({
+        user_id: user.id,
+        leaderboard_entry_id: entry.id,
+        game_mode: replay.mode,
+        seed: replay.seed,
+        version: replay.version,
+        log: replay,
+      });
+
+    // The score stands even if the replay can't be stored
+    if (replayError) logStep("Replay not stored", { message: replayError.message });
+
+    // The run's start note is spent with its entry. Clears are stored only
+    // from the submission that spent it, and only if the log accounts for the
+    // time since (each clear already passed checkLevelClearPlausibility).
+    let clearsTimed = false;
+    if (runStartId && serverSeconds !== null) {
+      const { data: spent, error: spendError } = await supabaseClient
+        .from("run_starts")
+        .update({ submitted_at: new Date().toISOString() })
+        .eq("id", runStartId)
+        .is("submitted_at", null)
+        .select("id")
+        .maybeSingle();
+      if (spendError) logStep("Run start not spent", { message: spendError.message });
+
+      const untimed = checkLevelClearTiming(run, serverSeconds);
+      clearsTimed = !!spent && !untimed;
+      if (untimed && run.levelClears.length > 0) logStep("Level clears not stored", { reason: untimed });
+    }
+
+    if (clearsTimed && run.levelClears.length > 0) {
+      const { error: clearsError } = await supabaseClient
+        .from("ssc_level_clears")
+        .insert(run.levelClears.map((clear) => ({
+          user_id: user.id,
+          profile_id: profile.id,
+          leaderboard_entry_id: entry.id,
+          level: clear.level,
+          level_score: clear.levelScore,
+          level_goal: clear.levelGoal,
+          time_seconds: clear.timeSeconds,
+          star_rating: clear.starRating,
+        })));
+      if (clearsError) logStep("Level clears not stored", { message: clearsError.message });
+    }
+
+    if (run.leftoverPowerUps.length > 0) {
+      const { error: bankError } = await supabaseClient.rpc("bank_power_ups", {
+        p_user_id: user.id,
+        p_power_up_ids: run.leftoverPowerUps,
+      });
+      if (bankError) logStep("Power-ups not banked", { message: bankError.message });
+      else logStep("Power-ups banked", { count: run.leftoverPowerUps.length });
+    }
+
+    // XP comes from the verified run, before any 2x points
+    const { data: seasonXp, error: xpError } = await supabaseClient.rpc("add_season_xp", {
+      p_user_id: user.id,
+      p_xp: getGameXp(run),
+    });
+    if (xpError) logStep("Season XP not added", { message: xpError.message });
+
+    // Challenge progress, like XP, is counted from the verified run only
+    const { error: challengeError } = await supabaseClient.rpc("record_challenge_progress", {
+      p_user_id: user.id,
+      p_score: run.score,
+      p_ssc_level: run.sscLevel,
+      p_flushes: run.handCounts["Flush"] ?? 0,
+      p_straights: run.handCounts["Straight"] ?? 0,
+      p_full_houses: run.handCounts["Full House"] ?? 0,
+    });
+    if (challengeError) logStep("Challenge progress not recorded", { message: challengeError.message });
+
+    logStep("Score saved", { entryId: entry.id });
+    return jsonResponse({
+      entryId: entry.id,
+      score: run.score * scoreMultiplier,
+      scoreMultiplier,
+      bankedPowerUps: run.leftoverPowerUps,
+      seasonXp: seasonXp ?? 0,
+    }, 200);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
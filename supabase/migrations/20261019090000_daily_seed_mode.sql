@@ -0,0 +1,49 @@
+-- Daily Seed mode: every player gets the same deck for the UTC day and one
+-- ranked attempt per account.
+
+ALTER TYPE public.game_mode ADD VALUE IF NOT EXISTS 'daily';
+
+--
+-- Leaderboard rows for daily runs are tagged with the UTC date they were played for.
+-- NULLs are distinct, so the unique constraint only applies to daily rows.
+--
+
+ALTER TABLE public.leaderboard_entries ADD COLUMN daily_date date;
+
+ALTER TABLE ONLY public.leaderboard_entries
+    ADD CONSTRAINT leaderboard_entries_daily_date_mode CHECK (((daily_date IS NULL) = (game_mode::text <> 'daily')));
+
+ALTER TABLE ONLY public.leaderboard_entries
+    ADD CONSTRAINT leaderboard_entries_user_id_daily_date_key UNIQUE (user_id, daily_date);
+
+CREATE INDEX idx_leaderboard_daily_score ON public.leaderboard_entries USING btree (daily_date, score DESC) WHERE (daily_date IS NOT NULL);
+
+
+--
+-- Name: daily_attempts; Type: TABLE; Schema: public; Owner: -
+-- The attempt is claimed when the run starts, so quitting and restarting a bad
+-- run only ever yields practice runs.
+--
+
+CREATE TABLE public.daily_attempts (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    attempt_date date NOT NULL,
+    started_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.daily_attempts
+    ADD CONSTRAINT daily_attempts_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.daily_attempts
+    ADD CONSTRAINT daily_attempts_user_id_attempt_date_key UNIQUE (user_id, attempt_date);
+
+ALTER TABLE ONLY public.daily_attempts
+    ADD CONSTRAINT daily_attempts_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- Attempts can only be claimed for the current UTC day
+CREATE POLICY "Users can insert own daily attempts" ON public.daily_attempts FOR INSERT WITH CHECK (((auth.uid() = user_id) AND (attempt_date = (now() AT TIME ZONE 'utc')::date)));
+
+CREATE POLICY "Users can view own daily attempts" ON public.daily_attempts FOR SELECT USING ((auth.uid() = user_id));
+
+ALTER TABLE public.daily_attempts ENABLE ROW LEVEL SECURITY;
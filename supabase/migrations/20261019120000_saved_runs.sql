@@ -0,0 +1,26 @@
+-- Save and resume: one in-progress SSC / Daily run per account, overwritten
+-- after every hand. The snapshot shape is owned by the client (src/lib/savedRun.ts);
+-- version lets it discard snapshots it no longer understands.
+
+CREATE TABLE public.saved_runs (
+    user_id uuid NOT NULL,
+    version integer NOT NULL,
+    snapshot jsonb NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.saved_runs
+    ADD CONSTRAINT saved_runs_pkey PRIMARY KEY (user_id);
+
+ALTER TABLE ONLY public.saved_runs
+    ADD CONSTRAINT saved_runs_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE POLICY "Users can view own saved run" ON public.saved_runs FOR SELECT USING ((auth.uid() = user_id));
+
+CREATE POLICY "Users can insert own saved run" ON public.saved_runs FOR INSERT WITH CHECK ((auth.uid() = user_id));
+
+CREATE POLICY "Users can update own saved run" ON public.saved_runs FOR UPDATE USING ((auth.uid() = user_id));
+
+CREATE POLICY "Users can delete own saved run" ON public.saved_runs FOR DELETE USING ((auth.uid() = user_id));
+
+ALTER TABLE public.saved_runs ENABLE ROW LEVEL SECURITY;
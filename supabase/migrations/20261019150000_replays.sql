@@ -0,0 +1,31 @@
+-- Replays: the action log of a leaderboard run (format in src/lib/replay.ts).
+-- One replay per leaderboard entry, readable by anyone who can see the board.
+
+CREATE TABLE public.replays (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    leaderboard_entry_id uuid NOT NULL,
+    game_mode public.game_mode NOT NULL,
+    seed bigint NOT NULL,
+    version integer NOT NULL,
+    log jsonb NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.replays
+    ADD CONSTRAINT replays_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.replays
+    ADD CONSTRAINT replays_leaderboard_entry_id_key UNIQUE (leaderboard_entry_id);
+
+ALTER TABLE ONLY public.replays
+    ADD CONSTRAINT replays_leaderboard_entry_id_fkey FOREIGN KEY (leaderboard_entry_id) REFERENCES public.leaderboard_entries(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.replays
+    ADD CONSTRAINT replays_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE POLICY "Anyone can view replays" ON public.replays FOR SELECT USING (true);
+
+CREATE POLICY "Users can insert own replays" ON public.replays FOR INSERT WITH CHECK ((auth.uid() = user_id));
+
+ALTER TABLE public.replays ENABLE ROW LEVEL SECURITY;
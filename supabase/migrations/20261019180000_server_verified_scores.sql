@@ -0,0 +1,7 @@
+-- Leaderboard entries and their replays are written only by the submit-score
+-- edge function (service role), after it has re-run the replay. Clients can no
+-- longer insert either table directly.
+
+DROP POLICY IF EXISTS "Users can insert own scores" ON public.leaderboard_entries;
+
+DROP POLICY IF EXISTS "Users can insert own replays" ON public.replays;
@@ -0,0 +1,67 @@
+-- Leaderboard submissions that submit-score turned away - failed replay
+-- verification, implausible results, rate limiting, daily attempt rules -
+-- kept for moderators to review. Only the edge function (service role) writes here.
+
+--
+-- Name: moderators; Type: TABLE; Schema: public; Owner: -
+-- Granted by hand from the dashboard.
+--
+
+CREATE TABLE public.moderators (
+    user_id uuid NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.moderators
+    ADD CONSTRAINT moderators_pkey PRIMARY KEY (user_id);
+
+ALTER TABLE ONLY public.moderators
+    ADD CONSTRAINT moderators_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE POLICY "Users can view own moderator row" ON public.moderators FOR SELECT USING ((auth.uid() = user_id));
+
+ALTER TABLE public.moderators ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: rejected_submissions; Type: TABLE; Schema: public; Owner: -
+-- rule: replay | plausibility | rate_limit | daily | duplicate
+-- run holds the verified result when the replay itself checked out.
+--
+
+CREATE TABLE public.rejected_submissions (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    game_mode text,
+    rule text NOT NULL,
+    reason text NOT NULL,
+    run jsonb,
+    replay jsonb,
+    reviewed_by uuid,
+    reviewed_at timestamp with time zone,
+    created_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.rejected_submissions
+    ADD CONSTRAINT rejected_submissions_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.rejected_submissions
+    ADD CONSTRAINT rejected_submissions_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.rejected_submissions
+    ADD CONSTRAINT rejected_submissions_reviewed_by_fkey FOREIGN KEY (reviewed_by) REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- Rate limiting counts a user's recent submissions
+CREATE INDEX idx_rejected_submissions_user_created ON public.rejected_submissions USING btree (user_id, created_at DESC);
+
+CREATE INDEX idx_leaderboard_user_created ON public.leaderboard_entries USING btree (user_id, created_at DESC);
+
+CREATE POLICY "Moderators can view rejected submissions" ON public.rejected_submissions FOR SELECT USING ((EXISTS ( SELECT 1
+   FROM public.moderators
+  WHERE (moderators.user_id = auth.uid()))));
+
+CREATE POLICY "Moderators can review rejected submissions" ON public.rejected_submissions FOR UPDATE USING ((EXISTS ( SELECT 1
+   FROM public.moderators
+  WHERE (moderators.user_id = auth.uid()))));
+
+ALTER TABLE public.rejected_submissions ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,135 @@
+-- Persistent power-up inventory and pre-run SSC loadouts (see src/lib/loadout.ts).
+-- The inventory is only written by security definer functions: start_loadout
+-- spends power-ups when a run starts, and submit-score banks what a verified
+-- run still held at the end through bank_power_ups.
+
+CREATE TABLE public.power_up_inventory (
+    user_id uuid NOT NULL,
+    power_up_id text NOT NULL,
+    quantity integer DEFAULT 0 NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT power_up_inventory_quantity_check CHECK ((quantity >= 0))
+);
+
+ALTER TABLE ONLY public.power_up_inventory
+    ADD CONSTRAINT power_up_inventory_pkey PRIMARY KEY (user_id, power_up_id);
+
+ALTER TABLE ONLY public.power_up_inventory
+    ADD CONSTRAINT power_up_inventory_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE POLICY "Users can view own inventory" ON public.power_up_inventory FOR SELECT USING ((auth.uid() = user_id));
+
+ALTER TABLE public.power_up_inventory ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: loadout_runs; Type: TABLE; Schema: public; Owner: -
+-- One row per run started with a loadout. The replay carries its id; submit-score
+-- accepts each loadout for one leaderboard entry only.
+--
+
+CREATE TABLE public.loadout_runs (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    power_up_ids text[] NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    submitted_at timestamp with time zone
+);
+
+ALTER TABLE ONLY public.loadout_runs
+    ADD CONSTRAINT loadout_runs_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.loadout_runs
+    ADD CONSTRAINT loadout_runs_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE POLICY "Users can view own loadout runs" ON public.loadout_runs FOR SELECT USING ((auth.uid() = user_id));
+
+ALTER TABLE public.loadout_runs ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: start_loadout(text[]); Type: FUNCTION; Schema: public; Owner: -
+-- Spends the picked power-ups and returns the loadout id. One slot, plus one
+-- for each loadout_slot unlockable, up to three.
+--
+
+CREATE FUNCTION public.start_loadout(p_power_up_ids text[]) RETURNS uuid
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_slots integer;
+  v_pick record;
+  v_loadout_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF coalesce(array_length(p_power_up_ids, 1), 0) = 0 THEN
+    RAISE EXCEPTION 'Empty loadout';
+  END IF;
+
+  SELECT least(1 + count(*), 3) INTO v_slots
+  FROM public.user_unlocks uu
+  JOIN public.unlockables u ON u.id = uu.unlockable_id
+  WHERE uu.user_id = v_user_id AND u.type = 'loadout_slot';
+
+  IF array_length(p_power_up_ids, 1) > v_slots THEN
+    RAISE EXCEPTION 'Only % loadout slots unlocked', v_slots;
+  END IF;
+
+  FOR v_pick IN
+    SELECT id, count(*)::integer AS needed FROM unnest(p_power_up_ids) AS id GROUP BY id
+  LOOP
+    UPDATE public.power_up_inventory
+    SET quantity = quantity - v_pick.needed, updated_at = now()
+    WHERE user_id = v_user_id AND power_up_id = v_pick.id AND quantity >= v_pick.needed;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Not enough % in inventory', v_pick.id;
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.loadout_runs (user_id, power_up_ids)
+  VALUES (v_user_id, p_power_up_ids)
+  RETURNING id INTO v_loadout_id;
+
+  RETURN v_loadout_id;
+END;
+$$;
+
+
+--
+-- Name: bank_power_ups(uuid, text[]); Type: FUNCTION; Schema: public; Owner: -
+-- Adds power-ups to a player's inventory, 99 of each at most. Service role only.
+--
+
+CREATE FUNCTION public.bank_power_ups(p_user_id uuid, p_power_up_ids text[]) RETURNS void
+    LANGUAGE sql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  INSERT INTO public.power_up_inventory (user_id, power_up_id, quantity)
+  SELECT p_user_id, id, least(count(*), 99)::integer FROM unnest(p_power_up_ids) AS id GROUP BY id
+  ON CONFLICT (user_id, power_up_id)
+  DO UPDATE SET quantity = least(power_up_inventory.quantity + excluded.quantity, 99), updated_at = now();
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.bank_power_ups(uuid, text[]) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.bank_power_ups(uuid, text[]) TO service_role;
+
+
+--
+-- Loadout slots unlock through achievements (granted client-side like card backs)
+--
+
+INSERT INTO public.unlockables (id, name, type, unlock_method, unlock_requirement) VALUES
+    ('loadout_slot_2', 'Second Loadout Slot', 'loadout_slot', 'achievement', 'loadout_2'),
+    ('loadout_slot_3', 'Third Loadout Slot', 'loadout_slot', 'achievement', 'loadout_3')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.achievements (id, name, description, icon, category, requirement_type, requirement_value, reward_type, reward_id) VALUES
+    ('loadout_2', 'Packed Bag', 'Play 25 games - unlocks a second loadout slot', '🎒', 'games', 'games_played', 25, 'loadout_slot', 'loadout_slot_2'),
+    ('loadout_3', 'Full Arsenal', 'Score 15,000 in one game - unlocks a third loadout slot', '🧰', 'special', 'score', 15000, 'loadout_slot', 'loadout_slot_3')
+ON CONFLICT (id) DO NOTHING;
@@ -0,0 +1,155 @@
+-- Daily reward wheel items that last beyond the spin: streak shields and 2x
+-- points games are kept in reward_inventory until used, and mystery rewards
+-- are resolved here rather than by the client.
+
+CREATE TABLE public.reward_inventory (
+    user_id uuid NOT NULL,
+    reward_type text NOT NULL,
+    quantity integer DEFAULT 0 NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT reward_inventory_quantity_check CHECK ((quantity >= 0)),
+    CONSTRAINT reward_inventory_reward_type_check CHECK ((reward_type = ANY (ARRAY['streak_shield'::text, 'double_xp'::text])))
+);
+
+ALTER TABLE ONLY public.reward_inventory
+    ADD CONSTRAINT reward_inventory_pkey PRIMARY KEY (user_id, reward_type);
+
+ALTER TABLE ONLY public.reward_inventory
+    ADD CONSTRAINT reward_inventory_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE POLICY "Users can view own reward inventory" ON public.reward_inventory FOR SELECT USING ((auth.uid() = user_id));
+
+ALTER TABLE public.reward_inventory ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Mystery spins are stored as the reward they turned into, flagged so the
+-- wheel can still say it was a mystery.
+--
+
+ALTER TABLE public.daily_rewards ADD COLUMN mystery boolean DEFAULT false NOT NULL;
+
+
+--
+-- Leaderboard rows record the multiplier a 2x points game applied, so the
+-- stored score can still be matched against its replay.
+--
+
+ALTER TABLE public.leaderboard_entries ADD COLUMN score_multiplier smallint DEFAULT 1 NOT NULL;
+
+
+--
+-- Name: resolve_daily_reward(); Type: FUNCTION; Schema: public; Owner: -
+-- Turns a mystery spin into a concrete reward before it is stored.
+--
+
+CREATE FUNCTION public.resolve_daily_reward() RETURNS trigger
+    LANGUAGE plpgsql
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_roll double precision;
+BEGIN
+  IF NEW.reward_type <> 'mystery' THEN
+    RETURN NEW;
+  END IF;
+
+  v_roll := random();
+  NEW.mystery := true;
+
+  IF v_roll < 0.35 THEN
+    NEW.reward_type := 'bonus_points';
+    NEW.reward_value := '5000';
+  ELSIF v_roll < 0.55 THEN
+    NEW.reward_type := 'streak_shield';
+    NEW.reward_value := '3';
+  ELSIF v_roll < 0.75 THEN
+    NEW.reward_type := 'double_xp';
+    NEW.reward_value := '2';
+  ELSE
+    -- A rare power-up for the pre-run loadout inventory
+    NEW.reward_type := 'power_up';
+    NEW.reward_value := (ARRAY['four_kind', 'straight_flush', 'royal_flush'])[1 + floor(random() * 3)::integer];
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER resolve_daily_reward BEFORE INSERT ON public.daily_rewards FOR EACH ROW EXECUTE FUNCTION public.resolve_daily_reward();
+
+
+--
+-- Name: grant_daily_reward(); Type: FUNCTION; Schema: public; Owner: -
+-- Credits inventory items once the claim is stored (the one-per-day constraint has passed).
+--
+
+CREATE FUNCTION public.grant_daily_reward() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF NEW.reward_type IN ('streak_shield', 'double_xp') THEN
+    INSERT INTO public.reward_inventory (user_id, reward_type, quantity)
+    VALUES (NEW.user_id, NEW.reward_type, NEW.reward_value::integer)
+    ON CONFLICT (user_id, reward_type)
+    DO UPDATE SET quantity = reward_inventory.quantity + excluded.quantity, updated_at = now();
+  ELSIF NEW.reward_type = 'power_up' THEN
+    PERFORM public.bank_power_ups(NEW.user_id, ARRAY[NEW.reward_value]);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER grant_daily_reward AFTER INSERT ON public.daily_rewards FOR EACH ROW EXECUTE FUNCTION public.grant_daily_reward();
+
+-- The trigger mints inventory from each stored claim, so clients can no longer
+-- insert claims themselves; claim_daily_reward (20261020120000) spins for them
+DROP POLICY "Users can insert own rewards" ON public.daily_rewards;
+
+
+--
+-- Name: use_streak_shields(integer); Type: FUNCTION; Schema: public; Owner: -
+-- Spends one shield per missed day. Returns false (and spends nothing) when
+-- the player doesn't hold enough.
+--
+
+CREATE FUNCTION public.use_streak_shields(p_missed_days integer) RETURNS boolean
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF auth.uid() IS NULL OR p_missed_days < 1 THEN
+    RETURN false;
+  END IF;
+
+  UPDATE public.reward_inventory
+  SET quantity = quantity - p_missed_days, updated_at = now()
+  WHERE user_id = auth.uid() AND reward_type = 'streak_shield' AND quantity >= p_missed_days;
+
+  RETURN FOUND;
+END;
+$$;
+
+
+--
+-- Name: use_double_points(uuid); Type: FUNCTION; Schema: public; Owner: -
+-- Spends one 2x points game. Called by submit-score only.
+--
+
+CREATE FUNCTION public.use_double_points(p_user_id uuid) RETURNS boolean
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  UPDATE public.reward_inventory
+  SET quantity = quantity - 1, updated_at = now()
+  WHERE user_id = p_user_id AND reward_type = 'double_xp' AND quantity > 0;
+
+  RETURN FOUND;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.use_double_points(uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.use_double_points(uuid) TO service_role;
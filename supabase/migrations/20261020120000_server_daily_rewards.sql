@@ -0,0 +1,207 @@
+-- Daily reward spins and daily challenges are decided in the database, on
+-- server time, in the player's stored timezone. Clients can no longer insert
+-- either table directly, so changing the device clock or calling the API by
+-- hand gets nothing extra.
+
+--
+-- Name: user_timezones; Type: TABLE; Schema: public; Owner: -
+-- Kept out of profiles, which anyone can read. Only set_timezone writes it.
+--
+
+CREATE TABLE public.user_timezones (
+    user_id uuid NOT NULL,
+    timezone text DEFAULT 'UTC'::text NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.user_timezones
+    ADD CONSTRAINT user_timezones_pkey PRIMARY KEY (user_id);
+
+ALTER TABLE ONLY public.user_timezones
+    ADD CONSTRAINT user_timezones_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE POLICY "Users can view own timezone" ON public.user_timezones FOR SELECT USING ((auth.uid() = user_id));
+
+ALTER TABLE public.user_timezones ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: set_timezone(text); Type: FUNCTION; Schema: public; Owner: -
+-- Stores the browser's IANA timezone. Changes are limited to one a week so
+-- hopping timezones can't open extra reward windows. Returns the timezone in use.
+--
+
+CREATE FUNCTION public.set_timezone(p_timezone text) RETURNS text
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_current public.user_timezones%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_current FROM public.user_timezones WHERE user_id = v_user_id;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone) THEN
+    RETURN coalesce(v_current.timezone, 'UTC');
+  END IF;
+
+  IF v_current.user_id IS NULL THEN
+    INSERT INTO public.user_timezones (user_id, timezone) VALUES (v_user_id, p_timezone);
+    RETURN p_timezone;
+  END IF;
+
+  IF v_current.timezone <> p_timezone AND v_current.updated_at < now() - interval '7 days' THEN
+    UPDATE public.user_timezones SET timezone = p_timezone, updated_at = now() WHERE user_id = v_user_id;
+    RETURN p_timezone;
+  END IF;
+
+  RETURN v_current.timezone;
+END;
+$$;
+
+
+--
+-- Name: user_day_start(uuid); Type: FUNCTION; Schema: public; Owner: -
+-- Midnight at the start of the player's current day, in their stored timezone (UTC by default).
+--
+
+CREATE FUNCTION public.user_day_start(p_user_id uuid) RETURNS timestamp with time zone
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  SELECT date_trunc('day', now() AT TIME ZONE tz) AT TIME ZONE tz
+  FROM (SELECT coalesce((SELECT timezone FROM public.user_timezones WHERE user_id = p_user_id), 'UTC') AS tz) AS t;
+$$;
+
+
+--
+-- Name: daily_reward_status(); Type: FUNCTION; Schema: public; Owner: -
+-- A new spin opens at the player's local midnight, as long as the last one
+-- was claimed before that midnight. server_time lets the client correct its
+-- countdown for a wrong device clock.
+--
+
+CREATE FUNCTION public.daily_reward_status() RETURNS TABLE(can_claim boolean, next_claim_at timestamp with time zone, server_time timestamp with time zone)
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  SELECT
+    last_claim IS NULL OR last_claim < day_start,
+    CASE WHEN last_claim IS NULL OR last_claim < day_start THEN now() ELSE day_start + interval '1 day' END,
+    now()
+  FROM (
+    SELECT
+      public.user_day_start(auth.uid()) AS day_start,
+      (SELECT max(created_at) FROM public.daily_rewards WHERE user_id = auth.uid()) AS last_claim
+  ) AS s
+  WHERE auth.uid() IS NOT NULL;
+$$;
+
+
+--
+-- Name: claim_daily_reward(); Type: FUNCTION; Schema: public; Owner: -
+-- Spins the wheel. The weights match REWARD_OPTIONS in src/hooks/useRetention.ts;
+-- mystery spins are resolved and items credited by the daily_rewards triggers.
+--
+
+-- Already dropped with the grant_daily_reward trigger (20261020090000)
+DROP POLICY IF EXISTS "Users can insert own rewards" ON public.daily_rewards;
+
+CREATE FUNCTION public.claim_daily_reward() RETURNS public.daily_rewards
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_day_start timestamp with time zone;
+  v_roll integer;
+  v_type text;
+  v_value text;
+  v_reward public.daily_rewards;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  -- One claim at a time per player, so two requests can't both pass the check
+  PERFORM pg_advisory_xact_lock(hashtext('daily_reward:' || v_user_id::text));
+
+  v_day_start := public.user_day_start(v_user_id);
+  IF EXISTS (SELECT 1 FROM public.daily_rewards WHERE user_id = v_user_id AND created_at >= v_day_start) THEN
+    RAISE EXCEPTION 'Daily reward already claimed';
+  END IF;
+
+  v_roll := floor(random() * 100)::integer;
+  IF v_roll < 30 THEN
+    v_type := 'bonus_points'; v_value := '500';
+  ELSIF v_roll < 50 THEN
+    v_type := 'bonus_points'; v_value := '1000';
+  ELSIF v_roll < 60 THEN
+    v_type := 'bonus_points'; v_value := '2500';
+  ELSIF v_roll < 75 THEN
+    v_type := 'streak_shield'; v_value := '1';
+  ELSIF v_roll < 90 THEN
+    v_type := 'double_xp'; v_value := '1';
+  ELSE
+    v_type := 'mystery'; v_value := 'mystery';
+  END IF;
+
+  -- claim_date is the player's local day; its unique constraint backs up the check above
+  INSERT INTO public.daily_rewards (user_id, claim_date, reward_type, reward_value)
+  VALUES (v_user_id, (v_day_start AT TIME ZONE coalesce((SELECT timezone FROM public.user_timezones WHERE user_id = v_user_id), 'UTC'))::date, v_type, v_value)
+  RETURNING * INTO v_reward;
+
+  RETURN v_reward;
+END;
+$$;
+
+
+--
+-- Name: get_daily_challenges(); Type: FUNCTION; Schema: public; Owner: -
+-- Today's challenges for the player's local day, rolling three on the first
+-- call of the day. Targets match CHALLENGE_TEMPLATES in src/hooks/useRetention.ts.
+-- Progress is still written by the client through the update policy.
+--
+
+DROP POLICY "Users can insert own challenges" ON public.daily_challenges;
+
+CREATE FUNCTION public.get_daily_challenges() RETURNS SETOF public.daily_challenges
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_today date;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('daily_challenges:' || v_user_id::text));
+
+  v_today := (now() AT TIME ZONE coalesce((SELECT timezone FROM public.user_timezones WHERE user_id = v_user_id), 'UTC'))::date;
+
+  IF NOT EXISTS (SELECT 1 FROM public.daily_challenges WHERE user_id = v_user_id AND challenge_date = v_today) THEN
+    INSERT INTO public.daily_challenges (user_id, challenge_date, challenge_type, target_value)
+    SELECT v_user_id, v_today, t.challenge_type, t.target_value
+    FROM (VALUES
+      ('play_games', 3),
+      ('make_flush', 2),
+      ('make_straight', 2),
+      ('score_target', 3000),
+      ('make_full_house', 1)
+    ) AS t(challenge_type, target_value)
+    ORDER BY random()
+    LIMIT 3;
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM public.daily_challenges
+  WHERE user_id = v_user_id AND challenge_date = v_today
+  ORDER BY created_at;
+END;
+$$;
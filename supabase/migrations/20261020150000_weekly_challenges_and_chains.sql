@@ -0,0 +1,224 @@
+-- Weekly challenges and multi-step challenge chains, tracked in daily_challenges
+-- next to the daily ones. Weekly challenges and chain steps carry their own
+-- reward, claimed through claim_challenge_reward. challenge_type names the
+-- progress counter (see updateChallengeProgress in src/hooks/useRetention.ts).
+
+ALTER TABLE public.daily_challenges ADD COLUMN period text DEFAULT 'daily'::text NOT NULL;
+ALTER TABLE public.daily_challenges ADD COLUMN chain_id text;
+ALTER TABLE public.daily_challenges ADD COLUMN chain_step integer;
+ALTER TABLE public.daily_challenges ADD COLUMN reward_type text;
+ALTER TABLE public.daily_challenges ADD COLUMN reward_value text;
+
+ALTER TABLE ONLY public.daily_challenges
+    ADD CONSTRAINT daily_challenges_period_check CHECK ((period = ANY (ARRAY['daily'::text, 'weekly'::text, 'chain'::text])));
+
+ALTER TABLE ONLY public.daily_challenges
+    ADD CONSTRAINT daily_challenges_chain_check CHECK (((period = 'chain'::text) = (chain_id IS NOT NULL AND chain_step IS NOT NULL)));
+
+-- challenge_date is the day (daily), the Monday (weekly) or the day the step was reached (chain)
+ALTER TABLE ONLY public.daily_challenges
+    DROP CONSTRAINT daily_challenges_user_id_challenge_date_challenge_type_key;
+
+CREATE UNIQUE INDEX daily_challenges_user_period_date_type_key ON public.daily_challenges USING btree (user_id, period, challenge_date, challenge_type) WHERE (period <> 'chain'::text);
+
+CREATE UNIQUE INDEX daily_challenges_user_chain_step_key ON public.daily_challenges USING btree (user_id, chain_id, chain_step) WHERE (period = 'chain'::text);
+
+-- Clients still report progress, but rewards, targets and the claimed flag are
+-- only changed by the functions below
+REVOKE UPDATE ON public.daily_challenges FROM anon, authenticated;
+GRANT UPDATE (current_value, completed) ON public.daily_challenges TO authenticated;
+
+
+--
+-- Name: challenge_chain_steps; Type: TABLE; Schema: public; Owner: -
+-- Chains are played in chain_order; finishing a step unlocks the next one.
+--
+
+CREATE TABLE public.challenge_chain_steps (
+    chain_id text NOT NULL,
+    step integer NOT NULL,
+    chain_order integer NOT NULL,
+    challenge_type text NOT NULL,
+    target_value integer NOT NULL,
+    reward_type text NOT NULL,
+    reward_value text NOT NULL
+);
+
+ALTER TABLE ONLY public.challenge_chain_steps
+    ADD CONSTRAINT challenge_chain_steps_pkey PRIMARY KEY (chain_id, step);
+
+CREATE POLICY "Anyone can view challenge chain steps" ON public.challenge_chain_steps FOR SELECT USING (true);
+
+ALTER TABLE public.challenge_chain_steps ENABLE ROW LEVEL SECURITY;
+
+INSERT INTO public.challenge_chain_steps (chain_id, step, chain_order, challenge_type, target_value, reward_type, reward_value) VALUES
+    ('road_to_royalty', 1, 1, 'make_straight', 5, 'streak_shield', '1'),
+    ('road_to_royalty', 2, 1, 'make_flush', 5, 'power_up', 'flush'),
+    ('road_to_royalty', 3, 1, 'make_full_house', 3, 'double_xp', '1'),
+    ('road_to_royalty', 4, 1, 'reach_ssc_level', 12, 'power_up', 'royal_flush'),
+    ('marathon', 1, 2, 'play_games', 10, 'streak_shield', '1'),
+    ('marathon', 2, 2, 'score_total', 25000, 'double_xp', '1'),
+    ('marathon', 3, 2, 'reach_ssc_level', 15, 'power_up', 'straight_flush');
+
+
+--
+-- Name: grant_reward_item(uuid, text, text); Type: FUNCTION; Schema: public; Owner: -
+-- Credits a reward that lasts beyond the moment it's won: streak shields and
+-- 2x points games to reward_inventory, power-ups to the loadout inventory.
+--
+
+CREATE FUNCTION public.grant_reward_item(p_user_id uuid, p_reward_type text, p_reward_value text) RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF p_reward_type IN ('streak_shield', 'double_xp') THEN
+    INSERT INTO public.reward_inventory (user_id, reward_type, quantity)
+    VALUES (p_user_id, p_reward_type, p_reward_value::integer)
+    ON CONFLICT (user_id, reward_type)
+    DO UPDATE SET quantity = reward_inventory.quantity + excluded.quantity, updated_at = now();
+  ELSIF p_reward_type = 'power_up' THEN
+    PERFORM public.bank_power_ups(p_user_id, ARRAY[p_reward_value]);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.grant_reward_item(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.grant_daily_reward() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  PERFORM public.grant_reward_item(NEW.user_id, NEW.reward_type, NEW.reward_value);
+  RETURN NEW;
+END;
+$$;
+
+
+--
+-- Name: get_challenges(); Type: FUNCTION; Schema: public; Owner: -
+-- Replaces get_daily_challenges. Returns today's daily challenges, this week's
+-- weekly ones (weeks start on Monday in the player's timezone) and the steps
+-- of chains whose rewards aren't all claimed, adding whatever is due:
+-- 3 dailies, 2 weeklies, and the next chain step once the last is complete.
+-- Daily targets match CHALLENGE_TYPES in src/hooks/useRetention.ts.
+--
+
+DROP FUNCTION public.get_daily_challenges();
+
+CREATE FUNCTION public.get_challenges() RETURNS SETOF public.daily_challenges
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_today date;
+  v_week_start date;
+  v_last public.daily_challenges;
+  v_next public.challenge_chain_steps;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM pg_advisory_xact_lock(hashtext('daily_challenges:' || v_user_id::text));
+
+  v_today := (now() AT TIME ZONE coalesce((SELECT timezone FROM public.user_timezones WHERE user_id = v_user_id), 'UTC'))::date;
+  v_week_start := date_trunc('week', v_today)::date;
+
+  IF NOT EXISTS (SELECT 1 FROM public.daily_challenges WHERE user_id = v_user_id AND period = 'daily' AND challenge_date = v_today) THEN
+    INSERT INTO public.daily_challenges (user_id, challenge_date, challenge_type, target_value)
+    SELECT v_user_id, v_today, t.challenge_type, t.target_value
+    FROM (VALUES
+      ('play_games', 3),
+      ('make_flush', 2),
+      ('make_straight', 2),
+      ('score_target', 3000),
+      ('make_full_house', 1)
+    ) AS t(challenge_type, target_value)
+    ORDER BY random()
+    LIMIT 3;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.daily_challenges WHERE user_id = v_user_id AND period = 'weekly' AND challenge_date = v_week_start) THEN
+    INSERT INTO public.daily_challenges (user_id, period, challenge_date, challenge_type, target_value, reward_type, reward_value)
+    SELECT v_user_id, 'weekly', v_week_start, t.challenge_type, t.target_value, t.reward_type, t.reward_value
+    FROM (VALUES
+      ('reach_ssc_level', 15, 'power_up', 'four_kind'),
+      ('make_full_house', 10, 'double_xp', '1'),
+      ('make_flush', 15, 'streak_shield', '1'),
+      ('play_games', 20, 'streak_shield', '2'),
+      ('score_total', 50000, 'double_xp', '2')
+    ) AS t(challenge_type, target_value, reward_type, reward_value)
+    ORDER BY random()
+    LIMIT 2;
+  END IF;
+
+  SELECT * INTO v_last FROM public.daily_challenges
+  WHERE user_id = v_user_id AND period = 'chain'
+  ORDER BY created_at DESC
+  LIMIT 1;
+
+  IF v_last.id IS NULL THEN
+    SELECT * INTO v_next FROM public.challenge_chain_steps WHERE step = 1 ORDER BY chain_order LIMIT 1;
+  ELSIF v_last.completed THEN
+    SELECT * INTO v_next FROM public.challenge_chain_steps WHERE chain_id = v_last.chain_id AND step = v_last.chain_step + 1;
+    IF v_next.chain_id IS NULL THEN
+      SELECT * INTO v_next FROM public.challenge_chain_steps
+      WHERE step = 1 AND chain_order > (SELECT chain_order FROM public.challenge_chain_steps WHERE chain_id = v_last.chain_id AND step = 1)
+      ORDER BY chain_order
+      LIMIT 1;
+    END IF;
+  END IF;
+
+  IF v_next.chain_id IS NOT NULL THEN
+    INSERT INTO public.daily_challenges (user_id, period, challenge_date, challenge_type, target_value, chain_id, chain_step, reward_type, reward_value)
+    VALUES (v_user_id, 'chain', v_today, v_next.challenge_type, v_next.target_value, v_next.chain_id, v_next.step, v_next.reward_type, v_next.reward_value);
+  END IF;
+
+  RETURN QUERY
+  SELECT c.* FROM public.daily_challenges c
+  WHERE c.user_id = v_user_id
+    AND (
+      (c.period = 'daily' AND c.challenge_date = v_today)
+      OR (c.period = 'weekly' AND c.challenge_date = v_week_start)
+      OR (c.period = 'chain' AND EXISTS (
+        SELECT 1 FROM public.daily_challenges u
+        WHERE u.user_id = v_user_id AND u.chain_id = c.chain_id AND NOT u.reward_claimed
+      ))
+    )
+  ORDER BY c.period, c.chain_step, c.created_at;
+END;
+$$;
+
+
+--
+-- Name: claim_challenge_reward(uuid); Type: FUNCTION; Schema: public; Owner: -
+-- Pays out a completed weekly challenge or chain step, once.
+--
+
+CREATE FUNCTION public.claim_challenge_reward(p_challenge_id uuid) RETURNS public.daily_challenges
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_challenge public.daily_challenges;
+BEGIN
+  UPDATE public.daily_challenges
+  SET reward_claimed = true
+  WHERE id = p_challenge_id
+    AND user_id = auth.uid()
+    AND completed
+    AND NOT reward_claimed
+    AND reward_type IS NOT NULL
+  RETURNING * INTO v_challenge;
+
+  IF v_challenge.id IS NULL THEN
+    RAISE EXCEPTION 'Challenge reward not available';
+  END IF;
+
+  PERFORM public.grant_reward_item(v_challenge.user_id, v_challenge.reward_type, v_challenge.reward_value);
+  RETURN v_challenge;
+END;
+$$;
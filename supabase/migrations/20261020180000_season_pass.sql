@@ -0,0 +1,269 @@
+-- Season pass: games and challenges earn XP for the current season, and XP
+-- unlocks tiers on a free track and a premium track (see src/lib/seasonPass.ts).
+-- Progress is per season, so it starts again from zero when a new season opens.
+
+--
+-- Name: seasons; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.seasons (
+    id text NOT NULL,
+    name text NOT NULL,
+    starts_at timestamp with time zone NOT NULL,
+    ends_at timestamp with time zone NOT NULL,
+    CONSTRAINT seasons_dates_check CHECK ((ends_at > starts_at))
+);
+
+ALTER TABLE ONLY public.seasons
+    ADD CONSTRAINT seasons_pkey PRIMARY KEY (id);
+
+CREATE POLICY "Anyone can view seasons" ON public.seasons FOR SELECT USING (true);
+
+ALTER TABLE public.seasons ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: season_tiers; Type: TABLE; Schema: public; Owner: -
+-- reward_type: card_back | theme (unlockables ids), power_up, streak_shield | double_xp
+--
+
+CREATE TABLE public.season_tiers (
+    season_id text NOT NULL,
+    tier integer NOT NULL,
+    track text NOT NULL,
+    xp_required integer NOT NULL,
+    reward_type text NOT NULL,
+    reward_value text NOT NULL,
+    CONSTRAINT season_tiers_track_check CHECK ((track = ANY (ARRAY['free'::text, 'premium'::text])))
+);
+
+ALTER TABLE ONLY public.season_tiers
+    ADD CONSTRAINT season_tiers_pkey PRIMARY KEY (season_id, tier, track);
+
+ALTER TABLE ONLY public.season_tiers
+    ADD CONSTRAINT season_tiers_season_id_fkey FOREIGN KEY (season_id) REFERENCES public.seasons(id) ON DELETE CASCADE;
+
+CREATE POLICY "Anyone can view season tiers" ON public.season_tiers FOR SELECT USING (true);
+
+ALTER TABLE public.season_tiers ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: season_progress; Type: TABLE; Schema: public; Owner: -
+-- Written only by add_season_xp.
+--
+
+CREATE TABLE public.season_progress (
+    user_id uuid NOT NULL,
+    season_id text NOT NULL,
+    xp integer DEFAULT 0 NOT NULL,
+    updated_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.season_progress
+    ADD CONSTRAINT season_progress_pkey PRIMARY KEY (user_id, season_id);
+
+ALTER TABLE ONLY public.season_progress
+    ADD CONSTRAINT season_progress_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.season_progress
+    ADD CONSTRAINT season_progress_season_id_fkey FOREIGN KEY (season_id) REFERENCES public.seasons(id) ON DELETE CASCADE;
+
+CREATE POLICY "Users can view own season progress" ON public.season_progress FOR SELECT USING ((auth.uid() = user_id));
+
+ALTER TABLE public.season_progress ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: season_claims; Type: TABLE; Schema: public; Owner: -
+--
+
+CREATE TABLE public.season_claims (
+    user_id uuid NOT NULL,
+    season_id text NOT NULL,
+    tier integer NOT NULL,
+    track text NOT NULL,
+    claimed_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.season_claims
+    ADD CONSTRAINT season_claims_pkey PRIMARY KEY (user_id, season_id, tier, track);
+
+ALTER TABLE ONLY public.season_claims
+    ADD CONSTRAINT season_claims_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.season_claims
+    ADD CONSTRAINT season_claims_tier_fkey FOREIGN KEY (season_id, tier, track) REFERENCES public.season_tiers(season_id, tier, track) ON DELETE CASCADE;
+
+CREATE POLICY "Users can view own season claims" ON public.season_claims FOR SELECT USING ((auth.uid() = user_id));
+
+ALTER TABLE public.season_claims ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: premium_status; Type: TABLE; Schema: public; Owner: -
+-- Last Stripe result from check-subscription, so database functions can
+-- check premium without calling Stripe. Written by the edge function only.
+--
+
+CREATE TABLE public.premium_status (
+    user_id uuid NOT NULL,
+    is_premium boolean DEFAULT false NOT NULL,
+    checked_at timestamp with time zone DEFAULT now() NOT NULL
+);
+
+ALTER TABLE ONLY public.premium_status
+    ADD CONSTRAINT premium_status_pkey PRIMARY KEY (user_id);
+
+ALTER TABLE ONLY public.premium_status
+    ADD CONSTRAINT premium_status_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE POLICY "Users can view own premium status" ON public.premium_status FOR SELECT USING ((auth.uid() = user_id));
+
+ALTER TABLE public.premium_status ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: add_season_xp(uuid, integer); Type: FUNCTION; Schema: public; Owner: -
+-- Adds XP to the season running now and returns the XP added, which is 0
+-- between seasons. Called by submit-score and the challenge completion trigger.
+--
+
+CREATE FUNCTION public.add_season_xp(p_user_id uuid, p_xp integer) RETURNS integer
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_season_id text;
+BEGIN
+  SELECT id INTO v_season_id FROM public.seasons WHERE now() >= starts_at AND now() < ends_at;
+  IF v_season_id IS NULL OR p_xp <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.season_progress (user_id, season_id, xp)
+  VALUES (p_user_id, v_season_id, p_xp)
+  ON CONFLICT (user_id, season_id)
+  DO UPDATE SET xp = season_progress.xp + excluded.xp, updated_at = now();
+
+  RETURN p_xp;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_season_xp(uuid, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_season_xp(uuid, integer) TO service_role;
+
+
+--
+-- Name: complete_challenge(); Type: FUNCTION; Schema: public; Owner: -
+-- A completed challenge stays completed, and completing one earns season XP
+-- (CHALLENGE_XP in src/lib/seasonPass.ts).
+--
+
+CREATE FUNCTION public.complete_challenge() RETURNS trigger
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  IF OLD.completed THEN
+    NEW.completed := true;
+  ELSIF NEW.completed THEN
+    PERFORM public.add_season_xp(NEW.user_id, CASE NEW.period WHEN 'weekly' THEN 300 WHEN 'chain' THEN 200 ELSE 100 END);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER complete_challenge BEFORE UPDATE ON public.daily_challenges FOR EACH ROW EXECUTE FUNCTION public.complete_challenge();
+
+
+--
+-- Name: claim_season_reward(integer, text); Type: FUNCTION; Schema: public; Owner: -
+-- Pays out a tier of the current season once its XP is reached. The premium
+-- track needs a premium check from the last day.
+--
+
+CREATE FUNCTION public.claim_season_reward(p_tier integer, p_track text) RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_season_id text;
+  v_reward public.season_tiers;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT id INTO v_season_id FROM public.seasons WHERE now() >= starts_at AND now() < ends_at;
+  IF v_season_id IS NULL THEN
+    RAISE EXCEPTION 'No season running';
+  END IF;
+
+  SELECT * INTO v_reward FROM public.season_tiers WHERE season_id = v_season_id AND tier = p_tier AND track = p_track;
+  IF v_reward.season_id IS NULL THEN
+    RAISE EXCEPTION 'Unknown tier';
+  END IF;
+
+  IF coalesce((SELECT xp FROM public.season_progress WHERE user_id = v_user_id AND season_id = v_season_id), 0) < v_reward.xp_required THEN
+    RAISE EXCEPTION 'Tier not reached';
+  END IF;
+
+  IF p_track = 'premium' AND NOT EXISTS (
+    SELECT 1 FROM public.premium_status
+    WHERE user_id = v_user_id AND is_premium AND checked_at > now() - interval '1 day'
+  ) THEN
+    RAISE EXCEPTION 'Premium track requires premium';
+  END IF;
+
+  -- The primary key turns a second claim into an error
+  INSERT INTO public.season_claims (user_id, season_id, tier, track) VALUES (v_user_id, v_season_id, p_tier, p_track);
+
+  IF v_reward.reward_type IN ('card_back', 'theme') THEN
+    INSERT INTO public.user_unlocks (user_id, unlockable_id) VALUES (v_user_id, v_reward.reward_value)
+    ON CONFLICT (user_id, unlockable_id) DO NOTHING;
+  ELSE
+    PERFORM public.grant_reward_item(v_user_id, v_reward.reward_type, v_reward.reward_value);
+  END IF;
+END;
+$$;
+
+
+--
+-- Season 1 and its rewards
+--
+
+INSERT INTO public.unlockables (id, name, type, unlock_method, unlock_requirement) VALUES
+    ('back_season1_bronze', 'Season 1 Bronze', 'card_back', 'season_pass', 'season_1'),
+    ('back_season1_gold', 'Season 1 Gold', 'card_back', 'season_pass', 'season_1'),
+    ('back_season1_neon', 'Season 1 Neon', 'card_back', 'season_pass', 'season_1'),
+    ('back_season1_royal', 'Season 1 Royal', 'card_back', 'season_pass', 'season_1'),
+    ('theme_crimson', 'Crimson Theme', 'theme', 'season_pass', 'season_1')
+ON CONFLICT (id) DO NOTHING;
+
+INSERT INTO public.seasons (id, name, starts_at, ends_at) VALUES
+    ('season_1', 'Season 1: High Rollers', '2026-10-01 00:00:00+00', '2027-01-01 00:00:00+00');
+
+INSERT INTO public.season_tiers (season_id, tier, track, xp_required, reward_type, reward_value) VALUES
+    ('season_1', 1, 'free', 500, 'power_up', 'add_time'),
+    ('season_1', 2, 'free', 1000, 'streak_shield', '1'),
+    ('season_1', 3, 'free', 1500, 'power_up', 'x_ray'),
+    ('season_1', 4, 'free', 2000, 'card_back', 'back_season1_bronze'),
+    ('season_1', 5, 'free', 2500, 'double_xp', '1'),
+    ('season_1', 6, 'free', 3000, 'power_up', 'freeze_time'),
+    ('season_1', 7, 'free', 3500, 'streak_shield', '2'),
+    ('season_1', 8, 'free', 4000, 'power_up', 'four_kind'),
+    ('season_1', 9, 'free', 4500, 'double_xp', '2'),
+    ('season_1', 10, 'free', 5000, 'card_back', 'back_season1_gold'),
+    ('season_1', 1, 'premium', 500, 'double_xp', '1'),
+    ('season_1', 2, 'premium', 1000, 'power_up', 'flush'),
+    ('season_1', 3, 'premium', 1500, 'theme', 'theme_crimson'),
+    ('season_1', 4, 'premium', 2000, 'power_up', 'full_house'),
+    ('season_1', 5, 'premium', 2500, 'streak_shield', '2'),
+    ('season_1', 6, 'premium', 3000, 'card_back', 'back_season1_neon'),
+    ('season_1', 7, 'premium', 3500, 'power_up', 'straight_flush'),
+    ('season_1', 8, 'premium', 4000, 'double_xp', '2'),
+    ('season_1', 9, 'premium', 4500, 'power_up', 'royal_flush'),
+    ('season_1', 10, 'premium', 5000, 'card_back', 'back_season1_royal');
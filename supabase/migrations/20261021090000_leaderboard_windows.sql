@@ -0,0 +1,44 @@
+-- Daily, weekly and all-time leaderboards. Windows follow UTC: the day starts
+-- at midnight and the week on Monday (see src/lib/leaderboardWindows.ts).
+
+CREATE INDEX idx_leaderboard_created_at ON public.leaderboard_entries USING btree (created_at DESC);
+
+CREATE INDEX idx_leaderboard_mode_created_at ON public.leaderboard_entries USING btree (game_mode, created_at DESC);
+
+
+--
+-- Name: leaderboard_window_start(text); Type: FUNCTION; Schema: public; Owner: -
+--
+
+CREATE FUNCTION public.leaderboard_window_start(p_window text) RETURNS timestamp with time zone
+    LANGUAGE plpgsql STABLE
+    SET search_path TO 'public'
+    AS $$
+BEGIN
+  CASE p_window
+    WHEN 'daily' THEN RETURN date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+    WHEN 'weekly' THEN RETURN date_trunc('week', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+    WHEN 'all_time' THEN RETURN '-infinity'::timestamp with time zone;
+    ELSE RAISE EXCEPTION 'Unknown leaderboard window: %', p_window;
+  END CASE;
+END;
+$$;
+
+
+--
+-- Name: get_leaderboard(text, public.game_mode, integer); Type: FUNCTION; Schema: public; Owner: -
+-- Top runs submitted in the window, optionally for one mode. Returns table
+-- rows so callers can embed profiles and replays as with a plain select.
+--
+
+CREATE FUNCTION public.get_leaderboard(p_window text, p_game_mode public.game_mode DEFAULT NULL::public.game_mode, p_limit integer DEFAULT 50) RETURNS SETOF public.leaderboard_entries
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  SELECT e.*
+  FROM public.leaderboard_entries e
+  WHERE e.created_at >= public.leaderboard_window_start(p_window)
+    AND (p_game_mode IS NULL OR e.game_mode = p_game_mode)
+  ORDER BY e.score DESC, e.created_at
+  LIMIT least(greatest(p_limit, 1), 100);
+$$;
@@ -0,0 +1,32 @@
+-- The leaderboard shows each player's best run per mode in the window, so one
+-- player can't fill the board with repeated runs. Ties go to the faster run,
+-- then to whoever got there first.
+
+CREATE INDEX idx_leaderboard_user_mode_best ON public.leaderboard_entries USING btree (user_id, game_mode, score DESC, time_seconds, created_at);
+
+
+--
+-- Name: get_leaderboard(text, public.game_mode, date, integer); Type: FUNCTION; Schema: public; Owner: -
+-- Each player's best run per mode submitted in the window, optionally for one
+-- mode and one Daily Seed day. Returns table rows so callers can embed
+-- profiles and replays; callers still choose columns and leave out user_id.
+--
+
+DROP FUNCTION public.get_leaderboard(text, public.game_mode, integer);
+
+CREATE FUNCTION public.get_leaderboard(p_window text, p_game_mode public.game_mode DEFAULT NULL::public.game_mode, p_daily_date date DEFAULT NULL::date, p_limit integer DEFAULT 50) RETURNS SETOF public.leaderboard_entries
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  SELECT best.*
+  FROM (
+    SELECT DISTINCT ON (e.user_id, e.game_mode) e.*
+    FROM public.leaderboard_entries e
+    WHERE e.created_at >= public.leaderboard_window_start(p_window)
+      AND (p_game_mode IS NULL OR e.game_mode = p_game_mode)
+      AND (p_daily_date IS NULL OR e.daily_date = p_daily_date)
+    ORDER BY e.user_id, e.game_mode, e.score DESC, e.time_seconds NULLS LAST, e.created_at
+  ) best
+  ORDER BY best.score DESC, best.time_seconds NULLS LAST, best.created_at
+  LIMIT least(greatest(p_limit, 1), 100);
+$$;
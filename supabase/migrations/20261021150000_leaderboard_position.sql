@@ -0,0 +1,58 @@
+-- "Around me": the signed-in player's place on the leaderboard, with the
+-- players just above and below. Ranks the same best-per-player rows as
+-- get_leaderboard, so the numbers match the board.
+
+--
+-- Name: get_leaderboard_position(text, public.game_mode, date, integer); Type: FUNCTION; Schema: public; Owner: -
+-- Rows within p_neighbours places of the player's best row, each with its rank
+-- and the number of ranked rows. Empty when the player has no run in the
+-- window. Leaves out user_id like the leaderboard does.
+--
+
+CREATE FUNCTION public.get_leaderboard_position(p_window text, p_game_mode public.game_mode DEFAULT NULL::public.game_mode, p_daily_date date DEFAULT NULL::date, p_neighbours integer DEFAULT 5) RETURNS TABLE(rank bigint, total_ranked bigint, percentile integer, is_me boolean, id uuid, profile_id uuid, game_mode public.game_mode, score integer, hands_played integer, time_seconds integer, best_hand text, ssc_level integer, daily_date date, created_at timestamp with time zone, username text, avatar_url text, replay_id uuid)
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  WITH best AS (
+    SELECT DISTINCT ON (e.user_id, e.game_mode) e.*
+    FROM public.leaderboard_entries e
+    WHERE e.created_at >= public.leaderboard_window_start(p_window)
+      AND (p_game_mode IS NULL OR e.game_mode = p_game_mode)
+      AND (p_daily_date IS NULL OR e.daily_date = p_daily_date)
+    ORDER BY e.user_id, e.game_mode, e.score DESC, e.time_seconds NULLS LAST, e.created_at
+  ),
+  ranked AS (
+    SELECT
+      b.*,
+      row_number() OVER (ORDER BY b.score DESC, b.time_seconds NULLS LAST, b.created_at) AS place,
+      count(*) OVER () AS total
+    FROM best b
+  ),
+  me AS (
+    SELECT min(r.place) AS place FROM ranked r WHERE r.user_id = auth.uid()
+  )
+  SELECT
+    r.place,
+    r.total,
+    ceil(r.place * 100.0 / r.total)::integer,
+    r.place = me.place,
+    r.id,
+    r.profile_id,
+    r.game_mode,
+    r.score,
+    r.hands_played,
+    r.time_seconds,
+    r.best_hand,
+    r.ssc_level,
+    r.daily_date,
+    r.created_at,
+    p.username,
+    p.avatar_url,
+    rp.id
+  FROM ranked r
+  CROSS JOIN me
+  LEFT JOIN public.profiles p ON p.id = r.profile_id
+  LEFT JOIN public.replays rp ON rp.leaderboard_entry_id = r.id
+  WHERE r.place BETWEEN me.place - least(greatest(p_neighbours, 0), 25) AND me.place + least(greatest(p_neighbours, 0), 25)
+  ORDER BY r.place;
+$$;
@@ -0,0 +1,111 @@
+-- Per-level SSC records. submit-score stores one row for every numbered level
+-- a verified SSC run cleared (levelClears in src/lib/replayVerifier.ts), so
+-- each level gets its own fastest-clear leaderboard.
+
+--
+-- Name: ssc_level_clears; Type: TABLE; Schema: public; Owner: -
+-- Written only by submit-score; read through the functions below, which leave
+-- out user_id.
+--
+
+CREATE TABLE public.ssc_level_clears (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    profile_id uuid NOT NULL,
+    leaderboard_entry_id uuid NOT NULL,
+    level integer NOT NULL,
+    level_score integer NOT NULL,
+    level_goal integer NOT NULL,
+    time_seconds integer NOT NULL,
+    star_rating integer NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    CONSTRAINT ssc_level_clears_level_check CHECK ((level > 0)),
+    CONSTRAINT ssc_level_clears_score_check CHECK ((level_score >= level_goal))
+);
+
+ALTER TABLE ONLY public.ssc_level_clears
+    ADD CONSTRAINT ssc_level_clears_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.ssc_level_clears
+    ADD CONSTRAINT ssc_level_clears_entry_level_key UNIQUE (leaderboard_entry_id, level);
+
+ALTER TABLE ONLY public.ssc_level_clears
+    ADD CONSTRAINT ssc_level_clears_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.ssc_level_clears
+    ADD CONSTRAINT ssc_level_clears_profile_id_fkey FOREIGN KEY (profile_id) REFERENCES public.profiles(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.ssc_level_clears
+    ADD CONSTRAINT ssc_level_clears_leaderboard_entry_id_fkey FOREIGN KEY (leaderboard_entry_id) REFERENCES public.leaderboard_entries(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_ssc_level_clears_fastest ON public.ssc_level_clears USING btree (level, time_seconds, level_score DESC, created_at);
+
+CREATE INDEX idx_ssc_level_clears_user_level ON public.ssc_level_clears USING btree (user_id, level, time_seconds);
+
+CREATE POLICY "Users can view own level clears" ON public.ssc_level_clears FOR SELECT USING ((auth.uid() = user_id));
+
+ALTER TABLE public.ssc_level_clears ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: get_level_leaderboard(integer, integer); Type: FUNCTION; Schema: public; Owner: -
+-- Each player's fastest clear of one level. Ties go to the higher level score,
+-- then to whoever got there first.
+--
+
+CREATE FUNCTION public.get_level_leaderboard(p_level integer, p_limit integer DEFAULT 20) RETURNS TABLE(rank bigint, is_me boolean, time_seconds integer, level_score integer, level_goal integer, star_rating integer, created_at timestamp with time zone, username text, avatar_url text, replay_id uuid)
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  WITH best AS (
+    SELECT DISTINCT ON (c.user_id) c.*
+    FROM public.ssc_level_clears c
+    WHERE c.level = p_level
+    ORDER BY c.user_id, c.time_seconds, c.level_score DESC, c.created_at
+  )
+  SELECT
+    row_number() OVER (ORDER BY b.time_seconds, b.level_score DESC, b.created_at),
+    b.user_id = auth.uid(),
+    b.time_seconds,
+    b.level_score,
+    b.level_goal,
+    b.star_rating,
+    b.created_at,
+    p.username,
+    p.avatar_url,
+    rp.id
+  FROM best b
+  LEFT JOIN public.profiles p ON p.id = b.profile_id
+  LEFT JOIN public.replays rp ON rp.leaderboard_entry_id = b.leaderboard_entry_id
+  ORDER BY b.time_seconds, b.level_score DESC, b.created_at
+  LIMIT least(greatest(p_limit, 1), 100);
+$$;
+
+
+--
+-- Name: get_level_records(); Type: FUNCTION; Schema: public; Owner: -
+-- The world record (fastest clear) of every level cleared so far, with the
+-- signed-in player's own best time for the level select view.
+--
+
+CREATE FUNCTION public.get_level_records() RETURNS TABLE(level integer, time_seconds integer, star_rating integer, username text, my_time_seconds integer, my_star_rating integer)
+    LANGUAGE sql STABLE SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+  WITH records AS (
+    SELECT DISTINCT ON (c.level) c.*
+    FROM public.ssc_level_clears c
+    ORDER BY c.level, c.time_seconds, c.level_score DESC, c.created_at
+  ),
+  mine AS (
+    SELECT DISTINCT ON (c.level) c.level, c.time_seconds, c.star_rating
+    FROM public.ssc_level_clears c
+    WHERE c.user_id = auth.uid()
+    ORDER BY c.level, c.time_seconds, c.level_score DESC, c.created_at
+  )
+  SELECT r.level, r.time_seconds, r.star_rating, p.username, m.time_seconds, m.star_rating
+  FROM records r
+  LEFT JOIN public.profiles p ON p.id = r.profile_id
+  LEFT JOIN mine m ON m.level = r.level
+  ORDER BY r.level;
+$$;
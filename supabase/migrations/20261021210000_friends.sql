@@ -0,0 +1,256 @@
+-- Friends: players send friend requests by username and accept or decline
+-- them, and the leaderboard can be filtered down to the player and their
+-- friends.
+
+--
+-- Name: friendships; Type: TABLE; Schema: public; Owner: -
+-- One row per pair of players, pending until the addressee accepts. Only the
+-- two players can see or delete it (decline, cancel, unfriend); requests and
+-- accepts go through the functions below.
+--
+
+CREATE TABLE public.friendships (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    requester_id uuid NOT NULL,
+    addressee_id uuid NOT NULL,
+    status text DEFAULT 'pending'::text NOT NULL,
+    created_at timestamp with time zone DEFAULT now() NOT NULL,
+    responded_at timestamp with time zone,
+    CONSTRAINT friendships_status_check CHECK ((status = ANY (ARRAY['pending'::text, 'accepted'::text]))),
+    CONSTRAINT friendships_not_self_check CHECK ((requester_id <> addressee_id))
+);
+
+ALTER TABLE ONLY public.friendships
+    ADD CONSTRAINT friendships_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.friendships
+    ADD CONSTRAINT friendships_requester_id_fkey FOREIGN KEY (requester_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+ALTER TABLE ONLY public.friendships
+    ADD CONSTRAINT friendships_addressee_id_fkey FOREIGN KEY (addressee_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- One friendship per pair, whichever player asked first
+CREATE UNIQUE INDEX idx_friendships_pair ON public.friendships USING btree (LEAST(requester_id, addressee_id), GREATEST(requester_id, addressee_id));
+
+CREATE INDEX idx_friendships_addressee ON public.friendships USING btree (addressee_id);
+
+CREATE POLICY "Users can view own friendships" ON public.friendships FOR SELECT USING (((auth.uid() = requester_id) OR (auth.uid() = addressee_id)));
+
+CREATE POLICY "Users can delete own friendships" ON public.friendships FOR DELETE USING (((auth.uid() = requester_id) OR (auth.uid() = addressee_id)));
+
+ALTER TABLE public.friendships ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: send_friend_request(text); Type: FUNCTION; Schema: public; Owner: -
+-- Looks the player up by username. If they already asked us, this accepts
+-- their request instead. Returns the friendship's status.
+--
+
+CREATE FUNCTION public.send_friend_request(p_username text) RETURNS text
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_friend_id uuid;
+  v_existing public.friendships;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT user_id INTO v_friend_id
+  FROM public.profiles
+  WHERE username = trim(p_username)
+  ORDER BY created_at
+  LIMIT 1;
+  IF v_friend_id IS NULL THEN
+    RAISE EXCEPTION 'Player not found';
+  END IF;
+
+  IF v_friend_id = v_user_id THEN
+    RAISE EXCEPTION 'You can''t add yourself';
+  END IF;
+
+  SELECT * INTO v_existing
+  FROM public.friendships
+  WHERE (requester_id = v_user_id AND addressee_id = v_friend_id)
+     OR (requester_id = v_friend_id AND addressee_id = v_user_id);
+
+  IF v_existing.id IS NULL THEN
+    INSERT INTO public.friendships (requester_id, addressee_id) VALUES (v_user_id, v_friend_id);
+    RETURN 'pending';
+  END IF;
+
+  IF v_existing.status = 'accepted' THEN
+    RAISE EXCEPTION 'Already friends';
+  END IF;
+
+  IF v_existing.requester_id = v_user_id THEN
+    RAISE EXCEPTION 'Friend request already sent';
+  END IF;
+
+  UPDATE public.friendships SET status = 'accepted', responded_at = now() WHERE id = v_existing.id;
+  RETURN 'accepted';
+END;
+$$;
+
+
+--
+-- Name: respond_friend_request(uuid, boolean); Type: FUNCTION; Schema: public; Owner: -
+-- Accepts or declines a pending request sent to the signed-in player. A
+-- declined request is deleted, so it can be sent again later.
+--
+
+CREATE FUNCTION public.respond_friend_request(p_friendship_id uuid, p_accept boolean) RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.friendships
+    WHERE id = p_friendship_id AND addressee_id = v_user_id AND status = 'pending'
+  ) THEN
+    RAISE EXCEPTION 'Friend request not found';
+  END IF;
+
+  IF p_accept THEN
+    UPDATE public.friendships SET status = 'accepted', responded_at = now() WHERE id = p_friendship_id;
+  ELSE
+    DELETE FROM public.friendships WHERE id = p_friendship_id;
+  END IF;
+END;
+$$;
+
+
+--
+-- Name: get_friends(); Type: FUNCTION; Schema: public; Owner: -
+-- The signed-in player's friends and pending requests both ways, with the
+-- other player's profile. Leaves out user ids.
+--
+
+CREATE FUNCTION public.get_friends() RETURNS TABLE(friendship_id uuid, status text, incoming boolean, username text, avatar_url text, created_at timestamp with time zone)
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  SELECT
+    f.id,
+    f.status,
+    f.addressee_id = auth.uid(),
+    p.username,
+    p.avatar_url,
+    coalesce(f.responded_at, f.created_at)
+  FROM public.friendships f
+  LEFT JOIN public.profiles p
+    ON p.user_id = CASE WHEN f.requester_id = auth.uid() THEN f.addressee_id ELSE f.requester_id END
+  WHERE auth.uid() IN (f.requester_id, f.addressee_id)
+  ORDER BY f.status DESC, p.username;
+$$;
+
+
+--
+-- Name: friend_user_ids(); Type: FUNCTION; Schema: public; Owner: -
+-- The signed-in player's accepted friends, for the friends-only leaderboard.
+-- Runs as the caller, so RLS keeps it to their own friendships.
+--
+
+CREATE FUNCTION public.friend_user_ids() RETURNS SETOF uuid
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  SELECT CASE WHEN f.requester_id = auth.uid() THEN f.addressee_id ELSE f.requester_id END
+  FROM public.friendships f
+  WHERE f.status = 'accepted'
+    AND auth.uid() IN (f.requester_id, f.addressee_id);
+$$;
+
+
+--
+-- Name: get_leaderboard(text, public.game_mode, date, integer, boolean); Type: FUNCTION; Schema: public; Owner: -
+-- As before, with p_friends_only keeping the board to the signed-in player and
+-- their friends.
+--
+
+DROP FUNCTION public.get_leaderboard(text, public.game_mode, date, integer);
+
+CREATE FUNCTION public.get_leaderboard(p_window text, p_game_mode public.game_mode DEFAULT NULL::public.game_mode, p_daily_date date DEFAULT NULL::date, p_limit integer DEFAULT 50, p_friends_only boolean DEFAULT false) RETURNS SETOF public.leaderboard_entries
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  SELECT best.*
+  FROM (
+    SELECT DISTINCT ON (e.user_id, e.game_mode) e.*
+    FROM public.leaderboard_entries e
+    WHERE e.created_at >= public.leaderboard_window_start(p_window)
+      AND (p_game_mode IS NULL OR e.game_mode = p_game_mode)
+      AND (p_daily_date IS NULL OR e.daily_date = p_daily_date)
+      AND (NOT p_friends_only OR e.user_id = auth.uid() OR e.user_id IN (SELECT public.friend_user_ids()))
+    ORDER BY e.user_id, e.game_mode, e.score DESC, e.time_seconds NULLS LAST, e.created_at
+  ) best
+  ORDER BY best.score DESC, best.time_seconds NULLS LAST, best.created_at
+  LIMIT least(greatest(p_limit, 1), 100);
+$$;
+
+
+--
+-- Name: get_leaderboard_position(text, public.game_mode, date, integer, boolean); Type: FUNCTION; Schema: public; Owner: -
+-- As before, ranking among friends when p_friends_only is set.
+--
+
+DROP FUNCTION public.get_leaderboard_position(text, public.game_mode, date, integer);
+
+CREATE FUNCTION public.get_leaderboard_position(p_window text, p_game_mode public.game_mode DEFAULT NULL::public.game_mode, p_daily_date date DEFAULT NULL::date, p_neighbours integer DEFAULT 5, p_friends_only boolean DEFAULT false) RETURNS TABLE(rank bigint, total_ranked bigint, percentile integer, is_me boolean, id uuid, profile_id uuid, game_mode public.game_mode, score integer, hands_played integer, time_seconds integer, best_hand text, ssc_level integer, daily_date date, created_at timestamp with time zone, username text, avatar_url text, replay_id uuid)
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  WITH best AS (
+    SELECT DISTINCT ON (e.user_id, e.game_mode) e.*
+    FROM public.leaderboard_entries e
+    WHERE e.created_at >= public.leaderboard_window_start(p_window)
+      AND (p_game_mode IS NULL OR e.game_mode = p_game_mode)
+      AND (p_daily_date IS NULL OR e.daily_date = p_daily_date)
+      AND (NOT p_friends_only OR e.user_id = auth.uid() OR e.user_id IN (SELECT public.friend_user_ids()))
+    ORDER BY e.user_id, e.game_mode, e.score DESC, e.time_seconds NULLS LAST, e.created_at
+  ),
+  ranked AS (
+    SELECT
+      b.*,
+      row_number() OVER (ORDER BY b.score DESC, b.time_seconds NULLS LAST, b.created_at) AS place,
+      count(*) OVER () AS total
+    FROM best b
+  ),
+  me AS (
+    SELECT min(r.place) AS place FROM ranked r WHERE r.user_id = auth.uid()
+  )
+  SELECT
+    r.place,
+    r.total,
+    ceil(r.place * 100.0 / r.total)::integer,
+    r.place = me.place,
+    r.id,
+    r.profile_id,
+    r.game_mode,
+    r.score,
+    r.hands_played,
+    r.time_seconds,
+    r.best_hand,
+    r.ssc_level,
+    r.daily_date,
+    r.created_at,
+    p.username,
+    p.avatar_url,
+    rp.id
+  FROM ranked r
+  CROSS JOIN me
+  LEFT JOIN public.profiles p ON p.id = r.profile_id
+  LEFT JOIN public.replays rp ON rp.leaderboard_entry_id = r.id
+  WHERE r.place BETWEEN me.place - least(greatest(p_neighbours, 0), 25) AND me.place + least(greatest(p_neighbours, 0), 25)
+  ORDER BY r.place;
+$$;
@@ -0,0 +1,39 @@
+-- Ranked Daily Seed runs are tied to the attempt they were claimed for. The
+-- seed is public, so "the attempt exists" alone would let a player claim it,
+-- practise as often as they like and submit their best replay. Instead the
+-- claim hands out a one-off run nonce, the client binds it into that run's
+-- replay, and submit-score spends it.
+
+ALTER TABLE public.daily_attempts ADD COLUMN run_nonce uuid DEFAULT gen_random_uuid() NOT NULL;
+
+ALTER TABLE public.daily_attempts ADD COLUMN submitted_at timestamp with time zone;
+
+-- Attempts are only claimed through claim_daily_attempt now
+DROP POLICY "Users can insert own daily attempts" ON public.daily_attempts;
+
+
+--
+-- Name: claim_daily_attempt(); Type: FUNCTION; Schema: public; Owner: -
+-- Claims the signed-in player's attempt for the current UTC day and returns
+-- its run nonce. A second claim fails with a unique violation.
+--
+
+CREATE FUNCTION public.claim_daily_attempt() RETURNS uuid
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_nonce uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.daily_attempts (user_id, attempt_date)
+  VALUES (v_user_id, (now() AT TIME ZONE 'utc')::date)
+  RETURNING run_nonce INTO v_nonce;
+
+  RETURN v_nonce;
+END;
+$$;
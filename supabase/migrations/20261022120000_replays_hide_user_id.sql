@@ -0,0 +1,6 @@
+-- Replays stay readable by anyone who can see the board, but not who recorded
+-- them: user_id is left out of the columns clients may select. The board
+-- links a replay through its leaderboard entry and profile, never the user id.
+
+REVOKE SELECT ON public.replays FROM anon, authenticated;
+GRANT SELECT (id, leaderboard_entry_id, game_mode, seed, version, log, created_at) ON public.replays TO anon, authenticated;
@@ -0,0 +1,63 @@
+-- Challenge progress comes from verified runs only. Clients could set
+-- current_value and completed directly, and completing a challenge earns
+-- season XP (complete_challenge) and unlocks claimable rewards, so a player
+-- could finish every challenge without playing. submit-score now records each
+-- accepted run's progress through record_challenge_progress.
+
+REVOKE UPDATE ON public.daily_challenges FROM anon, authenticated;
+
+
+--
+-- Name: record_challenge_progress(uuid, integer, integer, integer, integer, integer); Type: FUNCTION; Schema: public; Owner: -
+-- Adds a verified run to the player's current challenges: today's dailies,
+-- this week's weeklies and the chain step in progress. Challenges are rolled
+-- by get_challenges, so a run only counts towards ones the player has seen.
+-- Called by submit-score only.
+--
+
+CREATE FUNCTION public.record_challenge_progress(p_user_id uuid, p_score integer, p_ssc_level integer, p_flushes integer, p_straights integer, p_full_houses integer) RETURNS void
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_today date;
+  v_week_start date;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('daily_challenges:' || p_user_id::text));
+
+  v_today := (now() AT TIME ZONE coalesce((SELECT timezone FROM public.user_timezones WHERE user_id = p_user_id), 'UTC'))::date;
+  v_week_start := date_trunc('week', v_today)::date;
+
+  UPDATE public.daily_challenges c
+  SET current_value = least(c.current_value + progress.increment, c.target_value),
+      completed = c.current_value + progress.increment >= c.target_value
+  FROM (
+    SELECT
+      d.id,
+      CASE d.challenge_type
+        WHEN 'play_games' THEN 1
+        WHEN 'make_flush' THEN p_flushes
+        WHEN 'make_straight' THEN p_straights
+        WHEN 'make_full_house' THEN p_full_houses
+        WHEN 'score_target' THEN CASE WHEN p_score >= d.target_value THEN d.target_value ELSE 0 END
+        WHEN 'score_total' THEN p_score
+        -- Highest level reached, not a running total
+        WHEN 'reach_ssc_level' THEN greatest(coalesce(p_ssc_level, 0) - d.current_value, 0)
+        ELSE 0
+      END AS increment
+    FROM public.daily_challenges d
+    WHERE d.user_id = p_user_id
+      AND NOT d.completed
+      AND (
+        (d.period = 'daily' AND d.challenge_date = v_today)
+        OR (d.period = 'weekly' AND d.challenge_date = v_week_start)
+        OR d.period = 'chain'
+      )
+  ) progress
+  WHERE c.id = progress.id
+    AND progress.increment > 0;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_challenge_progress(uuid, integer, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_challenge_progress(uuid, integer, integer, integer, integer, integer) TO service_role;
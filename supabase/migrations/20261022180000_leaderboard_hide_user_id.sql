@@ -0,0 +1,45 @@
+-- get_leaderboard returned whole leaderboard_entries rows, user_id included,
+-- so anyone reading the board could tie a run to an account. It now returns
+-- the columns the board shows, with the profile and replay joined in the way
+-- get_leaderboard_position already does.
+
+--
+-- Name: get_leaderboard(text, public.game_mode, date, integer, boolean); Type: FUNCTION; Schema: public; Owner: -
+-- As before, without user_id: each player's best run per mode in the window,
+-- with their username, avatar and replay.
+--
+
+DROP FUNCTION public.get_leaderboard(text, public.game_mode, date, integer, boolean);
+
+CREATE FUNCTION public.get_leaderboard(p_window text, p_game_mode public.game_mode DEFAULT NULL::public.game_mode, p_daily_date date DEFAULT NULL::date, p_limit integer DEFAULT 50, p_friends_only boolean DEFAULT false) RETURNS TABLE(id uuid, profile_id uuid, game_mode public.game_mode, score integer, hands_played integer, time_seconds integer, best_hand text, ssc_level integer, daily_date date, created_at timestamp with time zone, username text, avatar_url text, replay_id uuid)
+    LANGUAGE sql STABLE
+    SET search_path TO 'public'
+    AS $$
+  SELECT
+    best.id,
+    best.profile_id,
+    best.game_mode,
+    best.score,
+    best.hands_played,
+    best.time_seconds,
+    best.best_hand,
+    best.ssc_level,
+    best.daily_date,
+    best.created_at,
+    p.username,
+    p.avatar_url,
+    rp.id
+  FROM (
+    SELECT DISTINCT ON (e.user_id, e.game_mode) e.*
+    FROM public.leaderboard_entries e
+    WHERE e.created_at >= public.leaderboard_window_start(p_window)
+      AND (p_game_mode IS NULL OR e.game_mode = p_game_mode)
+      AND (p_daily_date IS NULL OR e.daily_date = p_daily_date)
+      AND (NOT p_friends_only OR e.user_id = auth.uid() OR e.user_id IN (SELECT public.friend_user_ids()))
+    ORDER BY e.user_id, e.game_mode, e.score DESC, e.time_seconds NULLS LAST, e.created_at
+  ) best
+  LEFT JOIN public.profiles p ON p.id = best.profile_id
+  LEFT JOIN public.replays rp ON rp.leaderboard_entry_id = best.id
+  ORDER BY best.score DESC, best.time_seconds NULLS LAST, best.created_at
+  LIMIT least(greatest(p_limit, 1), 100);
+$$;
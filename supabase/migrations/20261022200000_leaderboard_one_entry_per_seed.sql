@@ -0,0 +1,27 @@
+-- A verified replay could be sent to submit-score again and again: only Daily
+-- Seed runs carry a single-use nonce, so every resend of another mode's run
+-- added a leaderboard row and paid out its power-ups, XP, challenge progress
+-- and 2x points game once more. Entries now keep their run's seed, and a
+-- player gets one entry per mode and seed - the insert fails before anything
+-- is granted.
+
+ALTER TABLE public.leaderboard_entries ADD COLUMN seed bigint;
+
+-- Existing entries take the seed of their replay; where a run was already
+-- submitted more than once, only the first entry claims it
+UPDATE public.leaderboard_entries e
+SET seed = r.seed
+FROM public.replays r
+WHERE r.leaderboard_entry_id = e.id
+  AND NOT EXISTS (
+    SELECT 1
+    FROM public.leaderboard_entries o
+    JOIN public.replays ro ON ro.leaderboard_entry_id = o.id
+    WHERE o.user_id = e.user_id
+      AND o.game_mode = e.game_mode
+      AND ro.seed = r.seed
+      AND (o.created_at, o.id) < (e.created_at, e.id)
+  );
+
+ALTER TABLE ONLY public.leaderboard_entries
+    ADD CONSTRAINT leaderboard_entries_user_id_game_mode_seed_key UNIQUE (user_id, game_mode, seed);
@@ -0,0 +1,59 @@
+-- Any signed-in client could insert any user_unlocks row, so the season pass
+-- card backs and theme, and the extra loadout slots, were free for the asking.
+-- Clients keep inserting their achievement card backs; season pass rewards
+-- come from claim_season_reward and loadout slots from unlock_loadout_slot.
+
+DROP POLICY "Users can insert own unlocks" ON public.user_unlocks;
+
+CREATE POLICY "Users can insert own achievement unlocks" ON public.user_unlocks FOR INSERT WITH CHECK (((auth.uid() = user_id) AND (EXISTS ( SELECT 1
+   FROM public.unlockables u
+  WHERE ((u.id = user_unlocks.unlockable_id) AND (u.unlock_method <> 'season_pass'::text) AND (u.type <> 'loadout_slot'::text))))));
+
+
+--
+-- Name: unlock_loadout_slot(text); Type: FUNCTION; Schema: public; Owner: -
+-- Unlocks a loadout slot once its achievement's requirement is met by the
+-- player's leaderboard entries (games played, or best score), which only
+-- submit-score writes. Returns whether the slot is unlocked.
+--
+
+CREATE FUNCTION public.unlock_loadout_slot(p_unlockable_id text) RETURNS boolean
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_achievement record;
+  v_progress integer;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT requirement_type, requirement_value INTO v_achievement
+  FROM public.achievements
+  WHERE reward_type = 'loadout_slot' AND reward_id = p_unlockable_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Unknown loadout slot %', p_unlockable_id;
+  END IF;
+
+  SELECT CASE v_achievement.requirement_type
+    WHEN 'games_played' THEN count(*)::integer
+    WHEN 'score' THEN coalesce(max(score), 0)
+    ELSE 0
+  END INTO v_progress
+  FROM public.leaderboard_entries
+  WHERE user_id = v_user_id;
+
+  IF v_progress < v_achievement.requirement_value THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.user_unlocks (user_id, unlockable_id)
+  VALUES (v_user_id, p_unlockable_id)
+  ON CONFLICT (user_id, unlockable_id) DO NOTHING;
+
+  RETURN true;
+END;
+$$;
@@ -0,0 +1,54 @@
+-- SSC level clears were timed from the client's own event timestamps, so a log
+-- could compress them into record times. Signed-in SSC runs now note their
+-- start with start_run, and submit-score holds the log to the time that has
+-- passed on the server since then before it stores any clears.
+
+--
+-- Name: run_starts; Type: TABLE; Schema: public; Owner: -
+-- One row per signed-in SSC run. The replay carries its id; submit-score
+-- spends it with the run's leaderboard entry.
+--
+
+CREATE TABLE public.run_starts (
+    id uuid DEFAULT gen_random_uuid() NOT NULL,
+    user_id uuid NOT NULL,
+    game_mode public.game_mode NOT NULL,
+    started_at timestamp with time zone DEFAULT now() NOT NULL,
+    submitted_at timestamp with time zone
+);
+
+ALTER TABLE ONLY public.run_starts
+    ADD CONSTRAINT run_starts_pkey PRIMARY KEY (id);
+
+ALTER TABLE ONLY public.run_starts
+    ADD CONSTRAINT run_starts_user_id_fkey FOREIGN KEY (user_id) REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE POLICY "Users can view own run starts" ON public.run_starts FOR SELECT USING ((auth.uid() = user_id));
+
+ALTER TABLE public.run_starts ENABLE ROW LEVEL SECURITY;
+
+
+--
+-- Name: start_run(public.game_mode); Type: FUNCTION; Schema: public; Owner: -
+-- Notes the start of a run on the server's clock and returns its id.
+--
+
+CREATE FUNCTION public.start_run(p_game_mode public.game_mode) RETURNS uuid
+    LANGUAGE plpgsql SECURITY DEFINER
+    SET search_path TO 'public'
+    AS $$
+DECLARE
+  v_user_id uuid := auth.uid();
+  v_run_id uuid;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.run_starts (user_id, game_mode)
+  VALUES (v_user_id, p_game_mode)
+  RETURNING id INTO v_run_id;
+
+  RETURN v_run_id;
+END;
+$$;